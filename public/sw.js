@@ -0,0 +1,91 @@
+// SatsTracker service worker: keeps the app shell available offline and
+// tells open windows to catch up when Background Sync fires.
+//
+// Vite fingerprints everything under /assets/, so those are cached forever
+// the first time they load. Pages go network-first with the cached shell as
+// the fallback. API calls to other origins are left alone; the app keeps its
+// own copy of the last good data.
+//
+// Each build registers the worker with its own `?build=` id, so a deploy
+// installs a fresh cache and activation drops the old one with the assets
+// only the previous build referenced.
+
+const BUILD = new URL(self.location.href).searchParams.get("build") || "dev";
+const CACHE = `sats-tracker-shell-${BUILD}`;
+const SHELL = ["/", "/index.html", "/manifest.webmanifest", "/icon.svg"];
+const CATCH_UP_TAG = "catch-up";
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(
+    caches
+      .open(CACHE)
+      .then((cache) => cache.addAll(SHELL))
+      .then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((keys) =>
+        Promise.all(
+          keys.filter((key) => key !== CACHE).map((key) => caches.delete(key))
+        )
+      )
+      .then(() => self.clients.claim())
+  );
+});
+
+const cacheFirst = async (request) => {
+  const cached = await caches.match(request);
+  if (cached) return cached;
+  const response = await fetch(request);
+  if (response.ok) {
+    const cache = await caches.open(CACHE);
+    cache.put(request, response.clone());
+  }
+  return response;
+};
+
+const networkFirst = async (request, fallback) => {
+  try {
+    const response = await fetch(request);
+    if (response.ok) {
+      const cache = await caches.open(CACHE);
+      cache.put(request, response.clone());
+    }
+    return response;
+  } catch (error) {
+    const cached =
+      (await caches.match(request)) ||
+      (fallback && (await caches.match(fallback)));
+    if (cached) return cached;
+    throw error;
+  }
+};
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event;
+  const url = new URL(request.url);
+  if (request.method !== "GET" || url.origin !== self.location.origin) return;
+
+  if (request.mode === "navigate") {
+    event.respondWith(networkFirst(request, "/index.html"));
+  } else if (url.pathname.startsWith("/assets/")) {
+    event.respondWith(cacheFirst(request));
+  } else {
+    event.respondWith(networkFirst(request));
+  }
+});
+
+self.addEventListener("sync", (event) => {
+  if (event.tag !== CATCH_UP_TAG) return;
+  event.waitUntil(
+    self.clients
+      .matchAll({ type: "window" })
+      .then((clients) =>
+        clients.forEach((client) => client.postMessage({ type: CATCH_UP_TAG }))
+      )
+  );
+});
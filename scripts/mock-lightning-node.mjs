@@ -0,0 +1,208 @@
+// Mock Lightning node REST API for developing node tracking offline.
+//
+//   node scripts/mock-lightning-node.mjs [port]
+//
+// Then track a Lightning node at http://localhost:8180 with either
+// implementation: it answers LND's GET /v1/... endpoints (macaroon in
+// Grpc-Metadata-macaroon) and CLN clnrest's POST /v1/<method> (Rune header).
+// Any non-empty credential is accepted. Payments route through the channels
+// in the background, so balances shift and HTLCs come and go between
+// refreshes.
+
+import { createServer } from "node:http";
+import { randomBytes } from "node:crypto";
+
+const PORT = Number(process.argv[2] || process.env.PORT || 8180);
+const ROUTE_INTERVAL = 4_000;
+
+const PUBKEY = "02" + randomBytes(32).toString("hex");
+const ALIAS = "mock-node";
+
+// Sats; `local` is our side of each channel
+const channels = [
+  { id: "850000x1x0", capacity: 2_000_000, local: 1_200_000, active: true },
+  { id: "850100x7x1", capacity: 5_000_000, local: 2_650_000, active: true },
+  { id: "851200x3x0", capacity: 1_000_000, local: 140_000, active: false },
+];
+let htlcs = []; // { channel, amount, outgoing }
+const onchain = { confirmed: 735_000, unconfirmed: 21_000 };
+
+// Settles last round's HTLCs and offers new ones, moving balances around
+setInterval(() => {
+  htlcs.forEach(({ channel, amount, outgoing }) => {
+    channel.local += outgoing ? -amount : amount;
+  });
+  htlcs = channels
+    .filter((channel) => channel.active && Math.random() < 0.5)
+    .map((channel) => {
+      const outgoing = Math.random() < 0.5;
+      const room = outgoing ? channel.local : channel.capacity - channel.local;
+      return {
+        channel,
+        amount: Math.floor(Math.random() * Math.min(50_000, room)),
+        outgoing,
+      };
+    })
+    .filter(({ amount }) => amount > 0);
+  if (Math.random() < 0.2) {
+    onchain.confirmed += onchain.unconfirmed;
+    onchain.unconfirmed = Math.floor(Math.random() * 30_000);
+  }
+}, ROUTE_INTERVAL);
+
+// Outgoing HTLCs are out of `local` until they settle or fail
+const settledLocal = (channel) =>
+  channel.local -
+  htlcs
+    .filter((htlc) => htlc.channel === channel && htlc.outgoing)
+    .reduce((acc, curr) => acc + curr.amount, 0);
+
+const outgoingHtlcSats = () =>
+  htlcs
+    .filter((htlc) => htlc.outgoing)
+    .reduce((acc, curr) => acc + curr.amount, 0);
+
+const activeCount = () => channels.filter((channel) => channel.active).length;
+
+// --- LND ---
+
+const sat = (value) => ({ sat: String(value), msat: String(value * 1000) });
+
+const LND_ROUTES = {
+  "/v1/getinfo": () => ({
+    alias: ALIAS,
+    identity_pubkey: PUBKEY,
+    num_active_channels: activeCount(),
+    num_inactive_channels: channels.length - activeCount(),
+    num_pending_channels: 0,
+    synced_to_chain: true,
+  }),
+  "/v1/balance/channels": () => {
+    const local = channels.reduce((acc, curr) => acc + settledLocal(curr), 0);
+    return {
+      balance: String(local),
+      local_balance: sat(local),
+      remote_balance: sat(
+        channels.reduce((acc, curr) => acc + curr.capacity - curr.local, 0)
+      ),
+      unsettled_local_balance: sat(outgoingHtlcSats()),
+      pending_open_local_balance: sat(0),
+    };
+  },
+  "/v1/balance/blockchain": () => ({
+    total_balance: String(onchain.confirmed + onchain.unconfirmed),
+    confirmed_balance: String(onchain.confirmed),
+    unconfirmed_balance: String(onchain.unconfirmed),
+  }),
+};
+
+// --- CLN ---
+
+const CLN_METHODS = {
+  getinfo: () => ({
+    id: PUBKEY,
+    alias: ALIAS,
+    num_active_channels: activeCount(),
+    num_inactive_channels: channels.length - activeCount(),
+    num_pending_channels: 0,
+  }),
+  listfunds: () => ({
+    outputs: [
+      {
+        txid: "ab".repeat(32),
+        output: 0,
+        amount_msat: onchain.confirmed * 1000,
+        status: "confirmed",
+      },
+      {
+        txid: "cd".repeat(32),
+        output: 1,
+        amount_msat: onchain.unconfirmed * 1000,
+        status: "unconfirmed",
+      },
+    ].filter((output) => output.amount_msat > 0),
+    channels: channels.map((channel) => ({
+      short_channel_id: channel.id,
+      our_amount_msat: settledLocal(channel) * 1000,
+      amount_msat: channel.capacity * 1000,
+      state: "CHANNELD_NORMAL",
+      connected: channel.active,
+    })),
+  }),
+  listpeerchannels: () => ({
+    channels: channels.map((channel) => ({
+      short_channel_id: channel.id,
+      peer_connected: channel.active,
+      htlcs: htlcs
+        .filter((htlc) => htlc.channel === channel)
+        .map((htlc, i) => ({
+          direction: htlc.outgoing ? "out" : "in",
+          id: i,
+          amount_msat: htlc.amount * 1000,
+          state: htlc.outgoing
+            ? "SENT_ADD_ACK_REVOCATION"
+            : "RCVD_ADD_ACK_REVOCATION",
+        })),
+    })),
+  }),
+};
+
+// --- Server ---
+
+const CORS_HEADERS = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+  "Access-Control-Allow-Headers": "Grpc-Metadata-macaroon, Rune, Content-Type",
+};
+
+const reply = (response, status, body) => {
+  response.writeHead(status, {
+    ...CORS_HEADERS,
+    "Content-Type": "application/json",
+  });
+  response.end(JSON.stringify(body));
+};
+
+const server = createServer((request, response) => {
+  if (request.method === "OPTIONS") {
+    response.writeHead(204, CORS_HEADERS);
+    response.end();
+    return;
+  }
+  const path = new URL(request.url, "http://localhost").pathname;
+
+  const method = path.replace(/^\/v1\//, "");
+  const lnd =
+    request.method === "GET" && Object.hasOwn(LND_ROUTES, path)
+      ? LND_ROUTES[path]
+      : null;
+  const cln =
+    request.method === "POST" && Object.hasOwn(CLN_METHODS, method)
+      ? CLN_METHODS[method]
+      : null;
+  if (!lnd && !cln) {
+    reply(response, 404, { error: `No route for ${request.method} ${path}` });
+    return;
+  }
+
+  const credential = lnd
+    ? request.headers["grpc-metadata-macaroon"]
+    : request.headers["rune"];
+  if (!credential) {
+    reply(response, 401, {
+      error: lnd
+        ? "expected 1 macaroon, got 0"
+        : "Not authorized: Missing rune",
+    });
+    return;
+  }
+
+  console.log(`${lnd ? "LND" : "CLN"} ${request.method} ${path}`);
+  // Drain the (ignored) CLN params before answering
+  request.resume();
+  request.on("end", () => reply(response, 200, (lnd || cln)()));
+});
+
+server.listen(PORT, () => {
+  console.log(`Mock Lightning node REST API on http://localhost:${PORT}`);
+});
@@ -0,0 +1,240 @@
+// Mock mempool.space WebSocket server for developing live updates offline.
+//
+//   node scripts/mock-mempool-ws.mjs [port]
+//
+// Then set the WebSocket URL in Settings to ws://localhost:8999 (any path
+// works). It speaks the subset of the protocol the app uses: `want` for
+// blocks and stats, `track-addresses`, and `ping`. Every few seconds it
+// drifts the fees, puts a transaction for a random tracked address in the
+// mempool, and mines a block now and then that confirms them.
+//
+// No dependencies: the WebSocket handshake and framing are done by hand and
+// only cover unfragmented text frames, which is all the app sends.
+
+import { createServer } from "node:http";
+import { createHash, randomBytes } from "node:crypto";
+
+const PORT = Number(process.argv[2] || process.env.PORT || 8999);
+const WS_GUID = "258EAFA5-E914-47DA-95CA-C5AB0DC85B11";
+
+const FEE_INTERVAL = 5_000;
+const TX_INTERVAL = 8_000;
+const BLOCK_INTERVAL = 30_000;
+
+let height = 850_000;
+let fees = {
+  fastestFee: 24,
+  halfHourFee: 12,
+  hourFee: 6,
+  economyFee: 3,
+  minimumFee: 1,
+};
+const mempool = []; // { address, tx }
+const clients = new Set();
+
+// --- Framing ---
+
+const encodeFrame = (text, opcode = 0x1) => {
+  const payload = Buffer.from(text);
+  const length = payload.length;
+  let header;
+  if (length < 126) {
+    header = Buffer.from([0x80 | opcode, length]);
+  } else if (length < 65536) {
+    header = Buffer.alloc(4);
+    header[0] = 0x80 | opcode;
+    header[1] = 126;
+    header.writeUInt16BE(length, 2);
+  } else {
+    header = Buffer.alloc(10);
+    header[0] = 0x80 | opcode;
+    header[1] = 127;
+    header.writeBigUInt64BE(BigInt(length), 2);
+  }
+  return Buffer.concat([header, payload]);
+};
+
+// Pulls complete frames off the front of `buffer`; returns what's left over
+const decodeFrames = (buffer, onFrame) => {
+  while (buffer.length >= 2) {
+    const opcode = buffer[0] & 0x0f;
+    const masked = (buffer[1] & 0x80) !== 0;
+    let length = buffer[1] & 0x7f;
+    let offset = 2;
+    if (length === 126) {
+      if (buffer.length < 4) break;
+      length = buffer.readUInt16BE(2);
+      offset = 4;
+    } else if (length === 127) {
+      if (buffer.length < 10) break;
+      length = Number(buffer.readBigUInt64BE(2));
+      offset = 10;
+    }
+    const mask = masked ? buffer.subarray(offset, offset + 4) : null;
+    if (masked) offset += 4;
+    if (buffer.length < offset + length) break;
+    const payload = Buffer.from(buffer.subarray(offset, offset + length));
+    if (mask) {
+      for (let i = 0; i < payload.length; i++) payload[i] ^= mask[i % 4];
+    }
+    onFrame(opcode, payload);
+    buffer = buffer.subarray(offset + length);
+  }
+  return buffer;
+};
+
+// --- Protocol ---
+
+const send = (client, message) =>
+  client.socket.write(encodeFrame(JSON.stringify(message)));
+
+const mockTx = (address) => ({
+  txid: randomBytes(32).toString("hex"),
+  status: { confirmed: false },
+  vin: [{ prevout: null }],
+  vout: [
+    { scriptpubkey_address: address, value: 10_000 + (Date.now() % 90_000) },
+  ],
+  fee: 200,
+  weight: 560,
+});
+
+const handleMessage = (client, message) => {
+  if (message.action === "ping") send(client, { pong: true });
+  if (message.action === "want") {
+    client.wants = new Set(message.data);
+    if (client.wants.has("blocks")) {
+      send(client, {
+        blocks: [{ height, timestamp: Math.floor(Date.now() / 1000) }],
+      });
+    }
+    if (client.wants.has("stats")) send(client, { fees });
+  }
+  if (Array.isArray(message["track-addresses"])) {
+    client.addresses = message["track-addresses"];
+    console.log(`Tracking ${client.addresses.length} address(es)`);
+  }
+};
+
+const broadcast = (build) =>
+  clients.forEach((client) => {
+    const message = build(client);
+    if (message) send(client, message);
+  });
+
+setInterval(() => {
+  const drift = () => Math.round((Math.random() - 0.5) * 4);
+  const fastestFee = Math.max(2, fees.fastestFee + drift());
+  fees = {
+    fastestFee,
+    halfHourFee: Math.max(2, Math.min(fastestFee, fees.halfHourFee + drift())),
+    hourFee: Math.max(1, Math.min(fastestFee, fees.hourFee + drift())),
+    economyFee: Math.max(1, Math.min(fastestFee, fees.economyFee + drift())),
+    minimumFee: 1,
+  };
+  broadcast((client) => (client.wants.has("stats") ? { fees } : null));
+}, FEE_INTERVAL);
+
+setInterval(() => {
+  const tracked = [...clients].flatMap((client) => client.addresses);
+  if (!tracked.length) return;
+  const address = tracked[Math.floor(Math.random() * tracked.length)];
+  const tx = mockTx(address);
+  mempool.push({ address, tx });
+  console.log(`Mempool tx ${tx.txid.slice(0, 8)}… for ${address}`);
+  broadcast((client) =>
+    client.addresses.includes(address)
+      ? {
+          "multi-address-transactions": {
+            [address]: { mempool: [tx], confirmed: [], removed: [] },
+          },
+        }
+      : null
+  );
+}, TX_INTERVAL);
+
+setInterval(() => {
+  height++;
+  const confirmed = mempool.splice(0);
+  const timestamp = Math.floor(Date.now() / 1000);
+  console.log(`Block ${height} with ${confirmed.length} tracked tx(s)`);
+  broadcast((client) => {
+    const changes = {};
+    confirmed
+      .filter(({ address }) => client.addresses.includes(address))
+      .forEach(({ address, tx }) => {
+        changes[address] ??= { mempool: [], confirmed: [], removed: [] };
+        changes[address].confirmed.push({
+          ...tx,
+          status: {
+            confirmed: true,
+            block_height: height,
+            block_time: timestamp,
+          },
+        });
+      });
+    if (Object.keys(changes).length) {
+      send(client, { "multi-address-transactions": changes });
+    }
+    return client.wants.has("blocks") ? { block: { height, timestamp } } : null;
+  });
+}, BLOCK_INTERVAL);
+
+// --- Server ---
+
+const server = createServer((_, response) => {
+  response.writeHead(426, { "Content-Type": "text/plain" });
+  response.end("WebSocket only\n");
+});
+
+server.on("upgrade", (request, socket) => {
+  const key = request.headers["sec-websocket-key"];
+  if (!key) {
+    socket.destroy();
+    return;
+  }
+  const accept = createHash("sha1")
+    .update(key + WS_GUID)
+    .digest("base64");
+  socket.write(
+    "HTTP/1.1 101 Switching Protocols\r\n" +
+      "Upgrade: websocket\r\n" +
+      "Connection: Upgrade\r\n" +
+      `Sec-WebSocket-Accept: ${accept}\r\n\r\n`
+  );
+
+  const client = { socket, wants: new Set(), addresses: [] };
+  clients.add(client);
+  console.log(`Client connected (${clients.size} open)`);
+
+  let pending = Buffer.alloc(0);
+  socket.on("data", (chunk) => {
+    pending = decodeFrames(
+      Buffer.concat([pending, chunk]),
+      (opcode, payload) => {
+        if (opcode === 0x8) {
+          socket.end(encodeFrame("", 0x8));
+        } else if (opcode === 0x9) {
+          socket.write(encodeFrame(payload.toString(), 0xa));
+        } else if (opcode === 0x1) {
+          try {
+            handleMessage(client, JSON.parse(payload.toString()));
+          } catch (error) {
+            console.error("Bad message:", error.message);
+          }
+        }
+      }
+    );
+  });
+  const drop = () => {
+    if (clients.delete(client)) {
+      console.log(`Client disconnected (${clients.size} open)`);
+    }
+  };
+  socket.on("close", drop);
+  socket.on("error", drop);
+});
+
+server.listen(PORT, () => {
+  console.log(`Mock mempool WebSocket on ws://localhost:${PORT}`);
+});
@@ -0,0 +1,25 @@
+// Vitest global setup: runs scripts/mock-mempool-ws.mjs on a free-ish port
+// for the mempool socket tests. Skipped where Node has no WebSocket client
+// (Node 20 keeps it behind --experimental-websocket), since the tests that
+// talk to it can't run there either.
+
+import { spawn } from "node:child_process";
+
+export default async function setup({ provide }) {
+  if (typeof globalThis.WebSocket === "undefined") return;
+
+  const port = 20000 + Math.floor(Math.random() * 20000);
+  const server = spawn(process.execPath, [
+    new URL("./mock-mempool-ws.mjs", import.meta.url).pathname,
+    `${port}`,
+  ]);
+  await new Promise((resolve, reject) => {
+    server.stdout.once("data", resolve);
+    server.once("error", reject);
+  });
+  provide("mockMempoolUrl", `ws://localhost:${port}`);
+
+  return () => {
+    server.kill();
+  };
+}
@@ -6,6 +6,11 @@ import {
   ResponsiveContainer,
   Tooltip as RechartsTooltip,
   Legend,
+  AreaChart,
+  Area,
+  XAxis,
+  YAxis,
+  CartesianGrid,
 } from "recharts";
 import {
   Wallet,
@@ -13,299 +18,1498 @@ import {
   Plus,
   Trash2,
   RefreshCw,
-  Tag,
   LayoutDashboard,
   List,
   PieChart as PieChartIcon,
-  ExternalLink,
-  Copy,
   Bitcoin,
   Shield,
   Eye,
   EyeOff,
   Zap,
-  Clock,
+  KeyRound,
+  WifiOff,
+  Settings,
+  Server,
+  CircleCheck,
+  CircleAlert,
+  History,
+  Coins,
+  Receipt,
+  Upload,
+  ArchiveRestore,
+  Bell,
+  Lock,
+  Boxes,
+  X,
+  Undo2,
+  Palette,
+  Search,
+  GlobeLock,
+  Radar,
 } from "lucide-react";
+import {
+  DEFAULT_GAP_LIMIT,
+  MAX_GAP_LIMIT,
+  clampGapLimit,
+  describeWallet,
+  isExtendedKeyInput,
+  parseWalletInput,
+  scanWallet,
+  type WalletDescriptor,
+} from "./lib/xpub";
+import {
+  DEFAULT_PROVIDER_SETTINGS,
+  LIGHTNING_IMPLEMENTATIONS,
+  MEMPOOL_ONION_URL,
+  createLightningClient,
+  createMempoolSocket,
+  createProviders,
+  isOnionUrl,
+  lightningBalanceSats,
+  liveSocketUrl,
+  toProviderError,
+  type ChainBackend,
+  type ChainProvider,
+  type Exposure,
+  type FeeRates,
+  type LightningClient,
+  type LightningNodeConfig,
+  type LiveStatus,
+  type PriceBackend,
+  type PriceProvider,
+  type PriceQuote,
+  type ProviderSettings,
+  type ProviderStatus,
+} from "./lib/providers";
+import { formatFiat, formatSats } from "./lib/format";
+import {
+  CURRENCY_NAMES,
+  DEFAULT_CURRENCY,
+  SUPPORTED_CURRENCIES,
+  isCurrency,
+  type Currency,
+} from "./lib/currency";
+import { getOwnAddresses, type TrackedEntry } from "./lib/entries";
+import {
+  ADDRESS_NETWORK_NAMES,
+  ADDRESS_TYPE_NAMES,
+  getAddressInfo,
+  parseAddress,
+} from "./lib/address";
+import { Badge, Card } from "./components/ui";
+import { TransactionPanel } from "./components/TransactionPanel";
+import { UtxoExplorer } from "./components/UtxoExplorer";
+import { FeeSparkline } from "./components/FeeSparkline";
+import { AlertsPanel } from "./components/AlertsPanel";
+import { AddressCard, FRESHNESS_DOTS } from "./components/AddressCard";
+import { AddressFilterBar } from "./components/AddressFilterBar";
+import { BackupPanel, type RestoreMode } from "./components/BackupPanel";
+import { GroupManager } from "./components/GroupManager";
+import { GainsPanel } from "./components/GainsPanel";
+import {
+  AppLockSettings,
+  LockScreen,
+  type LockSettings,
+} from "./components/AppLock";
+import { VirtualList } from "./components/VirtualList";
+import { addFeeSample, type FeeSample } from "./lib/fees";
+import { parseMultisigConfig } from "./lib/multisig";
+import {
+  MASK,
+  PRIVACY_LEVEL_NAMES,
+  nextPrivacyLevel,
+  toPrivacyLevel,
+  type PrivacyLevel,
+} from "./lib/masking";
+import {
+  addExposures,
+  exposuresByEndpoint,
+  type ExposureRecord,
+} from "./lib/exposure";
+import {
+  EMPTY_MARKET,
+  formatAsOf,
+  registerServiceWorker,
+  requestCatchUp,
+  type MarketCache,
+} from "./lib/offline";
+import {
+  findUnsettled,
+  isUnsettled,
+  mergeUnsettled,
+  type UnsettledTx,
+} from "./lib/pending";
+import {
+  BITCOIN_NETWORKS,
+  NETWORKS,
+  addressMatchesNetwork,
+  entryNetwork,
+  isTestNetwork,
+  type BitcoinNetwork,
+} from "./lib/networks";
+import {
+  HISTORY_RANGES,
+  getSnapshotPrice,
+  getSnapshots,
+  recordSnapshot,
+  type HistoryRange,
+  type Snapshot,
+} from "./lib/snapshots";
+import {
+  DEFAULT_AUTO_LOCK,
+  StorageLockedError,
+  getLockConfig,
+  loadState,
+  lockStorage,
+  saveAddresses,
+  saveSetting,
+  subscribeToChanges,
+  unlockStorage,
+  type SettingKey,
+  type StoredSettings,
+} from "./lib/storage";
+import {
+  buildLedger,
+  costKey,
+  loadPortfolioTxs,
+  summarizeLots,
+  type LotMethod,
+  type ManualCost,
+  type PortfolioTx,
+} from "./lib/costBasis";
+import {
+  calculatePerformance,
+  dcaDates,
+  loadWeeklyPrices,
+  stackedByMonth,
+} from "./lib/performance";
+import { mergeBackup, type BackupPayload } from "./lib/backup";
+import {
+  MAX_ALERT_LOG,
+  evaluateAlerts,
+  showNotification,
+  type AlertEvent,
+  type AlertRule,
+} from "./lib/alerts";
+import {
+  DEFAULT_REFRESH_INTERVAL,
+  REFRESH_INTERVALS,
+  LIVE_POLL_FACTOR,
+  LIVE_REFRESH_DELAY,
+  REFRESH_TICK,
+  entryFreshness,
+  randomSchedule,
+  staggerSchedule,
+  type EntryStatus,
+  type Freshness,
+} from "./lib/refresh";
+import {
+  DEFAULT_ADDRESS_FILTERS,
+  filterEntries,
+  isFiltering,
+  sortEntries,
+  type AddressFilters,
+} from "./lib/addressFilters";
+import {
+  DEFAULT_GROUPS,
+  groupColor,
+  renameGroup,
+  withEntryGroups,
+  type GroupDef,
+} from "./lib/groups";
 
 // --- API Utilities ---
 
-const COINGECKO_API =
-  "https://api.coingecko.com/api/v3/simple/price?ids=bitcoin&vs_currencies=usd&include_24hr_change=true";
-const MEMPOOL_API_BASE = "https://mempool.space/api/address";
-const MEMPOOL_FEES_API = "https://mempool.space/api/v1/fees/recommended";
+const fetchBtcPrice = (provider: PriceProvider) =>
+  provider.getPrice(SUPPORTED_CURRENCIES);
+
+const fetchFees = (provider: ChainProvider) => provider.getFees();
 
-const fetchBtcPrice = async () => {
-  try {
-    const response = await fetch(COINGECKO_API);
-    const data = await response.json();
+// Throws a ProviderError on failure so callers can attribute it
+const fetchAddressData = async (provider: ChainProvider, address: string) => {
+  // 1. Fetch Balance Info
+  const summary = await provider.getAddressSummary(address);
+  const balanceSats = summary.confirmedSats + summary.mempoolSats;
+  const confirmedSats = summary.confirmedSats;
+  const txCount = summary.txCount;
+
+  // Unused addresses (common during xpub gap scans) have no history to fetch
+  if (txCount === 0) {
     return {
-      price: data.bitcoin.usd,
-      change24h: data.bitcoin.usd_24h_change,
+      balanceSats,
+      confirmedSats,
+      lastTxTime: null,
+      txCount,
+      unsettled: [],
     };
-  } catch (error) {
-    console.error("Error fetching price:", error);
-    return null;
-  }
-};
-
-const fetchFees = async () => {
-  try {
-    const response = await fetch(MEMPOOL_FEES_API);
-    return await response.json();
-  } catch (error) {
-    console.error("Error fetching fees:", error);
-    return null;
   }
-};
 
-const fetchAddressData = async (address) => {
-  try {
-    // 1. Fetch Balance Info
-    const balanceResponse = await fetch(`${MEMPOOL_API_BASE}/${address}`);
-    if (!balanceResponse.ok) throw new Error("Invalid address or API error");
-    const balanceData = await balanceResponse.json();
-
-    const confirmed =
-      balanceData.chain_stats.funded_txo_sum -
-      balanceData.chain_stats.spent_txo_sum;
-    const mempool =
-      balanceData.mempool_stats.funded_txo_sum -
-      balanceData.mempool_stats.spent_txo_sum;
-    const balanceSats = confirmed + mempool;
-
-    // 2. Fetch Latest Transactions for Timestamp
-    const txsResponse = await fetch(`${MEMPOOL_API_BASE}/${address}/txs`);
-    const txsData = await txsResponse.json();
-
-    let lastTxTime = null;
-    if (txsData && txsData.length > 0) {
-      // If unconfirmed, use current time, otherwise use block time
-      const latestTx = txsData[0];
-      if (latestTx.status.confirmed) {
-        lastTxTime = latestTx.status.block_time * 1000; // Convert to ms
-      } else {
-        lastTxTime = "pending"; // Mark as pending
-      }
+  // 2. Fetch Latest Transactions for Timestamp
+  const txsData = await provider.getAddressTxs(address);
+
+  let lastTxTime: number | "pending" | null = null;
+  if (txsData && txsData.length > 0) {
+    // If unconfirmed, use current time, otherwise use block time
+    const latestTx = txsData[0];
+    if (latestTx.status.confirmed) {
+      lastTxTime = latestTx.status.block_time! * 1000; // Convert to ms
+    } else {
+      lastTxTime = "pending"; // Mark as pending
     }
-
-    return { balanceSats, lastTxTime };
-  } catch (error) {
-    console.error(`Error fetching data for ${address}:`, error);
-    return null;
   }
-};
-
-// --- Components ---
 
-const Card = ({ children, className = "" }) => (
-  <div
-    className={`bg-gray-800 border border-gray-700 rounded-xl p-6 shadow-lg ${className}`}
-  >
-    {children}
-  </div>
-);
+  // 3. Pending and recent txs, with inputs and outputs for their amounts
+  // (Electrum leaves those out of listings)
+  const recent = await Promise.all(
+    (txsData || [])
+      .filter((tx) => isUnsettled(tx))
+      .map((tx) => (tx.vin && tx.vout ? tx : provider.getTransaction(tx.txid)))
+  );
 
-const Badge = ({ children, color = "blue" }) => {
-  const colors = {
-    blue: "bg-blue-900/30 text-blue-400 border-blue-800",
-    green: "bg-green-900/30 text-green-400 border-green-800",
-    orange: "bg-orange-900/30 text-orange-400 border-orange-800",
-    purple: "bg-purple-900/30 text-purple-400 border-purple-800",
-    gray: "bg-gray-700 text-gray-300 border-gray-600",
+  return {
+    balanceSats,
+    confirmedSats,
+    lastTxTime,
+    txCount,
+    unsettled: findUnsettled(recent, address),
   };
-  return (
-    <span
-      className={`px-2 py-1 rounded-md text-xs font-medium border ${
-        colors[color] || colors.blue
-      }`}
-    >
-      {children}
-    </span>
-  );
 };
 
-const formatSats = (sats) => {
-  return (sats / 100000000).toLocaleString("en-US", {
-    minimumFractionDigits: 8,
-    maximumFractionDigits: 8,
+// Scans with fetchAddressData, then nets the unsettled txs across the
+// wallet's addresses so change doesn't show up as incoming
+const fetchWalletData = async (
+  provider: ChainProvider,
+  descriptor: WalletDescriptor,
+  gapLimit: number
+) => {
+  const unsettled: UnsettledTx[][] = [];
+  let confirmedSats = 0;
+  const scan = await scanWallet(descriptor, gapLimit, async (address) => {
+    const {
+      unsettled: txs,
+      confirmedSats: confirmed,
+      ...data
+    } = await fetchAddressData(provider, address);
+    unsettled.push(txs);
+    confirmedSats += confirmed;
+    return data;
   });
+  return { ...scan, confirmedSats, unsettled: mergeUnsettled(unsettled) };
 };
 
-const formatUSD = (val) => {
-  return val.toLocaleString("en-US", { style: "currency", currency: "USD" });
+const fetchLightningData = async (client: LightningClient) => {
+  const balance = await client.getBalance();
+  return {
+    balanceSats: lightningBalanceSats(balance),
+    confirmedSats: undefined,
+    lastTxTime: null,
+    unsettled: [],
+    lightningBalance: balance,
+  };
 };
 
-const formatDate = (timestamp) => {
-  if (!timestamp) return "Never";
-  if (timestamp === "pending") return "Pending...";
-  return new Date(timestamp).toLocaleDateString(undefined, {
-    year: "numeric",
-    month: "short",
-    day: "numeric",
-  });
+// Tracked entries are a single address, an xpub/descriptor wallet or a
+// Lightning node, which has its own client instead of the chain backend
+const fetchEntryData = async (
+  provider: ChainProvider | LightningClient,
+  entry: TrackedEntry
+) => {
+  if ("getBalance" in provider) return fetchLightningData(provider);
+  if (entry.kind === "wallet") {
+    return fetchWalletData(
+      provider,
+      entry.descriptor!,
+      clampGapLimit(entry.gapLimit!)
+    );
+  }
+  return fetchAddressData(provider, entry.address);
 };
 
+const CHAIN_BACKENDS: {
+  id: ChainBackend;
+  name: string;
+  description: string;
+}[] = [
+  {
+    id: "esplora",
+    name: "Esplora / mempool",
+    description: "REST API such as mempool.space or a self-hosted instance",
+  },
+  {
+    id: "electrum",
+    name: "Electrum bridge",
+    description: "Electrum server exposed through a WebSocket bridge",
+  },
+  {
+    id: "mock",
+    name: "Mock",
+    description: "Deterministic in-memory data for offline development",
+  },
+];
+
+const PRICE_BACKENDS: { id: PriceBackend; name: string }[] = [
+  { id: "coingecko", name: "CoinGecko" },
+  { id: "mock", name: "Mock" },
+];
+
+const entryKey = (entry: TrackedEntry) => entry.id;
+
 // --- Main App Component ---
 
 export default function App() {
   const [activeTab, setActiveTab] = useState("dashboard");
-  const [btcPrice, setBtcPrice] = useState(null);
-  const [priceChange, setPriceChange] = useState(0);
-  const [fees, setFees] = useState(null);
-
-  // Initialize state from LocalStorage
-  const [addresses, setAddresses] = useState(() => {
-    if (typeof window !== "undefined") {
-      const saved = localStorage.getItem("sats-tracker-addresses");
-      return saved ? JSON.parse(saved) : [];
-    }
-    return [];
-  });
+  // BTC price and 24h change in every supported currency
+  const [btcPrices, setBtcPrices] = useState<Record<string, number> | null>(
+    null
+  );
+  const [priceChanges, setPriceChanges] = useState<Record<string, number>>({});
+  const [fees, setFees] = useState<FeeRates | null>(null);
+  // When the price and fees above were fetched; they outlive a lost
+  // connection (and reloads) so there's always something to show
+  const [marketAsOf, setMarketAsOf] = useState<
+    Pick<MarketCache, "pricesAt" | "feesAt">
+  >({ pricesAt: null, feesAt: null });
+  const [isOnline, setIsOnline] = useState(navigator.onLine);
+  // Chain tip per network in use, for counting confirmations
+  const [tipHeights, setTipHeights] = useState<
+    Partial<Record<BitcoinNetwork, number>>
+  >({});
+  // Fee rates sampled on refresh, for the sparkline and consolidation advice
+  const [feeHistory, setFeeHistory] = useState<FeeSample[]>([]);
+
+  // Persisted state starts at its defaults until IndexedDB has loaded; saves
+  // wait for that so the defaults never overwrite what's stored
+  const [storageReady, setStorageReady] = useState(false);
+  const [addresses, setAddresses] = useState<TrackedEntry[]>([]);
+  const [groups, setGroups] = useState<GroupDef[]>(DEFAULT_GROUPS);
+  const [privacyLevel, setPrivacyLevel] = useState<PrivacyLevel>("off");
+  const isPrivacyMode = privacyLevel !== "off";
+  const isStrictPrivacy = privacyLevel === "strict";
+  const [currency, setCurrency] = useState<Currency>(DEFAULT_CURRENCY);
+
+  // Optional second fiat shown in smaller type under the primary one
+  const [secondaryCurrency, setSecondaryCurrency] = useState<Currency | null>(
+    null
+  );
 
-  const [isPrivacyMode, setIsPrivacyMode] = useState(() => {
-    if (typeof window !== "undefined") {
-      const saved = localStorage.getItem("sats-tracker-privacy");
-      return saved ? JSON.parse(saved) : false;
-    }
-    return false;
-  });
+  const [providerSettings, setProviderSettings] = useState<ProviderSettings>(
+    DEFAULT_PROVIDER_SETTINGS
+  );
+  const [settingsDraft, setSettingsDraft] = useState(providerSettings);
+
+  // Which endpoint has been asked about which address
+  const [exposureLog, setExposureLog] = useState<ExposureRecord[]>([]);
+
+  // Last success / failure per provider id, shown in Settings
+  const [providerStatus, setProviderStatus] = useState<
+    Record<string, ProviderStatus>
+  >({});
 
   const [loading, setLoading] = useState(false);
+  const [refreshInterval, setRefreshInterval] = useState(
+    DEFAULT_REFRESH_INTERVAL
+  ); // Seconds
+  const [entryStatus, setEntryStatus] = useState<Record<number, EntryStatus>>(
+    {}
+  );
+  const [liveStatus, setLiveStatus] = useState<{
+    status: LiveStatus;
+    error?: string;
+  } | null>(null); // null while live updates are off
 
   // Chart state
   const [chartMode, setChartMode] = useState("group"); // 'group' or 'address'
+  const [historyRange, setHistoryRange] = useState<HistoryRange>("7d");
+  const [historyUnit, setHistoryUnit] = useState("fiat"); // 'fiat' or 'btc'
+  const [history, setHistory] = useState<Snapshot[]>([]);
+  const [lastSnapshotAt, setLastSnapshotAt] = useState<number | null>(null);
+
+  // Address row with its transaction history expanded
+  const [expandedId, setExpandedId] = useState<number | null>(null);
+
+  // Cost basis: manual acquisition costs, lot method and the loaded history
+  const [manualCosts, setManualCosts] = useState<Record<string, ManualCost>>(
+    {}
+  );
+  const [lotMethod, setLotMethod] = useState<LotMethod>("fifo");
+  const [portfolioTxs, setPortfolioTxs] = useState<{
+    currency: Currency;
+    txs: PortfolioTx[];
+  } | null>(null);
+  const [costBasisStatus, setCostBasisStatus] = useState<string | null>(null);
+  // Weekly prices for the DCA benchmark, fetched on request
+  const [dcaPrices, setDcaPrices] = useState<{
+    currency: Currency;
+    prices: Record<number, number>;
+  } | null>(null);
+  const [dcaStatus, setDcaStatus] = useState<string | null>(null);
+
+  // Alerts
+  const [alertRules, setAlertRules] = useState<AlertRule[]>([]);
+  const [alertLog, setAlertLog] = useState<AlertEvent[]>([]);
+
+  // App lock: `locked` while stored data waits for the passphrase
+  const [locked, setLocked] = useState(false);
+  const [lockSettings, setLockSettings] = useState<LockSettings>({
+    enabled: false,
+    autoLockMinutes: DEFAULT_AUTO_LOCK,
+  });
 
   // Input states
   const [newAddress, setNewAddress] = useState("");
   const [newLabel, setNewLabel] = useState("");
   const [newGroup, setNewGroup] = useState("General");
+  const [newGapLimit, setNewGapLimit] = useState(DEFAULT_GAP_LIMIT);
+  const [showLightningForm, setShowLightningForm] = useState(false);
+  const [newLightning, setNewLightning] = useState<LightningNodeConfig>({
+    implementation: "lnd",
+    url: "",
+    credential: "",
+  });
+  const [newNetwork, setNewNetwork] = useState<BitcoinNetwork>(
+    providerSettings.network
+  );
+
+  // Address list management
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [editDraft, setEditDraft] = useState({
+    label: "",
+    group: "",
+    notes: "",
+  });
+  const [selectedIds, setSelectedIds] = useState<Set<number>>(new Set());
+  const [dragId, setDragId] = useState<number | null>(null);
+  const [undoDelete, setUndoDelete] = useState<{
+    removed: { entry: TrackedEntry; index: number }[];
+    message: string;
+  } | null>(null);
+  const [showGroupManager, setShowGroupManager] = useState(false);
+  const [addressFilters, setAddressFilters] = useState<AddressFilters>(
+    DEFAULT_ADDRESS_FILTERS
+  );
+
+  const isWalletInput = isExtendedKeyInput(newAddress);
+
+  // Checked locally as the user types, so obvious typos and duplicates never
+  // reach the network
+  const newAddressCheck = useMemo(() => {
+    const input = newAddress.trim();
+    if (!input) return { address: null, summary: null, error: null };
+    try {
+      if (isWalletInput) {
+        const descriptor = parseWalletInput(input);
+        if ((descriptor.network === "mainnet") !== (newNetwork === "mainnet")) {
+          throw new Error(
+            `${
+              descriptor.network === "mainnet" ? "Mainnet" : "Test network"
+            } key; switch the network to ${
+              descriptor.network === "mainnet" ? "Mainnet" : "a test network"
+            } to track it`
+          );
+        }
+        const existing = addresses.find(
+          (addr) => addr.descriptor?.key === descriptor.key
+        );
+        if (existing) throw new Error(`Already tracked as "${existing.label}"`);
+        return {
+          address: input,
+          summary: `${describeWallet(descriptor)} · ${
+            NETWORKS[newNetwork].name
+          }`,
+          error: null,
+        };
+      }
+
+      const info = parseAddress(input);
+      if (!addressMatchesNetwork(info.network, newNetwork)) {
+        throw new Error(
+          `${
+            ADDRESS_NETWORK_NAMES[info.network]
+          } address; it can't be tracked on ${NETWORKS[newNetwork].name}`
+        );
+      }
+      const existing = addresses.find(
+        (addr) =>
+          addr.kind !== "wallet" &&
+          (getAddressInfo(addr.address)?.address ?? addr.address) ===
+            info.address
+      );
+      if (existing) throw new Error(`Already tracked as "${existing.label}"`);
+      return {
+        address: info.address,
+        summary: `${ADDRESS_TYPE_NAMES[info.type]} · ${
+          NETWORKS[newNetwork].name
+        }`,
+        error: null,
+      };
+    } catch (error) {
+      return { address: null, summary: null, error: (error as Error).message };
+    }
+  }, [newAddress, isWalletInput, addresses, newNetwork]);
+
+  // Lookups land here as they happen and reach state about once a second
+  const exposureBufferRef = useRef<Exposure[]>([]);
+  const logExposure = (exposure: Exposure) =>
+    exposureBufferRef.current.push(exposure);
+
+  const providers = useMemo(
+    () => createProviders(providerSettings, logExposure),
+    [providerSettings]
+  );
 
   // Ref for accessing latest addresses in interval
   const addressesRef = useRef(addresses);
+  const alertRulesRef = useRef(alertRules);
+  const privacyLevelRef = useRef(privacyLevel);
+  const providersRef = useRef(providers);
+  const liveRef = useRef(false); // Socket connected and tracking addresses
+  const liveSocketRef = useRef<ReturnType<typeof createMempoolSocket> | null>(
+    null
+  );
+  // Entries the socket reported activity for, refreshed together shortly
+  const liveRefreshRef = useRef<{
+    ids: Set<number>;
+    timer?: ReturnType<typeof setTimeout>;
+  }>({ ids: new Set() });
+  // When the price/fees and each entry are next due for a refresh
+  const scheduleRef = useRef({
+    marketDue: 0,
+    entriesDue: new Map<number, number>(),
+  });
 
   // --- Effects ---
 
-  // Save to LocalStorage whenever state changes
+  // Applies a stored setting, from the initial load or another tab
+  const applySetting = (key: SettingKey, value: unknown) => {
+    switch (key) {
+      case "privacy":
+        setPrivacyLevel(toPrivacyLevel(value));
+        break;
+      case "currency":
+        if (isCurrency(value)) setCurrency(value);
+        break;
+      case "secondaryCurrency":
+        setSecondaryCurrency(isCurrency(value) ? value : null);
+        break;
+      case "providers": {
+        const settings = {
+          ...DEFAULT_PROVIDER_SETTINGS,
+          ...(value as Partial<ProviderSettings>),
+        };
+        setProviderSettings(settings);
+        setSettingsDraft(settings);
+        break;
+      }
+      case "manualCosts":
+        setManualCosts(value as Record<string, ManualCost>);
+        break;
+      case "lotMethod":
+        setLotMethod(value as LotMethod);
+        break;
+      case "alertRules":
+        setAlertRules(value as AlertRule[]);
+        break;
+      case "alertLog":
+        setAlertLog(value as AlertEvent[]);
+        break;
+      case "feeHistory":
+        setFeeHistory(value as FeeSample[]);
+        break;
+      case "groups":
+        setGroups(value as GroupDef[]);
+        break;
+      case "refreshInterval":
+        if (typeof value === "number" && value > 0) setRefreshInterval(value);
+        break;
+      case "exposure":
+        setExposureLog(value as ExposureRecord[]);
+        break;
+      case "market": {
+        const market = { ...EMPTY_MARKET, ...(value as Partial<MarketCache>) };
+        if (market.prices) setBtcPrices(market.prices);
+        setPriceChanges(market.change24h);
+        if (market.fees) setFees(market.fees);
+        setMarketAsOf({ pricesAt: market.pricesAt, feesAt: market.feesAt });
+        break;
+      }
+    }
+  };
+
+  const refreshLockSettings = () =>
+    getLockConfig()
+      .then((config) =>
+        setLockSettings({
+          enabled: !!config,
+          autoLockMinutes: config?.autoLockMinutes ?? DEFAULT_AUTO_LOCK,
+        })
+      )
+      .catch((error) => console.error("Error reading app lock:", error));
+
+  // Load from IndexedDB (migrating any localStorage data first). With the
+  // app lock on, this waits on the lock screen until the passphrase is in.
+  const loadStoredState = () =>
+    loadState()
+      .then(({ addresses: stored, settings }) => {
+        setAddresses(stored);
+        (Object.keys(settings) as SettingKey[]).forEach((key) =>
+          applySetting(key, settings[key])
+        );
+        setLocked(false);
+        setStorageReady(true);
+      })
+      .catch((error) => {
+        if (error instanceof StorageLockedError) {
+          setLocked(true);
+          return;
+        }
+        console.error("Error loading saved data:", error);
+        setStorageReady(true);
+      })
+      .finally(refreshLockSettings);
+
+  // Forgets everything that was decrypted; saves stop until the next unlock
+  const lockApp = () => {
+    lockStorage();
+    setStorageReady(false);
+    setLocked(true);
+    setAddresses([]);
+    setEntryStatus({});
+    setExpandedId(null);
+    setHistory([]);
+    setManualCosts({});
+    setPortfolioTxs(null);
+    setDcaPrices(null);
+    setAlertRules([]);
+    setAlertLog([]);
+    setExposureLog([]);
+  };
+
+  // Then follow changes made in other tabs. Another tab setting, changing
+  // or removing the lock leaves our key stale, so start over from the top.
+  useEffect(() => {
+    loadStoredState();
+
+    return subscribeToChanges((change) => {
+      if (change.kind === "vault") {
+        lockApp();
+        loadStoredState();
+      } else if (change.kind === "addresses") setAddresses(change.value);
+      else applySetting(change.key, change.value);
+    });
+  }, []);
+
+  // Locks once nothing has happened for the configured time
+  useEffect(() => {
+    if (locked || !lockSettings.enabled || !lockSettings.autoLockMinutes) {
+      return;
+    }
+    let lastActivity = Date.now();
+    const onActivity = () => {
+      lastActivity = Date.now();
+    };
+    const events = ["pointerdown", "pointermove", "keydown", "wheel"];
+    events.forEach((event) =>
+      window.addEventListener(event, onActivity, { passive: true })
+    );
+    const interval = setInterval(() => {
+      if (Date.now() - lastActivity >= lockSettings.autoLockMinutes * 60000) {
+        lockApp();
+      }
+    }, REFRESH_TICK);
+    return () => {
+      events.forEach((event) => window.removeEventListener(event, onActivity));
+      clearInterval(interval);
+    };
+  }, [locked, lockSettings]);
+
+  // Save whenever state changes
+  const persist = <K extends SettingKey>(key: K, value: StoredSettings[K]) => {
+    if (!storageReady) return;
+    saveSetting(key, value).catch((error) =>
+      console.error(`Error saving ${key}:`, error)
+    );
+  };
+
   useEffect(() => {
-    localStorage.setItem("sats-tracker-addresses", JSON.stringify(addresses));
     addressesRef.current = addresses; // Update ref for interval
+    if (!storageReady) return;
+    saveAddresses(addresses).catch((error) =>
+      console.error("Error saving addresses:", error)
+    );
+  }, [addresses, storageReady]);
+
+  useEffect(() => {
+    persist("privacy", privacyLevel);
+    privacyLevelRef.current = privacyLevel;
+  }, [privacyLevel, storageReady]);
+
+  useEffect(() => {
+    persist("currency", currency);
+  }, [currency, storageReady]);
+
+  useEffect(() => {
+    persist("secondaryCurrency", secondaryCurrency);
+  }, [secondaryCurrency, storageReady]);
+
+  useEffect(() => {
+    persist("providers", providerSettings);
+  }, [providerSettings, storageReady]);
+
+  useEffect(() => {
+    persist("manualCosts", manualCosts);
+  }, [manualCosts, storageReady]);
+
+  useEffect(() => {
+    persist("lotMethod", lotMethod);
+  }, [lotMethod, storageReady]);
+
+  useEffect(() => {
+    persist("alertRules", alertRules);
+    alertRulesRef.current = alertRules;
+  }, [alertRules, storageReady]);
+
+  useEffect(() => {
+    persist("alertLog", alertLog);
+  }, [alertLog, storageReady]);
+
+  // New entries default to the workspace network
+  useEffect(() => {
+    setNewNetwork(providerSettings.network);
+  }, [providerSettings.network]);
+
+  useEffect(() => {
+    persist("feeHistory", feeHistory);
+  }, [feeHistory, storageReady]);
+
+  // Imports, restores and other tabs can bring in groups we have no color for
+  useEffect(() => {
+    setGroups((prev) => withEntryGroups(prev, addresses));
   }, [addresses]);
 
   useEffect(() => {
-    localStorage.setItem("sats-tracker-privacy", JSON.stringify(isPrivacyMode));
-  }, [isPrivacyMode]);
+    persist("groups", groups);
+  }, [groups, storageReady]);
 
-  // --- Data Logic ---
+  useEffect(() => {
+    persist("refreshInterval", refreshInterval);
+  }, [refreshInterval, storageReady]);
 
-  const refreshData = async () => {
-    setLoading(true);
+  useEffect(() => {
+    persist("market", {
+      prices: btcPrices,
+      change24h: priceChanges,
+      fees,
+      ...marketAsOf,
+    });
+  }, [btcPrices, priceChanges, fees, marketAsOf, storageReady]);
 
-    // 1. Update Price
-    const priceData = await fetchBtcPrice();
-    if (priceData) {
-      setBtcPrice(priceData.price);
-      setPriceChange(priceData.change24h);
+  useEffect(() => {
+    persist("exposure", exposureLog);
+  }, [exposureLog, storageReady]);
+
+  useEffect(() => {
+    const interval = setInterval(() => {
+      const exposures = exposureBufferRef.current;
+      if (exposures.length === 0) return;
+      exposureBufferRef.current = [];
+      setExposureLog((prev) => addExposures(prev, exposures));
+    }, 1000);
+    return () => clearInterval(interval);
+  }, []);
+
+  // Hide the undo toast after a while; the deletion itself already happened
+  useEffect(() => {
+    if (!undoDelete) return;
+    const timer = setTimeout(() => setUndoDelete(null), 8000);
+    return () => clearTimeout(timer);
+  }, [undoDelete]);
+
+  // --- Data Logic ---
+
+  // Records a request's outcome against the provider that served it.
+  // Returns the normalized error on failure.
+  const recordProviderResult = (provider: { id: string }, error?: unknown) => {
+    if (error === undefined) {
+      setProviderStatus((prev) => ({
+        ...prev,
+        [provider.id]: { ...prev[provider.id], lastSuccess: Date.now() },
+      }));
+      return null;
     }
+    const providerError = toProviderError(provider.id, error);
+    console.error(`Provider ${provider.id} failed:`, providerError);
+    setProviderStatus((prev) => ({
+      ...prev,
+      [provider.id]: {
+        ...prev[provider.id],
+        lastError: { message: providerError.message, at: Date.now() },
+      },
+    }));
+    return providerError;
+  };
 
-    // 2. Update Fees
-    const feesData = await fetchFees();
-    if (feesData) {
-      setFees(feesData);
+  // Runs a provider request, records the outcome against that provider and
+  // resolves to null on failure so callers can keep their previous values
+  const trackProvider = async <T,>(
+    provider: { id: string },
+    request: () => Promise<T>
+  ) => {
+    try {
+      const result = await request();
+      recordProviderResult(provider);
+      return result;
+    } catch (error) {
+      recordProviderResult(provider, error);
+      return null;
     }
+  };
+
+  const updateEntryStatus = (ids: number[], changes: Partial<EntryStatus>) =>
+    setEntryStatus((prev) => {
+      const next = { ...prev };
+      ids.forEach((id) => {
+        next[id] = { ...next[id], ...changes };
+      });
+      return next;
+    });
 
-    // 3. Update Balances (Use ref to ensure we have latest list during intervals)
+  // Fetches fresh data for the given entries (all by default) and merges it
+  // in. Failed entries keep their previous data and get the error recorded
+  // instead. Resolves to the entries that refreshed.
+  const refreshEntries = async (ids?: Set<number>) => {
+    const { chainFor } = providersRef.current;
+    // Use ref to ensure we have latest list during intervals
     const currentAddresses = addressesRef.current;
-    if (currentAddresses.length > 0) {
-      const updatedAddresses = await Promise.all(
-        currentAddresses.map(async (addr) => {
-          const addressData = await fetchAddressData(addr.address);
+    const targets = ids
+      ? currentAddresses.filter((addr) => ids.has(addr.id))
+      : currentAddresses;
+    if (targets.length === 0) return [];
+    updateEntryStatus(
+      targets.map((addr) => addr.id),
+      { refreshing: true }
+    );
+
+    // The providers' request queues bound how many of these run at once
+    const results = await Promise.all(
+      targets.map(async (addr) => {
+        const source =
+          addr.kind === "lightning"
+            ? createLightningClient(addr.lightning!)
+            : chainFor(entryNetwork(addr));
+        try {
+          const addressData = await fetchEntryData(source, addr);
+          recordProviderResult(source);
+          updateEntryStatus([addr.id], {
+            refreshing: false,
+            lastSuccess: Date.now(),
+          });
           return {
             ...addr,
-            balanceSats: addressData
-              ? addressData.balanceSats
-              : addr.balanceSats,
-            lastTxTime: addressData
-              ? addressData.lastTxTime
-              : addr.lastTxTime || null,
+            balanceSats: addressData.balanceSats,
+            confirmedSats: addressData.confirmedSats,
+            unsettled: addressData.unsettled,
+            lastTxTime: addressData.lastTxTime,
+            ...("derived" in addressData
+              ? {
+                  derived: addressData.derived,
+                  nextReceiveIndex: addressData.nextReceiveIndex,
+                }
+              : {}),
+            ...("lightningBalance" in addressData
+              ? { lightningBalance: addressData.lightningBalance }
+              : {}),
             lastUpdated: new Date(),
           };
-        })
+        } catch (error) {
+          const providerError = recordProviderResult(source, error)!;
+          updateEntryStatus([addr.id], {
+            refreshing: false,
+            lastError: { message: providerError.message, at: Date.now() },
+          });
+          return null;
+        }
+      })
+    );
+    const updatedAddresses = results.filter(
+      (addr): addr is NonNullable<typeof addr> => addr !== null
+    );
+
+    // Merge by id so entries added, removed or edited while the refresh
+    // ran (here or in another tab) aren't overwritten
+    const refreshed = new Map(updatedAddresses.map((addr) => [addr.id, addr]));
+    setAddresses((prev) =>
+      prev.map((addr) => {
+        const next = refreshed.get(addr.id);
+        if (!next) return addr;
+        return {
+          ...addr,
+          balanceSats: next.balanceSats,
+          confirmedSats: next.confirmedSats,
+          unsettled: next.unsettled,
+          lastTxTime: next.lastTxTime,
+          derived: next.derived,
+          nextReceiveIndex: next.nextReceiveIndex,
+          lightningBalance: next.lightningBalance,
+          lastUpdated: next.lastUpdated,
+        };
+      })
+    );
+
+    // Fire alerts for anything that moved since the last refresh. Compared
+    // across every entry so group thresholds see the whole group.
+    const alerts = evaluateAlerts(
+      alertRulesRef.current,
+      currentAddresses,
+      currentAddresses.map((addr) => refreshed.get(addr.id) ?? addr)
+    );
+    if (alerts.length > 0) {
+      setAlertLog((prev) => [...alerts, ...prev].slice(0, MAX_ALERT_LOG));
+      alerts.forEach((alert) =>
+        showNotification(alert, privacyLevelRef.current === "strict")
       );
-      setAddresses(updatedAddresses);
     }
+    return updatedAddresses;
+  };
+
+  const applyPriceData = (priceData: PriceQuote) => {
+    setBtcPrices(priceData.prices);
+    setPriceChanges(priceData.change24h);
+    setMarketAsOf((prev) => ({ ...prev, pricesAt: Date.now() }));
+  };
+
+  const applyFeesData = (feesData: FeeRates) => {
+    setFees(feesData);
+    setFeeHistory((prev) => addFeeSample(prev, feesData));
+    setMarketAsOf((prev) => ({ ...prev, feesAt: Date.now() }));
+  };
+
+  // Price and fees, then a balance snapshot of whatever the entries'
+  // staggered refreshes have brought in so far
+  const refreshMarket = async () => {
+    const { chain, price } = providersRef.current;
+
+    const priceData = await trackProvider(price, () => fetchBtcPrice(price));
+    if (priceData) applyPriceData(priceData);
+
+    const feesData = await trackProvider(chain, () => fetchFees(chain));
+    if (feesData) applyFeesData(feesData);
+    await refreshTipHeights();
+
+    await recordPortfolioSnapshot(
+      addressesRef.current,
+      priceData ? priceData.prices : null
+    );
+  };
+
+  const refreshTipHeights = async () => {
+    const networks = [
+      ...new Set(addressesRef.current.map((addr) => entryNetwork(addr))),
+    ];
+    const heights = await Promise.all(
+      networks.map(async (network) => {
+        const chain = providersRef.current.chainFor(network);
+        const height = await trackProvider(chain, () => chain.getTipHeight());
+        return [network, height] as const;
+      })
+    );
+    setTipHeights((prev) => ({
+      ...prev,
+      ...Object.fromEntries(heights.filter(([, height]) => height !== null)),
+    }));
+  };
+
+  const recordPortfolioSnapshot = async (
+    entries: TrackedEntry[],
+    prices: Record<string, number> | null
+  ) => {
+    if (entries.length === 0) return;
+    try {
+      // Test coins stay out of the portfolio's value history
+      const snapshot = await recordSnapshot(
+        entries.filter((addr) => !isTestNetwork(entryNetwork(addr))),
+        prices
+      );
+      if (snapshot) setLastSnapshotAt(snapshot.timestamp);
+    } catch (error) {
+      console.error("Error recording snapshot:", error);
+    }
+  };
+
+  // Private mode never queries addresses in a burst, or in the same order
+  // twice; everything else spreads them evenly
+  const scheduleEntries = providerSettings.privateMode
+    ? randomSchedule
+    : staggerSchedule;
+
+  // Everything at once: the initial load and the refresh button
+  const refreshData = async () => {
+    setLoading(true);
+    const { chain, price } = providersRef.current;
+    const intervalMs = refreshInterval * 1000;
+    const ids = addressesRef.current.map((addr) => addr.id);
+
+    // Except in private mode, where "at once" would link every address
+    // together: the market refreshes now and each entry comes due at a
+    // random moment over the next interval
+    if (providerSettings.privateMode) {
+      scheduleRef.current = {
+        marketDue: Date.now() + intervalMs,
+        entriesDue: randomSchedule(ids, intervalMs),
+      };
+      await refreshMarket();
+      setLoading(false);
+      return;
+    }
+
+    // The automatic refreshes start over after this one, spread across the
+    // interval so the last entry is due one interval from now
+    scheduleRef.current = {
+      marketDue: Date.now() + intervalMs,
+      entriesDue: staggerSchedule(
+        ids,
+        intervalMs,
+        Date.now() + intervalMs / Math.max(1, ids.length)
+      ),
+    };
+
+    // 1. Update Price
+    const priceData = await trackProvider(price, () => fetchBtcPrice(price));
+    if (priceData) applyPriceData(priceData);
+
+    // 2. Update Fees
+    const feesData = await trackProvider(chain, () => fetchFees(chain));
+    if (feesData) applyFeesData(feesData);
+
+    // 3. Update Balances (and fire alerts)
+    const updatedAddresses = await refreshEntries();
+    await refreshTipHeights();
+
+    // 4. Record a balance snapshot for the history chart. Entries that
+    // failed count with their previous balance.
+    const refreshed = new Map(updatedAddresses.map((addr) => [addr.id, addr]));
+    await recordPortfolioSnapshot(
+      addressesRef.current.map((addr) => refreshed.get(addr.id) ?? addr),
+      priceData ? priceData.prices : null
+    );
 
     setLoading(false);
   };
 
-  // Initial load & Interval
+  // Full history for every entry, priced in the display currency. Too heavy
+  // for the refresh interval, so it only runs from the Gains tab.
+  const loadCostBasis = async () => {
+    const { chainFor, price } = providersRef.current;
+    setCostBasisStatus("Loading...");
+    try {
+      const txs = await loadPortfolioTxs(
+        chainFor,
+        price,
+        addressesRef.current.filter(
+          (addr) => !isTestNetwork(entryNetwork(addr))
+        ),
+        currency,
+        setCostBasisStatus,
+        recordProviderResult
+      );
+      setPortfolioTxs({ currency, txs });
+      setCostBasisStatus(null);
+    } catch {
+      // Already recorded against the backend that failed
+      setCostBasisStatus("Could not load transaction history.");
+    }
+  };
+
+  // One historical price per week since the first deposit; that can be
+  // hundreds of lookups, so it waits for the user to ask
+  const loadDcaPrices = async () => {
+    if (!portfolioTxs || !performance?.firstDeposit) return;
+    const { price } = providersRef.current;
+    setDcaStatus("Loading...");
+    const prices = await loadWeeklyPrices(
+      price,
+      dcaDates(performance.firstDeposit),
+      portfolioTxs.currency,
+      portfolioTxs.txs,
+      setDcaStatus
+    );
+    setDcaPrices({ currency: portfolioTxs.currency, prices });
+    setDcaStatus(null);
+  };
+
+  const setManualCost = (
+    entryId: number,
+    txid: string,
+    fiat: number | null
+  ) => {
+    setManualCosts((prev) => {
+      const next = { ...prev };
+      if (fiat === null) delete next[costKey(entryId, txid)];
+      else next[costKey(entryId, txid)] = { fiat, currency };
+      return next;
+    });
+  };
+
+  // Initial load & scheduler (restarted whenever the backend or interval
+  // changes). Waits for storage so the first refresh sees the saved entries.
+  // Each entry comes due on its own; hidden tabs don't refresh at all.
   useEffect(() => {
-    refreshData();
-    const interval = setInterval(refreshData, 60000); // Auto-refresh every 60s
-    return () => clearInterval(interval);
-  }, []);
+    providersRef.current = providers;
+    if (!storageReady) return;
+    const intervalMs = refreshInterval * 1000;
+
+    // Entries the socket follows only need the occasional safety-net poll
+    const entryInterval = (entry: TrackedEntry) =>
+      isLiveEntry(entry, liveRef.current)
+        ? intervalMs * LIVE_POLL_FACTOR
+        : intervalMs;
+
+    // Private mode draws a new slot every round (one interval apart on
+    // average) so the order of lookups never settles into a pattern
+    const nextDue = (entry: TrackedEntry, now: number) =>
+      providerSettings.privateMode
+        ? now + intervalMs * (0.5 + Math.random())
+        : now + entryInterval(entry);
+
+    const tick = () => {
+      if (document.hidden || !navigator.onLine) return;
+      const now = Date.now();
+      const schedule = scheduleRef.current;
+      if (now >= schedule.marketDue) {
+        schedule.marketDue = now + intervalMs;
+        refreshMarket();
+      }
+      const due = new Set<number>();
+      const late: number[] = [];
+      addressesRef.current.forEach((addr) => {
+        const at = schedule.entriesDue.get(addr.id);
+        if (at === undefined || at <= now) {
+          // Entries we haven't seen were just added, and fetched then
+          if (at !== undefined) due.add(addr.id);
+          schedule.entriesDue.set(addr.id, nextDue(addr, now));
+        } else if (
+          !providerSettings.privateMode &&
+          at > now + entryInterval(addr)
+        ) {
+          late.push(addr.id); // Scheduled while the socket was up
+        }
+      });
+      // The socket dropped: back to polling, spread over the interval
+      scheduleEntries(late, intervalMs, now).forEach((at, id) =>
+        schedule.entriesDue.set(id, at)
+      );
+      if (due.size > 0) refreshEntries(due);
+    };
+
+    // Back from a hidden tab: spread whatever fell due over the next
+    // interval rather than firing it all at once
+    const onVisibilityChange = () => {
+      if (document.hidden) return;
+      const now = Date.now();
+      const { entriesDue } = scheduleRef.current;
+      const overdue = addressesRef.current
+        .map((addr) => addr.id)
+        .filter((id) => (entriesDue.get(id) ?? Infinity) <= now);
+      scheduleEntries(overdue, intervalMs, now).forEach((at, id) =>
+        entriesDue.set(id, at)
+      );
+      tick();
+    };
+
+    // Offline there's nothing to fetch; the cached values stay up. The
+    // connection coming back catches everything up at once, via the window's
+    // "online" event or the service worker's Background Sync, whichever
+    // fires first.
+    let lastCatchUp = 0;
+    const catchUp = () => {
+      if (Date.now() - lastCatchUp < REFRESH_TICK) return;
+      lastCatchUp = Date.now();
+      refreshData();
+    };
+    const onOnline = () => {
+      setIsOnline(true);
+      catchUp();
+    };
+    const onOffline = () => {
+      setIsOnline(false);
+      requestCatchUp();
+    };
+
+    if (navigator.onLine) catchUp();
+    else onOffline();
+
+    const interval = setInterval(tick, REFRESH_TICK);
+    document.addEventListener("visibilitychange", onVisibilityChange);
+    window.addEventListener("online", onOnline);
+    window.addEventListener("offline", onOffline);
+    const unregister = registerServiceWorker(catchUp);
+    return () => {
+      clearInterval(interval);
+      document.removeEventListener("visibilitychange", onVisibilityChange);
+      window.removeEventListener("online", onOnline);
+      window.removeEventListener("offline", onOffline);
+      unregister();
+      providers.chain.close?.();
+    };
+  }, [providers, storageReady, refreshInterval]);
+
+  // --- Live Updates ---
+
+  // Entries the workspace's mempool socket can follow. Private mode keeps
+  // addresses off the socket, which would hand the whole list to one server.
+  const isLiveEntry = (entry: TrackedEntry, live: boolean) =>
+    live &&
+    !providerSettings.privateMode &&
+    entryNetwork(entry) === providerSettings.network;
+
+  const liveAddresses = (entries: TrackedEntry[]) =>
+    entries
+      .filter((entry) => isLiveEntry(entry, true))
+      .flatMap(getOwnAddresses);
+
+  const queueLiveRefresh = (ids: number[]) => {
+    const pending = liveRefreshRef.current;
+    ids.forEach((id) => pending.ids.add(id));
+    if (pending.timer || pending.ids.size === 0) return;
+    pending.timer = setTimeout(() => {
+      const batch = pending.ids;
+      pending.ids = new Set();
+      pending.timer = undefined;
+      refreshEntries(batch);
+    }, LIVE_REFRESH_DELAY);
+  };
+
+  // The socket only says something happened; the entries' own refresh
+  // fetches the new balances so alerts see the change like any other
+  useEffect(() => {
+    const url = liveSocketUrl(providerSettings);
+    if (!storageReady || !url) {
+      setLiveStatus(null);
+      return;
+    }
+    const socket = createMempoolSocket(url, {
+      onStatus: (status, error) => {
+        liveRef.current = status === "live";
+        setLiveStatus({ status, error });
+        if (error) console.error("Live updates unavailable:", error);
+      },
+      onFees: applyFeesData,
+      // Pending transactions may have confirmed
+      onBlock: (height) => {
+        setTipHeights((prev) => ({
+          ...prev,
+          [providerSettings.network]: height,
+        }));
+        queueLiveRefresh(
+          addressesRef.current
+            .filter(
+              (addr) =>
+                isLiveEntry(addr, true) &&
+                (addr.lastTxTime === "pending" ||
+                  addr.unsettled?.some((tx) => tx.blockHeight === null))
+            )
+            .map((addr) => addr.id)
+        );
+      },
+      onAddressTxs: (address) =>
+        queueLiveRefresh(
+          addressesRef.current
+            .filter(
+              (addr) =>
+                isLiveEntry(addr, true) &&
+                getOwnAddresses(addr).includes(address)
+            )
+            .map((addr) => addr.id)
+        ),
+    });
+    const tracked = new Set<string>();
+    liveSocketRef.current = {
+      ...socket,
+      setAddresses: (addresses) => {
+        socket.setAddresses(addresses);
+        addresses
+          .filter((address) => !tracked.has(address))
+          .forEach((address) => {
+            tracked.add(address);
+            logExposure({ endpoint: url, address, at: Date.now() });
+          });
+      },
+    };
+    liveSocketRef.current.setAddresses(liveAddresses(addressesRef.current));
+    return () => {
+      socket.close();
+      liveSocketRef.current = null;
+      liveRef.current = false;
+      clearTimeout(liveRefreshRef.current.timer);
+      liveRefreshRef.current = { ids: new Set() };
+    };
+  }, [providerSettings, storageReady]);
+
+  useEffect(() => {
+    liveSocketRef.current?.setAddresses(liveAddresses(addresses));
+  }, [addresses]);
+
+  // Reload the history chart when the range changes or a snapshot lands
+  useEffect(() => {
+    if (!storageReady) return; // Sealed until unlocked
+    getSnapshots(historyRange)
+      .then(setHistory)
+      .catch((error) => console.error("Error loading history:", error));
+  }, [historyRange, lastSnapshotAt, storageReady]);
+
+  // Load cost basis on first visit to Gains, and again if the currency changes
+  useEffect(() => {
+    if (
+      activeTab === "gains" &&
+      portfolioTxs?.currency !== currency &&
+      !costBasisStatus
+    ) {
+      loadCostBasis();
+    }
+  }, [activeTab, currency]);
+
+  // --- App Lock ---
+
+  const unlockApp = async (passphrase: string) => {
+    await unlockStorage(passphrase);
+    await loadStoredState();
+  };
 
   // --- Export/Import Logic ---
 
-  const downloadBackup = () => {
-    const dataStr =
-      "data:text/json;charset=utf-8," +
-      encodeURIComponent(JSON.stringify(addresses));
-    const downloadAnchorNode = document.createElement("a");
-    downloadAnchorNode.setAttribute("href", dataStr);
-    downloadAnchorNode.setAttribute("download", "sats_tracker_backup.json");
-    document.body.appendChild(downloadAnchorNode);
-    downloadAnchorNode.click();
-    downloadAnchorNode.remove();
+  // Merges into the tracked set, or replaces it along with the settings
+  const restoreBackup = (payload: BackupPayload, mode: RestoreMode) => {
+    setPortfolioTxs(null);
+    if (mode === "merge") {
+      const merged = mergeBackup({ addresses, manualCosts }, payload);
+      setAddresses(merged.addresses);
+      setManualCosts(merged.manualCosts);
+      return `Added ${merged.added} entr${
+        merged.added === 1 ? "y" : "ies"
+      }, skipped ${merged.skipped} already tracked.`;
+    }
+    const { settings } = payload;
+    setAddresses(payload.addresses);
+    setManualCosts(payload.manualCosts);
+    if (settings.currency) setCurrency(settings.currency);
+    if (settings.secondaryCurrency !== undefined) {
+      setSecondaryCurrency(settings.secondaryCurrency);
+    }
+    if (settings.providers) {
+      // Backups from before networks existed have no network field
+      const restored = {
+        ...DEFAULT_PROVIDER_SETTINGS,
+        ...settings.providers,
+      };
+      setProviderSettings(restored);
+      setSettingsDraft(restored);
+    }
+    if (settings.lotMethod) setLotMethod(settings.lotMethod);
+    if (settings.groups) {
+      setGroups(withEntryGroups(settings.groups, payload.addresses));
+    }
+    if (settings.alertRules) setAlertRules(settings.alertRules);
+    if (settings.privacyLevel) setPrivacyLevel(settings.privacyLevel);
+    return `Restored ${payload.addresses.length} entries and settings.`;
   };
 
-  const triggerImport = () => {
-    document.getElementById("import-file").click();
+  const applyImportedLabels = (entries: TrackedEntry[], added: number) => {
+    setAddresses(entries);
+    if (added > 0) {
+      // New entries start at zero; fetch their balances right away
+      addressesRef.current = entries;
+      refreshData();
+    }
   };
 
-  const handleImport = (event) => {
+  // Fills in the add form so the usual checks and preview apply
+  const handleMultisigImport = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
     const fileReader = new FileReader();
-    fileReader.readAsText(event.target.files[0], "UTF-8");
+    fileReader.readAsText(file, "UTF-8");
     fileReader.onload = (e) => {
       try {
-        const importedData = JSON.parse(e.target.result);
-        if (Array.isArray(importedData)) {
-          // Basic validation to ensure it looks like our data
-          const valid = importedData.every((item) => item.address && item.id);
-          if (valid) {
-            setAddresses(importedData);
-            alert("Backup imported successfully!");
-          } else {
-            alert("Invalid backup file format.");
-          }
-        }
+        const config = parseMultisigConfig((e.target?.result as string) || "");
+        setNewAddress(config.descriptor);
+        if (config.name && !newLabel) setNewLabel(config.name);
       } catch (error) {
-        console.error("Error parsing file:", error);
-        alert("Error reading file.");
+        console.error("Error reading multisig config:", error);
+        alert(`Could not read ${file.name}: ${(error as Error).message}`);
       }
     };
   };
 
+  // Input has already passed newAddressCheck
+  const addWallet = async (input: string) => {
+    // Regtest keys are tpubs too; only the derived addresses' prefix differs
+    const descriptor = {
+      ...parseWalletInput(input),
+      network: NETWORKS[newNetwork].addressNetwork,
+    };
+    const gapLimit = clampGapLimit(newGapLimit);
+    const chain = providersRef.current.chainFor(newNetwork);
+    const walletData = await trackProvider(chain, () =>
+      fetchWalletData(chain, descriptor, gapLimit)
+    );
+    if (!walletData) {
+      alert(`Could not scan wallet via ${chain.name}. Please try again.`);
+      return null;
+    }
+
+    return {
+      kind: "wallet" as const,
+      descriptor,
+      gapLimit,
+      derived: walletData.derived,
+      nextReceiveIndex: walletData.nextReceiveIndex,
+      balanceSats: walletData.balanceSats,
+      confirmedSats: walletData.confirmedSats,
+      unsettled: walletData.unsettled,
+      lastTxTime: walletData.lastTxTime,
+    };
+  };
+
   const addAddress = async () => {
-    if (!newAddress) return;
+    const address = newAddressCheck.address;
+    if (!address) return;
 
     setLoading(true);
-    const addressData = await fetchAddressData(newAddress);
-
-    if (!addressData) {
-      alert(
-        "Could not fetch address. Please check if it's a valid Bitcoin address."
+    let entryData;
+    if (isWalletInput) {
+      entryData = await addWallet(address);
+    } else {
+      const chain = providersRef.current.chainFor(newNetwork);
+      const addressData = await trackProvider(chain, () =>
+        fetchAddressData(chain, address)
       );
+      if (!addressData) {
+        alert(
+          `Could not fetch address data from ${chain.name}. Please try again.`
+        );
+      } else {
+        entryData = {
+          kind: "address" as const,
+          balanceSats: addressData.balanceSats,
+          confirmedSats: addressData.confirmedSats,
+          unsettled: addressData.unsettled,
+          lastTxTime: addressData.lastTxTime,
+        };
+      }
+    }
+
+    if (!entryData) {
       setLoading(false);
       return;
     }
 
-    const newEntry = {
+    const newEntry: TrackedEntry = {
       id: Date.now(),
-      address: newAddress,
+      address,
       label: newLabel || "My Wallet",
       group: newGroup || "General",
-      balanceSats: addressData.balanceSats,
-      lastTxTime: addressData.lastTxTime,
+      network: newNetwork,
+      ...entryData,
       lastUpdated: new Date(),
     };
 
@@ -315,22 +1519,251 @@ export default function App() {
     setLoading(false);
   };
 
-  const removeAddress = (id) => {
-    setAddresses((prev) => prev.filter((a) => a.id !== id));
+  // Shares the label, group and network fields with the address form
+  const addLightningNode = async () => {
+    const node = { ...newLightning, url: newLightning.url.trim() };
+    // Nodes restored from an unencrypted backup come back without their
+    // credential; adding them again fills it in
+    const existing = addresses.find((addr) => addr.lightning?.url === node.url);
+    if (existing?.lightning?.credential) {
+      alert("This node is already tracked.");
+      return;
+    }
+
+    setLoading(true);
+    const client = createLightningClient(node);
+    const data = await trackProvider(client, () => fetchLightningData(client));
+    setLoading(false);
+    if (!data) {
+      alert(
+        `Could not reach the ${client.name} at ${node.url}. Check the URL, the credential and that the node allows this origin (CORS).`
+      );
+      return;
+    }
+
+    if (existing) {
+      setAddresses((prev) =>
+        prev.map((addr) =>
+          addr.id === existing.id
+            ? {
+                ...addr,
+                balanceSats: data.balanceSats,
+                lightning: node,
+                lightningBalance: data.lightningBalance,
+                lastUpdated: new Date(),
+              }
+            : addr
+        )
+      );
+      updateEntryStatus([existing.id], { lastSuccess: Date.now() });
+      setNewLightning({ ...node, url: "", credential: "" });
+      setShowLightningForm(false);
+      return;
+    }
+
+    const newEntry: TrackedEntry = {
+      id: Date.now(),
+      kind: "lightning",
+      address: node.url,
+      label: newLabel || data.lightningBalance.alias || "Lightning Node",
+      group: newGroup || "General",
+      network: newNetwork,
+      balanceSats: data.balanceSats,
+      lastTxTime: null,
+      lightning: node,
+      lightningBalance: data.lightningBalance,
+      lastUpdated: new Date(),
+    };
+    setAddresses((prev) => [...prev, newEntry]);
+    setNewLightning({ ...node, url: "", credential: "" });
+    setNewLabel("");
+    setShowLightningForm(false);
+  };
+
+  // --- Address Management ---
+
+  const visibleAddresses = useMemo(
+    () =>
+      sortEntries(
+        filterEntries(addresses, addressFilters),
+        addressFilters.sort,
+        addressFilters.descending
+      ),
+    [addresses, addressFilters]
+  );
+
+  const updateAddressFilters = (changes: Partial<AddressFilters>) =>
+    setAddressFilters((prev) => ({ ...prev, ...changes }));
+
+  // Bulk actions only apply to what's on screen
+  useEffect(() => {
+    const visible = new Set(visibleAddresses.map((a) => a.id));
+    setSelectedIds((prev) =>
+      [...prev].every((id) => visible.has(id))
+        ? prev
+        : new Set([...prev].filter((id) => visible.has(id)))
+    );
+  }, [visibleAddresses]);
+
+  // Deleting is immediate; the toast just offers to put the entries back
+  const removeAddresses = (ids: Set<number>) => {
+    const removed = addresses
+      .map((entry, index) => ({ entry, index }))
+      .filter(({ entry }) => ids.has(entry.id));
+    if (!removed.length) return;
+    setAddresses((prev) => prev.filter((a) => !ids.has(a.id)));
+    setSelectedIds((prev) => new Set([...prev].filter((id) => !ids.has(id))));
+    setUndoDelete({
+      removed,
+      message:
+        removed.length === 1
+          ? `Removed "${removed[0].entry.label}"`
+          : `Removed ${removed.length} entries`,
+    });
+  };
+
+  const removeAddress = (id: number) => removeAddresses(new Set([id]));
+
+  // Back at their old positions, unless another tab re-added them meanwhile
+  const undoRemove = () => {
+    if (!undoDelete) return;
+    setAddresses((prev) => {
+      const next = [...prev];
+      undoDelete.removed.forEach(({ entry, index }) => {
+        if (!next.some((a) => a.id === entry.id)) {
+          next.splice(Math.min(index, next.length), 0, entry);
+        }
+      });
+      return next;
+    });
+    setUndoDelete(null);
+  };
+
+  const startEdit = (entry: TrackedEntry) => {
+    setEditingId(entry.id);
+    setEditDraft({
+      label: entry.label,
+      group: entry.group,
+      notes: entry.notes || "",
+    });
+  };
+
+  const saveEdit = () => {
+    const label = editDraft.label.trim();
+    const notes = editDraft.notes.trim();
+    setAddresses((prev) =>
+      prev.map((a) =>
+        a.id === editingId
+          ? {
+              ...a,
+              label: label || a.label,
+              group: editDraft.group,
+              notes: notes || undefined,
+            }
+          : a
+      )
+    );
+    setEditingId(null);
+  };
+
+  // Drops the dragged entry into the target's slot
+  const moveEntry = (fromId: number, toId: number) => {
+    if (fromId === toId) return;
+    setAddresses((prev) => {
+      const from = prev.findIndex((a) => a.id === fromId);
+      const to = prev.findIndex((a) => a.id === toId);
+      if (from === -1 || to === -1) return prev;
+      const next = [...prev];
+      const [moved] = next.splice(from, 1);
+      next.splice(to, 0, moved);
+      return next;
+    });
+  };
+
+  const toggleSelected = (id: number) => {
+    setSelectedIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const moveToGroup = (ids: Set<number>, group: string) => {
+    setAddresses((prev) =>
+      prev.map((a) => (ids.has(a.id) ? { ...a, group } : a))
+    );
+  };
+
+  const refreshSelected = async () => {
+    setLoading(true);
+    await refreshEntries(selectedIds);
+    setLoading(false);
+  };
+
+  // --- Groups ---
+
+  // Entries and group-scoped alert rules follow the new name
+  const applyGroupRename = (from: string, to: string) => {
+    const next = renameGroup(from, to, {
+      groups,
+      entries: addresses,
+      rules: alertRules,
+    });
+    // Renaming into an existing group merges them and keeps its color
+    setGroups(
+      groups.some((group) => group.name === to)
+        ? groups.filter((group) => group.name !== from)
+        : next.groups
+    );
+    setAddresses(next.entries);
+    setAlertRules(next.rules);
+    if (newGroup === from) setNewGroup(to);
   };
 
   // --- Computed Stats ---
 
-  const totalSats = useMemo(
-    () => addresses.reduce((acc, curr) => acc + curr.balanceSats, 0),
+  // Prices in the selected display currencies
+  const btcPrice = btcPrices?.[currency] ?? null;
+  const priceChange = priceChanges[currency] ?? 0;
+  const secondaryPrice =
+    secondaryCurrency && btcPrices
+      ? btcPrices[secondaryCurrency] ?? null
+      : null;
+
+  const toFiat = (sats: number, price: number | null) =>
+    price ? (sats / 100000000) * price : 0;
+
+  const formatGain = (val: number) =>
+    `${val >= 0 ? "+" : "-"}${formatFiat(Math.abs(val), currency)}`;
+  const gainColor = (val: number) =>
+    val >= 0 ? "text-green-400" : "text-red-400";
+
+  // Test coins are worthless, so they stay out of every fiat total and chart
+  const mainnetEntries = useMemo(
+    () => addresses.filter((addr) => !isTestNetwork(entryNetwork(addr))),
     [addresses]
   );
+  const testBalances = useMemo(() => {
+    const totals: Partial<Record<BitcoinNetwork, number>> = {};
+    addresses.forEach((addr) => {
+      const network = entryNetwork(addr);
+      if (!isTestNetwork(network)) return;
+      totals[network] = (totals[network] || 0) + addr.balanceSats;
+    });
+    return Object.entries(totals) as [BitcoinNetwork, number][];
+  }, [addresses]);
+
+  const totalSats = useMemo(
+    () => mainnetEntries.reduce((acc, curr) => acc + curr.balanceSats, 0),
+    [mainnetEntries]
+  );
   const totalBTC = totalSats / 100000000;
-  const totalUSD = btcPrice ? totalBTC * btcPrice : 0;
+  const totalFiat = toFiat(totalSats, btcPrice);
 
   const groupStats = useMemo(() => {
-    const stats = {};
-    addresses.forEach((addr) => {
+    const stats: Record<string, number> = {};
+    mainnetEntries.forEach((addr) => {
       if (!stats[addr.group]) stats[addr.group] = 0;
       stats[addr.group] += addr.balanceSats;
     });
@@ -339,24 +1772,71 @@ export default function App() {
         name,
         value: sats,
         btc: sats / 100000000,
-        usd: btcPrice ? (sats / 100000000) * btcPrice : 0,
+        fiat: toFiat(sats, btcPrice),
+        secondaryFiat: toFiat(sats, secondaryPrice),
       }))
       .filter((item) => item.value > 0) // Filter out zero balances
       .sort((a, b) => b.value - a.value);
-  }, [addresses, btcPrice]);
+  }, [mainnetEntries, btcPrice, secondaryPrice]);
 
   const addressStats = useMemo(() => {
-    return addresses
+    return mainnetEntries
       .map((addr) => ({
         name: addr.address, // Store full address as name
         label: addr.label, // Store label for reference if needed
         value: addr.balanceSats,
         btc: addr.balanceSats / 100000000,
-        usd: btcPrice ? (addr.balanceSats / 100000000) * btcPrice : 0,
+        fiat: toFiat(addr.balanceSats, btcPrice),
+        secondaryFiat: toFiat(addr.balanceSats, secondaryPrice),
       }))
       .filter((item) => item.value > 0) // Filter out zero balances
       .sort((a, b) => b.value - a.value);
-  }, [addresses, btcPrice]);
+  }, [mainnetEntries, btcPrice, secondaryPrice]);
+
+  // Cost basis ledger, rebuilt instantly when the method or manual costs change
+  const ledger = useMemo(
+    () =>
+      portfolioTxs && portfolioTxs.currency === currency
+        ? buildLedger(portfolioTxs.txs, lotMethod, currency, manualCosts)
+        : null,
+    [portfolioTxs, lotMethod, currency, manualCosts]
+  );
+
+  const holdings = useMemo(() => {
+    if (!ledger) return null;
+    const groupOf: Record<string, string> = {};
+    addresses.forEach((addr) => {
+      groupOf[addr.id] = addr.group;
+    });
+    const byEntry = summarizeLots(ledger.lots, btcPrice, (lot) => lot.entryId);
+    const byGroup = summarizeLots(
+      ledger.lots,
+      btcPrice,
+      (lot) => groupOf[lot.entryId] || "Removed"
+    );
+    const total = summarizeLots(ledger.lots, btcPrice, () => "total").total;
+    return { byEntry, byGroup, total };
+  }, [ledger, addresses, btcPrice]);
+
+  const performance = useMemo(
+    () =>
+      portfolioTxs && portfolioTxs.currency === currency
+        ? calculatePerformance(portfolioTxs.txs, btcPrice)
+        : null,
+    [portfolioTxs, currency, btcPrice]
+  );
+
+  const monthlyStacks = useMemo(
+    () => (portfolioTxs ? stackedByMonth(portfolioTxs.txs) : []),
+    [portfolioTxs]
+  );
+
+  // Every address we know belongs to the portfolio, for spotting transfers
+  // between tracked entries
+  const trackedAddresses = useMemo(
+    () => new Set<string>(addresses.flatMap(getOwnAddresses)),
+    [addresses]
+  );
 
   const chartData = chartMode === "group" ? groupStats : addressStats;
   const COLORS = [
@@ -377,8 +1857,44 @@ export default function App() {
     "#64748B",
   ];
 
+  // Groups keep their own color; addresses cycle through the palette
+  const sliceColor = (name: string, index: number) =>
+    chartMode === "group"
+      ? groupColor(groups, name)
+      : COLORS[index % COLORS.length];
+
+  const historyData = useMemo(
+    () =>
+      history
+        .map((snapshot) => {
+          const price = getSnapshotPrice(snapshot, currency);
+          return {
+            timestamp: snapshot.timestamp,
+            btc: snapshot.totalSats / 100000000,
+            fiat: price ? toFiat(snapshot.totalSats, price) : null,
+          };
+        })
+        .filter((point) => historyUnit === "btc" || point.fiat !== null),
+    [history, historyUnit, currency]
+  );
+
+  const formatHistoryTick = (timestamp: number) =>
+    historyRange === "24h"
+      ? new Date(timestamp).toLocaleTimeString(undefined, {
+          hour: "2-digit",
+          minute: "2-digit",
+        })
+      : new Date(timestamp).toLocaleDateString(undefined, {
+          month: "short",
+          day: "numeric",
+        });
+
+  // Strict privacy replaces these outright; blurring leaves them guessable
+  const masked = (text: string) => (isStrictPrivacy ? MASK : text);
+
   // --- Custom Tooltip Component ---
   const CustomTooltip = ({ active, payload }) => {
+    if (isStrictPrivacy) return null;
     if (active && payload && payload.length) {
       const data = payload[0].payload;
       return (
@@ -405,9 +1921,54 @@ export default function App() {
             <div className="flex justify-between items-center gap-4 text-xs">
               <span className="text-gray-300">Value:</span>
               <span className="text-green-400 font-mono font-medium">
-                {formatUSD(data.usd)}
+                {formatFiat(data.fiat, currency)}
+              </span>
+            </div>
+            {secondaryCurrency && secondaryPrice && (
+              <div className="flex justify-between items-center gap-4 text-xs">
+                <span className="text-gray-300" />
+                <span className="text-gray-400 font-mono">
+                  {formatFiat(data.secondaryFiat, secondaryCurrency)}
+                </span>
+              </div>
+            )}
+          </div>
+        </div>
+      );
+    }
+    return null;
+  };
+
+  const HistoryTooltip = ({
+    active,
+    payload,
+  }: {
+    active?: boolean;
+    payload?: { payload: (typeof historyData)[number] }[];
+  }) => {
+    if (isStrictPrivacy) return null;
+    if (active && payload && payload.length) {
+      const data = payload[0].payload;
+      return (
+        <div className="bg-gray-900/60 backdrop-blur-md border border-gray-700/50 p-3 rounded-lg shadow-xl">
+          <p className="font-bold text-white mb-1 text-sm">
+            {new Date(data.timestamp).toLocaleString()}
+          </p>
+          <div className="space-y-0.5">
+            <div className="flex justify-between items-center gap-4 text-xs">
+              <span className="text-gray-300">Balance:</span>
+              <span className="text-orange-400 font-mono font-medium">
+                {data.btc.toFixed(8)} BTC
               </span>
             </div>
+            {data.fiat !== null && (
+              <div className="flex justify-between items-center gap-4 text-xs">
+                <span className="text-gray-300">Value:</span>
+                <span className="text-green-400 font-mono font-medium">
+                  {formatFiat(data.fiat, currency)}
+                </span>
+              </div>
+            )}
           </div>
         </div>
       );
@@ -417,6 +1978,108 @@ export default function App() {
 
   // --- Renderers ---
 
+  const renderHistory = () => (
+    <Card>
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 mb-6">
+        <h3 className="text-lg font-semibold text-white flex items-center gap-2">
+          <History className="w-5 h-5 text-gray-400" />
+          Portfolio History
+        </h3>
+        <div className="flex flex-wrap gap-2">
+          <div className="flex bg-gray-900 rounded-lg p-1 border border-gray-700">
+            {["fiat", "btc"].map((unit) => (
+              <button
+                key={unit}
+                onClick={() => setHistoryUnit(unit)}
+                className={`px-3 py-1 text-xs font-medium rounded-md transition-colors ${
+                  historyUnit === unit
+                    ? "bg-gray-700 text-white"
+                    : "text-gray-400 hover:text-white"
+                }`}
+              >
+                {unit === "fiat" ? currency.toUpperCase() : "BTC"}
+              </button>
+            ))}
+          </div>
+          <div className="flex bg-gray-900 rounded-lg p-1 border border-gray-700">
+            {(Object.keys(HISTORY_RANGES) as HistoryRange[]).map((range) => (
+              <button
+                key={range}
+                onClick={() => setHistoryRange(range)}
+                className={`px-3 py-1 text-xs font-medium rounded-md transition-colors ${
+                  historyRange === range
+                    ? "bg-gray-700 text-white"
+                    : "text-gray-400 hover:text-white"
+                }`}
+              >
+                {range.toUpperCase()}
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      {historyData.length < 2 ? (
+        <p className="text-gray-500 text-sm text-center py-16">
+          Not enough history yet. Snapshots are recorded as balances refresh.
+        </p>
+      ) : (
+        <div className={`h-64 w-full ${isPrivacyMode ? "blur-sm" : ""}`}>
+          <ResponsiveContainer width="100%" height="100%">
+            <AreaChart data={historyData}>
+              <defs>
+                <linearGradient id="historyFill" x1="0" y1="0" x2="0" y2="1">
+                  <stop offset="5%" stopColor="#F7931A" stopOpacity={0.4} />
+                  <stop offset="95%" stopColor="#F7931A" stopOpacity={0} />
+                </linearGradient>
+              </defs>
+              <CartesianGrid stroke="#374151" strokeDasharray="3 3" />
+              <XAxis
+                dataKey="timestamp"
+                type="number"
+                scale="time"
+                domain={["dataMin", "dataMax"]}
+                tickFormatter={formatHistoryTick}
+                stroke="#6B7280"
+                fontSize={11}
+              />
+              <YAxis
+                stroke="#6B7280"
+                fontSize={11}
+                width={70}
+                domain={["auto", "auto"]}
+                tickFormatter={(value) =>
+                  historyUnit === "btc"
+                    ? value.toFixed(4)
+                    : formatFiat(value, currency, { compact: true })
+                }
+              />
+              <RechartsTooltip content={<HistoryTooltip />} />
+              <Area
+                type="monotone"
+                dataKey={historyUnit}
+                stroke="#F7931A"
+                strokeWidth={2}
+                fill="url(#historyFill)"
+              />
+            </AreaChart>
+          </ResponsiveContainer>
+        </div>
+      )}
+    </Card>
+  );
+
+  // Shown with an "as of" time once they've missed a couple of refreshes
+  const isStale = (at: number | null) =>
+    at !== null && (!isOnline || Date.now() - at > refreshInterval * 2000);
+
+  // The oldest balance on the dashboard, for when we can't refresh them
+  const balancesAsOf = addresses.reduce<number | null>((oldest, addr) => {
+    if (!addr.lastUpdated) return oldest;
+    const at = new Date(addr.lastUpdated).getTime();
+    return oldest === null ? at : Math.min(oldest, at);
+  }, null);
+
   const renderDashboard = () => (
     <div className="space-y-6 animate-in fade-in duration-500">
       {/* Hero Stats */}
@@ -433,19 +2096,65 @@ export default function App() {
                     isPrivacyMode ? "blur-sm" : ""
                   }`}
                 >
-                  {formatUSD(totalUSD)}
+                  {formatFiat(totalFiat, currency)}
                 </span>
                 <span className="text-orange-400 font-mono text-lg">
                   {isPrivacyMode ? "***" : totalBTC.toFixed(8)} BTC
                 </span>
               </div>
+              {secondaryCurrency && secondaryPrice && (
+                <div
+                  className={`mt-1 text-gray-400 text-sm ${
+                    isPrivacyMode ? "blur-sm" : ""
+                  }`}
+                >
+                  {formatFiat(
+                    toFiat(totalSats, secondaryPrice),
+                    secondaryCurrency
+                  )}
+                </div>
+              )}
             </div>
             <div className="bg-orange-500/10 p-3 rounded-full">
               <Bitcoin className="w-8 h-8 text-orange-500" />
             </div>
           </div>
-          <div className="text-sm text-gray-500">
-            Backed by {addresses.length} tracked addresses
+          <div className="flex flex-wrap justify-between gap-2 text-sm text-gray-500">
+            <span>
+              {!isOnline && balancesAsOf && (
+                <span className="text-yellow-500">
+                  Balances {formatAsOf(balancesAsOf)} ·{" "}
+                </span>
+              )}
+              Backed by {mainnetEntries.length} tracked addresses
+              {testBalances.length > 0 && (
+                <span className={isPrivacyMode ? "blur-sm" : ""}>
+                  {" "}
+                  · excludes test coins:{" "}
+                  {testBalances
+                    .map(
+                      ([network, sats]) =>
+                        `${masked(formatSats(sats))} ${
+                          NETWORKS[network].ticker
+                        }`
+                    )
+                    .join(", ")}
+                </span>
+              )}
+            </span>
+            {holdings?.total && (
+              <span className={isPrivacyMode ? "blur-sm" : ""}>
+                Unrealized P&L:{" "}
+                <span className={gainColor(holdings.total.unrealized)}>
+                  {formatGain(holdings.total.unrealized)}
+                  {holdings.total.cost > 0 &&
+                    ` (${(
+                      (holdings.total.unrealized / holdings.total.cost) *
+                      100
+                    ).toFixed(1)}%)`}
+                </span>
+              </span>
+            )}
           </div>
         </Card>
 
@@ -456,8 +2165,17 @@ export default function App() {
           <div className="flex items-center justify-between mb-4">
             <div>
               <div className="text-2xl font-bold text-white mb-1">
-                {btcPrice ? formatUSD(btcPrice) : "Loading..."}
+                {btcPrice
+                  ? formatFiat(btcPrice, currency)
+                  : providerStatus[providers.price.id]?.lastError
+                  ? "Unavailable"
+                  : "Loading..."}
               </div>
+              {secondaryCurrency && secondaryPrice && (
+                <div className="text-sm text-gray-400 mb-1">
+                  {formatFiat(secondaryPrice, secondaryCurrency)}
+                </div>
+              )}
               <div
                 className={`flex items-center gap-1 text-sm ${
                   priceChange >= 0 ? "text-green-400" : "text-red-400"
@@ -466,6 +2184,11 @@ export default function App() {
                 <TrendingUp className="w-4 h-4" />
                 <span>{priceChange.toFixed(2)}% (24h)</span>
               </div>
+              {btcPrice && isStale(marketAsOf.pricesAt) && (
+                <div className="text-xs text-yellow-500 mt-1">
+                  {formatAsOf(marketAsOf.pricesAt!)}
+                </div>
+              )}
             </div>
           </div>
 
@@ -473,6 +2196,11 @@ export default function App() {
             <div className="flex items-center gap-2 mb-2 text-xs text-gray-400 uppercase tracking-wider">
               <Zap className="w-3 h-3 text-yellow-500" />
               Current Fees (sat/vB)
+              {fees && isStale(marketAsOf.feesAt) && (
+                <span className="normal-case tracking-normal text-yellow-500">
+                  · {formatAsOf(marketAsOf.feesAt!)}
+                </span>
+              )}
             </div>
             {fees ? (
               <div className="grid grid-cols-3 gap-2 text-center">
@@ -495,13 +2223,29 @@ export default function App() {
               </div>
             ) : (
               <div className="text-sm text-gray-500 italic">
-                Loading fees...
+                {providerStatus[providers.chain.id]?.lastError
+                  ? `Fees unavailable from ${providers.chain.name}`
+                  : "Loading fees..."}
               </div>
             )}
+            <div className="mt-3">
+              <FeeSparkline history={feeHistory} />
+            </div>
+            {addresses.length > 0 && (
+              <button
+                onClick={() => setActiveTab("utxos")}
+                className="mt-2 text-xs text-orange-400 hover:text-orange-300"
+              >
+                Plan a consolidation →
+              </button>
+            )}
           </div>
         </Card>
       </div>
 
+      {/* History Chart */}
+      {addresses.length > 0 && renderHistory()}
+
       {/* Allocation Chart */}
       {addresses.length > 0 && (
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
@@ -550,7 +2294,7 @@ export default function App() {
                     {chartData.map((entry, index) => (
                       <Cell
                         key={`cell-${index}`}
-                        fill={COLORS[index % COLORS.length]}
+                        fill={sliceColor(entry.name, index)}
                       />
                     ))}
                   </Pie>
@@ -573,14 +2317,16 @@ export default function App() {
                   <div className="flex items-center gap-3">
                     <div
                       className="w-3 h-3 rounded-full flex-shrink-0"
-                      style={{ backgroundColor: COLORS[idx % COLORS.length] }}
+                      style={{ backgroundColor: sliceColor(item.name, idx) }}
                     />
                     <span
                       className="font-medium text-white text-sm truncate max-w-[150px]"
-                      title={item.name}
+                      title={isStrictPrivacy ? undefined : item.name}
                     >
                       {chartMode === "address"
-                        ? `${item.name.slice(0, 5)}...${item.name.slice(-4)}`
+                        ? masked(
+                            `${item.name.slice(0, 5)}...${item.name.slice(-4)}`
+                          )
                         : item.name}
                     </span>
                   </div>
@@ -590,166 +2336,936 @@ export default function App() {
                         isPrivacyMode ? "blur-sm" : ""
                       }`}
                     >
-                      {formatUSD(item.usd)}
+                      {formatFiat(item.fiat, currency)}
                     </div>
+                    {secondaryCurrency && secondaryPrice && (
+                      <div
+                        className={`text-xs text-gray-500 ${
+                          isPrivacyMode ? "blur-sm" : ""
+                        }`}
+                      >
+                        {formatFiat(item.secondaryFiat, secondaryCurrency)}
+                      </div>
+                    )}
                     <div className="text-xs text-gray-400 font-mono">
-                      {item.btc.toFixed(6)} BTC
+                      {masked(item.btc.toFixed(6))} BTC
                     </div>
                   </div>
                 </div>
               ))}
-              {chartData.length === 0 && (
-                <p className="text-gray-500 text-sm text-center py-4">
-                  No balances found.
-                </p>
+              {chartData.length === 0 && (
+                <p className="text-gray-500 text-sm text-center py-4">
+                  No balances found.
+                </p>
+              )}
+            </div>
+          </Card>
+        </div>
+      )}
+    </div>
+  );
+
+  const addressFreshness = (entry: TrackedEntry) =>
+    entryFreshness(
+      entry,
+      entryStatus[entry.id],
+      refreshInterval *
+        1000 *
+        (isLiveEntry(entry, liveStatus?.status === "live")
+          ? LIVE_POLL_FACTOR
+          : 1)
+    );
+
+  const freshnessCounts = addresses.reduce(
+    (counts, addr) => {
+      counts[addressFreshness(addr)]++;
+      return counts;
+    },
+    { fresh: 0, stale: 0, error: 0, refreshing: 0 } as Record<Freshness, number>
+  );
+
+  const renderAddresses = () => (
+    <div className="space-y-6 animate-in fade-in duration-500">
+      {/* Add New Address Card */}
+      <Card className="border-blue-500/20 bg-blue-900/10">
+        <h3 className="text-lg font-semibold text-white mb-4 flex items-center gap-2">
+          <Plus className="w-5 h-5 text-blue-400" />
+          Track New Address
+        </h3>
+        <div className="grid grid-cols-1 md:grid-cols-12 gap-4">
+          <div className="md:col-span-5">
+            <input
+              type="text"
+              placeholder="Bitcoin Address, xpub/ypub/zpub or descriptor (incl. multisig)"
+              className={`w-full bg-gray-900 border rounded-lg px-4 py-3 text-white focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm font-mono ${
+                newAddressCheck.error ? "border-red-500/60" : "border-gray-700"
+              }`}
+              value={newAddress}
+              onChange={(e) => setNewAddress(e.target.value)}
+            />
+            <input
+              id="multisig-file"
+              type="file"
+              accept=".json,.txt,application/json,text/plain"
+              className="hidden"
+              onChange={handleMultisigImport}
+            />
+            {newAddressCheck.error ? (
+              <p className="mt-1 text-xs text-red-400 flex items-center gap-1">
+                <CircleAlert className="w-3 h-3 flex-shrink-0" />
+                {newAddressCheck.error}
+              </p>
+            ) : (
+              newAddressCheck.summary && (
+                <p className="mt-1 text-xs text-green-400 flex items-center gap-1">
+                  <CircleCheck className="w-3 h-3 flex-shrink-0" />
+                  {newAddressCheck.summary}
+                </p>
+              )
+            )}
+          </div>
+          <div className="md:col-span-2">
+            <input
+              type="text"
+              placeholder="Label (e.g. Ledger)"
+              className="w-full bg-gray-900 border border-gray-700 rounded-lg px-4 py-3 text-white focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm"
+              value={newLabel}
+              onChange={(e) => setNewLabel(e.target.value)}
+            />
+          </div>
+          <div className="md:col-span-2">
+            <select
+              className="w-full bg-gray-900 border border-gray-700 rounded-lg px-4 py-3 text-white focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm"
+              value={newGroup}
+              onChange={(e) => setNewGroup(e.target.value)}
+            >
+              {groups.map((group) => (
+                <option key={group.name} value={group.name}>
+                  {group.name}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="md:col-span-2">
+            <select
+              className={`w-full bg-gray-900 border rounded-lg px-4 py-3 text-white focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm ${
+                isTestNetwork(newNetwork)
+                  ? "border-yellow-600/60"
+                  : "border-gray-700"
+              }`}
+              value={newNetwork}
+              onChange={(e) => setNewNetwork(e.target.value as BitcoinNetwork)}
+              title="Network"
+            >
+              {BITCOIN_NETWORKS.map((network) => (
+                <option key={network} value={network}>
+                  {NETWORKS[network].name}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="md:col-span-1">
+            <button
+              onClick={addAddress}
+              disabled={loading || !newAddressCheck.address}
+              className="w-full h-full bg-blue-600 hover:bg-blue-500 disabled:bg-gray-700 disabled:cursor-not-allowed text-white rounded-lg font-medium transition-colors flex items-center justify-center"
+            >
+              {loading ? (
+                <RefreshCw className="w-5 h-5 animate-spin" />
+              ) : (
+                <Plus className="w-5 h-5" />
+              )}
+            </button>
+          </div>
+        </div>
+        <div className="mt-3 flex flex-wrap gap-4">
+          <button
+            onClick={() => document.getElementById("multisig-file")?.click()}
+            className="text-xs text-blue-400 hover:text-blue-300 flex items-center gap-1"
+          >
+            <Upload className="w-3 h-3" />
+            Import multisig config (Sparrow, Specter, Caravan or Coldcard)
+          </button>
+          <button
+            onClick={() => setShowLightningForm(!showLightningForm)}
+            className="text-xs text-blue-400 hover:text-blue-300 flex items-center gap-1"
+          >
+            <Zap className="w-3 h-3" />
+            Track a Lightning node instead
+          </button>
+        </div>
+        {showLightningForm && (
+          <div className="mt-4 p-4 rounded-lg border border-yellow-500/20 bg-yellow-900/10 space-y-3 text-sm">
+            <p className="text-gray-400">
+              Channel balances, outgoing HTLCs and the node's on-chain wallet
+              are read over its REST API, using the label, group and network
+              above. Use a read-only credential: LND's readonly.macaroon, or a
+              CLN rune restricted to getinfo, listfunds and listpeerchannels. It
+              is stored with your other data on this device.
+            </p>
+            <div className="grid grid-cols-1 md:grid-cols-12 gap-3">
+              <select
+                className="md:col-span-3 bg-gray-900 border border-gray-700 rounded-lg px-3 py-2 text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                value={newLightning.implementation}
+                onChange={(e) =>
+                  setNewLightning({
+                    ...newLightning,
+                    implementation: e.target
+                      .value as LightningNodeConfig["implementation"],
+                  })
+                }
+              >
+                {LIGHTNING_IMPLEMENTATIONS.map((impl) => (
+                  <option key={impl.id} value={impl.id}>
+                    {impl.name}
+                  </option>
+                ))}
+              </select>
+              <input
+                type="text"
+                placeholder="REST URL, e.g. https://localhost:8080"
+                className="md:col-span-4 bg-gray-900 border border-gray-700 rounded-lg px-3 py-2 text-white focus:outline-none focus:ring-2 focus:ring-blue-500 font-mono"
+                value={newLightning.url}
+                onChange={(e) =>
+                  setNewLightning({ ...newLightning, url: e.target.value })
+                }
+              />
+              <input
+                type="password"
+                placeholder={
+                  LIGHTNING_IMPLEMENTATIONS.find(
+                    (impl) => impl.id === newLightning.implementation
+                  )!.credential
+                }
+                className="md:col-span-4 bg-gray-900 border border-gray-700 rounded-lg px-3 py-2 text-white focus:outline-none focus:ring-2 focus:ring-blue-500 font-mono"
+                value={newLightning.credential}
+                onChange={(e) =>
+                  setNewLightning({
+                    ...newLightning,
+                    credential: e.target.value,
+                  })
+                }
+              />
+              <button
+                onClick={addLightningNode}
+                disabled={
+                  loading ||
+                  !newLightning.url.trim() ||
+                  !newLightning.credential.trim()
+                }
+                className="md:col-span-1 bg-yellow-600 hover:bg-yellow-500 disabled:bg-gray-700 disabled:cursor-not-allowed text-white rounded-lg font-medium transition-colors flex items-center justify-center py-2"
+                title="Add Lightning node"
+              >
+                {loading ? (
+                  <RefreshCw className="w-4 h-4 animate-spin" />
+                ) : (
+                  <Plus className="w-4 h-4" />
+                )}
+              </button>
+            </div>
+          </div>
+        )}
+        {isWalletInput && (
+          <div className="mt-4 flex flex-col sm:flex-row sm:items-center gap-3 text-sm text-gray-400">
+            <div className="flex items-center gap-2 flex-1">
+              <KeyRound className="w-4 h-4 text-blue-400" />
+              <span>
+                Extended public key detected. Receive and change addresses are
+                derived locally and scanned until the gap limit.
+              </span>
+            </div>
+            <label className="flex items-center gap-2">
+              Gap limit
+              <input
+                type="number"
+                min={1}
+                max={MAX_GAP_LIMIT}
+                className="w-20 bg-gray-900 border border-gray-700 rounded-lg px-3 py-2 text-white focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm"
+                value={newGapLimit}
+                onChange={(e) => setNewGapLimit(Number(e.target.value))}
+              />
+            </label>
+          </div>
+        )}
+      </Card>
+
+      {/* Search & Filters */}
+      {addresses.length > 0 && (
+        <AddressFilterBar
+          filters={addressFilters}
+          onChange={updateAddressFilters}
+          groups={groups}
+          shown={visibleAddresses.length}
+          total={addresses.length}
+        />
+      )}
+
+      {/* Selection */}
+      {addresses.length > 0 && (
+        <div className="flex flex-wrap items-center gap-3 text-sm">
+          <label className="flex items-center gap-2 text-gray-400">
+            <input
+              type="checkbox"
+              checked={
+                visibleAddresses.length > 0 &&
+                selectedIds.size === visibleAddresses.length
+              }
+              onChange={() =>
+                setSelectedIds(
+                  selectedIds.size === visibleAddresses.length
+                    ? new Set()
+                    : new Set(visibleAddresses.map((a) => a.id))
+                )
+              }
+              className="accent-orange-500"
+            />
+            {selectedIds.size > 0
+              ? `${selectedIds.size} selected`
+              : isFiltering(addressFilters)
+              ? `Select ${visibleAddresses.length} shown`
+              : "Select all"}
+          </label>
+          {selectedIds.size > 0 && (
+            <>
+              <select
+                value=""
+                onChange={(e) => {
+                  if (e.target.value) moveToGroup(selectedIds, e.target.value);
+                }}
+                className="bg-gray-900 border border-gray-700 rounded-lg px-2 py-1 text-white focus:outline-none focus:border-orange-500"
+              >
+                <option value="">Move to group...</option>
+                {groups.map((group) => (
+                  <option key={group.name} value={group.name}>
+                    {group.name}
+                  </option>
+                ))}
+              </select>
+              <button
+                onClick={refreshSelected}
+                disabled={loading}
+                className="flex items-center gap-1.5 px-3 py-1 rounded-lg bg-gray-800 border border-gray-700 text-gray-300 hover:text-white disabled:opacity-50"
+              >
+                <RefreshCw
+                  className={`w-4 h-4 ${loading ? "animate-spin" : ""}`}
+                />
+                Refresh
+              </button>
+              <button
+                onClick={() => removeAddresses(selectedIds)}
+                className="flex items-center gap-1.5 px-3 py-1 rounded-lg bg-gray-800 border border-gray-700 text-red-400 hover:bg-red-400/10"
+              >
+                <Trash2 className="w-4 h-4" />
+                Delete
+              </button>
+            </>
+          )}
+          <button
+            onClick={() => setShowGroupManager(!showGroupManager)}
+            className={`ml-auto flex items-center gap-1.5 px-3 py-1 rounded-lg border transition-colors ${
+              showGroupManager
+                ? "bg-orange-500/10 border-orange-500/50 text-orange-400"
+                : "bg-gray-800 border-gray-700 text-gray-300 hover:text-white"
+            }`}
+          >
+            <Palette className="w-4 h-4" />
+            Manage groups
+          </button>
+        </div>
+      )}
+
+      {/* Groups */}
+      {showGroupManager && (
+        <GroupManager
+          groups={groups}
+          entries={addresses}
+          onGroupsChange={setGroups}
+          onRename={applyGroupRename}
+        />
+      )}
+
+      {/* List */}
+      <div className="space-y-4">
+        <VirtualList
+          items={visibleAddresses}
+          getKey={entryKey}
+          renderItem={(addr) => (
+            <AddressCard
+              entry={addr}
+              groups={groups}
+              freshness={addressFreshness(addr)}
+              error={entryStatus[addr.id]?.lastError?.message}
+              tipHeight={tipHeights[entryNetwork(addr)] ?? null}
+              // The fee card tracks the workspace network only
+              fees={
+                entryNetwork(addr) === providerSettings.network ? fees : null
+              }
+              btcPrice={btcPrice}
+              currency={currency}
+              secondaryCurrency={secondaryCurrency}
+              secondaryPrice={secondaryPrice}
+              selected={selectedIds.has(addr.id)}
+              onToggleSelected={() => toggleSelected(addr.id)}
+              sortable={addressFilters.sort === "manual"}
+              dragId={dragId}
+              onDragIdChange={setDragId}
+              onMove={moveEntry}
+              draft={editingId === addr.id ? editDraft : null}
+              onDraftChange={setEditDraft}
+              onStartEdit={() => startEdit(addr)}
+              onSave={saveEdit}
+              onCancel={() => setEditingId(null)}
+              expanded={expandedId === addr.id}
+              onToggleExpanded={() =>
+                setExpandedId(expandedId === addr.id ? null : addr.id)
+              }
+              onRemove={() => removeAddress(addr.id)}
+              isPrivacyMode={isPrivacyMode}
+              isStrictPrivacy={isStrictPrivacy}
+            >
+              {expandedId === addr.id && (
+                <TransactionPanel
+                  entry={addr}
+                  chain={providers.chainFor(entryNetwork(addr))}
+                  price={providers.price}
+                  trackedAddresses={trackedAddresses}
+                  btcPrice={btcPrice}
+                  currency={currency}
+                  isPrivacyMode={isPrivacyMode}
+                  isStrictPrivacy={isStrictPrivacy}
+                  manualCosts={manualCosts}
+                  onManualCostChange={(txid, fiat) =>
+                    setManualCost(addr.id, txid, fiat)
+                  }
+                />
+              )}
+            </AddressCard>
+          )}
+        />
+
+        {addresses.length > 0 && visibleAddresses.length === 0 && (
+          <div className="text-center py-12 text-gray-500">
+            <Search className="w-12 h-12 mx-auto mb-3 opacity-20" />
+            <p>No addresses match these filters.</p>
+            <button
+              onClick={() =>
+                setAddressFilters({
+                  ...DEFAULT_ADDRESS_FILTERS,
+                  sort: addressFilters.sort,
+                  descending: addressFilters.descending,
+                })
+              }
+              className="text-sm text-orange-400 hover:text-orange-300"
+            >
+              Clear filters
+            </button>
+          </div>
+        )}
+
+        {addresses.length === 0 && (
+          <div className="text-center py-12 text-gray-500">
+            <Wallet className="w-12 h-12 mx-auto mb-3 opacity-20" />
+            <p>No addresses tracked yet.</p>
+            <p className="text-sm">
+              Add a public address to start your portfolio.
+            </p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+
+  const renderProviderStatus = (provider: { id: string; name: string }) => {
+    const status = providerStatus[provider.id];
+    const failing =
+      status?.lastError &&
+      (!status.lastSuccess || status.lastError.at > status.lastSuccess);
+    return (
+      <div
+        key={provider.id}
+        className="p-3 bg-gray-900/50 rounded-lg border border-gray-700/50"
+      >
+        <div className="flex items-center justify-between gap-4">
+          <div className="flex items-center gap-2 text-sm text-white">
+            {failing ? (
+              <CircleAlert className="w-4 h-4 text-red-400" />
+            ) : (
+              <CircleCheck className="w-4 h-4 text-green-400" />
+            )}
+            {provider.name}
+          </div>
+          <span className="text-xs text-gray-400">
+            {status?.lastSuccess
+              ? `Last OK ${new Date(status.lastSuccess).toLocaleTimeString()}`
+              : "No successful request yet"}
+          </span>
+        </div>
+        {status?.lastError && (
+          <p
+            className={`mt-2 text-xs font-mono break-all ${
+              failing ? "text-red-400" : "text-gray-500"
+            }`}
+          >
+            {new Date(status.lastError.at).toLocaleTimeString()} —{" "}
+            {status.lastError.message}
+          </p>
+        )}
+      </div>
+    );
+  };
+
+  // What each server has been told, grouped by server
+  const renderExposureLog = () => {
+    const labels = new Map(
+      addresses.flatMap((entry) =>
+        getOwnAddresses(entry).map((address) => [address, entry.label])
+      )
+    );
+    return (
+      <Card>
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg font-semibold text-white flex items-center gap-2">
+            <Radar className="w-5 h-5 text-gray-400" />
+            Address Exposure
+          </h3>
+          {exposureLog.length > 0 && (
+            <button
+              onClick={() => setExposureLog([])}
+              className="px-3 py-1 text-xs font-medium rounded-md bg-gray-700 hover:bg-gray-600 text-white transition-colors"
+            >
+              Clear Log
+            </button>
+          )}
+        </div>
+        <p className="text-xs text-gray-500 mb-4">
+          Every server below has seen these addresses requested from your IP
+          address (or your Tor exit), and can link them to each other.
+        </p>
+        {exposureLog.length === 0 ? (
+          <p className="text-sm text-gray-500">No addresses looked up yet.</p>
+        ) : (
+          <div className="space-y-4">
+            {exposuresByEndpoint(exposureLog).map(([endpoint, records]) => (
+              <div
+                key={endpoint}
+                className="p-3 bg-gray-900/50 rounded-lg border border-gray-700/50"
+              >
+                <div className="flex items-center justify-between gap-4 mb-2">
+                  <span className="text-sm text-white font-mono break-all">
+                    {endpoint}
+                  </span>
+                  <div className="flex items-center gap-2 shrink-0">
+                    {isOnionUrl(endpoint) && <Badge color="purple">Tor</Badge>}
+                    <Badge color="gray">
+                      {records.length} address
+                      {records.length === 1 ? "" : "es"}
+                    </Badge>
+                  </div>
+                </div>
+                <div className={`space-y-1 ${isPrivacyMode ? "blur-sm" : ""}`}>
+                  {records.slice(0, 10).map((record) => (
+                    <div
+                      key={record.address}
+                      className="flex items-center justify-between gap-4 text-xs"
+                    >
+                      <span className="text-gray-300 truncate">
+                        {labels.get(record.address) && (
+                          <span className="text-gray-400 mr-2">
+                            {masked(labels.get(record.address)!)}
+                          </span>
+                        )}
+                        <span className="font-mono">
+                          {masked(record.address)}
+                        </span>
+                      </span>
+                      <span className="text-gray-500 shrink-0">
+                        {record.requests}× · last{" "}
+                        {new Date(record.lastSeen).toLocaleString()}
+                      </span>
+                    </div>
+                  ))}
+                  {records.length > 10 && (
+                    <div className="text-xs text-gray-500">
+                      and {records.length - 10} more
+                    </div>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </Card>
+    );
+  };
+
+  const renderSettings = () => (
+    <div className="space-y-6 animate-in fade-in duration-500">
+      <Card>
+        <h3 className="text-lg font-semibold text-white mb-4 flex items-center gap-2">
+          <Coins className="w-5 h-5 text-gray-400" />
+          Display Currency
+        </h3>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <label className="block text-sm text-gray-400">
+            Primary
+            <select
+              className="mt-1 w-full bg-gray-900 border border-gray-700 rounded-lg px-4 py-3 text-white focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm"
+              value={currency}
+              onChange={(e) => setCurrency(e.target.value as Currency)}
+            >
+              {SUPPORTED_CURRENCIES.map((code) => (
+                <option key={code} value={code}>
+                  {code.toUpperCase()} — {CURRENCY_NAMES[code]}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="block text-sm text-gray-400">
+            Secondary
+            <select
+              className="mt-1 w-full bg-gray-900 border border-gray-700 rounded-lg px-4 py-3 text-white focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm"
+              value={secondaryCurrency || ""}
+              onChange={(e) =>
+                setSecondaryCurrency((e.target.value as Currency) || null)
+              }
+            >
+              <option value="">None</option>
+              {SUPPORTED_CURRENCIES.filter((code) => code !== currency).map(
+                (code) => (
+                  <option key={code} value={code}>
+                    {code.toUpperCase()} — {CURRENCY_NAMES[code]}
+                  </option>
+                )
               )}
-            </div>
-          </Card>
+            </select>
+          </label>
         </div>
-      )}
-    </div>
-  );
+      </Card>
 
-  const renderAddresses = () => (
-    <div className="space-y-6 animate-in fade-in duration-500">
-      {/* Add New Address Card */}
-      <Card className="border-blue-500/20 bg-blue-900/10">
+      <Card>
         <h3 className="text-lg font-semibold text-white mb-4 flex items-center gap-2">
-          <Plus className="w-5 h-5 text-blue-400" />
-          Track New Address
+          <RefreshCw className="w-5 h-5 text-gray-400" />
+          Auto Refresh
         </h3>
-        <div className="grid grid-cols-1 md:grid-cols-12 gap-4">
-          <div className="md:col-span-6">
+        <label className="block text-sm text-gray-400">
+          Refresh every
+          <select
+            className="mt-1 w-full md:w-64 block bg-gray-900 border border-gray-700 rounded-lg px-4 py-3 text-white focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm"
+            value={refreshInterval}
+            onChange={(e) => setRefreshInterval(Number(e.target.value))}
+          >
+            {REFRESH_INTERVALS.map((seconds) => (
+              <option key={seconds} value={seconds}>
+                {seconds < 60 ? `${seconds} seconds` : `${seconds / 60} min`}
+              </option>
+            ))}
+          </select>
+        </label>
+        <p className="text-xs text-gray-500 mt-2">
+          Entries refresh one by one across the interval rather than all at
+          once, and not at all while this tab is in the background. Entries that
+          miss two refreshes are marked stale.
+        </p>
+      </Card>
+
+      <AppLockSettings
+        settings={lockSettings}
+        onChange={refreshLockSettings}
+        onLockNow={lockApp}
+      />
+
+      <Card>
+        <h3 className="text-lg font-semibold text-white mb-4 flex items-center gap-2">
+          <Server className="w-5 h-5 text-gray-400" />
+          Chain Data Backend
+        </h3>
+        <div className="text-sm text-gray-400 mb-2">Workspace network</div>
+        <div className="flex bg-gray-900 rounded-lg p-1 border border-gray-700 w-fit mb-2">
+          {BITCOIN_NETWORKS.map((network) => (
+            <button
+              key={network}
+              onClick={() =>
+                setSettingsDraft((prev) => ({
+                  ...prev,
+                  network,
+                  // Follow the network unless a custom server is set
+                  esploraUrl: BITCOIN_NETWORKS.some(
+                    (other) => NETWORKS[other].esploraUrl === prev.esploraUrl
+                  )
+                    ? NETWORKS[network].esploraUrl
+                    : prev.esploraUrl,
+                }))
+              }
+              className={`px-3 py-1 text-xs font-medium rounded-md transition-colors ${
+                settingsDraft.network === network
+                  ? "bg-gray-700 text-white"
+                  : "text-gray-400 hover:text-white"
+              }`}
+            >
+              {NETWORKS[network].name}
+            </button>
+          ))}
+        </div>
+        <p className="text-xs text-gray-500 mb-4">
+          The backend below serves this network, and new addresses default to
+          it. Entries on other networks use that network's public Esplora (
+          {NETWORKS.regtest.esploraUrl} for regtest).
+        </p>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-3 mb-4">
+          {CHAIN_BACKENDS.map((backend) => (
+            <button
+              key={backend.id}
+              onClick={() =>
+                setSettingsDraft((prev) => ({
+                  ...prev,
+                  chainBackend: backend.id,
+                }))
+              }
+              className={`text-left p-3 rounded-lg border transition-colors ${
+                settingsDraft.chainBackend === backend.id
+                  ? "border-orange-500 bg-orange-500/10"
+                  : "border-gray-700 bg-gray-900 hover:border-gray-600"
+              }`}
+            >
+              <div className="text-white text-sm font-medium">
+                {backend.name}
+              </div>
+              <div className="text-xs text-gray-400 mt-1">
+                {backend.description}
+              </div>
+            </button>
+          ))}
+        </div>
+
+        {settingsDraft.chainBackend === "esplora" && (
+          <label className="block text-sm text-gray-400">
+            API base URL
             <input
               type="text"
-              placeholder="Bitcoin Address (bc1... or 1...)"
-              className="w-full bg-gray-900 border border-gray-700 rounded-lg px-4 py-3 text-white focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm font-mono"
-              value={newAddress}
-              onChange={(e) => setNewAddress(e.target.value)}
+              className="mt-1 w-full bg-gray-900 border border-gray-700 rounded-lg px-4 py-3 text-white focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm font-mono"
+              value={settingsDraft.esploraUrl}
+              onChange={(e) =>
+                setSettingsDraft((prev) => ({
+                  ...prev,
+                  esploraUrl: e.target.value,
+                }))
+              }
             />
-          </div>
-          <div className="md:col-span-3">
+          </label>
+        )}
+        {settingsDraft.chainBackend === "electrum" && (
+          <label className="block text-sm text-gray-400">
+            WebSocket bridge URL
             <input
               type="text"
-              placeholder="Label (e.g. Ledger)"
-              className="w-full bg-gray-900 border border-gray-700 rounded-lg px-4 py-3 text-white focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm"
-              value={newLabel}
-              onChange={(e) => setNewLabel(e.target.value)}
+              className="mt-1 w-full bg-gray-900 border border-gray-700 rounded-lg px-4 py-3 text-white focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm font-mono"
+              value={settingsDraft.electrumUrl}
+              onChange={(e) =>
+                setSettingsDraft((prev) => ({
+                  ...prev,
+                  electrumUrl: e.target.value,
+                }))
+              }
             />
+          </label>
+        )}
+
+        <div className="mt-6 text-sm text-gray-400 mb-2">Live updates</div>
+        <label className="flex items-center gap-2 text-sm text-gray-300 mb-2">
+          <input
+            type="checkbox"
+            checked={settingsDraft.liveUpdates}
+            onChange={(e) =>
+              setSettingsDraft((prev) => ({
+                ...prev,
+                liveUpdates: e.target.checked,
+              }))
+            }
+            className="accent-orange-500"
+          />
+          Follow the mempool over a WebSocket instead of polling each address
+        </label>
+        {settingsDraft.liveUpdates && (
+          <label className="block text-sm text-gray-400">
+            WebSocket URL
+            <input
+              type="text"
+              placeholder={
+                liveSocketUrl({ ...settingsDraft, websocketUrl: "" }) ??
+                "Needs a URL for this backend"
+              }
+              className="mt-1 w-full bg-gray-900 border border-gray-700 rounded-lg px-4 py-3 text-white focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm font-mono"
+              value={settingsDraft.websocketUrl}
+              onChange={(e) =>
+                setSettingsDraft((prev) => ({
+                  ...prev,
+                  websocketUrl: e.target.value,
+                }))
+              }
+            />
+            <span className="text-xs text-gray-500">
+              mempool.space protocol. Leave empty to use the Esplora server's
+              own.
+            </span>
+          </label>
+        )}
+
+        <div className="mt-6 text-sm text-gray-400 mb-2 flex items-center gap-2">
+          <GlobeLock className="w-4 h-4" />
+          Network privacy
+        </div>
+        <label className="flex items-center gap-2 text-sm text-gray-300 mb-2">
+          <input
+            type="checkbox"
+            checked={settingsDraft.privateMode}
+            onChange={(e) =>
+              setSettingsDraft((prev) => ({
+                ...prev,
+                privateMode: e.target.checked,
+              }))
+            }
+            className="accent-orange-500"
+          />
+          Private mode: look addresses up one at a time, at random moments,
+          spread over several endpoints
+        </label>
+        {settingsDraft.privateMode && settingsDraft.chainBackend !== "mock" && (
+          <div className="space-y-3">
+            <label className="block text-sm text-gray-400">
+              Endpoints, one per line
+              <textarea
+                rows={3}
+                placeholder={
+                  settingsDraft.chainBackend === "electrum"
+                    ? settingsDraft.electrumUrl
+                    : settingsDraft.esploraUrl
+                }
+                className="mt-1 w-full bg-gray-900 border border-gray-700 rounded-lg px-4 py-3 text-white focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm font-mono"
+                value={settingsDraft.privateEndpoints.join("\n")}
+                onChange={(e) =>
+                  setSettingsDraft((prev) => ({
+                    ...prev,
+                    privateEndpoints: e.target.value.split("\n"),
+                  }))
+                }
+              />
+              <span className="text-xs text-gray-500">
+                {settingsDraft.chainBackend === "electrum"
+                  ? "Electrum WebSocket bridges"
+                  : "Esplora API base URLs"}
+                , used instead of the one above. Each address always goes to the
+                same endpoint, so each one only learns its share. Empty to use
+                just the one above.
+              </span>
+            </label>
+            {settingsDraft.chainBackend === "esplora" &&
+              !settingsDraft.privateEndpoints.includes(MEMPOOL_ONION_URL) && (
+                <button
+                  onClick={() =>
+                    setSettingsDraft((prev) => ({
+                      ...prev,
+                      privateEndpoints: [
+                        ...prev.privateEndpoints.filter((url) => url.trim()),
+                        MEMPOOL_ONION_URL,
+                      ],
+                    }))
+                  }
+                  className="px-3 py-1 text-xs font-medium rounded-md bg-gray-700 hover:bg-gray-600 text-white transition-colors"
+                >
+                  Add mempool.space onion service
+                </button>
+              )}
+            {settingsDraft.privateEndpoints.some(isOnionUrl) && (
+              <p className="text-xs text-yellow-400">
+                .onion endpoints only resolve in Tor Browser, or with the
+                browser's traffic going through a Tor SOCKS proxy. Elsewhere
+                their lookups fail.
+              </p>
+            )}
+            <label className="flex items-center gap-2 text-sm text-gray-300">
+              <input
+                type="checkbox"
+                checked={settingsDraft.isolateAddresses}
+                onChange={(e) =>
+                  setSettingsDraft((prev) => ({
+                    ...prev,
+                    isolateAddresses: e.target.checked,
+                  }))
+                }
+                className="accent-orange-500"
+              />
+              Open a separate connection for every lookup
+            </label>
+            <p className="text-xs text-gray-500">
+              Electrum gets a new WebSocket per lookup. Browsers may still reuse
+              one HTTP connection per Esplora host, so there the endpoints
+              themselves are what keep addresses apart. Private mode also keeps
+              addresses off the live-updates socket, which then only reports
+              blocks and fees.
+            </p>
           </div>
-          <div className="md:col-span-2">
-            <select
-              className="w-full bg-gray-900 border border-gray-700 rounded-lg px-4 py-3 text-white focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm"
-              value={newGroup}
-              onChange={(e) => setNewGroup(e.target.value)}
-            >
-              <option value="General">General</option>
-              <option value="Savings">Savings</option>
-              <option value="Cold Storage">Cold Storage</option>
-              <option value="Hot Wallet">Hot Wallet</option>
-              <option value="Exchange">Exchange</option>
-            </select>
-          </div>
-          <div className="md:col-span-1">
+        )}
+
+        <div className="mt-6 text-sm text-gray-400 mb-2">Price source</div>
+        <div className="flex bg-gray-900 rounded-lg p-1 border border-gray-700 self-start w-fit">
+          {PRICE_BACKENDS.map((backend) => (
             <button
-              onClick={addAddress}
-              disabled={loading || !newAddress}
-              className="w-full h-full bg-blue-600 hover:bg-blue-500 disabled:bg-gray-700 disabled:cursor-not-allowed text-white rounded-lg font-medium transition-colors flex items-center justify-center"
+              key={backend.id}
+              onClick={() =>
+                setSettingsDraft((prev) => ({
+                  ...prev,
+                  priceBackend: backend.id,
+                }))
+              }
+              className={`px-3 py-1 text-xs font-medium rounded-md transition-colors ${
+                settingsDraft.priceBackend === backend.id
+                  ? "bg-gray-700 text-white"
+                  : "text-gray-400 hover:text-white"
+              }`}
             >
-              {loading ? (
-                <RefreshCw className="w-5 h-5 animate-spin" />
-              ) : (
-                <Plus className="w-5 h-5" />
-              )}
+              {backend.name}
             </button>
-          </div>
+          ))}
         </div>
-      </Card>
 
-      {/* List */}
-      <div className="space-y-4">
-        {addresses.map((addr) => (
-          <div
-            key={addr.id}
-            className="bg-gray-800 border border-gray-700 rounded-xl p-4 flex flex-col md:flex-row md:items-center justify-between gap-4 hover:border-gray-600 transition-colors"
+        <div className="mt-6 flex gap-3">
+          <button
+            onClick={() => setProviderSettings(settingsDraft)}
+            className="px-4 py-2 bg-blue-600 hover:bg-blue-500 text-white rounded-lg text-sm font-medium transition-colors"
           >
-            <div className="flex-1 overflow-hidden min-w-0">
-              <div className="flex items-center gap-3 mb-1">
-                <span className="text-white font-medium truncate">
-                  {addr.label}
-                </span>
-                <Badge color="purple">{addr.group}</Badge>
-              </div>
-              <div className="flex items-center gap-2 text-gray-500 text-sm font-mono mb-2">
-                <span className="truncate">{addr.address}</span>
-                <button
-                  onClick={() => navigator.clipboard.writeText(addr.address)}
-                  className="hover:text-white transition-colors flex-shrink-0"
-                >
-                  <Copy className="w-3 h-3" />
-                </button>
-                <a
-                  href={`https://mempool.space/address/${addr.address}`}
-                  target="_blank"
-                  rel="noreferrer"
-                  className="hover:text-white transition-colors flex-shrink-0"
-                >
-                  <ExternalLink className="w-3 h-3" />
-                </a>
-              </div>
-              <div className="flex items-center gap-1.5 text-xs text-gray-400">
-                <Clock className="w-3 h-3" />
-                <span>
-                  Last Activity:{" "}
-                  <span className="text-gray-300">
-                    {formatDate(addr.lastTxTime)}
-                  </span>
-                </span>
-              </div>
-            </div>
+            Save
+          </button>
+          <button
+            onClick={() => setSettingsDraft(DEFAULT_PROVIDER_SETTINGS)}
+            className="px-4 py-2 bg-gray-700 hover:bg-gray-600 text-white rounded-lg text-sm font-medium transition-colors"
+          >
+            Reset to Defaults
+          </button>
+        </div>
+      </Card>
 
-            <div className="flex items-center justify-between md:justify-end gap-6 min-w-[200px] flex-shrink-0">
-              <div className="text-right">
-                <div
-                  className={`text-white font-bold ${
-                    isPrivacyMode ? "blur-sm" : ""
-                  }`}
-                >
-                  {formatSats(addr.balanceSats)} BTC
-                </div>
-                <div
-                  className={`text-sm text-gray-400 ${
-                    isPrivacyMode ? "blur-sm" : ""
-                  }`}
-                >
-                  {btcPrice
-                    ? formatUSD((addr.balanceSats / 100000000) * btcPrice)
-                    : "..."}
-                </div>
-              </div>
-              <button
-                onClick={() => removeAddress(addr.id)}
-                className="p-2 text-gray-500 hover:text-red-400 hover:bg-red-400/10 rounded-lg transition-colors"
-              >
-                <Trash2 className="w-5 h-5" />
-              </button>
-            </div>
-          </div>
-        ))}
+      <Card>
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg font-semibold text-white">Provider Status</h3>
+          <button
+            onClick={refreshData}
+            className="px-3 py-1 text-xs font-medium rounded-md bg-gray-700 hover:bg-gray-600 text-white transition-colors"
+          >
+            Test Connection
+          </button>
+        </div>
+        <div className="space-y-3">
+          {renderProviderStatus(providers.chain)}
+          {renderProviderStatus(providers.price)}
+        </div>
+      </Card>
 
-        {addresses.length === 0 && (
-          <div className="text-center py-12 text-gray-500">
-            <Wallet className="w-12 h-12 mx-auto mb-3 opacity-20" />
-            <p>No addresses tracked yet.</p>
-            <p className="text-sm">
-              Add a public address to start your portfolio.
-            </p>
-          </div>
-        )}
-      </div>
+      {renderExposureLog()}
     </div>
   );
 
+  if (locked) return <LockScreen onUnlock={unlockApp} />;
+
   return (
     <div className="min-h-screen bg-gray-950 text-gray-100 font-sans selection:bg-orange-500/30">
       {/* Sidebar / Nav */}
@@ -786,11 +3302,71 @@ export default function App() {
             <List className="w-5 h-5" />
             Addresses
           </button>
+
+          <button
+            onClick={() => setActiveTab("gains")}
+            className={`w-full flex items-center gap-3 px-4 py-3 rounded-lg transition-all ${
+              activeTab === "gains"
+                ? "bg-orange-500 text-white shadow-lg shadow-orange-500/20"
+                : "text-gray-400 hover:bg-gray-800 hover:text-white"
+            }`}
+          >
+            <Receipt className="w-5 h-5" />
+            Gains
+          </button>
+
+          <button
+            onClick={() => setActiveTab("utxos")}
+            className={`w-full flex items-center gap-3 px-4 py-3 rounded-lg transition-all ${
+              activeTab === "utxos"
+                ? "bg-orange-500 text-white shadow-lg shadow-orange-500/20"
+                : "text-gray-400 hover:bg-gray-800 hover:text-white"
+            }`}
+          >
+            <Boxes className="w-5 h-5" />
+            UTXOs
+          </button>
+
+          <button
+            onClick={() => setActiveTab("alerts")}
+            className={`w-full flex items-center gap-3 px-4 py-3 rounded-lg transition-all ${
+              activeTab === "alerts"
+                ? "bg-orange-500 text-white shadow-lg shadow-orange-500/20"
+                : "text-gray-400 hover:bg-gray-800 hover:text-white"
+            }`}
+          >
+            <Bell className="w-5 h-5" />
+            Alerts
+          </button>
+
+          <button
+            onClick={() => setActiveTab("backup")}
+            className={`w-full flex items-center gap-3 px-4 py-3 rounded-lg transition-all ${
+              activeTab === "backup"
+                ? "bg-orange-500 text-white shadow-lg shadow-orange-500/20"
+                : "text-gray-400 hover:bg-gray-800 hover:text-white"
+            }`}
+          >
+            <ArchiveRestore className="w-5 h-5" />
+            Backup
+          </button>
+
+          <button
+            onClick={() => setActiveTab("settings")}
+            className={`w-full flex items-center gap-3 px-4 py-3 rounded-lg transition-all ${
+              activeTab === "settings"
+                ? "bg-orange-500 text-white shadow-lg shadow-orange-500/20"
+                : "text-gray-400 hover:bg-gray-800 hover:text-white"
+            }`}
+          >
+            <Settings className="w-5 h-5" />
+            Settings
+          </button>
         </nav>
 
         <div className="p-4 border-t border-gray-800">
           <button
-            onClick={() => setIsPrivacyMode(!isPrivacyMode)}
+            onClick={() => setPrivacyLevel(nextPrivacyLevel(privacyLevel))}
             className="w-full flex items-center gap-3 px-4 py-3 rounded-lg text-gray-400 hover:bg-gray-800 hover:text-white transition-all"
           >
             {isPrivacyMode ? (
@@ -798,11 +3374,23 @@ export default function App() {
             ) : (
               <EyeOff className="w-5 h-5" />
             )}
-            Privacy Mode
+            {PRIVACY_LEVEL_NAMES[privacyLevel]}
           </button>
+          {lockSettings.enabled && (
+            <button
+              onClick={lockApp}
+              className="w-full flex items-center gap-3 px-4 py-3 rounded-lg text-gray-400 hover:bg-gray-800 hover:text-white transition-all"
+            >
+              <Lock className="w-5 h-5" />
+              Lock
+            </button>
+          )}
           <div className="mt-4 flex items-center gap-2 text-xs text-gray-600 px-2">
             <Shield className="w-3 h-3" />
-            <span>Local Session Only</span>
+            <span>
+              {lockSettings.enabled ? "Encrypted" : "Stored"} on This Device
+              {providerSettings.privateMode && " · Private Network"}
+            </span>
           </div>
         </div>
       </div>
@@ -834,6 +3422,56 @@ export default function App() {
           >
             <List className="w-5 h-5" />
           </button>
+          <button
+            onClick={() => setActiveTab("gains")}
+            className={`p-2 rounded-lg ${
+              activeTab === "gains"
+                ? "bg-orange-500 text-white"
+                : "text-gray-400"
+            }`}
+          >
+            <Receipt className="w-5 h-5" />
+          </button>
+          <button
+            onClick={() => setActiveTab("utxos")}
+            className={`p-2 rounded-lg ${
+              activeTab === "utxos"
+                ? "bg-orange-500 text-white"
+                : "text-gray-400"
+            }`}
+          >
+            <Boxes className="w-5 h-5" />
+          </button>
+          <button
+            onClick={() => setActiveTab("alerts")}
+            className={`p-2 rounded-lg ${
+              activeTab === "alerts"
+                ? "bg-orange-500 text-white"
+                : "text-gray-400"
+            }`}
+          >
+            <Bell className="w-5 h-5" />
+          </button>
+          <button
+            onClick={() => setActiveTab("backup")}
+            className={`p-2 rounded-lg ${
+              activeTab === "backup"
+                ? "bg-orange-500 text-white"
+                : "text-gray-400"
+            }`}
+          >
+            <ArchiveRestore className="w-5 h-5" />
+          </button>
+          <button
+            onClick={() => setActiveTab("settings")}
+            className={`p-2 rounded-lg ${
+              activeTab === "settings"
+                ? "bg-orange-500 text-white"
+                : "text-gray-400"
+            }`}
+          >
+            <Settings className="w-5 h-5" />
+          </button>
         </div>
       </div>
 
@@ -841,28 +3479,206 @@ export default function App() {
       <div className="md:ml-64 p-6 md:p-8">
         <header className="flex justify-between items-center mb-8">
           <div>
-            <h1 className="text-2xl font-bold text-white capitalize">
-              {activeTab}
+            <h1 className="text-2xl font-bold text-white capitalize flex items-center gap-3">
+              {activeTab === "utxos" ? "UTXOs" : activeTab}
+              {isTestNetwork(providerSettings.network) && (
+                <Badge color="yellow">
+                  {NETWORKS[providerSettings.network].name} workspace
+                </Badge>
+              )}
             </h1>
             <p className="text-gray-400 text-sm mt-1">
               {activeTab === "dashboard"
                 ? "Overview of your holdings"
-                : "Manage your public keys"}
+                : activeTab === "addresses"
+                ? "Manage your public keys"
+                : activeTab === "gains"
+                ? "Cost basis, P&L and tax lots"
+                : activeTab === "utxos"
+                ? "Coin control and spend costs"
+                : activeTab === "alerts"
+                ? "Get notified when funds move"
+                : activeTab === "backup"
+                ? "Export and restore your data"
+                : "Configure data sources"}
             </p>
           </div>
-          <button
-            onClick={refreshData}
-            className={`p-2 rounded-lg bg-gray-800 hover:bg-gray-700 text-gray-400 hover:text-white border border-gray-700 transition-all ${
-              loading ? "animate-spin" : ""
-            }`}
-            title="Refresh Data"
-          >
-            <RefreshCw className="w-5 h-5" />
-          </button>
+          <div className="flex items-center gap-3">
+            {liveStatus && (
+              <span
+                title={
+                  liveStatus.status === "live"
+                    ? "Following the mempool over a WebSocket"
+                    : liveStatus.error
+                    ? `${liveStatus.error}. Polling until it reconnects.`
+                    : undefined
+                }
+              >
+                <Badge
+                  color={
+                    liveStatus.status === "live"
+                      ? "green"
+                      : liveStatus.status === "offline"
+                      ? "yellow"
+                      : "gray"
+                  }
+                >
+                  {liveStatus.status === "live"
+                    ? "Live"
+                    : liveStatus.status === "offline"
+                    ? "Polling"
+                    : "Connecting..."}
+                </Badge>
+              </span>
+            )}
+            {addresses.length > 0 && (
+              <div className="hidden sm:flex items-center gap-3 text-xs text-gray-400">
+                {(Object.keys(FRESHNESS_DOTS) as Freshness[])
+                  .filter((state) => freshnessCounts[state])
+                  .map((state) => (
+                    <span
+                      key={state}
+                      className="flex items-center gap-1.5"
+                      title={
+                        state === "error" && !isStrictPrivacy
+                          ? addresses
+                              .filter(
+                                (addr) => addressFreshness(addr) === "error"
+                              )
+                              .map(
+                                (addr) =>
+                                  `${addr.label}: ${
+                                    entryStatus[addr.id]?.lastError?.message
+                                  }`
+                              )
+                              .join("\n")
+                          : undefined
+                      }
+                    >
+                      <span
+                        className={`w-2 h-2 rounded-full ${FRESHNESS_DOTS[state]}`}
+                      />
+                      {freshnessCounts[state]} {state}
+                    </span>
+                  ))}
+              </div>
+            )}
+            <button
+              onClick={refreshData}
+              className={`p-2 rounded-lg bg-gray-800 hover:bg-gray-700 text-gray-400 hover:text-white border border-gray-700 transition-all ${
+                loading ? "animate-spin" : ""
+              }`}
+              title="Refresh Data"
+            >
+              <RefreshCw className="w-5 h-5" />
+            </button>
+          </div>
         </header>
 
-        {activeTab === "dashboard" ? renderDashboard() : renderAddresses()}
+        {!isOnline && (
+          <div className="mb-6 flex items-center gap-3 rounded-lg border border-yellow-600/40 bg-yellow-900/20 px-4 py-3 text-sm text-yellow-200">
+            <WifiOff className="w-5 h-5 flex-shrink-0 text-yellow-400" />
+            <span>
+              You're offline. Prices, fees and balances are the last ones
+              fetched, with the time they're from; everything refreshes as soon
+              as the connection is back.
+            </span>
+          </div>
+        )}
+
+        {activeTab === "dashboard" && renderDashboard()}
+        {activeTab === "addresses" && renderAddresses()}
+        {activeTab === "gains" && (
+          <GainsPanel
+            entries={addresses}
+            currency={currency}
+            btcPrice={btcPrice}
+            lotMethod={lotMethod}
+            onLotMethodChange={setLotMethod}
+            ledger={ledger}
+            holdings={holdings}
+            performance={performance}
+            monthlyStacks={monthlyStacks}
+            dcaPrices={dcaPrices}
+            status={costBasisStatus}
+            dcaStatus={dcaStatus}
+            onRecalculate={loadCostBasis}
+            onLoadDcaPrices={loadDcaPrices}
+            isPrivacyMode={isPrivacyMode}
+            isStrictPrivacy={isStrictPrivacy}
+          />
+        )}
+        {activeTab === "utxos" && (
+          <UtxoExplorer
+            entries={addresses}
+            chainFor={providers.chainFor}
+            fees={fees}
+            feeHistory={feeHistory}
+            btcPrice={btcPrice}
+            currency={currency}
+            isPrivacyMode={isPrivacyMode}
+            isStrictPrivacy={isStrictPrivacy}
+          />
+        )}
+        {activeTab === "alerts" && (
+          <AlertsPanel
+            rules={alertRules}
+            log={alertLog}
+            entries={addresses}
+            onRulesChange={setAlertRules}
+            onClearLog={() => setAlertLog([])}
+            isPrivacyMode={isPrivacyMode}
+            isStrictPrivacy={isStrictPrivacy}
+          />
+        )}
+        {activeTab === "backup" && (
+          <BackupPanel
+            backup={{
+              addresses,
+              manualCosts,
+              settings: {
+                currency,
+                secondaryCurrency,
+                providers: providerSettings,
+                lotMethod,
+                groups,
+                alertRules,
+                privacyLevel,
+              },
+            }}
+            network={providerSettings.network}
+            onRestore={restoreBackup}
+            onLabelsImported={applyImportedLabels}
+          />
+        )}
+        {activeTab === "settings" && renderSettings()}
       </div>
+
+      {/* Undo Toast */}
+      {undoDelete && (
+        <div className="fixed bottom-6 left-1/2 -translate-x-1/2 md:ml-32 z-50 flex items-center gap-4 bg-gray-800 border border-gray-600 rounded-xl px-4 py-3 shadow-xl text-sm">
+          <span className="text-gray-200">
+            {isStrictPrivacy
+              ? `Removed ${undoDelete.removed.length} ${
+                  undoDelete.removed.length === 1 ? "entry" : "entries"
+                }`
+              : undoDelete.message}
+          </span>
+          <button
+            onClick={undoRemove}
+            className="flex items-center gap-1.5 text-orange-400 hover:text-orange-300 font-medium"
+          >
+            <Undo2 className="w-4 h-4" />
+            Undo
+          </button>
+          <button
+            onClick={() => setUndoDelete(null)}
+            className="text-gray-500 hover:text-white"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      )}
     </div>
   );
 }
@@ -0,0 +1,539 @@
+import type { ReactNode } from "react";
+import {
+  ArrowDownLeft,
+  ArrowUpRight,
+  Check,
+  ChevronDown,
+  Clock,
+  Copy,
+  ExternalLink,
+  GripVertical,
+  KeyRound,
+  Pencil,
+  Trash2,
+  Users,
+  X,
+  Zap,
+} from "lucide-react";
+import type { TrackedEntry } from "../lib/entries";
+import { LIGHTNING_IMPLEMENTATIONS, type FeeRates } from "../lib/providers";
+import type { Currency } from "../lib/currency";
+import { ADDRESS_TYPE_NAMES, getAddressInfo } from "../lib/address";
+import { describeWallet } from "../lib/xpub";
+import {
+  NETWORKS,
+  entryNetwork,
+  explorerLink,
+  isTestNetwork,
+} from "../lib/networks";
+import {
+  CONFIRMATION_MILESTONES,
+  CONFIRMATION_TARGET,
+  confirmations,
+  estimateConfirmation,
+  pendingTotals,
+} from "../lib/pending";
+import { FRESHNESS_NAMES, type Freshness } from "../lib/refresh";
+import { groupColor, type GroupDef } from "../lib/groups";
+import { formatDate, formatFiat, formatSats } from "../lib/format";
+import { MASK } from "../lib/masking";
+import { Badge, ColorBadge } from "./ui";
+
+export const FRESHNESS_DOTS: Record<Freshness, string> = {
+  fresh: "bg-green-500",
+  stale: "bg-yellow-500",
+  error: "bg-red-500",
+  refreshing: "bg-blue-500 animate-pulse",
+};
+
+export interface EntryDraft {
+  label: string;
+  group: string;
+  notes: string;
+}
+
+// One tracked entry in the address list. Selection, editing, dragging and
+// the expanded history live in the app so they survive the row scrolling
+// out of the virtual list; `children` is what shows when it's expanded.
+export const AddressCard = ({
+  entry,
+  groups,
+  freshness,
+  error,
+  tipHeight,
+  fees,
+  btcPrice,
+  currency,
+  secondaryCurrency,
+  secondaryPrice,
+  selected,
+  onToggleSelected,
+  sortable,
+  dragId,
+  onDragIdChange,
+  onMove,
+  draft,
+  onDraftChange,
+  onStartEdit,
+  onSave,
+  onCancel,
+  expanded,
+  onToggleExpanded,
+  onRemove,
+  isPrivacyMode,
+  isStrictPrivacy,
+  children,
+}: {
+  entry: TrackedEntry;
+  groups: GroupDef[];
+  freshness: Freshness;
+  error?: string;
+  tipHeight: number | null;
+  fees: FeeRates | null; // Only for the network the fee card tracks
+  btcPrice: number | null;
+  currency: Currency;
+  secondaryCurrency: Currency | null;
+  secondaryPrice: number | null;
+  selected: boolean;
+  onToggleSelected: () => void;
+  sortable: boolean;
+  dragId: number | null;
+  onDragIdChange: (id: number | null) => void;
+  onMove: (fromId: number, toId: number) => void;
+  draft: EntryDraft | null; // Set while this entry is being edited
+  onDraftChange: (draft: EntryDraft) => void;
+  onStartEdit: () => void;
+  onSave: () => void;
+  onCancel: () => void;
+  expanded: boolean;
+  onToggleExpanded: () => void;
+  onRemove: () => void;
+  isPrivacyMode: boolean;
+  isStrictPrivacy: boolean;
+  children?: ReactNode;
+}) => {
+  const network = entryNetwork(entry);
+  const editing = draft !== null;
+  const masked = (text: string) => (isStrictPrivacy ? MASK : text);
+  const toFiat = (sats: number, price: number) => (sats / 100000000) * price;
+
+  const renderStatus = () => (
+    <div className="flex items-center gap-1.5 text-xs text-gray-500 mt-1">
+      <span className={`w-2 h-2 rounded-full ${FRESHNESS_DOTS[freshness]}`} />
+      <span>{FRESHNESS_NAMES[freshness]}</span>
+      {freshness === "error" ? (
+        <span className="text-red-400 truncate" title={error}>
+          {error}
+        </span>
+      ) : (
+        entry.lastUpdated && (
+          <span>
+            · updated {new Date(entry.lastUpdated).toLocaleTimeString()}
+          </span>
+        )
+      )}
+    </div>
+  );
+
+  // Pending and recently confirmed txs, counted up to CONFIRMATION_TARGET
+  const renderUnsettled = () => {
+    const txs = (entry.unsettled || []).filter(
+      (tx) => confirmations(tx, tipHeight) < CONFIRMATION_TARGET
+    );
+    if (txs.length === 0) return null;
+    return (
+      <div className="mt-2 space-y-1">
+        {txs.map((tx) => {
+          const confs = confirmations(tx, tipHeight);
+          const link = explorerLink(network, `tx/${tx.txid}`);
+          return (
+            <div
+              key={tx.txid}
+              className="flex flex-wrap items-center gap-2 text-xs text-gray-400"
+            >
+              {tx.deltaSats >= 0 ? (
+                <ArrowDownLeft className="w-3 h-3 text-green-400" />
+              ) : (
+                <ArrowUpRight className="w-3 h-3 text-red-400" />
+              )}
+              <span
+                className={`font-mono text-gray-300 ${
+                  isPrivacyMode ? "blur-sm" : ""
+                }`}
+              >
+                {masked(
+                  `${tx.deltaSats >= 0 ? "+" : "−"}${formatSats(
+                    Math.abs(tx.deltaSats)
+                  )}`
+                )}{" "}
+                {NETWORKS[network].ticker}
+              </span>
+              <span
+                className="flex items-center gap-0.5"
+                title={`${confs}/${CONFIRMATION_TARGET} confirmations`}
+              >
+                {CONFIRMATION_MILESTONES.slice(1).map((milestone) => (
+                  <span
+                    key={milestone}
+                    className={`w-1.5 h-1.5 rounded-full ${
+                      confs >= milestone ? "bg-green-400" : "bg-gray-600"
+                    }`}
+                  />
+                ))}
+              </span>
+              <span>
+                {confs === 0
+                  ? "Unconfirmed"
+                  : `${confs}/${CONFIRMATION_TARGET} confirmations`}
+              </span>
+              {confs === 0 && tx.feeRate !== null && (
+                <span className="text-gray-500">
+                  {tx.feeRate.toFixed(1)} sat/vB
+                  {fees && ` · ${estimateConfirmation(tx.feeRate, fees)}`}
+                </span>
+              )}
+              {tx.rbf && <Badge color="yellow">RBF</Badge>}
+              {tx.cpfp && <Badge color="purple">CPFP</Badge>}
+              {link && (
+                <a
+                  href={link}
+                  target="_blank"
+                  rel="noreferrer"
+                  className="hover:text-white transition-colors"
+                >
+                  <ExternalLink className="w-3 h-3" />
+                </a>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    );
+  };
+
+  // Confirmed balance with what's still in the mempool broken out
+  const renderPendingBalance = () => {
+    const { incoming, outgoing } = pendingTotals(entry.unsettled);
+    if ((!incoming && !outgoing) || entry.confirmedSats === undefined) {
+      return null;
+    }
+    const ticker = NETWORKS[network].ticker;
+    return (
+      <div
+        className={`text-xs text-gray-500 ${isPrivacyMode ? "blur-sm" : ""}`}
+      >
+        <div>
+          {masked(formatSats(entry.confirmedSats))} {ticker} confirmed
+        </div>
+        {incoming > 0 && (
+          <div className="text-green-400">
+            {masked(`+${formatSats(incoming)}`)} pending in
+          </div>
+        )}
+        {outgoing > 0 && (
+          <div className="text-red-400">
+            {masked(`−${formatSats(outgoing)}`)} pending out
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div
+      onDragOver={(e) => {
+        if (dragId !== null) e.preventDefault();
+      }}
+      onDrop={(e) => {
+        e.preventDefault();
+        if (dragId !== null) onMove(dragId, entry.id);
+        onDragIdChange(null);
+      }}
+      className={`bg-gray-800 border rounded-xl p-4 hover:border-gray-600 transition-colors ${
+        selected ? "border-orange-500/50" : "border-gray-700"
+      } ${dragId === entry.id ? "opacity-50" : ""}`}
+    >
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+        <div className="flex items-start gap-2 flex-1 overflow-hidden min-w-0">
+          <div className="flex flex-col items-center gap-2 pt-1 flex-shrink-0">
+            <input
+              type="checkbox"
+              checked={selected}
+              onChange={onToggleSelected}
+              className="accent-orange-500"
+            />
+            {sortable && (
+              <span
+                draggable
+                onDragStart={(e) => {
+                  e.dataTransfer.effectAllowed = "move";
+                  onDragIdChange(entry.id);
+                }}
+                onDragEnd={() => onDragIdChange(null)}
+                title="Drag to reorder"
+                className="text-gray-600 hover:text-gray-300 cursor-grab"
+              >
+                <GripVertical className="w-4 h-4" />
+              </span>
+            )}
+          </div>
+          <div className="flex-1 overflow-hidden min-w-0">
+            {editing ? (
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-2 mb-2">
+                <input
+                  type="text"
+                  value={draft.label}
+                  onChange={(e) =>
+                    onDraftChange({
+                      ...draft,
+                      label: e.target.value,
+                    })
+                  }
+                  placeholder="Label"
+                  className="bg-gray-900 border border-gray-700 rounded-lg px-3 py-1.5 text-white text-sm focus:outline-none focus:border-orange-500"
+                />
+                <select
+                  value={draft.group}
+                  onChange={(e) =>
+                    onDraftChange({
+                      ...draft,
+                      group: e.target.value,
+                    })
+                  }
+                  className="bg-gray-900 border border-gray-700 rounded-lg px-3 py-1.5 text-white text-sm focus:outline-none focus:border-orange-500"
+                >
+                  {groups.map((group) => (
+                    <option key={group.name} value={group.name}>
+                      {group.name}
+                    </option>
+                  ))}
+                </select>
+                <textarea
+                  value={draft.notes}
+                  onChange={(e) =>
+                    onDraftChange({
+                      ...draft,
+                      notes: e.target.value,
+                    })
+                  }
+                  placeholder="Notes"
+                  rows={2}
+                  className="sm:col-span-2 bg-gray-900 border border-gray-700 rounded-lg px-3 py-1.5 text-white text-sm focus:outline-none focus:border-orange-500"
+                />
+                <div className="sm:col-span-2 flex gap-2">
+                  <button
+                    onClick={onSave}
+                    className="flex items-center gap-1 px-3 py-1 rounded-lg bg-orange-600 hover:bg-orange-500 text-white text-sm"
+                  >
+                    <Check className="w-4 h-4" />
+                    Save
+                  </button>
+                  <button
+                    onClick={onCancel}
+                    className="flex items-center gap-1 px-3 py-1 rounded-lg bg-gray-700 hover:bg-gray-600 text-gray-200 text-sm"
+                  >
+                    <X className="w-4 h-4" />
+                    Cancel
+                  </button>
+                </div>
+              </div>
+            ) : (
+              <div className="flex items-center gap-3 mb-1">
+                <span className="text-white font-medium truncate">
+                  {masked(entry.label)}
+                </span>
+                <ColorBadge color={groupColor(groups, entry.group)}>
+                  {entry.group}
+                </ColorBadge>
+                {isTestNetwork(entryNetwork(entry)) && (
+                  <Badge color="yellow">
+                    {NETWORKS[entryNetwork(entry)].name} · test coins
+                  </Badge>
+                )}
+                {entry.kind === "wallet" ? (
+                  <Badge color="blue">
+                    {describeWallet(entry.descriptor!)}
+                  </Badge>
+                ) : entry.kind === "lightning" ? (
+                  <Badge color="yellow">
+                    Lightning ·{" "}
+                    {
+                      LIGHTNING_IMPLEMENTATIONS.find(
+                        (impl) => impl.id === entry.lightning?.implementation
+                      )?.name
+                    }
+                  </Badge>
+                ) : (
+                  getAddressInfo(entry.address) && (
+                    <Badge color="gray">
+                      {ADDRESS_TYPE_NAMES[getAddressInfo(entry.address)!.type]}
+                    </Badge>
+                  )
+                )}
+              </div>
+            )}
+            {entry.notes && !editing && (
+              <p className="text-xs text-gray-400 mb-1 whitespace-pre-line">
+                {masked(entry.notes)}
+              </p>
+            )}
+            <div className="flex items-center gap-2 text-gray-500 text-sm font-mono mb-2">
+              <span className="truncate">{masked(entry.address)}</span>
+              <button
+                onClick={() => navigator.clipboard.writeText(entry.address)}
+                className="hover:text-white transition-colors flex-shrink-0"
+              >
+                <Copy className="w-3 h-3" />
+              </button>
+              {entry.kind !== "wallet" &&
+                entry.kind !== "lightning" &&
+                explorerLink(
+                  entryNetwork(entry),
+                  `address/${entry.address}`
+                ) && (
+                  <a
+                    href={
+                      explorerLink(
+                        entryNetwork(entry),
+                        `address/${entry.address}`
+                      )!
+                    }
+                    target="_blank"
+                    rel="noreferrer"
+                    className="hover:text-white transition-colors flex-shrink-0"
+                  >
+                    <ExternalLink className="w-3 h-3" />
+                  </a>
+                )}
+            </div>
+            {entry.kind === "wallet" && (
+              <div className="flex items-center gap-1.5 text-xs text-gray-400 mb-1">
+                <KeyRound className="w-3 h-3" />
+                <span>
+                  {entry.derived!.length} used addresses · next receive #
+                  {entry.nextReceiveIndex} · gap limit {entry.gapLimit}
+                </span>
+              </div>
+            )}
+            {entry.lightningBalance && (
+              <div
+                className={`flex flex-wrap items-center gap-1.5 text-xs text-gray-400 mb-1 ${
+                  isPrivacyMode ? "blur-sm" : ""
+                }`}
+              >
+                <Zap className="w-3 h-3 text-yellow-400" />
+                <span>
+                  {entry.lightningBalance.activeChannels} active channels ·{" "}
+                  {masked(formatSats(entry.lightningBalance.channelSats))} in
+                  channels ·{" "}
+                  {masked(formatSats(entry.lightningBalance.pendingHtlcSats))}{" "}
+                  in pending HTLCs ·{" "}
+                  {masked(formatSats(entry.lightningBalance.onchainSats))}{" "}
+                  on-chain
+                </span>
+              </div>
+            )}
+            {entry.descriptor?.multisig && (
+              <div className="flex flex-wrap items-center gap-1.5 text-xs text-gray-400 mb-1">
+                <Users className="w-3 h-3" />
+                <span>
+                  Quorum {entry.descriptor.multisig.threshold} of{" "}
+                  {entry.descriptor.multisig.cosigners.length} · cosigners
+                </span>
+                {entry.descriptor.multisig.cosigners.map((cosigner, i) => (
+                  <span
+                    key={cosigner.key}
+                    className="font-mono text-gray-300"
+                    title={isStrictPrivacy ? undefined : cosigner.key}
+                  >
+                    {cosigner.fingerprint ?? `#${i + 1} (no fingerprint)`}
+                  </span>
+                ))}
+              </div>
+            )}
+            <div className="flex items-center gap-1.5 text-xs text-gray-400">
+              <Clock className="w-3 h-3" />
+              <span>
+                Last Activity:{" "}
+                <span className="text-gray-300">
+                  {formatDate(entry.lastTxTime)}
+                </span>
+              </span>
+            </div>
+            {renderStatus()}
+            {renderUnsettled()}
+          </div>
+        </div>
+
+        <div className="flex items-center justify-between md:justify-end gap-6 min-w-[200px] flex-shrink-0">
+          <div className="text-right">
+            <div
+              className={`text-white font-bold ${
+                isPrivacyMode ? "blur-sm" : ""
+              }`}
+            >
+              {masked(formatSats(entry.balanceSats))}{" "}
+              {NETWORKS[entryNetwork(entry)].ticker}
+            </div>
+            <div
+              className={`text-sm text-gray-400 ${
+                isPrivacyMode ? "blur-sm" : ""
+              }`}
+            >
+              {isTestNetwork(entryNetwork(entry))
+                ? "No fiat value"
+                : btcPrice
+                ? formatFiat(toFiat(entry.balanceSats, btcPrice), currency)
+                : "..."}
+            </div>
+            {secondaryCurrency &&
+              secondaryPrice &&
+              !isTestNetwork(entryNetwork(entry)) && (
+                <div
+                  className={`text-xs text-gray-500 ${
+                    isPrivacyMode ? "blur-sm" : ""
+                  }`}
+                >
+                  {formatFiat(
+                    toFiat(entry.balanceSats, secondaryPrice),
+                    secondaryCurrency
+                  )}
+                </div>
+              )}
+            {renderPendingBalance()}
+          </div>
+          <div className="flex items-center gap-1">
+            {entry.kind !== "lightning" && (
+              <button
+                onClick={onToggleExpanded}
+                title="Transaction History"
+                className="p-2 text-gray-500 hover:text-white hover:bg-gray-700 rounded-lg transition-colors"
+              >
+                <ChevronDown
+                  className={`w-5 h-5 transition-transform ${
+                    expanded ? "rotate-180" : ""
+                  }`}
+                />
+              </button>
+            )}
+            <button
+              onClick={onStartEdit}
+              title="Edit"
+              className="p-2 text-gray-500 hover:text-white hover:bg-gray-700 rounded-lg transition-colors"
+            >
+              <Pencil className="w-5 h-5" />
+            </button>
+            <button
+              onClick={onRemove}
+              title="Remove"
+              className="p-2 text-gray-500 hover:text-red-400 hover:bg-red-400/10 rounded-lg transition-colors"
+            >
+              <Trash2 className="w-5 h-5" />
+            </button>
+          </div>
+        </div>
+      </div>
+      {children}
+    </div>
+  );
+};
@@ -0,0 +1,123 @@
+import { ArrowDownWideNarrow, ArrowUpNarrowWide, Search } from "lucide-react";
+import {
+  ADDRESS_SORTS,
+  DORMANCY_OPTIONS,
+  isFiltering,
+  type AddressFilters,
+  type AddressSort,
+  type BalanceFilter,
+} from "../lib/addressFilters";
+import type { GroupDef } from "../lib/groups";
+
+// Search, filter and sort controls above the address list
+export const AddressFilterBar = ({
+  filters,
+  onChange,
+  groups,
+  shown,
+  total,
+}: {
+  filters: AddressFilters;
+  onChange: (changes: Partial<AddressFilters>) => void;
+  groups: GroupDef[];
+  shown: number;
+  total: number;
+}) => (
+  <div className="flex flex-wrap items-center gap-3 text-sm">
+    <div className="relative flex-1 min-w-[12rem]">
+      <Search className="w-4 h-4 text-gray-500 absolute left-3 top-1/2 -translate-y-1/2" />
+      <input
+        type="text"
+        placeholder="Search labels, notes and addresses"
+        value={filters.search}
+        onChange={(e) => onChange({ search: e.target.value })}
+        className="w-full bg-gray-900 border border-gray-700 rounded-lg pl-9 pr-3 py-2 text-white focus:outline-none focus:border-orange-500"
+      />
+    </div>
+    <select
+      value={filters.group ?? ""}
+      onChange={(e) => onChange({ group: e.target.value || null })}
+      className="bg-gray-900 border border-gray-700 rounded-lg px-2 py-2 text-white focus:outline-none focus:border-orange-500"
+    >
+      <option value="">All groups</option>
+      {groups.map((group) => (
+        <option key={group.name} value={group.name}>
+          {group.name}
+        </option>
+      ))}
+    </select>
+    <select
+      value={filters.balance}
+      onChange={(e) =>
+        onChange({
+          balance: e.target.value as BalanceFilter,
+        })
+      }
+      className="bg-gray-900 border border-gray-700 rounded-lg px-2 py-2 text-white focus:outline-none focus:border-orange-500"
+    >
+      <option value="all">Any balance</option>
+      <option value="funded">Funded</option>
+      <option value="empty">Zero balance</option>
+    </select>
+    <select
+      value={filters.dormantDays ?? ""}
+      onChange={(e) =>
+        onChange({
+          dormantDays: e.target.value ? Number(e.target.value) : null,
+        })
+      }
+      className="bg-gray-900 border border-gray-700 rounded-lg px-2 py-2 text-white focus:outline-none focus:border-orange-500"
+    >
+      <option value="">Any activity</option>
+      {DORMANCY_OPTIONS.map((days) => (
+        <option key={days} value={days}>
+          Dormant {days}+ days
+        </option>
+      ))}
+    </select>
+    <label className="flex items-center gap-2 text-gray-400">
+      <input
+        type="checkbox"
+        checked={filters.pendingOnly}
+        onChange={(e) => onChange({ pendingOnly: e.target.checked })}
+        className="accent-orange-500"
+      />
+      Pending tx
+    </label>
+    <div className="flex items-center gap-1">
+      <select
+        value={filters.sort}
+        onChange={(e) => onChange({ sort: e.target.value as AddressSort })}
+        className="bg-gray-900 border border-gray-700 rounded-lg px-2 py-2 text-white focus:outline-none focus:border-orange-500"
+      >
+        {ADDRESS_SORTS.map((sort) => (
+          <option key={sort.id} value={sort.id}>
+            {sort.name}
+          </option>
+        ))}
+      </select>
+      {filters.sort !== "manual" && (
+        <button
+          onClick={() =>
+            onChange({
+              descending: !filters.descending,
+            })
+          }
+          title={filters.descending ? "Descending" : "Ascending"}
+          className="p-2 rounded-lg bg-gray-900 border border-gray-700 text-gray-400 hover:text-white"
+        >
+          {filters.descending ? (
+            <ArrowDownWideNarrow className="w-4 h-4" />
+          ) : (
+            <ArrowUpNarrowWide className="w-4 h-4" />
+          )}
+        </button>
+      )}
+    </div>
+    {isFiltering(filters) && (
+      <span className="text-gray-500">
+        {shown} of {total} shown
+      </span>
+    )}
+  </div>
+);
@@ -0,0 +1,264 @@
+import { useState } from "react";
+import { Bell, BellOff, CircleCheck, Plus, Trash2 } from "lucide-react";
+import {
+  ALERT_KINDS,
+  describeRule,
+  type AlertEvent,
+  type AlertKind,
+  type AlertRule,
+} from "../lib/alerts";
+import type { TrackedEntry } from "../lib/entries";
+import { MASK } from "../lib/masking";
+import { Card } from "./ui";
+
+export const AlertsPanel = ({
+  rules,
+  log,
+  entries,
+  onRulesChange,
+  onClearLog,
+  isPrivacyMode,
+  isStrictPrivacy,
+}: {
+  rules: AlertRule[];
+  log: AlertEvent[];
+  entries: TrackedEntry[];
+  onRulesChange: (rules: AlertRule[]) => void;
+  onClearLog: () => void;
+  isPrivacyMode: boolean;
+  isStrictPrivacy: boolean;
+}) => {
+  const [notificationPermission, setNotificationPermission] = useState(
+    typeof Notification !== "undefined" ? Notification.permission : "denied"
+  );
+  const [newRuleKind, setNewRuleKind] = useState<AlertKind>("outgoing");
+  const [newRuleScope, setNewRuleScope] = useState("all"); // 'all', 'group:<name>' or 'entry:<id>'
+  const [newRuleThreshold, setNewRuleThreshold] = useState("0.01"); // BTC
+  const [newRuleDays, setNewRuleDays] = useState(180);
+
+  const masked = (text: string) => (isStrictPrivacy ? MASK : text);
+
+  const requestNotifications = async () => {
+    if (typeof Notification === "undefined") return;
+    setNotificationPermission(await Notification.requestPermission());
+  };
+
+  const addRule = () => {
+    const [scope, ...rest] = newRuleScope.split(":");
+    const rule: AlertRule = {
+      id: Date.now(),
+      kind: newRuleKind,
+      scope: scope as AlertRule["scope"],
+      target: rest.join(":"),
+      thresholdSats: Math.round((Number(newRuleThreshold) || 0) * 100000000),
+      dormantDays: Math.max(1, Number(newRuleDays) || 1),
+      enabled: true,
+    };
+    onRulesChange([...rules, rule]);
+    // Ask on the first rule, while the user is clearly opting in
+    if (notificationPermission === "default") requestNotifications();
+  };
+
+  const toggleRule = (id: number) =>
+    onRulesChange(
+      rules.map((rule) =>
+        rule.id === id ? { ...rule, enabled: !rule.enabled } : rule
+      )
+    );
+
+  const removeRule = (id: number) =>
+    onRulesChange(rules.filter((rule) => rule.id !== id));
+
+  const groups = [...new Set(entries.map((entry) => entry.group))];
+  const needsThreshold = newRuleKind === "incoming" || newRuleKind === "below";
+
+  return (
+    <div className="space-y-6 animate-in fade-in duration-500">
+      <Card>
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 mb-4">
+          <h3 className="text-lg font-semibold text-white flex items-center gap-2">
+            <Bell className="w-5 h-5 text-gray-400" />
+            Alert Rules
+          </h3>
+          {notificationPermission === "granted" ? (
+            <span className="text-xs text-green-400 flex items-center gap-1">
+              <CircleCheck className="w-3 h-3" />
+              Browser notifications on
+            </span>
+          ) : notificationPermission === "denied" ? (
+            <span className="text-xs text-gray-500 flex items-center gap-1">
+              <BellOff className="w-3 h-3" />
+              Notifications blocked; alerts go to the log only
+            </span>
+          ) : (
+            <button
+              onClick={requestNotifications}
+              className="px-3 py-1.5 text-xs font-medium rounded-md bg-gray-700 hover:bg-gray-600 text-white transition-colors"
+            >
+              Enable Notifications
+            </button>
+          )}
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-12 gap-3">
+          <select
+            className="md:col-span-4 bg-gray-900 border border-gray-700 rounded-lg px-4 py-3 text-white focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm"
+            value={newRuleKind}
+            onChange={(e) => setNewRuleKind(e.target.value as AlertKind)}
+          >
+            {ALERT_KINDS.map((kind) => (
+              <option key={kind.id} value={kind.id}>
+                {kind.name}
+              </option>
+            ))}
+          </select>
+          {needsThreshold ? (
+            <input
+              type="number"
+              min="0"
+              step="any"
+              className="md:col-span-2 bg-gray-900 border border-gray-700 rounded-lg px-4 py-3 text-white focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm"
+              value={newRuleThreshold}
+              onChange={(e) => setNewRuleThreshold(e.target.value)}
+              title="Threshold in BTC"
+            />
+          ) : newRuleKind === "dormant" ? (
+            <input
+              type="number"
+              min="1"
+              className="md:col-span-2 bg-gray-900 border border-gray-700 rounded-lg px-4 py-3 text-white focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm"
+              value={newRuleDays}
+              onChange={(e) => setNewRuleDays(Number(e.target.value))}
+              title="Days without activity"
+            />
+          ) : (
+            <div className="md:col-span-2" />
+          )}
+          <select
+            className="md:col-span-4 bg-gray-900 border border-gray-700 rounded-lg px-4 py-3 text-white focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm"
+            value={newRuleScope}
+            onChange={(e) => setNewRuleScope(e.target.value)}
+          >
+            <option value="all">All entries</option>
+            {groups.length > 0 && (
+              <optgroup label="Groups">
+                {groups.map((group) => (
+                  <option key={group} value={`group:${group}`}>
+                    {group}
+                  </option>
+                ))}
+              </optgroup>
+            )}
+            {entries.length > 0 && (
+              <optgroup label="Addresses">
+                {entries.map((addr) => (
+                  <option key={addr.id} value={`entry:${addr.id}`}>
+                    {masked(addr.label)}
+                  </option>
+                ))}
+              </optgroup>
+            )}
+          </select>
+          <button
+            onClick={addRule}
+            className="md:col-span-2 bg-orange-500 hover:bg-orange-600 text-white font-medium py-3 px-4 rounded-lg transition-colors flex items-center justify-center gap-2"
+          >
+            <Plus className="w-4 h-4" />
+            Add
+          </button>
+        </div>
+        <p className="text-xs text-gray-500 mt-2">
+          {needsThreshold
+            ? "Threshold in BTC. Group and all-address balance rules use the combined balance."
+            : newRuleKind === "dormant"
+            ? "Days without any transaction before activity counts as unusual."
+            : "Checked on every refresh."}
+        </p>
+
+        <div className="mt-6 space-y-2">
+          {rules.map((rule) => (
+            <div
+              key={rule.id}
+              className="flex items-center justify-between gap-4 p-3 bg-gray-900/50 rounded-lg border border-gray-700/50"
+            >
+              <span
+                className={`text-sm ${
+                  rule.enabled ? "text-white" : "text-gray-500 line-through"
+                }`}
+              >
+                {describeRule(rule, entries, masked)}
+              </span>
+              <div className="flex items-center gap-1">
+                <button
+                  onClick={() => toggleRule(rule.id)}
+                  title={rule.enabled ? "Pause" : "Resume"}
+                  className="p-2 text-gray-500 hover:text-white hover:bg-gray-700 rounded-lg transition-colors"
+                >
+                  {rule.enabled ? (
+                    <Bell className="w-4 h-4" />
+                  ) : (
+                    <BellOff className="w-4 h-4" />
+                  )}
+                </button>
+                <button
+                  onClick={() => removeRule(rule.id)}
+                  className="p-2 text-gray-500 hover:text-red-400 hover:bg-red-400/10 rounded-lg transition-colors"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            </div>
+          ))}
+          {rules.length === 0 && (
+            <p className="text-gray-500 text-sm text-center py-4">
+              No alert rules yet.
+            </p>
+          )}
+        </div>
+      </Card>
+
+      <Card>
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg font-semibold text-white">Alert Log</h3>
+          {log.length > 0 && (
+            <button
+              onClick={() => onClearLog()}
+              className="px-3 py-1 text-xs font-medium rounded-md bg-gray-700 hover:bg-gray-600 text-white transition-colors"
+            >
+              Clear
+            </button>
+          )}
+        </div>
+        <div className="space-y-2 max-h-96 overflow-y-auto">
+          {log.map((event) => (
+            <div
+              key={event.id}
+              className="p-3 bg-gray-900/50 rounded-lg border border-gray-700/50"
+            >
+              <div className="flex items-center justify-between gap-4">
+                <span className="text-sm font-medium text-white">
+                  {masked(event.title)}
+                </span>
+                <span className="text-xs text-gray-500 whitespace-nowrap">
+                  {new Date(event.at).toLocaleString()}
+                </span>
+              </div>
+              <p
+                className={`text-xs text-gray-400 mt-1 ${
+                  isPrivacyMode ? "blur-sm" : ""
+                }`}
+              >
+                {masked(event.message)}
+              </p>
+            </div>
+          ))}
+          {log.length === 0 && (
+            <p className="text-gray-500 text-sm text-center py-4">
+              Nothing has fired yet.
+            </p>
+          )}
+        </div>
+      </Card>
+    </div>
+  );
+};
@@ -0,0 +1,223 @@
+import { useState } from "react";
+import { Bitcoin, Lock } from "lucide-react";
+import {
+  AUTO_LOCK_OPTIONS,
+  MIN_PASSPHRASE_LENGTH,
+  changeLockPassphrase,
+  checkPassphrase,
+  saveAutoLock,
+} from "../lib/storage";
+import { DecryptionError } from "../lib/crypto";
+import { Card } from "./ui";
+
+export interface LockSettings {
+  enabled: boolean;
+  autoLockMinutes: number;
+}
+
+// Shown instead of the app while stored data waits for the passphrase
+export const LockScreen = ({
+  onUnlock,
+}: {
+  onUnlock: (passphrase: string) => Promise<void>;
+}) => {
+  const [passphrase, setPassphrase] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [unlocking, setUnlocking] = useState(false);
+
+  const unlock = async () => {
+    setUnlocking(true);
+    try {
+      await onUnlock(passphrase);
+    } catch (error) {
+      console.error("Error unlocking:", error);
+      setError(
+        error instanceof DecryptionError
+          ? "Wrong passphrase."
+          : (error as Error).message
+      );
+      setUnlocking(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-950 text-gray-100 font-sans flex items-center justify-center p-6">
+      <Card className="w-full max-w-sm">
+        <div className="flex items-center gap-2 text-orange-500 font-bold text-xl mb-6">
+          <Bitcoin className="w-8 h-8" />
+          <span>SatsTracker</span>
+        </div>
+        <h2 className="text-white font-semibold flex items-center gap-2 mb-4">
+          <Lock className="w-4 h-4 text-gray-400" />
+          Locked
+        </h2>
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            unlock();
+          }}
+          className="space-y-3"
+        >
+          <input
+            type="password"
+            autoFocus
+            placeholder="Passphrase or PIN"
+            className="w-full bg-gray-900 border border-gray-700 rounded-lg px-4 py-3 text-white focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm"
+            value={passphrase}
+            onChange={(e) => setPassphrase(e.target.value)}
+          />
+          {error && <p className="text-xs text-red-400">{error}</p>}
+          <button
+            type="submit"
+            disabled={unlocking || !passphrase}
+            className="w-full px-4 py-3 bg-orange-500 hover:bg-orange-600 disabled:opacity-50 text-white rounded-lg text-sm font-medium transition-colors"
+          >
+            {unlocking ? "Unlocking..." : "Unlock"}
+          </button>
+        </form>
+        <p className="text-xs text-gray-500 mt-4">
+          Addresses, labels, settings and history are encrypted with this
+          passphrase. There's no way to recover them without it; clearing the
+          site's data and restoring a backup starts over.
+        </p>
+      </Card>
+    </div>
+  );
+};
+
+// Settings card for turning the lock on, changing it or taking it off.
+// `onChange` re-reads the stored lock config afterwards.
+export const AppLockSettings = ({
+  settings,
+  onChange,
+  onLockNow,
+}: {
+  settings: LockSettings;
+  onChange: () => void;
+  onLockNow: () => void;
+}) => {
+  const [current, setCurrent] = useState("");
+  const [passphrase, setPassphrase] = useState("");
+  const [confirm, setConfirm] = useState("");
+
+  // Sets or changes the passphrase, or removes the lock with `null`. Anything
+  // but a first-time setup asks for the current passphrase.
+  const updateLock = async (next: string | null) => {
+    if (next !== null) {
+      if (next !== confirm) {
+        alert("Passphrases do not match.");
+        return;
+      }
+      if (next.length < MIN_PASSPHRASE_LENGTH) {
+        alert(`Use at least ${MIN_PASSPHRASE_LENGTH} characters.`);
+        return;
+      }
+    }
+    try {
+      if (settings.enabled) await checkPassphrase(current);
+      await changeLockPassphrase(next, settings.autoLockMinutes);
+    } catch (error) {
+      console.error("Error updating app lock:", error);
+      alert(
+        error instanceof DecryptionError
+          ? "Current passphrase is wrong."
+          : `Could not update the app lock: ${(error as Error).message}`
+      );
+      return;
+    }
+    setCurrent("");
+    setPassphrase("");
+    setConfirm("");
+    onChange();
+  };
+
+  const updateAutoLock = (minutes: number) =>
+    saveAutoLock(minutes)
+      .then(onChange)
+      .catch((error) => console.error("Error saving auto-lock:", error));
+
+  return (
+    <Card>
+      <h3 className="text-lg font-semibold text-white mb-2 flex items-center gap-2">
+        <Lock className="w-5 h-5 text-gray-400" />
+        App Lock
+      </h3>
+      <p className="text-xs text-gray-500 mb-4">
+        Encrypts everything this app stores with a key derived from a passphrase
+        (PBKDF2, AES-GCM), and asks for it on every start and after inactivity.
+        A short PIN keeps out someone at this screen, but not someone with a
+        copy of the browser profile; use a passphrase for that.
+      </p>
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        {settings.enabled && (
+          <input
+            type="password"
+            placeholder="Current passphrase"
+            className="bg-gray-900 border border-gray-700 rounded-lg px-4 py-3 text-white focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm"
+            value={current}
+            onChange={(e) => setCurrent(e.target.value)}
+          />
+        )}
+        <input
+          type="password"
+          placeholder={
+            settings.enabled ? "New passphrase" : "Passphrase or PIN"
+          }
+          className="bg-gray-900 border border-gray-700 rounded-lg px-4 py-3 text-white focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm"
+          value={passphrase}
+          onChange={(e) => setPassphrase(e.target.value)}
+        />
+        <input
+          type="password"
+          placeholder="Confirm"
+          className="bg-gray-900 border border-gray-700 rounded-lg px-4 py-3 text-white focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm"
+          value={confirm}
+          onChange={(e) => setConfirm(e.target.value)}
+        />
+      </div>
+      <div className="flex flex-wrap items-center justify-between gap-4 mt-4">
+        <label className="flex items-center gap-2 text-sm text-gray-400">
+          Lock after
+          <select
+            disabled={!settings.enabled}
+            className="bg-gray-900 border border-gray-700 rounded-lg px-3 py-1.5 text-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50"
+            value={settings.autoLockMinutes}
+            onChange={(e) => updateAutoLock(Number(e.target.value))}
+          >
+            {AUTO_LOCK_OPTIONS.map((minutes) => (
+              <option key={minutes} value={minutes}>
+                {minutes ? `${minutes} min idle` : "Never"}
+              </option>
+            ))}
+          </select>
+        </label>
+        <div className="flex flex-wrap gap-3">
+          {settings.enabled && (
+            <>
+              <button
+                onClick={() => updateLock(null)}
+                disabled={!current}
+                className="px-4 py-2 bg-gray-700 hover:bg-gray-600 disabled:opacity-50 text-white rounded-lg text-sm font-medium transition-colors"
+              >
+                Remove Lock
+              </button>
+              <button
+                onClick={onLockNow}
+                className="px-4 py-2 bg-gray-700 hover:bg-gray-600 text-white rounded-lg text-sm font-medium transition-colors"
+              >
+                Lock Now
+              </button>
+            </>
+          )}
+          <button
+            onClick={() => updateLock(passphrase)}
+            disabled={!passphrase || (settings.enabled && !current)}
+            className="px-4 py-2 bg-blue-600 hover:bg-blue-500 disabled:opacity-50 text-white rounded-lg text-sm font-medium transition-colors"
+          >
+            {settings.enabled ? "Change Passphrase" : "Enable Lock"}
+          </button>
+        </div>
+      </div>
+    </Card>
+  );
+};
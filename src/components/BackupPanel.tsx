@@ -0,0 +1,379 @@
+import { useState } from "react";
+import { ArchiveRestore, Download, FileText, Lock, Upload } from "lucide-react";
+import {
+  BackupError,
+  createBackup,
+  hasCredentials,
+  inspectBackup,
+  readBackup,
+  type BackupIssue,
+  type BackupPayload,
+} from "../lib/backup";
+import {
+  applyLabels,
+  entriesToBip329,
+  entriesToCsv,
+  parseBip329,
+  parseLabelCsv,
+  type LabelIssue,
+} from "../lib/labels";
+import type { TrackedEntry } from "../lib/entries";
+import type { BitcoinNetwork } from "../lib/networks";
+import { downloadFile } from "../lib/files";
+import { Card } from "./ui";
+
+export type RestoreMode = "merge" | "replace";
+
+// Backup export and restore, plus label files. `backup` is the current
+// state as it would be written; `onRestore` applies a validated backup and
+// returns what it did.
+export const BackupPanel = ({
+  backup,
+  network,
+  onRestore,
+  onLabelsImported,
+}: {
+  backup: BackupPayload;
+  network: BitcoinNetwork;
+  onRestore: (payload: BackupPayload, mode: RestoreMode) => string;
+  onLabelsImported: (entries: TrackedEntry[], added: number) => void;
+}) => {
+  const [exportPassphrase, setExportPassphrase] = useState("");
+  const [exportConfirm, setExportConfirm] = useState("");
+  const [pendingImport, setPendingImport] = useState<{
+    name: string;
+    text: string;
+    encrypted: boolean;
+  } | null>(null);
+  const [importPassphrase, setImportPassphrase] = useState("");
+  const [importMode, setImportMode] = useState<RestoreMode>("merge");
+  const [labelResult, setLabelResult] = useState<{
+    ok: boolean;
+    message: string;
+    issues: LabelIssue[];
+  } | null>(null);
+  const [importResult, setImportResult] = useState<{
+    ok: boolean;
+    message: string;
+    issues?: BackupIssue[];
+  } | null>(null);
+
+  const downloadBackup = async () => {
+    if (exportPassphrase !== exportConfirm) {
+      alert("Passphrases do not match.");
+      return;
+    }
+    downloadFile(
+      await createBackup(backup, exportPassphrase || undefined),
+      `sats_tracker_backup_${new Date().toISOString().slice(0, 10)}.json`,
+      "text/json"
+    );
+    setExportPassphrase("");
+    setExportConfirm("");
+  };
+
+  // Reads the chosen file; the restore itself waits for the passphrase/mode
+  const handleImport = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = ""; // Allow picking the same file again
+    if (!file) return;
+    setImportResult(null);
+    const fileReader = new FileReader();
+    fileReader.readAsText(file, "UTF-8");
+    fileReader.onload = (e) => {
+      const text = e.target?.result as string;
+      try {
+        const { encrypted } = inspectBackup(text);
+        setPendingImport({ name: file.name, text, encrypted });
+      } catch (error) {
+        console.error("Error parsing file:", error);
+        setPendingImport(null);
+        setImportResult({ ok: false, message: (error as Error).message });
+      }
+    };
+  };
+
+  const restoreBackup = async () => {
+    if (!pendingImport) return;
+    let payload;
+    try {
+      payload = await readBackup(pendingImport.text, importPassphrase);
+    } catch (error) {
+      console.error("Error restoring backup:", error);
+      setImportResult({
+        ok: false,
+        message: (error as Error).message,
+        issues: error instanceof BackupError ? error.issues : [],
+      });
+      return;
+    }
+    setImportResult({ ok: true, message: onRestore(payload, importMode) });
+    setPendingImport(null);
+    setImportPassphrase("");
+  };
+
+  const exportLabels = (format: "bip329" | "csv") => {
+    if (format === "bip329") {
+      downloadFile(
+        entriesToBip329(backup.addresses),
+        "sats_tracker_labels.jsonl",
+        "application/jsonl"
+      );
+    } else {
+      downloadFile(
+        entriesToCsv(backup.addresses),
+        "sats_tracker_labels.csv",
+        "text/csv"
+      );
+    }
+  };
+
+  // BIP-329 is JSON lines; anything else is treated as CSV
+  const handleLabelImport = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+    const fileReader = new FileReader();
+    fileReader.readAsText(file, "UTF-8");
+    fileReader.onload = (e) => {
+      const text = (e.target?.result as string) || "";
+      const parsed = text.trimStart().startsWith("{")
+        ? parseBip329(text)
+        : parseLabelCsv(text);
+      const result = applyLabels(
+        backup.addresses,
+        parsed.labels,
+        "Imported",
+        network
+      );
+      const issues = [...parsed.issues, ...result.issues].sort(
+        (a, b) => a.line - b.line
+      );
+      setLabelResult({
+        ok: issues.length === 0,
+        message: `Updated ${result.updated}, added ${result.added}${
+          parsed.ignored
+            ? `, ignored ${parsed.ignored} non-address records`
+            : ""
+        }${issues.length ? `, ${issues.length} skipped` : ""}.`,
+        issues,
+      });
+      onLabelsImported(result.addresses, result.added);
+    };
+  };
+
+  return (
+    <div className="space-y-6 animate-in fade-in duration-500">
+      <Card>
+        <h3 className="text-lg font-semibold text-white mb-2 flex items-center gap-2">
+          <Download className="w-5 h-5 text-gray-400" />
+          Export Backup
+        </h3>
+        <p className="text-xs text-gray-500 mb-4">
+          Includes tracked addresses, wallets, cost basis entries and settings.
+          Xpubs reveal your whole wallet history, so set a passphrase unless the
+          file stays on this device.
+        </p>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <input
+            type="password"
+            placeholder="Passphrase (optional)"
+            className="bg-gray-900 border border-gray-700 rounded-lg px-4 py-3 text-white focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm"
+            value={exportPassphrase}
+            onChange={(e) => setExportPassphrase(e.target.value)}
+          />
+          <input
+            type="password"
+            placeholder="Confirm passphrase"
+            className="bg-gray-900 border border-gray-700 rounded-lg px-4 py-3 text-white focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm"
+            value={exportConfirm}
+            onChange={(e) => setExportConfirm(e.target.value)}
+          />
+        </div>
+        <div className="flex items-center justify-between mt-4">
+          <span className="text-xs text-gray-500 flex items-center gap-1">
+            {exportPassphrase ? (
+              <>
+                <Lock className="w-3 h-3 text-green-400" />
+                AES-GCM encrypted
+              </>
+            ) : hasCredentials(backup.addresses) ? (
+              <span className="text-yellow-400">
+                Unencrypted JSON, without Lightning credentials; set a
+                passphrase to keep them, or re-link those nodes after restoring
+              </span>
+            ) : (
+              "Unencrypted JSON"
+            )}
+          </span>
+          <button
+            onClick={downloadBackup}
+            disabled={backup.addresses.length === 0}
+            className="px-4 py-2 text-sm font-medium rounded-lg bg-orange-500 hover:bg-orange-600 disabled:opacity-50 text-white transition-colors flex items-center gap-2"
+          >
+            <Download className="w-4 h-4" />
+            Export
+          </button>
+        </div>
+      </Card>
+
+      <Card>
+        <h3 className="text-lg font-semibold text-white mb-2 flex items-center gap-2">
+          <Upload className="w-5 h-5 text-gray-400" />
+          Restore Backup
+        </h3>
+        <p className="text-xs text-gray-500 mb-4">
+          Merge adds entries whose address isn't tracked yet and keeps your
+          settings. Replace swaps in the backup's entries and settings.
+        </p>
+        <input
+          id="import-file"
+          type="file"
+          accept="application/json,.json"
+          className="hidden"
+          onChange={handleImport}
+        />
+        <div className="flex flex-wrap items-center gap-3">
+          <button
+            onClick={() => document.getElementById("import-file")?.click()}
+            className="px-4 py-2 text-sm font-medium rounded-lg bg-gray-700 hover:bg-gray-600 text-white transition-colors"
+          >
+            Choose File
+          </button>
+          <span className="text-sm text-gray-400 truncate">
+            {pendingImport
+              ? `${pendingImport.name}${
+                  pendingImport.encrypted ? " (encrypted)" : ""
+                }`
+              : "No file selected"}
+          </span>
+        </div>
+
+        {pendingImport && (
+          <div className="mt-4 space-y-4">
+            {pendingImport.encrypted && (
+              <input
+                type="password"
+                placeholder="Backup passphrase"
+                className="w-full bg-gray-900 border border-gray-700 rounded-lg px-4 py-3 text-white focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm"
+                value={importPassphrase}
+                onChange={(e) => setImportPassphrase(e.target.value)}
+              />
+            )}
+            <div className="flex items-center justify-between gap-4">
+              <div className="flex bg-gray-900 rounded-lg p-1 border border-gray-700">
+                {(["merge", "replace"] as const).map((mode) => (
+                  <button
+                    key={mode}
+                    onClick={() => setImportMode(mode)}
+                    className={`px-3 py-1 text-xs font-medium rounded-md capitalize transition-colors ${
+                      importMode === mode
+                        ? "bg-gray-700 text-white"
+                        : "text-gray-400 hover:text-white"
+                    }`}
+                  >
+                    {mode}
+                  </button>
+                ))}
+              </div>
+              <button
+                onClick={restoreBackup}
+                className="px-4 py-2 text-sm font-medium rounded-lg bg-orange-500 hover:bg-orange-600 text-white transition-colors flex items-center gap-2"
+              >
+                <ArchiveRestore className="w-4 h-4" />
+                Restore
+              </button>
+            </div>
+          </div>
+        )}
+
+        {importResult && (
+          <div
+            className={`mt-4 p-3 rounded-lg border text-sm ${
+              importResult.ok
+                ? "bg-green-900/20 border-green-800 text-green-400"
+                : "bg-red-900/20 border-red-800 text-red-400"
+            }`}
+          >
+            <p>{importResult.message}</p>
+            {importResult.issues && importResult.issues.length > 0 && (
+              <ul className="mt-2 space-y-1 text-xs font-mono max-h-48 overflow-y-auto">
+                {importResult.issues.map((issue, i) => (
+                  <li key={i}>
+                    {issue.path}: {issue.message}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+      </Card>
+
+      <Card>
+        <h3 className="text-lg font-semibold text-white mb-2 flex items-center gap-2">
+          <FileText className="w-5 h-5 text-gray-400" />
+          Labels
+        </h3>
+        <p className="text-xs text-gray-500 mb-4">
+          BIP-329 label files round-trip with Sparrow and other wallets. CSV
+          (address, label, group, balance, last_activity) also carries groups
+          and is handy for bulk-loading addresses from a spreadsheet. Known
+          addresses are relabeled; new ones are added.
+        </p>
+        <input
+          id="label-file"
+          type="file"
+          accept=".jsonl,.json,.csv,text/csv"
+          className="hidden"
+          onChange={handleLabelImport}
+        />
+        <div className="flex flex-wrap gap-3">
+          <button
+            onClick={() => exportLabels("bip329")}
+            disabled={backup.addresses.length === 0}
+            className="px-4 py-2 text-sm font-medium rounded-lg bg-gray-700 hover:bg-gray-600 disabled:opacity-50 text-white transition-colors flex items-center gap-2"
+          >
+            <Download className="w-4 h-4" />
+            BIP-329
+          </button>
+          <button
+            onClick={() => exportLabels("csv")}
+            disabled={backup.addresses.length === 0}
+            className="px-4 py-2 text-sm font-medium rounded-lg bg-gray-700 hover:bg-gray-600 disabled:opacity-50 text-white transition-colors flex items-center gap-2"
+          >
+            <Download className="w-4 h-4" />
+            CSV
+          </button>
+          <button
+            onClick={() => document.getElementById("label-file")?.click()}
+            className="px-4 py-2 text-sm font-medium rounded-lg bg-orange-500 hover:bg-orange-600 text-white transition-colors flex items-center gap-2"
+          >
+            <Upload className="w-4 h-4" />
+            Import Labels
+          </button>
+        </div>
+
+        {labelResult && (
+          <div
+            className={`mt-4 p-3 rounded-lg border text-sm ${
+              labelResult.ok
+                ? "bg-green-900/20 border-green-800 text-green-400"
+                : "bg-yellow-900/20 border-yellow-800 text-yellow-400"
+            }`}
+          >
+            <p>{labelResult.message}</p>
+            {labelResult.issues.length > 0 && (
+              <ul className="mt-2 space-y-1 text-xs font-mono max-h-48 overflow-y-auto">
+                {labelResult.issues.map((issue, i) => (
+                  <li key={i}>
+                    Line {issue.line}: {issue.message}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+      </Card>
+    </div>
+  );
+};
@@ -0,0 +1,176 @@
+import { useMemo, useState } from "react";
+import { CircleAlert, CircleCheck, Zap } from "lucide-react";
+import type { FeeRates } from "../lib/providers";
+import type { Currency } from "../lib/currency";
+import { ADDRESS_TYPE_NAMES, type AddressType } from "../lib/address";
+import type { UtxoRecord } from "../lib/utxos";
+import {
+  FEE_TIERS,
+  adviseConsolidation,
+  planSpend,
+  type FeeSample,
+} from "../lib/fees";
+import { formatFiat, formatSats } from "../lib/format";
+import { MASK } from "../lib/masking";
+import { Card } from "./ui";
+import { FeeSparkline } from "./FeeSparkline";
+
+// Defaults the destination to whatever script type most inputs already use
+const commonType = (utxos: UtxoRecord[]): AddressType => {
+  const counts = new Map<AddressType, number>();
+  utxos.forEach((utxo) => {
+    if (utxo.scriptType) {
+      counts.set(utxo.scriptType, (counts.get(utxo.scriptType) || 0) + 1);
+    }
+  });
+  return [...counts].sort((a, b) => b[1] - a[1])[0]?.[0] ?? "p2wpkh";
+};
+
+export const FeePlanner = ({
+  utxos,
+  selection,
+  fees,
+  feeHistory,
+  btcPrice,
+  currency,
+  isPrivacyMode,
+  isStrictPrivacy,
+}: {
+  utxos: UtxoRecord[];
+  selection: "all" | "selected";
+  fees: FeeRates | null;
+  feeHistory: FeeSample[];
+  btcPrice: number | null;
+  currency: Currency;
+  isPrivacyMode: boolean;
+  isStrictPrivacy: boolean;
+}) => {
+  const [outputType, setOutputType] = useState<AddressType | null>(null);
+  const destination = outputType ?? commonType(utxos);
+
+  const total = utxos.reduce((acc, curr) => acc + curr.value, 0);
+  const tiers = useMemo(
+    () => (fees ? planSpend(utxos, fees, destination) : []),
+    [utxos, fees, destination]
+  );
+  const advice = useMemo(
+    () =>
+      fees ? adviseConsolidation(utxos, fees, feeHistory, destination) : null,
+    [utxos, fees, feeHistory, destination]
+  );
+  const addressCount = new Set(utxos.map((utxo) => utxo.address)).size;
+
+  return (
+    <Card>
+      <div className="flex flex-col md:flex-row md:items-start justify-between gap-4 mb-4">
+        <div>
+          <h3 className="text-lg font-semibold text-white flex items-center gap-2">
+            <Zap className="w-5 h-5 text-yellow-500" />
+            Consolidation Planner
+          </h3>
+          <p
+            className={`text-xs text-gray-500 mt-1 ${
+              isPrivacyMode ? "blur-sm" : ""
+            }`}
+          >
+            {selection === "selected" ? "Selected" : "All confirmed"}:{" "}
+            {utxos.length} UTXO{utxos.length === 1 ? "" : "s"},{" "}
+            {isStrictPrivacy ? MASK : `${formatSats(total)} BTC`}
+          </p>
+        </div>
+        <label className="flex items-center gap-2 text-xs text-gray-400">
+          Destination
+          <select
+            value={destination}
+            onChange={(e) => setOutputType(e.target.value as AddressType)}
+            className="bg-gray-900 border border-gray-700 rounded-lg px-2 py-1 text-white focus:outline-none focus:border-orange-500"
+          >
+            {(Object.keys(ADDRESS_TYPE_NAMES) as AddressType[]).map((type) => (
+              <option key={type} value={type}>
+                {ADDRESS_TYPE_NAMES[type]}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      {!fees ? (
+        <p className="text-sm text-gray-500 italic">Loading fees...</p>
+      ) : utxos.length === 0 ? (
+        <p className="text-sm text-gray-500 text-center py-4">
+          No confirmed UTXOs to plan with.
+        </p>
+      ) : (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mb-4">
+            {tiers.map((tier) => (
+              <div
+                key={tier.tier}
+                className="bg-gray-900/50 rounded-lg p-3 border border-gray-700"
+              >
+                <div className="text-[10px] text-gray-500 uppercase tracking-wider">
+                  {FEE_TIERS.find((t) => t.id === tier.tier)?.name} ·{" "}
+                  {tier.feeRate} sat/vB
+                </div>
+                <div className="text-white font-bold mt-1">
+                  {tier.fee.toLocaleString()} sats
+                </div>
+                <div
+                  className={`text-xs ${
+                    tier.percent >= 5
+                      ? "text-red-400"
+                      : tier.percent >= 1
+                      ? "text-yellow-400"
+                      : "text-gray-400"
+                  }`}
+                >
+                  {tier.percent.toFixed(tier.percent < 0.1 ? 3 : 2)}% of value
+                </div>
+                {btcPrice && (
+                  <div className="text-[10px] text-gray-500">
+                    {formatFiat((tier.fee / 100000000) * btcPrice, currency)}
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+          <p className="text-xs text-gray-500 mb-4">
+            One transaction of about {tiers[0]?.vbytes.toLocaleString()} vB
+            sweeping into a single {ADDRESS_TYPE_NAMES[destination]} output.
+          </p>
+
+          {advice && (
+            <div
+              className={`flex items-start gap-2 text-sm rounded-lg p-3 border ${
+                advice.recommended
+                  ? "bg-green-900/20 border-green-800 text-green-400"
+                  : "bg-gray-900/50 border-gray-700 text-gray-400"
+              }`}
+            >
+              {advice.recommended ? (
+                <CircleCheck className="w-4 h-4 mt-0.5 shrink-0" />
+              ) : (
+                <CircleAlert className="w-4 h-4 mt-0.5 shrink-0" />
+              )}
+              <div>
+                <p>{advice.reason}</p>
+                {advice.recommended && addressCount > 1 && (
+                  <p className="text-xs text-yellow-400 mt-1">
+                    This links {addressCount} addresses together on-chain.
+                  </p>
+                )}
+              </div>
+            </div>
+          )}
+        </>
+      )}
+
+      <div className="mt-4 pt-3 border-t border-gray-700">
+        <div className="text-xs text-gray-400 uppercase tracking-wider mb-2">
+          Medium Fee Rate History
+        </div>
+        <FeeSparkline history={feeHistory} className="h-16" />
+      </div>
+    </Card>
+  );
+};
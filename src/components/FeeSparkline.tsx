@@ -0,0 +1,51 @@
+import { Line, LineChart, ResponsiveContainer, YAxis } from "recharts";
+import type { FeeSample, FeeTier } from "../lib/fees";
+
+// Tiny fee-rate trend from the samples collected on each refresh
+export const FeeSparkline = ({
+  history,
+  tier = "halfHourFee",
+  className = "h-10",
+}: {
+  history: FeeSample[];
+  tier?: FeeTier;
+  className?: string;
+}) => {
+  if (history.length < 2) {
+    return (
+      <p className="text-[10px] text-gray-500 italic">
+        Fee history builds up as the app refreshes.
+      </p>
+    );
+  }
+  const rates = history.map((sample) => sample[tier]);
+  const hours = Math.round(
+    (history[history.length - 1].at - history[0].at) / (60 * 60 * 1000)
+  );
+
+  return (
+    <div>
+      <div className={`w-full ${className}`}>
+        <ResponsiveContainer width="100%" height="100%">
+          <LineChart data={history}>
+            <YAxis hide domain={["dataMin", "dataMax"]} />
+            <Line
+              type="monotone"
+              dataKey={tier}
+              stroke="#F7931A"
+              strokeWidth={1.5}
+              dot={false}
+              isAnimationActive={false}
+            />
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+      <div className="flex justify-between text-[10px] text-gray-500">
+        <span>{hours < 1 ? "Last hour" : `Last ${hours}h`}</span>
+        <span>
+          {Math.min(...rates)}–{Math.max(...rates)} sat/vB
+        </span>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,681 @@
+import { useMemo, useState } from "react";
+import {
+  Bar,
+  BarChart,
+  CartesianGrid,
+  Cell,
+  ResponsiveContainer,
+  Tooltip as RechartsTooltip,
+  XAxis,
+  YAxis,
+} from "recharts";
+import { Activity, Download, Receipt, RefreshCw } from "lucide-react";
+import {
+  LOT_METHODS,
+  disposalsForYear,
+  disposalsToCsv,
+  type HoldingSummary,
+  type Ledger,
+  type LotMethod,
+} from "../lib/costBasis";
+import {
+  dcaDates,
+  simulateDca,
+  simulateHodl,
+  type MonthlyStack,
+  type Performance,
+} from "../lib/performance";
+import type { TrackedEntry } from "../lib/entries";
+import type { Currency } from "../lib/currency";
+import { formatFiat, formatSats } from "../lib/format";
+import { downloadFile } from "../lib/files";
+import { MASK } from "../lib/masking";
+import { Badge, Card } from "./ui";
+
+// Cost basis, holdings, performance and the tax report. Loading the history
+// and the DCA prices stays with the app, which keeps them across tab changes.
+export const GainsPanel = ({
+  entries,
+  currency,
+  btcPrice,
+  lotMethod,
+  onLotMethodChange,
+  ledger,
+  holdings,
+  performance,
+  monthlyStacks,
+  dcaPrices,
+  status,
+  dcaStatus,
+  onRecalculate,
+  onLoadDcaPrices,
+  isPrivacyMode,
+  isStrictPrivacy,
+}: {
+  entries: TrackedEntry[];
+  currency: Currency;
+  btcPrice: number | null;
+  lotMethod: LotMethod;
+  onLotMethodChange: (method: LotMethod) => void;
+  ledger: Ledger | null;
+  holdings: {
+    byEntry: Record<string, HoldingSummary>;
+    byGroup: Record<string, HoldingSummary>;
+    total: HoldingSummary | undefined;
+  } | null;
+  performance: Performance | null;
+  monthlyStacks: MonthlyStack[];
+  dcaPrices: { currency: Currency; prices: Record<number, number> } | null;
+  status: string | null;
+  dcaStatus: string | null;
+  onRecalculate: () => void;
+  onLoadDcaPrices: () => void;
+  isPrivacyMode: boolean;
+  isStrictPrivacy: boolean;
+}) => {
+  const [taxYear, setTaxYear] = useState(new Date().getUTCFullYear());
+
+  const masked = (text: string) => (isStrictPrivacy ? MASK : text);
+  const formatGain = (val: number) =>
+    `${val >= 0 ? "+" : "-"}${formatFiat(Math.abs(val), currency)}`;
+  const gainColor = (val: number) =>
+    val >= 0 ? "text-green-400" : "text-red-400";
+
+  const benchmarks = useMemo(() => {
+    if (!performance?.firstDeposit || !btcPrice) return null;
+    return {
+      dca:
+        dcaPrices && dcaPrices.currency === currency
+          ? simulateDca(
+              performance.invested,
+              dcaDates(performance.firstDeposit),
+              dcaPrices.prices,
+              btcPrice
+            )
+          : null,
+      hodl: simulateHodl(performance, btcPrice),
+    };
+  }, [performance, dcaPrices, currency, btcPrice]);
+
+  const taxYears = useMemo(() => {
+    const years = new Set([new Date().getUTCFullYear()]);
+    ledger?.disposals.forEach((disposal) =>
+      years.add(new Date(disposal.disposedAt).getUTCFullYear())
+    );
+    return [...years].sort((a, b) => b - a);
+  }, [ledger]);
+
+  const yearDisposals = useMemo(
+    () => (ledger ? disposalsForYear(ledger, taxYear) : []),
+    [ledger, taxYear]
+  );
+
+  const downloadTaxReport = () => {
+    const labels: Record<string, string> = {};
+    entries.forEach((addr) => {
+      labels[addr.id] = addr.label;
+    });
+    downloadFile(
+      disposalsToCsv(yearDisposals, labels, currency),
+      `sats_tracker_${taxYear}_${lotMethod}_${currency}.csv`,
+      "text/csv"
+    );
+  };
+
+  const StackTooltip = ({
+    active,
+    payload,
+  }: {
+    active?: boolean;
+    payload?: { payload: MonthlyStack }[];
+  }) => {
+    if (isStrictPrivacy) return null;
+    if (active && payload && payload.length) {
+      const data = payload[0].payload;
+      return (
+        <div className="bg-gray-900/60 backdrop-blur-md border border-gray-700/50 p-3 rounded-lg shadow-xl">
+          <p className="font-bold text-white mb-1 text-sm">{data.month}</p>
+          <div className="space-y-0.5">
+            {[
+              {
+                label: "Received:",
+                sats: data.received,
+                color: "text-green-400",
+              },
+              { label: "Sent:", sats: -data.sent, color: "text-red-400" },
+              { label: "Net:", sats: data.net, color: "text-orange-400" },
+            ].map((row) => (
+              <div
+                key={row.label}
+                className="flex justify-between items-center gap-4 text-xs"
+              >
+                <span className="text-gray-300">{row.label}</span>
+                <span className={`${row.color} font-mono font-medium`}>
+                  {formatSats(row.sats)} BTC
+                </span>
+              </div>
+            ))}
+          </div>
+        </div>
+      );
+    }
+    return null;
+  };
+
+  const renderHoldingRow = (
+    key: string,
+    name: string,
+    holding: {
+      sats: number;
+      cost: number;
+      value: number;
+      unrealized: number;
+    },
+    className = ""
+  ) => (
+    <tr key={key} className={`text-gray-300 ${className}`}>
+      <td className="py-2 pr-4">{name}</td>
+      <td className="py-2 pr-4 text-right font-mono">
+        {masked(formatSats(holding.sats))}
+      </td>
+      <td className="py-2 pr-4 text-right">
+        {formatFiat(holding.cost, currency)}
+      </td>
+      <td className="py-2 pr-4 text-right">
+        {formatFiat(holding.value, currency)}
+      </td>
+      <td className={`py-2 text-right ${gainColor(holding.unrealized)}`}>
+        {formatGain(holding.unrealized)}
+        {holding.cost > 0 &&
+          ` (${((holding.unrealized / holding.cost) * 100).toFixed(1)}%)`}
+      </td>
+    </tr>
+  );
+
+  const formatReturn = (val: number | null) =>
+    val === null ? "—" : `${val >= 0 ? "+" : ""}${(val * 100).toFixed(1)}%`;
+
+  const renderPerformance = (performance: Performance) => {
+    const outcome = performance.currentValue + performance.withdrawn;
+    const weeks = performance.firstDeposit
+      ? dcaDates(performance.firstDeposit).length
+      : 0;
+    const stackData = monthlyStacks.map((stack) => ({
+      ...stack,
+      btc: stack.net / 100000000,
+    }));
+    const rows = [
+      {
+        name: "Your portfolio",
+        note: "Held today plus everything sold or spent",
+        sats: performance.currentSats,
+        averagePrice: performance.averagePrice,
+        outcome,
+      },
+      ...(benchmarks?.dca
+        ? [
+            {
+              name: "Weekly DCA",
+              note: `${formatFiat(
+                performance.invested / weeks,
+                currency
+              )} a week for ${weeks} weeks`,
+              sats: benchmarks.dca.sats,
+              averagePrice: benchmarks.dca.averagePrice,
+              outcome: benchmarks.dca.value,
+            },
+          ]
+        : []),
+      ...(benchmarks
+        ? [
+            {
+              name: "HODL",
+              note: "Every sat received, never sold or spent",
+              sats: benchmarks.hodl.sats,
+              averagePrice: benchmarks.hodl.averagePrice,
+              outcome: benchmarks.hodl.value,
+            },
+          ]
+        : []),
+    ];
+
+    return (
+      <Card>
+        <h3 className="text-lg font-semibold text-white flex items-center gap-2">
+          <Activity className="w-5 h-5 text-gray-400" />
+          Performance
+        </h3>
+        <p className="text-xs text-gray-500 mt-1">
+          Money in and out is whatever crosses the edge of your tracked
+          addresses, valued at the daily {currency.toUpperCase()} rate.
+          Time-weighted return ignores when you added or took out money;
+          money-weighted return is annualized and counts it.
+        </p>
+        {performance.missingPrices > 0 && (
+          <p className="text-xs text-yellow-400 mt-3">
+            {performance.missingPrices} transaction
+            {performance.missingPrices === 1 ? "" : "s"} had no daily price and
+            use the one before.
+          </p>
+        )}
+
+        <div
+          className={`grid grid-cols-2 md:grid-cols-4 gap-4 mt-4 ${
+            isPrivacyMode ? "blur-sm" : ""
+          }`}
+        >
+          {[
+            {
+              label: "Time-Weighted",
+              value: formatReturn(performance.twr),
+              sub:
+                performance.twrAnnualized !== null
+                  ? `${formatReturn(performance.twrAnnualized)} a year`
+                  : "Under a year of history",
+              color: gainColor(performance.twr ?? 0),
+            },
+            {
+              label: "Money-Weighted",
+              value: formatReturn(performance.mwr),
+              sub: "Annualized (XIRR)",
+              color: gainColor(performance.mwr ?? 0),
+            },
+            {
+              label: "Avg. Acquisition Price",
+              value:
+                performance.averagePrice !== null
+                  ? formatFiat(performance.averagePrice, currency)
+                  : "—",
+              sub: btcPrice ? `Now ${formatFiat(btcPrice, currency)}` : "",
+              color: "text-white",
+            },
+            {
+              label: "Net Invested",
+              value: formatFiat(
+                performance.invested - performance.withdrawn,
+                currency
+              ),
+              sub: `${formatFiat(
+                performance.invested,
+                currency
+              )} in, ${formatFiat(performance.withdrawn, currency)} out`,
+              color: "text-white",
+            },
+          ].map((stat) => (
+            <div
+              key={stat.label}
+              className="bg-gray-900/50 rounded-lg p-3 border border-gray-700/50"
+            >
+              <h2 className="text-gray-400 text-xs font-medium uppercase tracking-wider">
+                {stat.label}
+              </h2>
+              <div className={`mt-1 text-lg font-bold ${stat.color}`}>
+                {stat.value}
+              </div>
+              <p className="text-xs text-gray-500 mt-0.5">{stat.sub}</p>
+            </div>
+          ))}
+        </div>
+
+        <h4 className="text-sm font-medium text-gray-300 mt-6 mb-3">
+          Sats Stacked per Month
+        </h4>
+        <div className={`h-56 w-full ${isPrivacyMode ? "blur-sm" : ""}`}>
+          <ResponsiveContainer width="100%" height="100%">
+            <BarChart data={stackData}>
+              <CartesianGrid stroke="#374151" strokeDasharray="3 3" />
+              <XAxis dataKey="month" stroke="#6B7280" fontSize={11} />
+              <YAxis
+                stroke="#6B7280"
+                fontSize={11}
+                width={70}
+                tickFormatter={(value) =>
+                  isStrictPrivacy ? "" : value.toFixed(4)
+                }
+              />
+              <RechartsTooltip
+                content={<StackTooltip />}
+                cursor={{ fill: "#37415180" }}
+              />
+              <Bar dataKey="btc">
+                {stackData.map((stack) => (
+                  <Cell
+                    key={stack.month}
+                    fill={stack.net >= 0 ? "#F7931A" : "#F87171"}
+                  />
+                ))}
+              </Bar>
+            </BarChart>
+          </ResponsiveContainer>
+        </div>
+
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 mt-6 mb-3">
+          <h4 className="text-sm font-medium text-gray-300">
+            Against the Benchmarks
+          </h4>
+          {!benchmarks?.dca && (
+            <button
+              onClick={onLoadDcaPrices}
+              disabled={!!dcaStatus || !performance.firstDeposit}
+              className="px-3 py-1.5 text-xs font-medium rounded-md bg-gray-700 hover:bg-gray-600 disabled:opacity-50 text-white transition-colors flex items-center gap-1"
+            >
+              <RefreshCw
+                className={`w-3 h-3 ${dcaStatus ? "animate-spin" : ""}`}
+              />
+              {dcaStatus || `Compare with Weekly DCA (${weeks} prices)`}
+            </button>
+          )}
+        </div>
+        <div className={`overflow-x-auto ${isPrivacyMode ? "blur-sm" : ""}`}>
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-gray-500 text-xs uppercase tracking-wider text-left">
+                <th className="py-2 pr-4 font-medium">Strategy</th>
+                <th className="py-2 pr-4 font-medium text-right">BTC</th>
+                <th className="py-2 pr-4 font-medium text-right">Avg. Price</th>
+                <th className="py-2 pr-4 font-medium text-right">Worth</th>
+                <th className="py-2 font-medium text-right">vs. Yours</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-700/50">
+              {rows.map((row, i) => (
+                <tr key={row.name} className="text-gray-300">
+                  <td className="py-2 pr-4">
+                    <div className={i === 0 ? "text-white font-medium" : ""}>
+                      {row.name}
+                    </div>
+                    <div className="text-xs text-gray-500">{row.note}</div>
+                  </td>
+                  <td className="py-2 pr-4 text-right font-mono">
+                    {masked(formatSats(row.sats))}
+                  </td>
+                  <td className="py-2 pr-4 text-right">
+                    {row.averagePrice !== null
+                      ? formatFiat(row.averagePrice, currency)
+                      : "—"}
+                  </td>
+                  <td className="py-2 pr-4 text-right">
+                    {formatFiat(row.outcome, currency)}
+                  </td>
+                  <td
+                    className={`py-2 text-right ${
+                      i === 0
+                        ? "text-gray-500"
+                        : gainColor(outcome - row.outcome)
+                    }`}
+                  >
+                    {i === 0 ? "—" : formatGain(outcome - row.outcome)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </Card>
+    );
+  };
+
+  const realized = yearDisposals.reduce((acc, curr) => acc + curr.gain, 0);
+  const shortTerm = yearDisposals
+    .filter((disposal) => !disposal.longTerm)
+    .reduce((acc, curr) => acc + curr.gain, 0);
+  const labelOf = (entryId: string) =>
+    entries.find((addr) => String(addr.id) === entryId)?.label || "Removed";
+
+  return (
+    <div className="space-y-6 animate-in fade-in duration-500">
+      <Card>
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+          <div>
+            <h3 className="text-lg font-semibold text-white flex items-center gap-2">
+              <Receipt className="w-5 h-5 text-gray-400" />
+              Cost Basis
+            </h3>
+            <p className="text-xs text-gray-500 mt-1">
+              Deposits are priced at the daily {currency.toUpperCase()} rate
+              unless you enter a cost in an address's transaction history.
+              Transfers between tracked addresses keep their original basis.
+            </p>
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            <div className="flex bg-gray-900 rounded-lg p-1 border border-gray-700">
+              {LOT_METHODS.map((method) => (
+                <button
+                  key={method.id}
+                  onClick={() => onLotMethodChange(method.id)}
+                  className={`px-3 py-1 text-xs font-medium rounded-md transition-colors ${
+                    lotMethod === method.id
+                      ? "bg-gray-700 text-white"
+                      : "text-gray-400 hover:text-white"
+                  }`}
+                >
+                  {method.name}
+                </button>
+              ))}
+            </div>
+            <button
+              onClick={onRecalculate}
+              disabled={!!status}
+              className="px-3 py-1.5 text-xs font-medium rounded-md bg-gray-700 hover:bg-gray-600 disabled:opacity-50 text-white transition-colors flex items-center gap-1"
+            >
+              <RefreshCw
+                className={`w-3 h-3 ${status ? "animate-spin" : ""}`}
+              />
+              Recalculate
+            </button>
+          </div>
+        </div>
+        {status && <p className="text-xs text-gray-400 mt-3">{status}</p>}
+        {ledger && ledger.missingPrices > 0 && (
+          <p className="text-xs text-yellow-400 mt-3">
+            {ledger.missingPrices} transaction
+            {ledger.missingPrices === 1 ? "" : "s"} could not be priced and
+            count as zero cost or proceeds.
+          </p>
+        )}
+      </Card>
+
+      {holdings && (
+        <div
+          className={`grid grid-cols-2 md:grid-cols-4 gap-4 ${
+            isPrivacyMode ? "blur-sm" : ""
+          }`}
+        >
+          {[
+            {
+              label: "Cost Basis",
+              value: formatFiat(holdings.total?.cost ?? 0, currency),
+              color: "text-white",
+            },
+            {
+              label: "Market Value",
+              value: formatFiat(holdings.total?.value ?? 0, currency),
+              color: "text-white",
+            },
+            {
+              label: "Unrealized P&L",
+              value: formatGain(holdings.total?.unrealized ?? 0),
+              color: gainColor(holdings.total?.unrealized ?? 0),
+            },
+            {
+              label: `Realized P&L ${taxYear}`,
+              value: formatGain(realized),
+              color: gainColor(realized),
+            },
+          ].map((stat) => (
+            <Card key={stat.label}>
+              <h2 className="text-gray-400 text-xs font-medium uppercase tracking-wider">
+                {stat.label}
+              </h2>
+              <div className={`mt-2 text-xl font-bold ${stat.color}`}>
+                {stat.value}
+              </div>
+            </Card>
+          ))}
+        </div>
+      )}
+
+      {holdings && (
+        <Card>
+          <h3 className="text-lg font-semibold text-white mb-4">Holdings</h3>
+          <div className={`overflow-x-auto ${isPrivacyMode ? "blur-sm" : ""}`}>
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-gray-500 text-xs uppercase tracking-wider text-left">
+                  <th className="py-2 pr-4 font-medium">Name</th>
+                  <th className="py-2 pr-4 font-medium text-right">BTC</th>
+                  <th className="py-2 pr-4 font-medium text-right">
+                    Cost Basis
+                  </th>
+                  <th className="py-2 pr-4 font-medium text-right">Value</th>
+                  <th className="py-2 font-medium text-right">Unrealized</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-700/50">
+                {Object.entries(holdings.byGroup).map(([group, holding]) => [
+                  renderHoldingRow(
+                    `group-${group}`,
+                    group,
+                    holding,
+                    "font-semibold text-white"
+                  ),
+                  ...entries
+                    .filter(
+                      (addr) =>
+                        addr.group === group && holdings.byEntry[addr.id]
+                    )
+                    .map((addr) =>
+                      renderHoldingRow(
+                        `entry-${addr.id}`,
+                        masked(addr.label),
+                        holdings.byEntry[addr.id],
+                        "text-xs"
+                      )
+                    ),
+                ])}
+              </tbody>
+            </table>
+          </div>
+        </Card>
+      )}
+
+      {performance && renderPerformance(performance)}
+
+      {ledger && (
+        <Card>
+          <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 mb-4">
+            <h3 className="text-lg font-semibold text-white">Tax Report</h3>
+            <div className="flex items-center gap-2">
+              <select
+                className="bg-gray-900 border border-gray-700 rounded-lg px-3 py-1.5 text-white text-xs focus:outline-none focus:ring-2 focus:ring-blue-500"
+                value={taxYear}
+                onChange={(e) => setTaxYear(Number(e.target.value))}
+              >
+                {taxYears.map((year) => (
+                  <option key={year} value={year}>
+                    {year}
+                  </option>
+                ))}
+              </select>
+              <button
+                onClick={downloadTaxReport}
+                disabled={yearDisposals.length === 0}
+                className="px-3 py-1.5 text-xs font-medium rounded-md bg-orange-500 hover:bg-orange-600 disabled:opacity-50 text-white transition-colors flex items-center gap-1"
+              >
+                <Download className="w-3 h-3" />
+                Export CSV
+              </button>
+            </div>
+          </div>
+
+          {yearDisposals.length === 0 ? (
+            <p className="text-gray-500 text-sm text-center py-4">
+              No disposals in {taxYear}.
+            </p>
+          ) : (
+            <div className={isPrivacyMode ? "blur-sm" : ""}>
+              <div className="flex flex-wrap gap-6 text-sm mb-4">
+                <span className="text-gray-400">
+                  Short term:{" "}
+                  <span className={gainColor(shortTerm)}>
+                    {formatGain(shortTerm)}
+                  </span>
+                </span>
+                <span className="text-gray-400">
+                  Long term:{" "}
+                  <span className={gainColor(realized - shortTerm)}>
+                    {formatGain(realized - shortTerm)}
+                  </span>
+                </span>
+              </div>
+              <div className="overflow-x-auto">
+                <table className="w-full text-xs">
+                  <thead>
+                    <tr className="text-gray-500 uppercase tracking-wider text-left">
+                      <th className="py-2 pr-4 font-medium">Sold</th>
+                      <th className="py-2 pr-4 font-medium">Acquired</th>
+                      <th className="py-2 pr-4 font-medium">Address</th>
+                      <th className="py-2 pr-4 font-medium text-right">
+                        Amount
+                      </th>
+                      <th className="py-2 pr-4 font-medium text-right">
+                        Proceeds
+                      </th>
+                      <th className="py-2 pr-4 font-medium text-right">Cost</th>
+                      <th className="py-2 pr-4 font-medium text-right">Gain</th>
+                      <th className="py-2 font-medium">Term</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-700/50">
+                    {yearDisposals.map((disposal, i) => (
+                      <tr
+                        key={`${disposal.txid}-${i}`}
+                        className="text-gray-300"
+                      >
+                        <td className="py-2 pr-4 whitespace-nowrap">
+                          {new Date(disposal.disposedAt).toLocaleDateString()}
+                        </td>
+                        <td className="py-2 pr-4 whitespace-nowrap">
+                          {new Date(disposal.acquiredAt).toLocaleDateString()}
+                          {disposal.costSource === "manual" && (
+                            <span className="ml-1 text-gray-500">(manual)</span>
+                          )}
+                        </td>
+                        <td className="py-2 pr-4">
+                          {masked(labelOf(disposal.entryId))}
+                        </td>
+                        <td className="py-2 pr-4 text-right font-mono">
+                          {masked(formatSats(disposal.sats))}
+                        </td>
+                        <td className="py-2 pr-4 text-right">
+                          {formatFiat(disposal.proceeds, currency)}
+                        </td>
+                        <td className="py-2 pr-4 text-right">
+                          {disposal.costSource === "unknown"
+                            ? "—"
+                            : formatFiat(disposal.cost, currency)}
+                        </td>
+                        <td
+                          className={`py-2 pr-4 text-right ${gainColor(
+                            disposal.gain
+                          )}`}
+                        >
+                          {formatGain(disposal.gain)}
+                        </td>
+                        <td className="py-2">
+                          <Badge color={disposal.longTerm ? "blue" : "gray"}>
+                            {disposal.longTerm ? "Long" : "Short"}
+                          </Badge>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          )}
+        </Card>
+      )}
+    </div>
+  );
+};
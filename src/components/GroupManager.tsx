@@ -0,0 +1,134 @@
+import { useState } from "react";
+import { Plus, Tag, Trash2 } from "lucide-react";
+import { GROUP_COLORS, type GroupDef } from "../lib/groups";
+import type { TrackedEntry } from "../lib/entries";
+import { Card } from "./ui";
+
+// Add, recolor, rename and delete groups. Renames go through `onRename`,
+// since entries and alert rules follow the group's name.
+export const GroupManager = ({
+  groups,
+  entries,
+  onGroupsChange,
+  onRename,
+}: {
+  groups: GroupDef[];
+  entries: TrackedEntry[];
+  onGroupsChange: (groups: GroupDef[]) => void;
+  onRename: (from: string, to: string) => void;
+}) => {
+  const [newGroupName, setNewGroupName] = useState("");
+
+  const addGroup = () => {
+    const name = newGroupName.trim();
+    if (!name || groups.some((group) => group.name === name)) return;
+    onGroupsChange([
+      ...groups,
+      { name, color: GROUP_COLORS[groups.length % GROUP_COLORS.length] },
+    ]);
+    setNewGroupName("");
+  };
+
+  const setGroupColor = (name: string, color: string) => {
+    onGroupsChange(
+      groups.map((group) => (group.name === name ? { ...group, color } : group))
+    );
+  };
+
+  const commitGroupRename = (from: string, input: string) => {
+    const to = input.trim();
+    if (!to || to === from) return;
+    if (groups.some((group) => group.name === to)) {
+      alert(`A group named "${to}" already exists.`);
+      return;
+    }
+    onRename(from, to);
+  };
+
+  // Deleting merges the group into the first remaining one
+  const deleteGroup = (name: string) => {
+    const fallback = groups.find((group) => group.name !== name);
+    if (fallback) onRename(name, fallback.name);
+  };
+
+  return (
+    <Card>
+      <h3 className="text-lg font-semibold text-white mb-4 flex items-center gap-2">
+        <Tag className="w-5 h-5 text-orange-500" />
+        Groups
+      </h3>
+      <div className="space-y-2">
+        {groups.map((group) => (
+          <div
+            key={group.name}
+            className="flex flex-wrap items-center gap-3 bg-gray-900/50 rounded-lg px-3 py-2 border border-gray-700"
+          >
+            <input
+              type="text"
+              defaultValue={group.name}
+              onBlur={(e) => {
+                commitGroupRename(group.name, e.target.value);
+                e.target.value = group.name;
+              }}
+              onKeyDown={(e) => {
+                if (e.key === "Enter") e.currentTarget.blur();
+              }}
+              className="flex-1 min-w-[8rem] bg-transparent border-b border-transparent focus:border-orange-500 text-white text-sm focus:outline-none"
+            />
+            <span className="text-xs text-gray-500">
+              {entries.filter((a) => a.group === group.name).length} entries
+            </span>
+            <div className="flex items-center gap-1">
+              {GROUP_COLORS.map((color) => (
+                <button
+                  key={color}
+                  onClick={() => setGroupColor(group.name, color)}
+                  title={color}
+                  className={`w-4 h-4 rounded-full border-2 ${
+                    group.color === color
+                      ? "border-white"
+                      : "border-transparent"
+                  }`}
+                  style={{ backgroundColor: color }}
+                />
+              ))}
+            </div>
+            <button
+              onClick={() => deleteGroup(group.name)}
+              disabled={groups.length === 1}
+              title={`Delete; entries move to "${
+                groups.find((g) => g.name !== group.name)?.name
+              }"`}
+              className="p-1 text-gray-500 hover:text-red-400 disabled:opacity-30 disabled:hover:text-gray-500"
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </div>
+        ))}
+      </div>
+      <div className="flex gap-2 mt-4">
+        <input
+          type="text"
+          placeholder="New group name"
+          value={newGroupName}
+          onChange={(e) => setNewGroupName(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") addGroup();
+          }}
+          className="flex-1 bg-gray-900 border border-gray-700 rounded-lg px-3 py-2 text-white text-sm focus:outline-none focus:border-orange-500"
+        />
+        <button
+          onClick={addGroup}
+          disabled={
+            !newGroupName.trim() ||
+            groups.some((group) => group.name === newGroupName.trim())
+          }
+          className="px-4 py-2 bg-orange-600 hover:bg-orange-500 disabled:bg-gray-700 disabled:cursor-not-allowed text-white rounded-lg text-sm font-medium transition-colors flex items-center gap-1.5"
+        >
+          <Plus className="w-4 h-4" />
+          Add
+        </button>
+      </div>
+    </Card>
+  );
+};
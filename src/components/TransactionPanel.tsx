@@ -0,0 +1,305 @@
+import { useEffect, useMemo, useState } from "react";
+import { ArrowDownLeft, ArrowUpRight, Repeat, RefreshCw } from "lucide-react";
+import type {
+  ChainProvider,
+  PriceProvider,
+  ProviderTx,
+} from "../lib/providers";
+import {
+  classifyTx,
+  fetchFullHistory,
+  fetchHistoryPage,
+  getConfirmations,
+  type TxRecord,
+} from "../lib/transactions";
+import { getOwnAddresses, type TrackedEntry } from "../lib/entries";
+import { costKey, type ManualCost } from "../lib/costBasis";
+import type { Currency } from "../lib/currency";
+import { entryNetwork, explorerLink, isTestNetwork } from "../lib/networks";
+import { formatFiat, formatSats } from "../lib/format";
+import { MASK } from "../lib/masking";
+import { Badge } from "./ui";
+
+export const TransactionPanel = ({
+  entry,
+  chain,
+  price,
+  trackedAddresses,
+  btcPrice,
+  currency,
+  isPrivacyMode,
+  isStrictPrivacy,
+  manualCosts,
+  onManualCostChange,
+}: {
+  entry: TrackedEntry;
+  chain: ChainProvider;
+  price: PriceProvider;
+  trackedAddresses: Set<string>;
+  btcPrice: number | null; // Current price in `currency`, for pending txs
+  currency: Currency;
+  isPrivacyMode: boolean;
+  isStrictPrivacy: boolean;
+  manualCosts: Record<string, ManualCost>;
+  onManualCostChange: (txid: string, fiat: number | null) => void;
+}) => {
+  const [txs, setTxs] = useState<ProviderTx[]>([]);
+  const [cursor, setCursor] = useState<string | null>(null);
+  const [tipHeight, setTipHeight] = useState<number | null>(null);
+  const [fiatAtTime, setFiatAtTime] = useState<Record<string, number | null>>(
+    {}
+  );
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const ownAddresses = useMemo(() => getOwnAddresses(entry), [entry]);
+  const isWallet = entry.kind === "wallet";
+  const network = entryNetwork(entry);
+  // Test coins have no fiat value, so skip pricing entirely
+  const testCoins = isTestNetwork(network);
+
+  const records: TxRecord[] = useMemo(() => {
+    const own = new Set<string>(ownAddresses);
+    return txs.map((tx) => classifyTx(tx, own, trackedAddresses));
+  }, [txs, ownAddresses, trackedAddresses]);
+
+  const loadPage = async (nextCursor?: string) => {
+    setLoading(true);
+    setError(null);
+    try {
+      if (isWallet) {
+        // Wallets span many addresses, so fetch everything in one go
+        setTxs(await fetchFullHistory(chain, ownAddresses));
+        setCursor(null);
+      } else {
+        const page = await fetchHistoryPage(chain, entry.address, nextCursor);
+        setTxs((prev) => (nextCursor ? [...prev, ...page.txs] : page.txs));
+        setCursor(page.nextCursor);
+      }
+      setTipHeight(await chain.getTipHeight());
+    } catch (err) {
+      setError((err as Error).message);
+    }
+    setLoading(false);
+  };
+
+  useEffect(() => {
+    loadPage();
+  }, [chain, entry.id]);
+
+  // Historical prices are per currency
+  useEffect(() => {
+    setFiatAtTime({});
+  }, [currency]);
+
+  // Price each confirmed tx at its block day, one request at a time to stay
+  // under price API rate limits. Stop at the first failure.
+  useEffect(() => {
+    let cancelled = false;
+    const missing = records.filter(
+      (record) => !testCoins && record.blockTime && !(record.txid in fiatAtTime)
+    );
+    (async () => {
+      for (const record of missing) {
+        let fiat: number | null = null;
+        try {
+          fiat = await price.getHistoricalPrice(record.blockTime!, currency);
+        } catch (err) {
+          console.error("Error fetching historical price:", err);
+        }
+        if (cancelled) return;
+        setFiatAtTime((prev) => ({ ...prev, [record.txid]: fiat }));
+        if (fiat === null) return;
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [records, price, currency]);
+
+  const renderValueAtTime = (record: TxRecord) => {
+    const fiatPrice = record.confirmed ? fiatAtTime[record.txid] : btcPrice;
+    if (!fiatPrice || testCoins) return "—";
+    return formatFiat(
+      (Math.abs(record.deltaSats) / 100000000) * fiatPrice,
+      currency
+    );
+  };
+
+  // Deposits from outside the portfolio are acquisitions; leave blank to use
+  // the day's rate
+  const renderCost = (record: TxRecord) => {
+    if (record.deltaSats <= 0 || record.internal || testCoins) return "—";
+    const manual = manualCosts[costKey(entry.id, record.txid)];
+    const value = manual?.currency === currency ? String(manual.fiat) : "";
+    return (
+      <input
+        key={`${record.txid}-${currency}-${value}`}
+        type="number"
+        min="0"
+        step="any"
+        defaultValue={value}
+        placeholder="Auto"
+        title={`Acquisition cost in ${currency.toUpperCase()}`}
+        onBlur={(e) => {
+          const next = e.target.value.trim();
+          if (next === value) return;
+          onManualCostChange(
+            record.txid,
+            next === "" || Number.isNaN(Number(next)) ? null : Number(next)
+          );
+        }}
+        className="w-24 bg-gray-900 border border-gray-700 rounded px-2 py-1 text-right text-white placeholder-gray-600 focus:outline-none focus:ring-1 focus:ring-blue-500"
+      />
+    );
+  };
+
+  const renderDirection = (record: TxRecord) => {
+    if (record.direction === "self") {
+      return (
+        <Badge color="gray">
+          <Repeat className="w-3 h-3 inline mr-1" />
+          Self
+        </Badge>
+      );
+    }
+    const incoming = record.direction === "incoming";
+    return (
+      <div className="flex items-center gap-1">
+        <Badge color={incoming ? "green" : "orange"}>
+          {incoming ? (
+            <ArrowDownLeft className="w-3 h-3 inline mr-1" />
+          ) : (
+            <ArrowUpRight className="w-3 h-3 inline mr-1" />
+          )}
+          {incoming ? "In" : "Out"}
+        </Badge>
+        {record.internal && (
+          <span title={record.counterparties.join("\n")}>
+            <Badge color="purple">Internal</Badge>
+          </span>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="border-t border-gray-700 mt-4 pt-4">
+      {error && (
+        <p className="text-xs text-red-400 font-mono mb-3 break-all">
+          {chain.name}: {error}
+        </p>
+      )}
+
+      {records.length > 0 && (
+        <div className="overflow-x-auto">
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="text-gray-500 uppercase tracking-wider text-left">
+                <th className="py-2 pr-4 font-medium">Date</th>
+                <th className="py-2 pr-4 font-medium">Type</th>
+                <th className="py-2 pr-4 font-medium text-right">Amount</th>
+                <th className="py-2 pr-4 font-medium text-right">Fee</th>
+                <th className="py-2 pr-4 font-medium text-right">Value Then</th>
+                <th className="py-2 pr-4 font-medium text-right">Cost</th>
+                <th className="py-2 pr-4 font-medium text-right">Conf.</th>
+                <th className="py-2 font-medium">Txid</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-700/50">
+              {records.map((record) => {
+                const confirmations = getConfirmations(record, tipHeight);
+                return (
+                  <tr key={record.txid} className="text-gray-300">
+                    <td className="py-2 pr-4 whitespace-nowrap">
+                      {record.blockTime
+                        ? new Date(record.blockTime).toLocaleString()
+                        : "Pending..."}
+                    </td>
+                    <td className="py-2 pr-4">{renderDirection(record)}</td>
+                    <td
+                      className={`py-2 pr-4 text-right font-mono whitespace-nowrap ${
+                        record.deltaSats >= 0
+                          ? "text-green-400"
+                          : "text-orange-400"
+                      } ${isPrivacyMode ? "blur-sm" : ""}`}
+                    >
+                      {isStrictPrivacy
+                        ? MASK
+                        : `${record.deltaSats >= 0 ? "+" : "-"}${formatSats(
+                            Math.abs(record.deltaSats)
+                          )}`}
+                    </td>
+                    <td className="py-2 pr-4 text-right font-mono whitespace-nowrap">
+                      {record.feeSats !== null
+                        ? `${record.feeSats.toLocaleString()} sats`
+                        : "—"}
+                    </td>
+                    <td
+                      className={`py-2 pr-4 text-right whitespace-nowrap ${
+                        isPrivacyMode ? "blur-sm" : ""
+                      }`}
+                    >
+                      {renderValueAtTime(record)}
+                    </td>
+                    <td
+                      className={`py-2 pr-4 text-right ${
+                        isPrivacyMode ? "blur-sm" : ""
+                      }`}
+                    >
+                      {renderCost(record)}
+                    </td>
+                    <td className="py-2 pr-4 text-right">
+                      {record.confirmed ? confirmations.toLocaleString() : "0"}
+                    </td>
+                    <td className="py-2 font-mono">
+                      {explorerLink(network, `tx/${record.txid}`) ? (
+                        <a
+                          href={explorerLink(network, `tx/${record.txid}`)!}
+                          target="_blank"
+                          rel="noreferrer"
+                          className="text-blue-400 hover:text-blue-300"
+                        >
+                          {record.txid.slice(0, 8)}...
+                        </a>
+                      ) : (
+                        <span title={record.txid}>
+                          {record.txid.slice(0, 8)}...
+                        </span>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {!loading && !error && records.length === 0 && (
+        <p className="text-gray-500 text-sm text-center py-4">
+          No transactions found.
+        </p>
+      )}
+
+      <div className="flex items-center justify-between mt-3 text-xs text-gray-500">
+        <span>
+          {records.length} transaction{records.length === 1 ? "" : "s"}
+          {cursor ? " loaded" : ""}
+        </span>
+        {loading ? (
+          <RefreshCw className="w-4 h-4 animate-spin" />
+        ) : (
+          cursor && (
+            <button
+              onClick={() => loadPage(cursor)}
+              className="px-3 py-1 font-medium rounded-md bg-gray-700 hover:bg-gray-600 text-white transition-colors"
+            >
+              Load More
+            </button>
+          )
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,424 @@
+import { useEffect, useMemo, useState } from "react";
+import { Boxes, RefreshCw } from "lucide-react";
+import type { ChainProvider, FeeRates } from "../lib/providers";
+import type { TrackedEntry } from "../lib/entries";
+import type { Currency } from "../lib/currency";
+import { ADDRESS_TYPE_NAMES } from "../lib/address";
+import {
+  fetchUtxos,
+  flagUtxos,
+  spendCost,
+  type UtxoFlag,
+  type UtxoRecord,
+} from "../lib/utxos";
+import type { FeeSample } from "../lib/fees";
+import {
+  NETWORKS,
+  explorerLink,
+  isTestNetwork,
+  type BitcoinNetwork,
+} from "../lib/networks";
+import { formatFiat, formatSats } from "../lib/format";
+import { MASK } from "../lib/masking";
+import { Badge, Card } from "./ui";
+import { FeePlanner } from "./FeePlanner";
+
+const FEE_LEVELS: { id: keyof FeeRates; name: string }[] = [
+  { id: "fastestFee", name: "Fast" },
+  { id: "halfHourFee", name: "30 min" },
+  { id: "hourFee", name: "1 hour" },
+  { id: "economyFee", name: "Economy" },
+];
+
+const FLAG_BADGES: Record<UtxoFlag, { label: string; color: string }> = {
+  dust: { label: "Dust", color: "red" },
+  uneconomical: { label: "Uneconomical", color: "yellow" },
+  reused: { label: "Address reuse", color: "orange" },
+  unconfirmed: { label: "Unconfirmed", color: "gray" },
+};
+
+const DAY = 24 * 60 * 60 * 1000;
+
+export const UtxoExplorer = ({
+  entries,
+  chainFor,
+  fees,
+  feeHistory,
+  btcPrice,
+  currency,
+  isPrivacyMode,
+  isStrictPrivacy,
+}: {
+  entries: TrackedEntry[];
+  chainFor: (network: BitcoinNetwork) => ChainProvider;
+  fees: FeeRates | null;
+  feeHistory: FeeSample[];
+  btcPrice: number | null;
+  currency: Currency;
+  isPrivacyMode: boolean;
+  isStrictPrivacy: boolean;
+}) => {
+  const [utxos, setUtxos] = useState<UtxoRecord[]>([]);
+  const [tipHeights, setTipHeights] = useState<
+    Partial<Record<BitcoinNetwork, number>>
+  >({});
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [feeLevel, setFeeLevel] = useState<keyof FeeRates>("halfHourFee");
+  const [sortBy, setSortBy] = useState("value"); // 'value' or 'age'
+  const [flaggedOnly, setFlaggedOnly] = useState(false);
+  // Outpoints picked for the consolidation planner
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+
+  const load = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const found = await fetchUtxos(chainFor, entries);
+      setUtxos(found);
+      setSelected(new Set());
+      const networks = [...new Set(found.map((utxo) => utxo.network))];
+      const heights: Partial<Record<BitcoinNetwork, number>> = {};
+      for (const network of networks) {
+        heights[network] = await chainFor(network).getTipHeight();
+      }
+      setTipHeights(heights);
+    } catch (err) {
+      setError((err as Error).message);
+    }
+    setLoading(false);
+  };
+
+  useEffect(() => {
+    load();
+  }, [chainFor]);
+
+  const feeRate = fees ? fees[feeLevel] : null;
+  const labels = useMemo(
+    () => new Map(entries.map((entry) => [entry.id, entry.label])),
+    [entries]
+  );
+
+  const rows = useMemo(() => {
+    const flagged = flagUtxos(utxos, entries, feeRate);
+    return flagged
+      .filter(
+        (utxo) => !flaggedOnly || utxo.flags.some((f) => f !== "unconfirmed")
+      )
+      .sort((a, b) =>
+        sortBy === "value"
+          ? b.value - a.value
+          : (a.blockHeight ?? Infinity) - (b.blockHeight ?? Infinity)
+      );
+  }, [utxos, entries, feeRate, sortBy, flaggedOnly]);
+
+  const stats = useMemo(() => {
+    const all = flagUtxos(utxos, entries, feeRate);
+    return {
+      count: all.length,
+      total: all
+        .filter((utxo) => !isTestNetwork(utxo.network))
+        .reduce((acc, curr) => acc + curr.value, 0),
+      dust: all.filter((utxo) => utxo.flags.includes("dust")).length,
+      uneconomical: all.filter((utxo) => utxo.flags.includes("uneconomical"))
+        .length,
+      reused: all.filter((utxo) => utxo.flags.includes("reused")).length,
+      spendAll: feeRate
+        ? all.reduce((acc, curr) => acc + spendCost(curr, feeRate), 0)
+        : null,
+    };
+  }, [utxos, entries, feeRate]);
+
+  const outpoint = (utxo: UtxoRecord) => `${utxo.txid}:${utxo.vout}`;
+  const toggleSelected = (key: string) =>
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(key)) next.delete(key);
+      else next.add(key);
+      return next;
+    });
+  // Unconfirmed outputs can't be planned around yet, and test coins only
+  // when picked by hand
+  const planned = useMemo(
+    () =>
+      selected.size
+        ? utxos.filter((utxo) => selected.has(outpoint(utxo)))
+        : utxos.filter(
+            (utxo) => utxo.confirmed && !isTestNetwork(utxo.network)
+          ),
+    [utxos, selected]
+  );
+
+  const formatAge = (utxo: UtxoRecord) => {
+    if (!utxo.blockTime) return "Pending";
+    const days = Math.floor((Date.now() - utxo.blockTime) / DAY);
+    if (days < 1) return "Today";
+    if (days < 365) return `${days}d`;
+    return `${(days / 365).toFixed(1)}y`;
+  };
+
+  return (
+    <div className="space-y-6 animate-in fade-in duration-500">
+      <div
+        className={`grid grid-cols-2 md:grid-cols-4 gap-4 ${
+          isPrivacyMode ? "blur-sm" : ""
+        }`}
+      >
+        {[
+          { label: "UTXOs", value: stats.count.toLocaleString() },
+          {
+            label: "Total",
+            value: isStrictPrivacy ? MASK : `${formatSats(stats.total)} BTC`,
+          },
+          {
+            label: "Dust / Uneconomical",
+            value: `${stats.dust} / ${stats.uneconomical}`,
+          },
+          {
+            label: "On Reused Addresses",
+            value: stats.reused.toLocaleString(),
+          },
+        ].map((stat) => (
+          <Card key={stat.label}>
+            <h2 className="text-gray-400 text-xs font-medium uppercase tracking-wider">
+              {stat.label}
+            </h2>
+            <div className="mt-2 text-xl font-bold text-white">
+              {stat.value}
+            </div>
+          </Card>
+        ))}
+      </div>
+
+      <Card>
+        <div className="flex flex-col lg:flex-row lg:items-center justify-between gap-4 mb-4">
+          <div>
+            <h3 className="text-lg font-semibold text-white flex items-center gap-2">
+              <Boxes className="w-5 h-5 text-gray-400" />
+              Unspent Outputs
+            </h3>
+            <p className="text-xs text-gray-500 mt-1">
+              {feeRate
+                ? `Spend cost at ${feeRate} sat/vB. Spending everything costs about ${stats.spendAll?.toLocaleString()} sats in inputs.`
+                : "Spend cost appears once fee rates load."}
+            </p>
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            <div className="flex bg-gray-900 rounded-lg p-1 border border-gray-700">
+              {FEE_LEVELS.map((level) => (
+                <button
+                  key={level.id}
+                  onClick={() => setFeeLevel(level.id)}
+                  className={`px-3 py-1 text-xs font-medium rounded-md transition-colors ${
+                    feeLevel === level.id
+                      ? "bg-gray-700 text-white"
+                      : "text-gray-400 hover:text-white"
+                  }`}
+                >
+                  {level.name}
+                </button>
+              ))}
+            </div>
+            <div className="flex bg-gray-900 rounded-lg p-1 border border-gray-700">
+              {["value", "age"].map((key) => (
+                <button
+                  key={key}
+                  onClick={() => setSortBy(key)}
+                  className={`px-3 py-1 text-xs font-medium rounded-md capitalize transition-colors ${
+                    sortBy === key
+                      ? "bg-gray-700 text-white"
+                      : "text-gray-400 hover:text-white"
+                  }`}
+                >
+                  {key}
+                </button>
+              ))}
+            </div>
+            <label className="flex items-center gap-2 text-xs text-gray-400">
+              <input
+                type="checkbox"
+                checked={flaggedOnly}
+                onChange={(e) => setFlaggedOnly(e.target.checked)}
+              />
+              Flagged only
+            </label>
+            <button
+              onClick={load}
+              disabled={loading}
+              className="p-2 rounded-lg bg-gray-700 hover:bg-gray-600 disabled:opacity-50 text-white transition-colors"
+              title="Reload UTXOs"
+            >
+              <RefreshCw
+                className={`w-4 h-4 ${loading ? "animate-spin" : ""}`}
+              />
+            </button>
+          </div>
+        </div>
+
+        {error && (
+          <p className="text-xs text-red-400 font-mono mb-3 break-all">
+            {error}
+          </p>
+        )}
+
+        {rows.length > 0 ? (
+          <div className="overflow-x-auto">
+            <table className="w-full text-xs">
+              <thead>
+                <tr className="text-gray-500 uppercase tracking-wider text-left">
+                  <th className="py-2 pr-2 font-medium" />
+                  <th className="py-2 pr-4 font-medium">Outpoint</th>
+                  <th className="py-2 pr-4 font-medium">Address</th>
+                  <th className="py-2 pr-4 font-medium text-right">Value</th>
+                  <th className="py-2 pr-4 font-medium text-right">Age</th>
+                  <th className="py-2 pr-4 font-medium text-right">Height</th>
+                  <th className="py-2 pr-4 font-medium">Type</th>
+                  <th className="py-2 pr-4 font-medium text-right">
+                    Spend Cost
+                  </th>
+                  <th className="py-2 font-medium">Flags</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-700/50">
+                {rows.map((utxo) => {
+                  const cost = feeRate ? spendCost(utxo, feeRate) : null;
+                  return (
+                    <tr key={outpoint(utxo)} className="text-gray-300">
+                      <td className="py-2 pr-2">
+                        <input
+                          type="checkbox"
+                          checked={selected.has(outpoint(utxo))}
+                          onChange={() => toggleSelected(outpoint(utxo))}
+                          title="Include in consolidation plan"
+                        />
+                      </td>
+                      <td className="py-2 pr-4 font-mono">
+                        {explorerLink(utxo.network, `tx/${utxo.txid}`) ? (
+                          <a
+                            href={`${explorerLink(
+                              utxo.network,
+                              `tx/${utxo.txid}`
+                            )}#vout=${utxo.vout}`}
+                            target="_blank"
+                            rel="noreferrer"
+                            className="text-blue-400 hover:text-blue-300"
+                          >
+                            {utxo.txid.slice(0, 8)}...:{utxo.vout}
+                          </a>
+                        ) : (
+                          <span title={utxo.txid}>
+                            {utxo.txid.slice(0, 8)}...:{utxo.vout}
+                          </span>
+                        )}
+                        {isTestNetwork(utxo.network) && (
+                          <div className="mt-1">
+                            <Badge color="yellow">
+                              {NETWORKS[utxo.network].name}
+                            </Badge>
+                          </div>
+                        )}
+                      </td>
+                      <td className="py-2 pr-4">
+                        <div className="text-white">
+                          {isStrictPrivacy ? MASK : labels.get(utxo.entryId)}
+                        </div>
+                        <div className="font-mono text-gray-500 truncate max-w-[12rem]">
+                          {isStrictPrivacy ? MASK : utxo.address}
+                        </div>
+                      </td>
+                      <td
+                        className={`py-2 pr-4 text-right font-mono whitespace-nowrap ${
+                          isPrivacyMode ? "blur-sm" : ""
+                        }`}
+                      >
+                        {isStrictPrivacy ? MASK : formatSats(utxo.value)}
+                        {btcPrice && !isTestNetwork(utxo.network) && (
+                          <div className="text-gray-500">
+                            {formatFiat(
+                              (utxo.value / 100000000) * btcPrice,
+                              currency
+                            )}
+                          </div>
+                        )}
+                      </td>
+                      <td className="py-2 pr-4 text-right whitespace-nowrap">
+                        {formatAge(utxo)}
+                      </td>
+                      <td className="py-2 pr-4 text-right">
+                        {utxo.blockHeight ? (
+                          <>
+                            {utxo.blockHeight.toLocaleString()}
+                            {tipHeights[utxo.network] && (
+                              <div className="text-gray-500">
+                                {(
+                                  tipHeights[utxo.network]! -
+                                  utxo.blockHeight +
+                                  1
+                                ).toLocaleString()}{" "}
+                                conf.
+                              </div>
+                            )}
+                          </>
+                        ) : (
+                          "—"
+                        )}
+                      </td>
+                      <td className="py-2 pr-4">
+                        {utxo.scriptType
+                          ? ADDRESS_TYPE_NAMES[utxo.scriptType]
+                          : "—"}
+                      </td>
+                      <td className="py-2 pr-4 text-right whitespace-nowrap">
+                        {cost !== null ? (
+                          <>
+                            {cost.toLocaleString()} sats
+                            <div className="text-gray-500">
+                              {((cost / utxo.value) * 100).toFixed(
+                                cost / utxo.value < 0.01 ? 2 : 0
+                              )}
+                              % of value
+                            </div>
+                          </>
+                        ) : (
+                          "—"
+                        )}
+                      </td>
+                      <td className="py-2">
+                        <div className="flex flex-wrap gap-1">
+                          {utxo.flags.map((flag) => (
+                            <Badge key={flag} color={FLAG_BADGES[flag].color}>
+                              {FLAG_BADGES[flag].label}
+                            </Badge>
+                          ))}
+                        </div>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        ) : (
+          !loading && (
+            <p className="text-gray-500 text-sm text-center py-8">
+              {flaggedOnly
+                ? "No flagged UTXOs."
+                : "No unspent outputs on tracked addresses."}
+            </p>
+          )
+        )}
+      </Card>
+
+      <FeePlanner
+        utxos={planned}
+        selection={selected.size ? "selected" : "all"}
+        fees={fees}
+        feeHistory={feeHistory}
+        btcPrice={btcPrice}
+        currency={currency}
+        isPrivacyMode={isPrivacyMode}
+        isStrictPrivacy={isStrictPrivacy}
+      />
+    </div>
+  );
+};
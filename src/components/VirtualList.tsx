@@ -0,0 +1,121 @@
+import { useEffect, useMemo, useRef, useState, type ReactNode } from "react";
+
+// Renders only the items near the viewport. Scrolls with the page rather
+// than an inner container, and measures each item as it renders so rows can
+// grow (expanded history, inline editing) without breaking the layout.
+export const VirtualList = <T,>({
+  items,
+  getKey,
+  renderItem,
+  estimateHeight = 140,
+  gap = 16,
+  overscan = 800, // px rendered beyond each edge of the viewport
+}: {
+  items: T[];
+  getKey: (item: T) => string | number;
+  renderItem: (item: T) => ReactNode;
+  estimateHeight?: number;
+  gap?: number;
+  overscan?: number;
+}) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const heights = useRef(new Map<string, number>());
+  const [measured, setMeasured] = useState(0); // Bumped when a height changes
+  const [viewport, setViewport] = useState({ top: 0, bottom: 0 });
+
+  // Viewport in the list's own coordinates
+  useEffect(() => {
+    let frame = 0;
+    const update = () => {
+      cancelAnimationFrame(frame);
+      frame = requestAnimationFrame(() => {
+        const container = containerRef.current;
+        if (!container) return;
+        const top = -container.getBoundingClientRect().top;
+        setViewport({ top, bottom: top + window.innerHeight });
+      });
+    };
+    update();
+    window.addEventListener("scroll", update, { passive: true });
+    window.addEventListener("resize", update);
+    return () => {
+      cancelAnimationFrame(frame);
+      window.removeEventListener("scroll", update);
+      window.removeEventListener("resize", update);
+    };
+  }, [items.length]);
+
+  const observer = useMemo(
+    () =>
+      typeof ResizeObserver === "undefined"
+        ? null
+        : new ResizeObserver((records) => {
+            let changed = false;
+            records.forEach((record) => {
+              const key = (record.target as HTMLElement).dataset.key!;
+              const height = (record.target as HTMLElement).offsetHeight;
+              if (heights.current.get(key) !== height) {
+                heights.current.set(key, height);
+                changed = true;
+              }
+            });
+            if (changed) setMeasured((n) => n + 1);
+          }),
+    []
+  );
+  useEffect(() => () => observer?.disconnect(), [observer]);
+
+  const { offsets, total } = useMemo(() => {
+    const offsets: number[] = [];
+    let total = 0;
+    items.forEach((item) => {
+      offsets.push(total);
+      total +=
+        (heights.current.get(String(getKey(item))) ?? estimateHeight) + gap;
+    });
+    return { offsets, total: Math.max(0, total - gap) };
+    // `measured` stands in for the heights map, which mutates in place
+  }, [items, getKey, estimateHeight, gap, measured]);
+
+  let start = 0;
+  while (
+    start < items.length - 1 &&
+    offsets[start + 1] < viewport.top - overscan
+  ) {
+    start++;
+  }
+  let end = start;
+  while (end < items.length && offsets[end] <= viewport.bottom + overscan) {
+    end++;
+  }
+
+  return (
+    <div
+      ref={containerRef}
+      style={{
+        paddingTop: items.length ? offsets[start] : 0,
+        paddingBottom: end < items.length ? total - offsets[end] : 0,
+      }}
+    >
+      {items.slice(start, end).map((item, i) => {
+        const key = String(getKey(item));
+        return (
+          <div
+            key={key}
+            data-key={key}
+            ref={(el) => {
+              if (!el || !observer) return;
+              observer.observe(el);
+              return () => observer.unobserve(el);
+            }}
+            style={{
+              marginBottom: start + i === items.length - 1 ? 0 : gap,
+            }}
+          >
+            {renderItem(item)}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
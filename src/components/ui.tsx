@@ -0,0 +1,63 @@
+import type { ReactNode } from "react";
+
+// --- Shared UI Primitives ---
+
+export const Card = ({
+  children,
+  className = "",
+}: {
+  children: ReactNode;
+  className?: string;
+}) => (
+  <div
+    className={`bg-gray-800 border border-gray-700 rounded-xl p-6 shadow-lg ${className}`}
+  >
+    {children}
+  </div>
+);
+
+const BADGE_COLORS: Record<string, string> = {
+  blue: "bg-blue-900/30 text-blue-400 border-blue-800",
+  green: "bg-green-900/30 text-green-400 border-green-800",
+  orange: "bg-orange-900/30 text-orange-400 border-orange-800",
+  purple: "bg-purple-900/30 text-purple-400 border-purple-800",
+  gray: "bg-gray-700 text-gray-300 border-gray-600",
+  red: "bg-red-900/30 text-red-400 border-red-800",
+  yellow: "bg-yellow-900/30 text-yellow-400 border-yellow-800",
+};
+
+export const Badge = ({
+  children,
+  color = "blue",
+}: {
+  children: ReactNode;
+  color?: string;
+}) => (
+  <span
+    className={`px-2 py-1 rounded-md text-xs font-medium border ${
+      BADGE_COLORS[color] || BADGE_COLORS.blue
+    }`}
+  >
+    {children}
+  </span>
+);
+
+// Badge in an arbitrary hex color, for user-defined groups
+export const ColorBadge = ({
+  children,
+  color,
+}: {
+  children: ReactNode;
+  color: string;
+}) => (
+  <span
+    className="px-2 py-1 rounded-md text-xs font-medium border"
+    style={{
+      color,
+      backgroundColor: `${color}26`,
+      borderColor: `${color}66`,
+    }}
+  >
+    {children}
+  </span>
+);
@@ -0,0 +1,126 @@
+import { bech32 } from "@scure/base";
+import { describe, expect, it } from "vitest";
+import { getAddressInfo, parseAddress } from "./address";
+
+describe("parseAddress", () => {
+  it.each([
+    ["1BvBMSEYstWetqTFn5Au4m4GFg7xJaNVN2", "p2pkh", "mainnet"],
+    ["3J98t1WpEZ73CNmQviecrnyiWrnqRhWNLy", "p2sh", "mainnet"],
+    ["mipcBbFg9gMiCh81Kj8tqqdgoZub1ZJRfn", "p2pkh", "testnet"],
+    ["2MzQwSSnBHWHqSAqtTVQ6v47XtaisrJa1Vc", "p2sh", "testnet"],
+  ])("reads Base58Check %s", (address, type, network) => {
+    expect(parseAddress(address)).toEqual({ address, type, network });
+  });
+
+  // Valid vectors from BIP 173 and BIP 350
+  it.each([
+    ["BC1QW508D6QEJXTDG4Y5R3ZARVARY0C5XW7KV8F3T4", "p2wpkh", "mainnet"],
+    [
+      "tb1qrp33g0q5c5txsp9arysrx4k6zdkfs4nce4xj0gdcccefvpysxf3q0sl5k7",
+      "p2wsh",
+      "testnet",
+    ],
+    [
+      "tb1qqqqqp399et2xygdj5xreqhjjvcmzhxw4aywxecjdzew6hylgvsesrxh6hy",
+      "p2wsh",
+      "testnet",
+    ],
+    [
+      "tb1pqqqqp399et2xygdj5xreqhjjvcmzhxw4aywxecjdzew6hylgvsesf3hn0c",
+      "p2tr",
+      "testnet",
+    ],
+    [
+      "bc1p0xlxvlhemja6c4dqv22uapctqupfhlxm9h8z3k2e72q4k9hcz7vqzk5jj0",
+      "p2tr",
+      "mainnet",
+    ],
+  ])("reads bech32/bech32m %s", (address, type, network) => {
+    expect(parseAddress(address)).toEqual({
+      address: address.toLowerCase(),
+      type,
+      network,
+    });
+  });
+
+  it("tells regtest apart by its prefix", () => {
+    const address = bech32.encode("bcrt", [
+      0,
+      ...bech32.toWords(new Uint8Array(20).fill(1)),
+    ]);
+    expect(parseAddress(address)).toMatchObject({
+      type: "p2wpkh",
+      network: "regtest",
+    });
+  });
+
+  // Invalid vectors from BIP 173 and BIP 350, with the reason we give
+  it.each([
+    [
+      "tc1p0xlxvlhemja6c4dqv22uapctqupfhlxm9h8z3k2e72q4k9hcz7vq5zuyut",
+      "Not a Bitcoin address",
+    ],
+    [
+      "bc1p0xlxvlhemja6c4dqv22uapctqupfhlxm9h8z3k2e72q4k9hcz7vqh2y7hd",
+      "SegWit v1 addresses must use bech32m",
+    ],
+    [
+      "tb1z0xlxvlhemja6c4dqv22uapctqupfhlxm9h8z3k2e72q4k9hcz7vqglt7rf",
+      "SegWit v2 addresses must use bech32m",
+    ],
+    [
+      "BC1S0XLXVLHEMJA6C4DQV22UAPCTQUPFHLXM9H8Z3K2E72Q4K9HCZ7VQ54WELL",
+      "SegWit v16 addresses must use bech32m",
+    ],
+    [
+      "bc1qw508d6qejxtdg4y5r3zarvary0c5xw7kemeawh",
+      "SegWit v0 addresses must use bech32, not bech32m",
+    ],
+    [
+      "tb1q0xlxvlhemja6c4dqv22uapctqupfhlxm9h8z3k2e72q4k9hcz7vq24jc47",
+      "SegWit v0 addresses must use bech32, not bech32m",
+    ],
+    [
+      "bc1p38j9r5y49hruaue7wxjce0updqjuyyx0kh56v8s25huc6995vvpql3jow4",
+      "Invalid bech32 checksum",
+    ],
+    [
+      "BC130XLXVLHEMJA6C4DQV22UAPCTQUPFHLXM9H8Z3K2E72Q4K9HCZ7VQ7ZWS8R",
+      "Invalid witness version",
+    ],
+    ["bc1pw5dgrnzv", "Invalid witness program"],
+    [
+      "bc1p0xlxvlhemja6c4dqv22uapctqupfhlxm9h8z3k2e72q4k9hcz7v8n0nx0muaewav253zgeav",
+      "Invalid witness program",
+    ],
+    [
+      "BC1QR508D6QEJXTDG4Y5R3ZARVARYV98GJ9P",
+      "SegWit v0 program must be 20 or 32 bytes",
+    ],
+    [
+      "tb1qrp33g0q5c5txsp9arysrx4k6zdkfs4nce4xj0gdcccefvpysxf3q0sL5k7",
+      "can't mix upper and lower case",
+    ],
+    ["bc1gmk9yu", "Invalid bech32 checksum"],
+  ])("rejects %s", (address, reason) => {
+    expect(() => parseAddress(address)).toThrow(reason);
+  });
+
+  it("rejects Base58 strings with a bad checksum or that aren't addresses", () => {
+    expect(() => parseAddress("1BvBMSEYstWetqTFn5Au4m4GFg7xJaNVN3")).toThrow(
+      "bad character or checksum"
+    );
+    // A WIF private key is Base58Check too, but not an address
+    expect(() =>
+      parseAddress("5HueCGU8rMjxEXxiPuD5BDku4MkFqeZyd4dZ1jvhTVqvbTLvyTJ")
+    ).toThrow();
+  });
+
+  it("trims whitespace and rejects empty input", () => {
+    expect(
+      parseAddress("  bc1qw508d6qejxtdg4y5r3zarvary0c5xw7kv8f3t4\n").address
+    ).toBe("bc1qw508d6qejxtdg4y5r3zarvary0c5xw7kv8f3t4");
+    expect(() => parseAddress("   ")).toThrow("Enter an address");
+    expect(getAddressInfo("not an address")).toBeNull();
+  });
+});
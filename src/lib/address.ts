@@ -0,0 +1,125 @@
+import { bech32, bech32m, createBase58check } from "@scure/base";
+import { sha256 } from "@noble/hashes/sha2.js";
+
+// --- Address Validation ---
+// Everything here runs locally, before any network lookup.
+
+export type AddressType = "p2pkh" | "p2sh" | "p2wpkh" | "p2wsh" | "p2tr";
+
+// Testnet and signet share address formats, so they can't be told apart
+export type AddressNetwork = "mainnet" | "testnet" | "regtest";
+
+export interface AddressInfo {
+  address: string; // Normalized (bech32 lowercased)
+  type: AddressType;
+  network: AddressNetwork;
+}
+
+export const ADDRESS_TYPE_NAMES: Record<AddressType, string> = {
+  p2pkh: "P2PKH",
+  p2sh: "P2SH",
+  p2wpkh: "P2WPKH",
+  p2wsh: "P2WSH",
+  p2tr: "P2TR",
+};
+
+export const ADDRESS_NETWORK_NAMES: Record<AddressNetwork, string> = {
+  mainnet: "Mainnet",
+  testnet: "Testnet / Signet",
+  regtest: "Regtest",
+};
+
+const base58check = createBase58check(sha256);
+
+const BASE58_VERSIONS: Record<
+  number,
+  { type: AddressType; network: AddressNetwork }
+> = {
+  0x00: { type: "p2pkh", network: "mainnet" },
+  0x05: { type: "p2sh", network: "mainnet" },
+  0x6f: { type: "p2pkh", network: "testnet" },
+  0xc4: { type: "p2sh", network: "testnet" },
+};
+
+const BECH32_PREFIXES: Record<string, AddressNetwork> = {
+  bc: "mainnet",
+  tb: "testnet",
+  bcrt: "regtest",
+};
+
+const parseBase58 = (input: string): AddressInfo => {
+  let payload: Uint8Array;
+  try {
+    payload = base58check.decode(input);
+  } catch {
+    throw new Error("Invalid Base58Check address (bad character or checksum)");
+  }
+  if (payload.length !== 21) {
+    throw new Error("Base58 address has the wrong length");
+  }
+  const version = BASE58_VERSIONS[payload[0]];
+  if (!version) {
+    throw new Error(`Unknown Base58 version byte 0x${payload[0].toString(16)}`);
+  }
+  return { address: input, ...version };
+};
+
+// BIP173 (bech32, witness v0) and BIP350 (bech32m, v1+)
+const parseBech32 = (input: string): AddressInfo => {
+  if (input !== input.toLowerCase() && input !== input.toUpperCase()) {
+    throw new Error("Bech32 addresses can't mix upper and lower case");
+  }
+  const address = input.toLowerCase();
+  const prefix = address.slice(0, address.lastIndexOf("1"));
+  const network = BECH32_PREFIXES[prefix];
+  if (!network) throw new Error(`Unknown address prefix "${prefix}"`);
+
+  // The witness version decides which checksum is valid
+  const decoded = bech32.decodeUnsafe(address) || bech32m.decodeUnsafe(address);
+  if (!decoded || decoded.words.length === 0) {
+    throw new Error("Invalid bech32 checksum");
+  }
+  const [version, ...data] = decoded.words;
+  const usedBech32m = !bech32.decodeUnsafe(address);
+  if (version === 0 && usedBech32m) {
+    throw new Error("SegWit v0 addresses must use bech32, not bech32m");
+  }
+  if (version > 0 && !usedBech32m) {
+    throw new Error(`SegWit v${version} addresses must use bech32m`);
+  }
+  if (version > 16) throw new Error("Invalid witness version");
+
+  const program = bech32.fromWordsUnsafe(data);
+  if (!program || program.length < 2 || program.length > 40) {
+    throw new Error("Invalid witness program");
+  }
+  if (version === 0) {
+    if (program.length === 20) return { address, type: "p2wpkh", network };
+    if (program.length === 32) return { address, type: "p2wsh", network };
+    throw new Error("SegWit v0 program must be 20 or 32 bytes");
+  }
+  if (version === 1 && program.length === 32) {
+    return { address, type: "p2tr", network };
+  }
+  throw new Error(
+    `Unsupported witness program (v${version}, ${program.length} bytes)`
+  );
+};
+
+// Throws with a user-facing message when the address is invalid
+export const parseAddress = (input: string): AddressInfo => {
+  const trimmed = input.trim();
+  if (!trimmed) throw new Error("Enter an address");
+  if (/^(bc|tb|bcrt)1/i.test(trimmed)) return parseBech32(trimmed);
+  if (/^[123mn]/.test(trimmed)) return parseBase58(trimmed);
+  throw new Error("Not a Bitcoin address");
+};
+
+// For display only; stored entries were validated when added
+export const getAddressInfo = (input: string): AddressInfo | null => {
+  try {
+    return parseAddress(input);
+  } catch {
+    return null;
+  }
+};
@@ -0,0 +1,100 @@
+import type { TrackedEntry } from "./entries";
+
+// --- Address List Filters ---
+
+export type BalanceFilter = "all" | "funded" | "empty";
+export type AddressSort = "manual" | "balance" | "activity" | "label";
+
+export interface AddressFilters {
+  search: string;
+  group: string | null; // null for every group
+  balance: BalanceFilter;
+  pendingOnly: boolean;
+  dormantDays: number | null; // Only entries idle at least this long
+  sort: AddressSort;
+  descending: boolean;
+}
+
+export const DEFAULT_ADDRESS_FILTERS: AddressFilters = {
+  search: "",
+  group: null,
+  balance: "all",
+  pendingOnly: false,
+  dormantDays: null,
+  sort: "manual",
+  descending: true,
+};
+
+export const ADDRESS_SORTS: { id: AddressSort; name: string }[] = [
+  { id: "manual", name: "Manual order" },
+  { id: "balance", name: "Balance" },
+  { id: "activity", name: "Last activity" },
+  { id: "label", name: "Label" },
+];
+
+export const DORMANCY_OPTIONS = [90, 180, 365, 730];
+
+const DAY = 24 * 60 * 60 * 1000;
+
+// True when anything beyond the sort order narrows the list
+export const isFiltering = (filters: AddressFilters) =>
+  filters.search.trim() !== "" ||
+  filters.group !== null ||
+  filters.balance !== "all" ||
+  filters.pendingOnly ||
+  filters.dormantDays !== null;
+
+// Searches labels, notes and addresses, including a wallet's derived ones
+const matchesSearch = (entry: TrackedEntry, query: string) =>
+  entry.label.toLowerCase().includes(query) ||
+  (entry.notes ?? "").toLowerCase().includes(query) ||
+  entry.address.toLowerCase().includes(query) ||
+  (entry.derived ?? []).some((derived) =>
+    derived.address.toLowerCase().includes(query)
+  );
+
+export const filterEntries = (
+  entries: TrackedEntry[],
+  filters: AddressFilters,
+  now = Date.now()
+) => {
+  const query = filters.search.trim().toLowerCase();
+  return entries.filter((entry) => {
+    if (query && !matchesSearch(entry, query)) return false;
+    if (filters.group !== null && entry.group !== filters.group) return false;
+    if (filters.balance === "funded" && entry.balanceSats === 0) return false;
+    if (filters.balance === "empty" && entry.balanceSats !== 0) return false;
+    if (filters.pendingOnly && entry.lastTxTime !== "pending") return false;
+    if (filters.dormantDays !== null) {
+      // Never-used entries have no activity to be dormant from
+      if (typeof entry.lastTxTime !== "number") return false;
+      if (now - entry.lastTxTime < filters.dormantDays * DAY) return false;
+    }
+    return true;
+  });
+};
+
+// Pending beats any confirmed time; never-used entries sort as oldest
+const activityTime = (entry: TrackedEntry) =>
+  entry.lastTxTime === "pending"
+    ? Infinity
+    : typeof entry.lastTxTime === "number"
+    ? entry.lastTxTime
+    : -Infinity;
+
+export const sortEntries = (
+  entries: TrackedEntry[],
+  sort: AddressSort,
+  descending: boolean
+) => {
+  if (sort === "manual") return entries;
+  const compare = (a: TrackedEntry, b: TrackedEntry) => {
+    if (sort === "balance") return a.balanceSats - b.balanceSats;
+    if (sort === "label") return a.label.localeCompare(b.label);
+    const diff = activityTime(a) - activityTime(b);
+    return Number.isNaN(diff) ? 0 : diff;
+  };
+  return [...entries].sort((a, b) =>
+    descending ? compare(b, a) : compare(a, b)
+  );
+};
@@ -0,0 +1,185 @@
+import type { TrackedEntry } from "./entries";
+import { formatSats } from "./format";
+
+// --- Alert Rules ---
+
+export type AlertKind = "outgoing" | "incoming" | "below" | "dormant";
+
+export const ALERT_KINDS: { id: AlertKind; name: string }[] = [
+  { id: "outgoing", name: "Any outgoing transaction" },
+  { id: "incoming", name: "Incoming transaction over" },
+  { id: "below", name: "Balance drops below" },
+  { id: "dormant", name: "Dormant address becomes active" },
+];
+
+export interface AlertRule {
+  id: number;
+  kind: AlertKind;
+  scope: "all" | "entry" | "group";
+  target: string; // Entry id or group name; empty for "all"
+  thresholdSats: number; // incoming / below
+  dormantDays: number; // dormant
+  enabled: boolean;
+}
+
+export interface AlertEvent {
+  id: string;
+  ruleId: number;
+  at: number;
+  title: string;
+  message: string;
+}
+
+// Keep the log bounded; it is saved with the rest of the settings
+export const MAX_ALERT_LOG = 200;
+
+const DAY = 24 * 60 * 60 * 1000;
+
+// `mask` hides labels, group names and amounts for strict privacy
+export const describeRule = (
+  rule: AlertRule,
+  entries: TrackedEntry[],
+  mask = (text: string) => text
+) => {
+  const scope =
+    rule.scope === "all"
+      ? "any address"
+      : rule.scope === "group"
+      ? `group "${mask(rule.target)}"`
+      : mask(
+          entries.find((entry) => String(entry.id) === rule.target)?.label ||
+            "removed address"
+        );
+  const threshold = mask(formatSats(rule.thresholdSats));
+  switch (rule.kind) {
+    case "outgoing":
+      return `Outgoing transaction from ${scope}`;
+    case "incoming":
+      return `Incoming over ${threshold} BTC to ${scope}`;
+    case "below":
+      return `Balance of ${scope} below ${threshold} BTC`;
+    case "dormant":
+      return `Activity on ${scope} after ${rule.dormantDays} days dormant`;
+  }
+};
+
+const matches = (rule: AlertRule, entry: TrackedEntry) =>
+  rule.scope === "all" ||
+  (rule.scope === "group" && entry.group === rule.target) ||
+  (rule.scope === "entry" && String(entry.id) === rule.target);
+
+// Compares two refreshes and returns the alerts that fired. Entries missing
+// from `previous`, or never refreshed before, have no baseline to compare.
+export const evaluateAlerts = (
+  rules: AlertRule[],
+  previous: TrackedEntry[],
+  next: TrackedEntry[],
+  now = Date.now()
+): AlertEvent[] => {
+  const before = new Map(
+    previous
+      .filter((entry) => entry.lastUpdated)
+      .map((entry) => [entry.id, entry])
+  );
+  const events: AlertEvent[] = [];
+  const fire = (rule: AlertRule, key: string, title: string, message: string) =>
+    events.push({
+      id: `${now}-${rule.id}-${key}`,
+      ruleId: rule.id,
+      at: now,
+      title,
+      message,
+    });
+
+  rules
+    .filter((rule) => rule.enabled)
+    .forEach((rule) => {
+      const scoped = next.filter(
+        (entry) => matches(rule, entry) && before.has(entry.id)
+      );
+
+      // Thresholds on groups apply to the group's combined balance
+      if (rule.kind === "below") {
+        const total = (entries: TrackedEntry[]) =>
+          entries.reduce((acc, curr) => acc + curr.balanceSats, 0);
+        const was = total(scoped.map((entry) => before.get(entry.id)!));
+        const is = total(scoped);
+        if (
+          scoped.length &&
+          was >= rule.thresholdSats &&
+          is < rule.thresholdSats
+        ) {
+          fire(
+            rule,
+            "below",
+            "Balance below threshold",
+            `${describeRule(rule, next)}: now ${formatSats(is)} BTC`
+          );
+        }
+        return;
+      }
+
+      scoped.forEach((entry) => {
+        const prev = before.get(entry.id)!;
+        const delta = entry.balanceSats - prev.balanceSats;
+        if (rule.kind === "outgoing" && delta < 0) {
+          fire(
+            rule,
+            String(entry.id),
+            `Outgoing: ${entry.label}`,
+            `${formatSats(-delta)} BTC left ${entry.label}`
+          );
+        } else if (
+          rule.kind === "incoming" &&
+          delta > 0 &&
+          delta >= rule.thresholdSats
+        ) {
+          fire(
+            rule,
+            String(entry.id),
+            `Incoming: ${entry.label}`,
+            `${formatSats(delta)} BTC arrived at ${entry.label}`
+          );
+        } else if (rule.kind === "dormant") {
+          const lastActive = prev.lastTxTime;
+          const active =
+            delta !== 0 ||
+            (entry.lastTxTime !== null && entry.lastTxTime !== lastActive);
+          if (
+            active &&
+            typeof lastActive === "number" &&
+            now - lastActive > rule.dormantDays * DAY
+          ) {
+            fire(
+              rule,
+              String(entry.id),
+              `Dormant address active: ${entry.label}`,
+              `First activity in ${Math.floor(
+                (now - lastActive) / DAY
+              )} days (${delta >= 0 ? "+" : "-"}${formatSats(
+                Math.abs(delta)
+              )} BTC)`
+            );
+          }
+        }
+      });
+    });
+
+  return events;
+};
+
+// Browser notification, if the user granted permission. With `strict` it
+// carries no labels or amounts, since the OS shows it outside the app.
+export const showNotification = (event: AlertEvent, strict = false) => {
+  if (typeof Notification === "undefined") return;
+  if (Notification.permission !== "granted") return;
+  try {
+    new Notification(strict ? "Bitcoin alert" : event.title, {
+      body: strict ? "Open the app for details." : event.message,
+      tag: event.id,
+    });
+  } catch (error) {
+    // Some mobile browsers only allow notifications from a service worker
+    console.error("Error showing notification:", error);
+  }
+};
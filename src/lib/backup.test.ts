@@ -0,0 +1,183 @@
+import { describe, expect, it } from "vitest";
+import {
+  BACKUP_FORMAT,
+  BACKUP_VERSION,
+  BackupError,
+  createBackup,
+  mergeBackup,
+  readBackup,
+  validatePayload,
+  type BackupPayload,
+} from "./backup";
+import type { TrackedEntry } from "./entries";
+
+const entry = (
+  id: number,
+  address: string,
+  extra: Partial<TrackedEntry> = {}
+): TrackedEntry => ({
+  id,
+  kind: "address",
+  address,
+  label: `Entry ${id}`,
+  group: "Savings",
+  balanceSats: 1000,
+  lastTxTime: null,
+  ...extra,
+});
+
+const NODE = entry(3, "https://node.local:8080", {
+  kind: "lightning",
+  lightning: {
+    implementation: "lnd",
+    url: "https://node.local:8080",
+    credential: "0201abcd",
+  },
+});
+
+const PAYLOAD: BackupPayload = {
+  addresses: [entry(1, "bc1qone"), NODE],
+  manualCosts: { "1:aa": { fiat: 500, currency: "usd" } },
+  settings: {
+    currency: "usd",
+    groups: [{ name: "Savings", color: "blue" }],
+    alertRules: [
+      {
+        id: 1,
+        kind: "below",
+        scope: "all",
+        target: "",
+        thresholdSats: 5000,
+        dormantDays: 0,
+        enabled: true,
+      },
+    ],
+    privacyLevel: "strict",
+  },
+};
+
+const backupFile = (version: number, payload: unknown) =>
+  JSON.stringify({
+    format: BACKUP_FORMAT,
+    version,
+    createdAt: "2024-01-01T00:00:00.000Z",
+    payload,
+  });
+
+describe("validatePayload", () => {
+  it("accepts a current payload as is", () => {
+    expect(validatePayload(PAYLOAD)).toBe(PAYLOAD);
+  });
+
+  it("reports every problem with its path", () => {
+    const error = (() => {
+      try {
+        validatePayload({
+          addresses: [
+            entry(1, "bc1qone", { balanceSats: -5 }),
+            entry(1, "", { kind: "wallet", gapLimit: 500 }),
+          ],
+          manualCosts: { "1:aa": { fiat: 1, currency: "doubloons" } },
+          settings: { privacyLevel: "loud", alertRules: [{ id: 1 }] },
+        });
+      } catch (error) {
+        return error as BackupError;
+      }
+    })();
+    expect(error).toBeInstanceOf(BackupError);
+    expect(error!.issues.map((issue) => issue.path)).toEqual([
+      "addresses[0].balanceSats",
+      "addresses[1].address",
+      "addresses[1].descriptor",
+      "addresses[1].gapLimit",
+      "addresses[1].id",
+      'manualCosts["1:aa"].currency',
+      "settings.alertRules",
+      "settings.privacyLevel",
+    ]);
+  });
+});
+
+describe("readBackup", () => {
+  it("wraps a bare version 0 address list and marks entries as addresses", async () => {
+    const legacy = [{ ...entry(1, "bc1qone"), kind: undefined }];
+    const payload = await readBackup(JSON.stringify(legacy));
+    expect(payload).toEqual({
+      addresses: [{ ...entry(1, "bc1qone") }],
+      manualCosts: {},
+      settings: {},
+    });
+  });
+
+  it("gives version 1 entries without a kind the address kind", async () => {
+    const { kind: _kind, ...untyped } = entry(1, "bc1qone");
+    const payload = await readBackup(
+      backupFile(1, {
+        addresses: [untyped, NODE],
+        manualCosts: {},
+        settings: { currency: "eur" },
+      })
+    );
+    expect(payload.addresses.map((restored) => restored.kind)).toEqual([
+      "address",
+      "lightning",
+    ]);
+    expect(payload.settings).toEqual({ currency: "eur" });
+  });
+
+  it("refuses backups from a newer version", async () => {
+    await expect(
+      readBackup(backupFile(BACKUP_VERSION + 1, PAYLOAD))
+    ).rejects.toThrow("newer version");
+  });
+
+  it("leaves Lightning credentials out of unencrypted backups", async () => {
+    const restored = await readBackup(await createBackup(PAYLOAD));
+    expect(restored.addresses[1].lightning?.credential).toBe("");
+    expect(restored.settings).toEqual(PAYLOAD.settings);
+  });
+
+  it("round-trips an encrypted backup, credentials included", async () => {
+    const text = await createBackup(PAYLOAD, "correct horse");
+    expect(text).not.toContain("0201abcd");
+    expect(JSON.parse(text).version).toBe(BACKUP_VERSION);
+
+    await expect(readBackup(text)).rejects.toThrow("needs a passphrase");
+    await expect(readBackup(text, "wrong horse")).rejects.toBeInstanceOf(
+      BackupError
+    );
+    expect(await readBackup(text, "correct horse")).toEqual(PAYLOAD);
+  });
+});
+
+describe("mergeBackup", () => {
+  it("adds new entries under free ids and carries their manual costs", () => {
+    const current = {
+      addresses: [entry(1, "bc1qone"), entry(2, "bc1qtwo")],
+      manualCosts: { "1:aa": { fiat: 100, currency: "usd" } },
+    };
+    const imported: BackupPayload = {
+      addresses: [entry(1, "bc1qtwo"), entry(2, "bc1qthree")],
+      manualCosts: {
+        "1:aa": { fiat: 999, currency: "usd" },
+        "2:bb": { fiat: 300, currency: "usd" },
+      },
+      settings: {},
+    };
+
+    const result = mergeBackup(current, imported);
+    expect(result.added).toBe(1);
+    expect(result.skipped).toBe(1);
+    expect(result.addresses.map(({ id, address }) => [id, address])).toEqual([
+      [1, "bc1qone"],
+      [2, "bc1qtwo"],
+      [3, "bc1qthree"],
+    ]);
+    // Imported entry 1 is our entry 2; imported entry 2 became 3
+    expect(result.manualCosts).toEqual({
+      "1:aa": { fiat: 100, currency: "usd" },
+      "2:aa": { fiat: 999, currency: "usd" },
+      "3:bb": { fiat: 300, currency: "usd" },
+    });
+  });
+});
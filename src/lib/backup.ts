@@ -0,0 +1,596 @@
+import type { TrackedEntry } from "./entries";
+import { MAX_GAP_LIMIT } from "./xpub";
+import { costKey, type LotMethod, type ManualCost } from "./costBasis";
+import type { ProviderSettings } from "./providers";
+import { isCurrency, type Currency } from "./currency";
+import { BITCOIN_NETWORKS, isBitcoinNetwork } from "./networks";
+import type { GroupDef } from "./groups";
+import { ALERT_KINDS, type AlertRule } from "./alerts";
+import { PRIVACY_LEVELS, type PrivacyLevel } from "./masking";
+import {
+  decryptString,
+  encryptString,
+  isEncryptedBlob,
+  type EncryptedBlob,
+} from "./crypto";
+
+// --- Backup & Restore ---
+
+export const BACKUP_FORMAT = "sats-tracker-backup";
+export const BACKUP_VERSION = 2;
+
+export interface BackupSettings {
+  currency?: Currency;
+  secondaryCurrency?: Currency | null;
+  providers?: ProviderSettings;
+  lotMethod?: LotMethod;
+  groups?: GroupDef[];
+  alertRules?: AlertRule[];
+  privacyLevel?: PrivacyLevel;
+}
+
+export interface BackupPayload {
+  addresses: TrackedEntry[];
+  manualCosts: Record<string, ManualCost>;
+  settings: BackupSettings;
+}
+
+export interface BackupFile {
+  format: typeof BACKUP_FORMAT;
+  version: number; // Payload schema version
+  createdAt: string;
+  encryption?: Omit<EncryptedBlob, "data">;
+  payload: BackupPayload | string; // Base64 ciphertext when encrypted
+}
+
+export interface BackupIssue {
+  path: string; // e.g. "addresses[2].balanceSats"
+  message: string;
+}
+
+export class BackupError extends Error {
+  issues: BackupIssue[];
+
+  constructor(message: string, issues: BackupIssue[] = []) {
+    super(message);
+    this.name = "BackupError";
+    this.issues = issues;
+  }
+}
+
+// Upgrades a payload from `version` to `version + 1`. Version 0 is the bare
+// address array written before backups had an envelope. Version 2 added
+// alert rules and the privacy level to the settings, and spells out each
+// entry's kind; entries written before wallets existed have none.
+const MIGRATIONS: Record<number, (payload: unknown) => unknown> = {
+  0: (addresses) => ({ addresses, manualCosts: {}, settings: {} }),
+  1: (payload) =>
+    isObject(payload) && Array.isArray(payload.addresses)
+      ? {
+          ...payload,
+          addresses: payload.addresses.map((entry: unknown) =>
+            isObject(entry) && entry.kind === undefined
+              ? { ...entry, kind: "address" }
+              : entry
+          ),
+        }
+      : payload,
+};
+
+const migrate = (payload: unknown, version: number) => {
+  if (version > BACKUP_VERSION) {
+    throw new BackupError(
+      `Backup is from a newer version (${version}); please update the app`
+    );
+  }
+  let migrated = payload;
+  for (let v = version; v < BACKUP_VERSION; v++) {
+    migrated = MIGRATIONS[v](migrated);
+  }
+  return migrated;
+};
+
+// --- Validation ---
+
+const SCRIPT_TYPES = ["p2pkh", "p2sh-p2wpkh", "p2wpkh", "p2tr", "p2wsh"];
+const CHAIN_BACKENDS = ["esplora", "electrum", "mock"];
+const PRICE_BACKENDS = ["coingecko", "mock"];
+const LOT_METHODS = ["fifo", "lifo", "hifo"];
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === "object" && !Array.isArray(value);
+
+const isNonNegativeInteger = (value: unknown): value is number =>
+  Number.isInteger(value) && (value as number) >= 0;
+
+const isOneOf = (values: readonly string[], value: unknown): value is string =>
+  typeof value === "string" && values.includes(value);
+
+const validateEntry = (entry: unknown, path: string) => {
+  const issues: BackupIssue[] = [];
+  const fail = (field: string, message: string) =>
+    issues.push({ path: `${path}.${field}`, message });
+
+  if (!isObject(entry)) {
+    return [{ path, message: "must be an object" }];
+  }
+  if (!Number.isFinite(entry.id)) fail("id", "must be a number");
+  if (typeof entry.address !== "string" || !entry.address.trim()) {
+    fail("address", "must be a non-empty string");
+  }
+  if (typeof entry.label !== "string") fail("label", "must be a string");
+  if (typeof entry.group !== "string") fail("group", "must be a string");
+  if (entry.notes !== undefined && typeof entry.notes !== "string") {
+    fail("notes", "must be a string");
+  }
+  if (!isNonNegativeInteger(entry.balanceSats)) {
+    fail("balanceSats", "must be a non-negative whole number of sats");
+  }
+  if (
+    entry.confirmedSats !== undefined &&
+    !isNonNegativeInteger(entry.confirmedSats)
+  ) {
+    fail("confirmedSats", "must be a non-negative whole number of sats");
+  }
+  // Refetched on the next refresh, so only the shape matters
+  if (entry.unsettled !== undefined && !Array.isArray(entry.unsettled)) {
+    fail("unsettled", "must be an array");
+  }
+  if (
+    entry.lastTxTime !== undefined &&
+    entry.lastTxTime !== null &&
+    entry.lastTxTime !== "pending" &&
+    !Number.isFinite(entry.lastTxTime)
+  ) {
+    fail("lastTxTime", 'must be a timestamp, "pending" or null');
+  }
+  if (entry.network !== undefined && !isBitcoinNetwork(entry.network)) {
+    fail("network", `must be one of ${BITCOIN_NETWORKS.join(", ")}`);
+  }
+  if (!isOneOf(["address", "wallet", "lightning"], entry.kind)) {
+    fail("kind", 'must be "address", "wallet" or "lightning"');
+  }
+  if (entry.kind === "lightning") {
+    const node = entry.lightning;
+    if (!isObject(node)) {
+      fail("lightning", "is required for Lightning nodes");
+    } else {
+      if (!isOneOf(["lnd", "cln"], node.implementation)) {
+        fail("lightning.implementation", 'must be "lnd" or "cln"');
+      }
+      if (typeof node.url !== "string" || !node.url.trim()) {
+        fail("lightning.url", "must be a non-empty string");
+      }
+      if (typeof node.credential !== "string") {
+        fail("lightning.credential", "must be a string");
+      }
+    }
+  }
+
+  if (entry.kind === "wallet") {
+    const descriptor = entry.descriptor;
+    if (!isObject(descriptor)) {
+      fail("descriptor", "is required for wallets");
+    } else {
+      if (typeof descriptor.key !== "string") {
+        fail("descriptor.key", "must be a string");
+      }
+      if (!isOneOf(SCRIPT_TYPES, descriptor.scriptType)) {
+        fail(
+          "descriptor.scriptType",
+          `must be one of ${SCRIPT_TYPES.join(", ")}`
+        );
+      }
+      if (!isOneOf(["mainnet", "testnet", "regtest"], descriptor.network)) {
+        fail("descriptor.network", 'must be "mainnet", "testnet" or "regtest"');
+      }
+      if (
+        !Array.isArray(descriptor.chains) ||
+        !descriptor.chains.every(isNonNegativeInteger)
+      ) {
+        fail("descriptor.chains", "must be a list of chain indexes");
+      }
+      const multisig = descriptor.multisig;
+      if (descriptor.scriptType === "p2wsh" && !isObject(multisig)) {
+        fail("descriptor.multisig", "is required for multisig wallets");
+      } else if (multisig !== undefined) {
+        if (
+          !isObject(multisig) ||
+          !Array.isArray(multisig.cosigners) ||
+          !multisig.cosigners.every(
+            (cosigner: unknown) =>
+              isObject(cosigner) && typeof cosigner.key === "string"
+          )
+        ) {
+          fail("descriptor.multisig.cosigners", "must be a list of keys");
+        } else if (
+          !isNonNegativeInteger(multisig.threshold) ||
+          multisig.threshold < 1 ||
+          multisig.threshold > multisig.cosigners.length
+        ) {
+          fail(
+            "descriptor.multisig.threshold",
+            "must be between 1 and the number of cosigners"
+          );
+        }
+      }
+    }
+    if (
+      entry.gapLimit !== undefined &&
+      !(
+        isNonNegativeInteger(entry.gapLimit) &&
+        entry.gapLimit >= 1 &&
+        entry.gapLimit <= MAX_GAP_LIMIT
+      )
+    ) {
+      fail("gapLimit", `must be between 1 and ${MAX_GAP_LIMIT}`);
+    }
+    if (entry.derived !== undefined && !Array.isArray(entry.derived)) {
+      fail("derived", "must be a list");
+    }
+  }
+  return issues;
+};
+
+const validateSettings = (settings: unknown) => {
+  const issues: BackupIssue[] = [];
+  if (!isObject(settings)) {
+    return [{ path: "settings", message: "must be an object" }];
+  }
+  if (settings.currency !== undefined && !isCurrency(settings.currency)) {
+    issues.push({ path: "settings.currency", message: "unsupported currency" });
+  }
+  if (
+    settings.secondaryCurrency !== undefined &&
+    settings.secondaryCurrency !== null &&
+    !isCurrency(settings.secondaryCurrency)
+  ) {
+    issues.push({
+      path: "settings.secondaryCurrency",
+      message: "unsupported currency",
+    });
+  }
+  if (
+    settings.lotMethod !== undefined &&
+    !isOneOf(LOT_METHODS, settings.lotMethod)
+  ) {
+    issues.push({
+      path: "settings.lotMethod",
+      message: `must be one of ${LOT_METHODS.join(", ")}`,
+    });
+  }
+  if (
+    settings.groups !== undefined &&
+    !(
+      Array.isArray(settings.groups) &&
+      settings.groups.every(
+        (group: unknown) =>
+          isObject(group) &&
+          typeof group.name === "string" &&
+          typeof group.color === "string"
+      )
+    )
+  ) {
+    issues.push({
+      path: "settings.groups",
+      message: "must be a list of {name, color}",
+    });
+  }
+  if (
+    settings.alertRules !== undefined &&
+    !(
+      Array.isArray(settings.alertRules) &&
+      settings.alertRules.every(
+        (rule: unknown) =>
+          isObject(rule) &&
+          Number.isFinite(rule.id) &&
+          isOneOf(
+            ALERT_KINDS.map((kind) => kind.id),
+            rule.kind
+          ) &&
+          isOneOf(["all", "entry", "group"], rule.scope) &&
+          typeof rule.target === "string" &&
+          isNonNegativeInteger(rule.thresholdSats) &&
+          isNonNegativeInteger(rule.dormantDays) &&
+          typeof rule.enabled === "boolean"
+      )
+    )
+  ) {
+    issues.push({
+      path: "settings.alertRules",
+      message: "must be a list of alert rules",
+    });
+  }
+  if (
+    settings.privacyLevel !== undefined &&
+    !isOneOf(PRIVACY_LEVELS, settings.privacyLevel)
+  ) {
+    issues.push({
+      path: "settings.privacyLevel",
+      message: `must be one of ${PRIVACY_LEVELS.join(", ")}`,
+    });
+  }
+  const providers = settings.providers;
+  if (providers !== undefined) {
+    if (!isObject(providers)) {
+      issues.push({ path: "settings.providers", message: "must be an object" });
+    } else {
+      if (!isOneOf(CHAIN_BACKENDS, providers.chainBackend)) {
+        issues.push({
+          path: "settings.providers.chainBackend",
+          message: `must be one of ${CHAIN_BACKENDS.join(", ")}`,
+        });
+      }
+      if (!isOneOf(PRICE_BACKENDS, providers.priceBackend)) {
+        issues.push({
+          path: "settings.providers.priceBackend",
+          message: `must be one of ${PRICE_BACKENDS.join(", ")}`,
+        });
+      }
+      if (
+        providers.network !== undefined &&
+        !isBitcoinNetwork(providers.network)
+      ) {
+        issues.push({
+          path: "settings.providers.network",
+          message: `must be one of ${BITCOIN_NETWORKS.join(", ")}`,
+        });
+      }
+      if (
+        providers.liveUpdates !== undefined &&
+        typeof providers.liveUpdates !== "boolean"
+      ) {
+        issues.push({
+          path: "settings.providers.liveUpdates",
+          message: "must be true or false",
+        });
+      }
+      if (
+        providers.websocketUrl !== undefined &&
+        typeof providers.websocketUrl !== "string"
+      ) {
+        issues.push({
+          path: "settings.providers.websocketUrl",
+          message: "must be a string",
+        });
+      }
+      ["privateMode", "isolateAddresses"].forEach((field) => {
+        if (
+          providers[field] !== undefined &&
+          typeof providers[field] !== "boolean"
+        ) {
+          issues.push({
+            path: `settings.providers.${field}`,
+            message: "must be true or false",
+          });
+        }
+      });
+      if (
+        providers.privateEndpoints !== undefined &&
+        !(
+          Array.isArray(providers.privateEndpoints) &&
+          providers.privateEndpoints.every(
+            (url: unknown) => typeof url === "string"
+          )
+        )
+      ) {
+        issues.push({
+          path: "settings.providers.privateEndpoints",
+          message: "must be a list of URLs",
+        });
+      }
+      ["esploraUrl", "electrumUrl"].forEach((field) => {
+        if (typeof providers[field] !== "string") {
+          issues.push({
+            path: `settings.providers.${field}`,
+            message: "must be a string",
+          });
+        }
+      });
+    }
+  }
+  return issues;
+};
+
+// Checks every field and reports all problems at once
+export const validatePayload = (payload: unknown): BackupPayload => {
+  if (!isObject(payload)) {
+    throw new BackupError("Backup contents are not an object");
+  }
+  const issues: BackupIssue[] = [];
+
+  if (!Array.isArray(payload.addresses)) {
+    issues.push({ path: "addresses", message: "must be a list" });
+  } else {
+    payload.addresses.forEach((entry: unknown, i: number) =>
+      issues.push(...validateEntry(entry, `addresses[${i}]`))
+    );
+    const ids = payload.addresses.map((entry: unknown) =>
+      isObject(entry) ? entry.id : undefined
+    );
+    ids.forEach((id: unknown, i: number) => {
+      if (ids.indexOf(id) !== i) {
+        issues.push({ path: `addresses[${i}].id`, message: "is a duplicate" });
+      }
+    });
+  }
+
+  if (!isObject(payload.manualCosts)) {
+    issues.push({ path: "manualCosts", message: "must be an object" });
+  } else {
+    Object.entries(payload.manualCosts).forEach(([key, cost]) => {
+      if (
+        !isObject(cost) ||
+        typeof cost.fiat !== "number" ||
+        !Number.isFinite(cost.fiat) ||
+        cost.fiat < 0
+      ) {
+        issues.push({
+          path: `manualCosts["${key}"].fiat`,
+          message: "must be a non-negative number",
+        });
+      } else if (!isCurrency(cost.currency)) {
+        issues.push({
+          path: `manualCosts["${key}"].currency`,
+          message: "unsupported currency",
+        });
+      }
+    });
+  }
+
+  issues.push(...validateSettings(payload.settings));
+
+  if (issues.length > 0) {
+    throw new BackupError(
+      `Backup failed validation (${issues.length} problem${
+        issues.length === 1 ? "" : "s"
+      })`,
+      issues
+    );
+  }
+  return payload as unknown as BackupPayload;
+};
+
+// --- Reading & Writing ---
+
+// Macaroons and runes can read (or worse) a live node, so they only leave
+// the device encrypted. Nodes restored without one need re-linking.
+const withoutCredentials = (payload: BackupPayload): BackupPayload => ({
+  ...payload,
+  addresses: payload.addresses.map((entry) =>
+    entry.lightning
+      ? { ...entry, lightning: { ...entry.lightning, credential: "" } }
+      : entry
+  ),
+});
+
+export const hasCredentials = (entries: TrackedEntry[]) =>
+  entries.some((entry) => !!entry.lightning?.credential);
+
+export const createBackup = async (
+  payload: BackupPayload,
+  passphrase?: string
+) => {
+  const file: BackupFile = {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    createdAt: new Date().toISOString(),
+    payload: passphrase ? payload : withoutCredentials(payload),
+  };
+  if (passphrase) {
+    const { data, ...encryption } = await encryptString(
+      JSON.stringify(payload),
+      passphrase
+    );
+    file.encryption = encryption;
+    file.payload = data;
+  }
+  return JSON.stringify(file, null, 2);
+};
+
+// Parses a file just far enough to know whether it needs a passphrase
+export const inspectBackup = (text: string) => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new BackupError("File is not valid JSON");
+  }
+  if (Array.isArray(parsed)) {
+    return { file: parsed, version: 0, encrypted: false };
+  }
+  if (!isObject(parsed) || parsed.format !== BACKUP_FORMAT) {
+    throw new BackupError("Not a Sats Tracker backup file");
+  }
+  if (!isNonNegativeInteger(parsed.version)) {
+    throw new BackupError("Backup has no schema version");
+  }
+  return {
+    file: parsed,
+    version: parsed.version,
+    encrypted: !!parsed.encryption,
+  };
+};
+
+export const readBackup = async (
+  text: string,
+  passphrase?: string
+): Promise<BackupPayload> => {
+  const { file, version, encrypted } = inspectBackup(text);
+  if (Array.isArray(file)) return validatePayload(migrate(file, version));
+
+  let payload = file.payload;
+  if (encrypted) {
+    const blob = {
+      ...(isObject(file.encryption) ? file.encryption : {}),
+      data: file.payload,
+    };
+    if (!isEncryptedBlob(blob)) {
+      throw new BackupError("Backup encryption header is malformed");
+    }
+    if (!passphrase) throw new BackupError("This backup needs a passphrase");
+    try {
+      payload = JSON.parse(await decryptString(blob, passphrase));
+    } catch (error) {
+      throw new BackupError((error as Error).message);
+    }
+  }
+  return validatePayload(migrate(payload, version));
+};
+
+// --- Merging ---
+
+export interface MergeResult {
+  addresses: TrackedEntry[];
+  manualCosts: Record<string, ManualCost>;
+  added: number;
+  skipped: number; // Already tracked
+}
+
+// Keeps every existing entry and adds imported ones whose address isn't
+// tracked yet. Manual costs follow their entry, without overwriting ours.
+export const mergeBackup = (
+  current: {
+    addresses: TrackedEntry[];
+    manualCosts: Record<string, ManualCost>;
+  },
+  imported: BackupPayload
+): MergeResult => {
+  const addresses = [...current.addresses];
+  const manualCosts = { ...current.manualCosts };
+  const byAddress = new Map(addresses.map((entry) => [entry.address, entry]));
+  const usedIds = new Set(addresses.map((entry) => entry.id));
+  const idMap = new Map<number, number>();
+  let added = 0;
+
+  imported.addresses.forEach((entry) => {
+    const existing = byAddress.get(entry.address);
+    if (existing) {
+      idMap.set(entry.id, existing.id);
+      return;
+    }
+    let id = entry.id;
+    while (usedIds.has(id)) id++;
+    usedIds.add(id);
+    idMap.set(entry.id, id);
+    const copy = { ...entry, id };
+    addresses.push(copy);
+    byAddress.set(entry.address, copy);
+    added++;
+  });
+
+  Object.entries(imported.manualCosts).forEach(([key, cost]) => {
+    const [entryId, txid] = key.split(":");
+    const id = idMap.get(Number(entryId));
+    if (id === undefined) return;
+    const mappedKey = costKey(id, txid);
+    if (!(mappedKey in manualCosts)) manualCosts[mappedKey] = cost;
+  });
+
+  return {
+    addresses,
+    manualCosts,
+    added,
+    skipped: imported.addresses.length - added,
+  };
+};
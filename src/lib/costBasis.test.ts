@@ -0,0 +1,168 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+  buildLedger,
+  disposalsForYear,
+  loadPortfolioTxs,
+  type PortfolioTx,
+} from "./costBasis";
+import type { TrackedEntry } from "./entries";
+import { createMockPriceProvider, createMockProvider } from "./providers/mock";
+
+const DAY = 24 * 60 * 60 * 1000;
+const START = Date.UTC(2024, 0, 10);
+
+const tx = (
+  txid: string,
+  day: number,
+  deltas: Record<string, number>,
+  price: number
+): PortfolioTx => ({
+  txid,
+  time: START + day * DAY,
+  confirmed: true,
+  deltas,
+  fee: null,
+  price,
+});
+
+const BTC = 100000000;
+
+describe("buildLedger", () => {
+  const buys = [
+    tx("cheap", 0, { "1": BTC }, 10000),
+    tx("pricey", 10, { "1": BTC }, 30000),
+  ];
+
+  it("disposes the oldest lot first under FIFO", () => {
+    const ledger = buildLedger(
+      [...buys, tx("sell", 20, { "1": -BTC / 2 }, 40000)],
+      "fifo",
+      "usd",
+      {}
+    );
+    expect(ledger.disposals).toEqual([
+      expect.objectContaining({
+        acquiredTxid: "cheap",
+        sats: BTC / 2,
+        proceeds: 20000,
+        cost: 5000,
+        gain: 15000,
+        longTerm: false,
+      }),
+    ]);
+    expect(ledger.lots.map((lot) => [lot.txid, lot.sats])).toEqual([
+      ["cheap", BTC / 2],
+      ["pricey", BTC],
+    ]);
+  });
+
+  it("disposes the priciest lot first under HIFO", () => {
+    const ledger = buildLedger(
+      [...buys, tx("sell", 20, { "1": -BTC / 2 }, 40000)],
+      "hifo",
+      "usd",
+      {}
+    );
+    expect(ledger.disposals[0]).toMatchObject({
+      acquiredTxid: "pricey",
+      cost: 15000,
+    });
+  });
+
+  it("carries basis across transfers between tracked entries", () => {
+    const ledger = buildLedger(
+      [buys[0], tx("move", 5, { "1": -BTC, "2": BTC }, 20000)],
+      "fifo",
+      "usd",
+      {}
+    );
+    expect(ledger.disposals).toEqual([]);
+    expect(ledger.lots).toEqual([
+      expect.objectContaining({ entryId: "2", txid: "cheap", cost: 10000 }),
+    ]);
+  });
+
+  it("prefers manual costs in the same currency", () => {
+    const ledger = buildLedger([buys[0]], "fifo", "usd", {
+      "1:cheap": { fiat: 8000, currency: "usd" },
+    });
+    expect(ledger.lots[0]).toMatchObject({ cost: 8000, costSource: "manual" });
+  });
+});
+
+describe("disposalsForYear", () => {
+  it("groups by the UTC year, like the CSV dates", () => {
+    const ledger = buildLedger(
+      [
+        tx("buy", 0, { "1": BTC }, 10000),
+        {
+          ...tx("sell", 0, { "1": -BTC }, 20000),
+          time: Date.UTC(2025, 0, 1, 0, 30),
+        },
+      ],
+      "fifo",
+      "usd",
+      {}
+    );
+    expect(disposalsForYear(ledger, 2025)).toHaveLength(1);
+    expect(disposalsForYear(ledger, 2024)).toHaveLength(0);
+  });
+});
+
+describe("loadPortfolioTxs", () => {
+  const entry = (id: number, network?: "testnet"): TrackedEntry => ({
+    id,
+    address: `bc1qmock${id}`,
+    label: `Entry ${id}`,
+    group: "",
+    network,
+    balanceSats: 0,
+    lastTxTime: null,
+  });
+
+  it("reports each chain backend and the price source separately", async () => {
+    const mainnet = createMockProvider({ id: "mainnet-chain" });
+    const testnet = createMockProvider({ id: "testnet-chain" });
+    testnet.getAddressTxs = async () => {
+      throw new Error("testnet down");
+    };
+    const price = createMockPriceProvider({ id: "prices" });
+    const onProviderResult = vi.fn();
+
+    // Find an address with history so there is something to price
+    let id = 0;
+    while ((await mainnet.getAddressSummary(`bc1qmock${id}`)).txCount === 0) {
+      id++;
+    }
+    const txs = await loadPortfolioTxs(
+      (network) => (network === "testnet" ? testnet : mainnet),
+      price,
+      [entry(id)],
+      "usd",
+      undefined,
+      onProviderResult
+    );
+    expect(txs.length).toBeGreaterThan(0);
+    expect(txs.every((portfolioTx) => portfolioTx.price !== null)).toBe(true);
+    expect(onProviderResult.mock.calls).toEqual([
+      [mainnet],
+      [price, undefined],
+    ]);
+
+    onProviderResult.mockClear();
+    await expect(
+      loadPortfolioTxs(
+        (network) => (network === "testnet" ? testnet : mainnet),
+        price,
+        [entry(id, "testnet")],
+        "usd",
+        undefined,
+        onProviderResult
+      )
+    ).rejects.toThrow("testnet down");
+    expect(onProviderResult).toHaveBeenCalledExactlyOnceWith(
+      testnet,
+      expect.any(Error)
+    );
+  });
+});
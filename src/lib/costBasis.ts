@@ -0,0 +1,337 @@
+import type { ChainProvider, PriceProvider } from "./providers";
+import { classifyTx, fetchFullHistory } from "./transactions";
+import { getOwnAddresses, type TrackedEntry } from "./entries";
+import { entryNetwork, type BitcoinNetwork } from "./networks";
+import { toCsv } from "./csv";
+
+// --- Cost Basis & Tax Lots ---
+
+export type LotMethod = "fifo" | "lifo" | "hifo";
+
+export const LOT_METHODS: { id: LotMethod; name: string }[] = [
+  { id: "fifo", name: "FIFO" },
+  { id: "lifo", name: "LIFO" },
+  { id: "hifo", name: "HIFO" },
+];
+
+// Manually entered acquisition cost, keyed by `${entryId}:${txid}`
+export interface ManualCost {
+  fiat: number;
+  currency: string;
+}
+
+export const costKey = (entryId: number | string, txid: string) =>
+  `${entryId}:${txid}`;
+
+// One transaction as seen by the whole portfolio
+export interface PortfolioTx {
+  txid: string;
+  time: number; // ms; now for pending transactions
+  confirmed: boolean;
+  deltas: Record<string, number>; // Entry id -> net sats
+  fee: number | null; // Sats, when tracked inputs paid it
+  price: number | null; // Fiat per BTC on that day
+}
+
+export type CostSource = "manual" | "auto" | "unknown";
+
+export interface Lot {
+  entryId: string;
+  txid: string; // Acquiring transaction
+  acquiredAt: number;
+  sats: number;
+  cost: number; // Fiat
+  costSource: CostSource;
+}
+
+export interface Disposal {
+  entryId: string;
+  txid: string; // Spending transaction
+  acquiredTxid: string;
+  acquiredAt: number;
+  disposedAt: number;
+  sats: number;
+  proceeds: number;
+  cost: number;
+  gain: number;
+  longTerm: boolean;
+  costSource: CostSource;
+}
+
+export interface Ledger {
+  lots: Lot[]; // Still held
+  disposals: Disposal[];
+  missingPrices: number; // Transactions we couldn't price
+}
+
+const ONE_YEAR = 365 * 24 * 60 * 60 * 1000;
+
+// Loads complete history for every entry and merges it into portfolio-wide
+// transactions, priced in `currency` one day at a time. Each entry is looked
+// up on its own network's backend, and `onProviderResult` hears how each
+// backend and the price source fared.
+export const loadPortfolioTxs = async (
+  chainFor: (network: BitcoinNetwork) => ChainProvider,
+  price: PriceProvider,
+  entries: TrackedEntry[],
+  currency: string,
+  onProgress?: (message: string) => void,
+  onProviderResult?: (provider: { id: string }, error?: unknown) => void
+): Promise<PortfolioTx[]> => {
+  const byTxid = new Map<string, PortfolioTx>();
+
+  for (const entry of entries) {
+    onProgress?.(`Loading history for ${entry.label}...`);
+    const own = new Set(getOwnAddresses(entry));
+    const chain = chainFor(entryNetwork(entry));
+    let txs;
+    try {
+      txs = await fetchFullHistory(chain, [...own]);
+    } catch (error) {
+      onProviderResult?.(chain, error);
+      throw error;
+    }
+    onProviderResult?.(chain);
+    txs.forEach((tx) => {
+      const record = classifyTx(tx, own, own);
+      if (!byTxid.has(tx.txid)) {
+        byTxid.set(tx.txid, {
+          txid: tx.txid,
+          time: record.blockTime || Date.now(),
+          confirmed: record.confirmed,
+          deltas: {},
+          fee: null,
+          price: null,
+        });
+      }
+      const portfolioTx = byTxid.get(tx.txid)!;
+      portfolioTx.deltas[entry.id] = record.deltaSats;
+      if (record.feeSats !== null) portfolioTx.fee = record.feeSats;
+    });
+  }
+
+  const txs = [...byTxid.values()].sort((a, b) => a.time - b.time);
+  onProgress?.(`Pricing ${txs.length} transactions...`);
+  // Reported once for the whole run rather than per lookup
+  let priceError: unknown;
+  for (const tx of txs) {
+    try {
+      tx.price = await price.getHistoricalPrice(tx.time, currency);
+    } catch (error) {
+      console.error(`Error pricing ${tx.txid}:`, error);
+      priceError = error;
+    }
+  }
+  if (txs.length) onProviderResult?.(price, priceError);
+  return txs;
+};
+
+const sortLots = (lots: Lot[], method: LotMethod) =>
+  [...lots].sort((a, b) => {
+    if (method === "fifo") return a.acquiredAt - b.acquiredAt;
+    if (method === "lifo") return b.acquiredAt - a.acquiredAt;
+    return b.cost / b.sats - a.cost / a.sats; // hifo: priciest sats first
+  });
+
+// Splits a lot so `sats` can be taken from it
+const splitLot = (lot: Lot, sats: number): [Lot, Lot] => {
+  const share = sats / lot.sats;
+  return [
+    { ...lot, sats, cost: lot.cost * share },
+    { ...lot, sats: lot.sats - sats, cost: lot.cost * (1 - share) },
+  ];
+};
+
+// Walks every transaction in order. Spends pull lots from the spending
+// entry by `method`; sats that land in another tracked entry keep their
+// original cost and date, and only sats leaving the portfolio are disposals.
+export const buildLedger = (
+  txs: PortfolioTx[],
+  method: LotMethod,
+  currency: string,
+  manualCosts: Record<string, ManualCost>
+): Ledger => {
+  const pools = new Map<string, Lot[]>();
+  const disposals: Disposal[] = [];
+  let missingPrices = 0;
+
+  const take = (entryId: string, sats: number, tx: PortfolioTx) => {
+    let pool = sortLots(pools.get(entryId) || [], method);
+    const taken: Lot[] = [];
+    let remaining = sats;
+    while (remaining > 0 && pool.length > 0) {
+      const [lot, ...rest] = pool;
+      if (lot.sats <= remaining) {
+        taken.push(lot);
+        remaining -= lot.sats;
+        pool = rest;
+      } else {
+        const [piece, left] = splitLot(lot, remaining);
+        taken.push(piece);
+        pool = [left, ...rest];
+        remaining = 0;
+      }
+    }
+    // History we couldn't see (e.g. pruned or still loading): treat the
+    // shortfall as an unknown-cost lot rather than dropping it
+    if (remaining > 0) {
+      taken.push({
+        entryId,
+        txid: tx.txid,
+        acquiredAt: tx.time,
+        sats: remaining,
+        cost: 0,
+        costSource: "unknown",
+      });
+    }
+    pools.set(entryId, pool);
+    return taken;
+  };
+
+  const addLot = (lot: Lot) => {
+    pools.set(lot.entryId, [...(pools.get(lot.entryId) || []), lot]);
+  };
+
+  txs.forEach((tx) => {
+    if (tx.price === null) missingPrices++;
+    const entries = Object.entries(tx.deltas);
+    const sources = entries.filter(([, delta]) => delta < 0);
+    const destinations = entries.filter(([, delta]) => delta > 0);
+
+    let moving = sortLots(
+      sources.flatMap(([entryId, delta]) => take(entryId, -delta, tx)),
+      method
+    );
+    const received = destinations.reduce((acc, [, delta]) => acc + delta, 0);
+    const spent = moving.reduce((acc, lot) => acc + lot.sats, 0);
+
+    // Whatever doesn't reach another tracked entry left the portfolio
+    let toDispose = Math.max(0, spent - received);
+    while (toDispose > 0 && moving.length > 0) {
+      const [lot, ...rest] = moving;
+      const [piece, left] =
+        lot.sats <= toDispose ? [lot, null] : splitLot(lot, toDispose);
+      const proceeds = tx.price ? (piece.sats / 100000000) * tx.price : 0;
+      disposals.push({
+        entryId: piece.entryId,
+        txid: tx.txid,
+        acquiredTxid: piece.txid,
+        acquiredAt: piece.acquiredAt,
+        disposedAt: tx.time,
+        sats: piece.sats,
+        proceeds,
+        cost: piece.cost,
+        gain: proceeds - piece.cost,
+        longTerm: tx.time - piece.acquiredAt > ONE_YEAR,
+        costSource: piece.costSource,
+      });
+      toDispose -= piece.sats;
+      moving = left ? [left, ...rest] : rest;
+    }
+
+    destinations.forEach(([entryId, delta]) => {
+      let need = delta;
+      // Internal transfer: carry lots across with their basis
+      while (need > 0 && moving.length > 0) {
+        const [lot, ...rest] = moving;
+        const [piece, left] =
+          lot.sats <= need ? [lot, null] : splitLot(lot, need);
+        addLot({ ...piece, entryId });
+        need -= piece.sats;
+        moving = left ? [left, ...rest] : rest;
+      }
+      if (need <= 0) return;
+
+      // New money: a fresh acquisition
+      const manual = manualCosts[costKey(entryId, tx.txid)];
+      const useManual = manual && manual.currency === currency;
+      addLot({
+        entryId,
+        txid: tx.txid,
+        acquiredAt: tx.time,
+        sats: need,
+        cost: useManual
+          ? manual.fiat * (need / delta)
+          : tx.price
+          ? (need / 100000000) * tx.price
+          : 0,
+        costSource: useManual ? "manual" : tx.price ? "auto" : "unknown",
+      });
+    });
+  });
+
+  return {
+    lots: [...pools.values()].flat(),
+    disposals,
+    missingPrices,
+  };
+};
+
+export interface HoldingSummary {
+  sats: number;
+  cost: number;
+  value: number;
+  unrealized: number;
+}
+
+export const summarizeLots = (
+  lots: Lot[],
+  btcPrice: number | null,
+  keyOf: (lot: Lot) => string
+) => {
+  const summary: Record<string, HoldingSummary> = {};
+  lots.forEach((lot) => {
+    const key = keyOf(lot);
+    if (!summary[key])
+      summary[key] = { sats: 0, cost: 0, value: 0, unrealized: 0 };
+    const value = btcPrice ? (lot.sats / 100000000) * btcPrice : 0;
+    summary[key].sats += lot.sats;
+    summary[key].cost += lot.cost;
+    summary[key].value += value;
+    summary[key].unrealized += value - lot.cost;
+  });
+  return summary;
+};
+
+export const disposalsForYear = (ledger: Ledger, year: number) =>
+  ledger.disposals.filter(
+    (disposal) => new Date(disposal.disposedAt).getUTCFullYear() === year
+  );
+
+const isoDate = (timestamp: number) =>
+  new Date(timestamp).toISOString().slice(0, 10);
+
+// Columns follow IRS Form 8949 so the file drops into most tax tools
+export const disposalsToCsv = (
+  disposals: Disposal[],
+  labels: Record<string, string>,
+  currency: string
+) => {
+  const header = [
+    "Description",
+    "Date Acquired",
+    "Date Sold",
+    `Proceeds (${currency.toUpperCase()})`,
+    `Cost Basis (${currency.toUpperCase()})`,
+    `Gain or Loss (${currency.toUpperCase()})`,
+    "Term",
+    "Wallet",
+    "Acquired Txid",
+    "Disposed Txid",
+    "Cost Source",
+  ];
+  const rows = disposals.map((disposal) => [
+    `${(disposal.sats / 100000000).toFixed(8)} BTC`,
+    isoDate(disposal.acquiredAt),
+    isoDate(disposal.disposedAt),
+    disposal.proceeds.toFixed(2),
+    disposal.cost.toFixed(2),
+    disposal.gain.toFixed(2),
+    disposal.longTerm ? "Long" : "Short",
+    labels[disposal.entryId] || disposal.entryId,
+    disposal.acquiredTxid,
+    disposal.txid,
+    disposal.costSource,
+  ]);
+  return toCsv([header, ...rows]);
+};
@@ -0,0 +1,146 @@
+import { base64 } from "@scure/base";
+
+// --- Passphrase Encryption (WebCrypto) ---
+
+export interface EncryptedBlob {
+  kdf: "PBKDF2-SHA256";
+  iterations: number;
+  salt: string; // base64
+  cipher: "AES-GCM";
+  iv: string; // base64
+  data: string; // base64 ciphertext incl. GCM tag
+}
+
+// OWASP's current recommendation for PBKDF2-HMAC-SHA256
+export const PBKDF2_ITERATIONS = 600_000;
+
+export class DecryptionError extends Error {
+  constructor(message = "Wrong passphrase or corrupted data") {
+    super(message);
+    this.name = "DecryptionError";
+  }
+}
+
+const deriveKey = async (
+  passphrase: string,
+  salt: Uint8Array<ArrayBuffer>,
+  iterations: number
+) => {
+  const material = await crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(passphrase),
+    "PBKDF2",
+    false,
+    ["deriveKey"]
+  );
+  return crypto.subtle.deriveKey(
+    { name: "PBKDF2", hash: "SHA-256", salt, iterations },
+    material,
+    { name: "AES-GCM", length: 256 },
+    false,
+    ["encrypt", "decrypt"]
+  );
+};
+
+export const encryptString = async (
+  plaintext: string,
+  passphrase: string
+): Promise<EncryptedBlob> => {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const key = await deriveKey(passphrase, salt, PBKDF2_ITERATIONS);
+  const data = await crypto.subtle.encrypt(
+    { name: "AES-GCM", iv },
+    key,
+    new TextEncoder().encode(plaintext)
+  );
+  return {
+    kdf: "PBKDF2-SHA256",
+    iterations: PBKDF2_ITERATIONS,
+    salt: base64.encode(salt),
+    cipher: "AES-GCM",
+    iv: base64.encode(iv),
+    data: base64.encode(new Uint8Array(data)),
+  };
+};
+
+// Throws DecryptionError when the passphrase is wrong (GCM auth fails)
+export const decryptString = async (
+  blob: EncryptedBlob,
+  passphrase: string
+) => {
+  try {
+    const key = await deriveKey(
+      passphrase,
+      new Uint8Array(base64.decode(blob.salt)),
+      blob.iterations
+    );
+    const data = await crypto.subtle.decrypt(
+      { name: "AES-GCM", iv: new Uint8Array(base64.decode(blob.iv)) },
+      key,
+      new Uint8Array(base64.decode(blob.data))
+    );
+    return new TextDecoder().decode(data);
+  } catch {
+    // A wrong passphrase; DecryptionError says so to the caller
+    throw new DecryptionError();
+  }
+};
+
+export const isEncryptedBlob = (value: unknown): value is EncryptedBlob => {
+  const blob = value as EncryptedBlob;
+  return (
+    !!blob &&
+    typeof blob === "object" &&
+    blob.kdf === "PBKDF2-SHA256" &&
+    blob.cipher === "AES-GCM" &&
+    Number.isInteger(blob.iterations) &&
+    [blob.salt, blob.iv, blob.data].every((field) => typeof field === "string")
+  );
+};
+
+// --- Session Keys ---
+// The app lock derives its key once per unlock and keeps it in memory, so
+// saving a setting doesn't run PBKDF2 each time. Each value still gets its
+// own IV.
+
+export interface SealedValue {
+  iv: string; // base64
+  data: string; // base64 ciphertext incl. GCM tag
+}
+
+export const newSalt = () =>
+  base64.encode(crypto.getRandomValues(new Uint8Array(16)));
+
+export const deriveSessionKey = (
+  passphrase: string,
+  salt: string,
+  iterations = PBKDF2_ITERATIONS
+) => deriveKey(passphrase, new Uint8Array(base64.decode(salt)), iterations);
+
+export const seal = async (
+  plaintext: string,
+  key: CryptoKey
+): Promise<SealedValue> => {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const data = await crypto.subtle.encrypt(
+    { name: "AES-GCM", iv },
+    key,
+    new TextEncoder().encode(plaintext)
+  );
+  return { iv: base64.encode(iv), data: base64.encode(new Uint8Array(data)) };
+};
+
+// Throws DecryptionError when `key` isn't the one it was sealed with
+export const unseal = async (sealed: SealedValue, key: CryptoKey) => {
+  try {
+    const data = await crypto.subtle.decrypt(
+      { name: "AES-GCM", iv: new Uint8Array(base64.decode(sealed.iv)) },
+      key,
+      new Uint8Array(base64.decode(sealed.data))
+    );
+    return new TextDecoder().decode(data);
+  } catch {
+    throw new DecryptionError();
+  }
+};
@@ -0,0 +1,28 @@
+// --- Fiat Currencies ---
+
+export const SUPPORTED_CURRENCIES = [
+  "usd",
+  "eur",
+  "gbp",
+  "chf",
+  "cad",
+  "aud",
+  "jpy",
+] as const;
+
+export type Currency = (typeof SUPPORTED_CURRENCIES)[number];
+
+export const CURRENCY_NAMES: Record<Currency, string> = {
+  usd: "US Dollar",
+  eur: "Euro",
+  gbp: "British Pound",
+  chf: "Swiss Franc",
+  cad: "Canadian Dollar",
+  aud: "Australian Dollar",
+  jpy: "Japanese Yen",
+};
+
+export const DEFAULT_CURRENCY: Currency = "usd";
+
+export const isCurrency = (value: unknown): value is Currency =>
+  SUPPORTED_CURRENCIES.includes(value as Currency);
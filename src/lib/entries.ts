@@ -0,0 +1,39 @@
+import type { DerivedAddress, WalletDescriptor } from "./xpub";
+import type { BitcoinNetwork } from "./networks";
+import type { UnsettledTx } from "./pending";
+import type { LightningBalance, LightningNodeConfig } from "./providers";
+
+// --- Tracked Entries ---
+
+export interface TrackedEntry {
+  id: number;
+  kind?: "address" | "wallet" | "lightning"; // Missing on entries saved before wallets
+  address: string; // The address, the key/descriptor as entered, or node URL
+  label: string;
+  group: string;
+  notes?: string;
+  network?: BitcoinNetwork; // Missing on entries saved before networks; mainnet
+  balanceSats: number; // Confirmed plus mempool
+  confirmedSats?: number; // Missing on entries saved before it was tracked
+  unsettled?: UnsettledTx[]; // Pending and recently confirmed txs
+  lastTxTime: number | "pending" | null;
+  lastUpdated?: Date | string; // A string once it has round-tripped JSON;
+  // unset on imported entries that haven't been refreshed yet
+  // Wallet entries only
+  descriptor?: WalletDescriptor;
+  gapLimit?: number;
+  derived?: DerivedAddress[];
+  nextReceiveIndex?: number;
+  // Lightning entries only
+  lightning?: LightningNodeConfig;
+  lightningBalance?: LightningBalance;
+}
+
+// Addresses the entry itself owns: the address, or every used xpub address.
+// Lightning nodes don't expose their on-chain wallet's addresses.
+export const getOwnAddresses = (entry: TrackedEntry) =>
+  entry.kind === "wallet"
+    ? (entry.derived || []).map((derived) => derived.address)
+    : entry.kind === "lightning"
+    ? []
+    : [entry.address];
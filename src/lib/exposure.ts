@@ -0,0 +1,61 @@
+import type { Exposure } from "./providers";
+
+// --- Address Exposure Log ---
+// Which server has been asked about which address. Anything an endpoint
+// learned it can link to the IP it came from and to the other addresses it
+// saw, so this is the record of what each one could piece together.
+
+export interface ExposureRecord {
+  endpoint: string;
+  address: string;
+  firstSeen: number;
+  lastSeen: number;
+  requests: number;
+}
+
+// Oldest sightings drop off past this
+export const MAX_EXPOSURE_RECORDS = 2000;
+
+const recordKey = (endpoint: string, address: string) =>
+  `${endpoint} ${address}`;
+
+export const addExposures = (
+  records: ExposureRecord[],
+  exposures: Exposure[]
+) => {
+  const merged = new Map(
+    records.map((record) => [
+      recordKey(record.endpoint, record.address),
+      record,
+    ])
+  );
+  exposures.forEach(({ endpoint, address, at }) => {
+    const key = recordKey(endpoint, address);
+    const existing = merged.get(key);
+    merged.set(
+      key,
+      existing
+        ? {
+            ...existing,
+            lastSeen: Math.max(existing.lastSeen, at),
+            requests: existing.requests + 1,
+          }
+        : { endpoint, address, firstSeen: at, lastSeen: at, requests: 1 }
+    );
+  });
+  return [...merged.values()]
+    .sort((a, b) => b.lastSeen - a.lastSeen)
+    .slice(0, MAX_EXPOSURE_RECORDS);
+};
+
+// Endpoints with the most addresses first
+export const exposuresByEndpoint = (records: ExposureRecord[]) => {
+  const byEndpoint = new Map<string, ExposureRecord[]>();
+  records.forEach((record) =>
+    byEndpoint.set(record.endpoint, [
+      ...(byEndpoint.get(record.endpoint) || []),
+      record,
+    ])
+  );
+  return [...byEndpoint.entries()].sort((a, b) => b[1].length - a[1].length);
+};
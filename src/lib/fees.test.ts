@@ -0,0 +1,136 @@
+import { describe, expect, it } from "vitest";
+import {
+  FEE_SAMPLE_INTERVAL,
+  MAX_FEE_SAMPLES,
+  addFeeSample,
+  adviseConsolidation,
+  estimateVbytes,
+  planSpend,
+  type FeeSample,
+} from "./fees";
+import type { FeeRates } from "./providers";
+import type { UtxoRecord } from "./utxos";
+
+const fees = (hourFee: number, halfHourFee = 10): FeeRates => ({
+  fastestFee: 20,
+  halfHourFee,
+  hourFee,
+  economyFee: 2,
+  minimumFee: 1,
+});
+
+const utxo = (vout: number, value = 100000): UtxoRecord => ({
+  txid: "ab".repeat(32),
+  vout,
+  value,
+  address: "bc1qcr8te4kr609gcawutmrza0j4xv80jy8z306fyu",
+  entryId: 1,
+  network: "mainnet",
+  confirmed: true,
+  blockHeight: 850000,
+  blockTime: 1700000000000,
+  scriptType: "p2wpkh",
+});
+
+const UTXOS = [utxo(0), utxo(1), utxo(2)];
+
+// A day's worth of samples with the medium rate at `halfHourFee`
+const history = (halfHourFee: number): FeeSample[] =>
+  Array.from({ length: 24 }, (_, i) => ({
+    at: i * FEE_SAMPLE_INTERVAL,
+    fastestFee: halfHourFee * 2,
+    halfHourFee,
+    hourFee: halfHourFee,
+    economyFee: 1,
+  }));
+
+describe("planSpend", () => {
+  it("prices a sweep into one output at every tier", () => {
+    // 11 overhead + 3 × 68 P2WPKH inputs + one 31 vB output
+    expect(estimateVbytes(UTXOS, "p2wpkh")).toBe(246);
+    expect(estimateVbytes(UTXOS, "p2tr", 2)).toBe(11 + 204 + 86);
+
+    const plan = planSpend(UTXOS, fees(5), "p2wpkh");
+    expect(plan.map(({ tier, fee }) => [tier, fee])).toEqual([
+      ["fastestFee", 4920],
+      ["halfHourFee", 2460],
+      ["hourFee", 1230],
+      ["economyFee", 492],
+    ]);
+    expect(plan[0].percent).toBeCloseTo(1.64);
+  });
+
+  it("reports no percentage for an empty selection", () => {
+    expect(planSpend([], fees(5), "p2wpkh")[0].percent).toBe(0);
+  });
+});
+
+describe("adviseConsolidation", () => {
+  it("recommends consolidating when fees are well under the usual rate", () => {
+    const advice = adviseConsolidation(UTXOS, fees(2), history(20), "p2wpkh");
+    expect(advice).toMatchObject({
+      recommended: true,
+      nowRate: 2,
+      typicalRate: 20,
+      fee: 492,
+      // 204 vB of inputs at 20, less the sweep now and one input later
+      savings: 4080 - 492 - 1360,
+    });
+  });
+
+  it("waits when fees are near their usual level", () => {
+    const advice = adviseConsolidation(UTXOS, fees(16), history(30), "p2wpkh");
+    expect(advice.savings).toBeGreaterThan(0);
+    expect(advice.recommended).toBe(false);
+    expect(advice.reason).toMatch(/near their usual level/);
+  });
+
+  it("never recommends it when it costs more than it saves", () => {
+    const advice = adviseConsolidation(UTXOS, fees(20), history(20), "p2wpkh");
+    expect(advice.savings).toBeLessThanOrEqual(0);
+    expect(advice.recommended).toBe(false);
+  });
+
+  it("only trusts absolutely low fees without enough history", () => {
+    const unsure = adviseConsolidation(UTXOS, fees(4), [], "p2wpkh");
+    expect(unsure.typicalRate).toBe(10);
+    expect(unsure.recommended).toBe(false);
+    expect(unsure.reason).toMatch(/Not enough fee history/);
+
+    expect(adviseConsolidation(UTXOS, fees(2), [], "p2wpkh").recommended).toBe(
+      true
+    );
+  });
+
+  it("needs at least two UTXOs", () => {
+    const advice = adviseConsolidation(
+      [utxo(0)],
+      fees(1),
+      history(50),
+      "p2wpkh"
+    );
+    expect(advice.recommended).toBe(false);
+  });
+});
+
+describe("addFeeSample", () => {
+  it("keeps one sample per interval, up to a week", () => {
+    const first = addFeeSample([], fees(5), 0);
+    expect(first).toHaveLength(1);
+    expect(addFeeSample(first, fees(6), FEE_SAMPLE_INTERVAL - 1)).toBe(first);
+    expect(addFeeSample(first, fees(6), FEE_SAMPLE_INTERVAL)).toHaveLength(2);
+
+    const full = Array.from({ length: MAX_FEE_SAMPLES }, (_, i) => ({
+      ...history(1)[0],
+      at: i * FEE_SAMPLE_INTERVAL,
+    }));
+    const next = addFeeSample(
+      full,
+      fees(7),
+      MAX_FEE_SAMPLES * FEE_SAMPLE_INTERVAL
+    );
+    expect(next).toHaveLength(MAX_FEE_SAMPLES);
+    expect(next[next.length - 1].hourFee).toBe(7);
+    expect(next[0].at).toBe(FEE_SAMPLE_INTERVAL);
+  });
+});
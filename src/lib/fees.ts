@@ -0,0 +1,164 @@
+import type { FeeRates } from "./providers";
+import type { AddressType } from "./address";
+import { INPUT_VBYTES, type UtxoRecord } from "./utxos";
+
+// --- Fee Planner ---
+
+export type FeeTier = "fastestFee" | "halfHourFee" | "hourFee" | "economyFee";
+
+export const FEE_TIERS: { id: FeeTier; name: string }[] = [
+  { id: "fastestFee", name: "High Priority" },
+  { id: "halfHourFee", name: "Medium" },
+  { id: "hourFee", name: "Low" },
+  { id: "economyFee", name: "Economy" },
+];
+
+export interface FeeSample extends Record<FeeTier, number> {
+  at: number;
+}
+
+// One sample per 10 minutes for a week; refreshes in between are dropped
+export const FEE_SAMPLE_INTERVAL = 10 * 60 * 1000;
+export const MAX_FEE_SAMPLES = 7 * 24 * 6;
+
+export const addFeeSample = (
+  history: FeeSample[],
+  fees: FeeRates,
+  now = Date.now()
+) => {
+  const last = history[history.length - 1];
+  if (last && now - last.at < FEE_SAMPLE_INTERVAL) return history;
+  const sample: FeeSample = {
+    at: now,
+    fastestFee: fees.fastestFee,
+    halfHourFee: fees.halfHourFee,
+    hourFee: fees.hourFee,
+    economyFee: fees.economyFee,
+  };
+  return [...history, sample].slice(-MAX_FEE_SAMPLES);
+};
+
+// Version, locktime, counts and the segwit marker, rounded up
+const TX_OVERHEAD_VBYTES = 11;
+
+export const OUTPUT_VBYTES: Record<AddressType, number> = {
+  p2pkh: 34,
+  p2sh: 32,
+  p2wpkh: 31,
+  p2wsh: 43,
+  p2tr: 43,
+};
+
+export const estimateVbytes = (
+  utxos: UtxoRecord[],
+  outputType: AddressType,
+  outputs = 1
+) =>
+  TX_OVERHEAD_VBYTES +
+  utxos.reduce(
+    (acc, curr) => acc + INPUT_VBYTES[curr.scriptType ?? "p2pkh"],
+    0
+  ) +
+  OUTPUT_VBYTES[outputType] * outputs;
+
+export interface TierEstimate {
+  tier: FeeTier;
+  feeRate: number;
+  vbytes: number;
+  fee: number;
+  percent: number; // Of the value spent
+}
+
+// Sweeping `utxos` into a single output at each fee tier
+export const planSpend = (
+  utxos: UtxoRecord[],
+  fees: FeeRates,
+  outputType: AddressType
+): TierEstimate[] => {
+  const vbytes = estimateVbytes(utxos, outputType);
+  const value = utxos.reduce((acc, curr) => acc + curr.value, 0);
+  return FEE_TIERS.map(({ id }) => {
+    const fee = Math.ceil(vbytes * fees[id]);
+    return {
+      tier: id,
+      feeRate: fees[id],
+      vbytes,
+      fee,
+      percent: value ? (fee / value) * 100 : 0,
+    };
+  });
+};
+
+const median = (values: number[]) => {
+  if (!values.length) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+export interface ConsolidationAdvice {
+  recommended: boolean;
+  reason: string;
+  nowRate: number;
+  typicalRate: number;
+  fee: number; // To consolidate now
+  savings: number; // Versus spending the inputs separately at the typical rate
+}
+
+// Consolidating pays off when fees now are well under what we usually see:
+// the inputs get spent cheaply today instead of expensively later
+export const adviseConsolidation = (
+  utxos: UtxoRecord[],
+  fees: FeeRates,
+  history: FeeSample[],
+  outputType: AddressType
+): ConsolidationAdvice => {
+  const nowRate = fees.hourFee;
+  // Until a few hours of samples exist, compare against today's medium rate
+  // and only call fees low when they are low in absolute terms
+  const enoughHistory = history.length >= 24;
+  const typicalRate = enoughHistory
+    ? median(history.map((sample) => sample.halfHourFee))!
+    : fees.halfHourFee;
+
+  const inputVbytes =
+    estimateVbytes(utxos, outputType) - estimateVbytes([], outputType);
+  const fee = Math.ceil(estimateVbytes(utxos, outputType) * nowRate);
+  const laterSingle = Math.ceil(INPUT_VBYTES[outputType] * typicalRate);
+  const savings = Math.ceil(inputVbytes * typicalRate) - (fee + laterSingle);
+
+  const base = { nowRate, typicalRate, fee, savings };
+  if (utxos.length < 2) {
+    return {
+      ...base,
+      recommended: false,
+      reason: "Nothing to consolidate with fewer than two UTXOs.",
+    };
+  }
+  if (savings <= 0) {
+    return {
+      ...base,
+      recommended: false,
+      reason: `At ${nowRate} sat/vB consolidating costs more than it saves against the typical ${typicalRate} sat/vB.`,
+    };
+  }
+  if (!enoughHistory && nowRate > 3) {
+    return {
+      ...base,
+      recommended: false,
+      reason: `Not enough fee history yet to tell if ${nowRate} sat/vB is cheap. Consolidating now would save about ${savings.toLocaleString()} sats if fees stay at ${typicalRate} sat/vB.`,
+    };
+  }
+  if (enoughHistory && nowRate > typicalRate / 2 && nowRate > 2) {
+    return {
+      ...base,
+      recommended: false,
+      reason: `Fees are near their usual level (${nowRate} vs ${typicalRate} sat/vB). Waiting for a quieter mempool saves more.`,
+    };
+  }
+  return {
+    ...base,
+    recommended: true,
+    reason: `Fees are low (${nowRate} vs a typical ${typicalRate} sat/vB). Consolidating now saves about ${savings.toLocaleString()} sats in future fees.`,
+  };
+};
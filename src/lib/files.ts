@@ -0,0 +1,13 @@
+// --- File Helpers ---
+
+export const downloadFile = (content: string, filename: string, mimeType: string) => {
+  const dataStr = `data:${mimeType};charset=utf-8,${encodeURIComponent(
+    content
+  )}`;
+  const downloadAnchorNode = document.createElement("a");
+  downloadAnchorNode.setAttribute("href", dataStr);
+  downloadAnchorNode.setAttribute("download", filename);
+  document.body.appendChild(downloadAnchorNode);
+  downloadAnchorNode.click();
+  downloadAnchorNode.remove();
+};
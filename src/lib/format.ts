@@ -0,0 +1,44 @@
+import type { Currency } from "./currency";
+
+// --- Formatting Helpers ---
+
+export const formatSats = (sats: number) => {
+  return (sats / 100000000).toLocaleString("en-US", {
+    minimumFractionDigits: 8,
+    maximumFractionDigits: 8,
+  });
+};
+
+// Intl formatters are expensive to build and these run on every render
+const fiatFormatters = new Map<string, Intl.NumberFormat>();
+
+// Formats in the browser's locale, so EUR reads "1.234,56 €" in Germany and
+// "€1,234.56" in Ireland
+export const formatFiat = (
+  val: number,
+  currency: Currency,
+  { compact = false }: { compact?: boolean } = {}
+) => {
+  const key = `${currency}:${compact}`;
+  if (!fiatFormatters.has(key)) {
+    fiatFormatters.set(
+      key,
+      new Intl.NumberFormat(undefined, {
+        style: "currency",
+        currency: currency.toUpperCase(),
+        ...(compact ? { notation: "compact", maximumFractionDigits: 1 } : {}),
+      })
+    );
+  }
+  return fiatFormatters.get(key)!.format(val);
+};
+
+export const formatDate = (timestamp: number | "pending" | null) => {
+  if (!timestamp) return "Never";
+  if (timestamp === "pending") return "Pending...";
+  return new Date(timestamp).toLocaleDateString(undefined, {
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+  });
+};
@@ -0,0 +1,71 @@
+import type { TrackedEntry } from "./entries";
+import type { AlertRule } from "./alerts";
+
+// --- Address Groups ---
+
+export interface GroupDef {
+  name: string;
+  color: string; // Hex
+}
+
+export const GROUP_COLORS = [
+  "#F7931A",
+  "#3B82F6",
+  "#10B981",
+  "#8B5CF6",
+  "#EC4899",
+  "#EAB308",
+  "#06B6D4",
+  "#EF4444",
+  "#6B7280",
+];
+
+// The groups every install started with
+export const DEFAULT_GROUPS: GroupDef[] = [
+  { name: "General", color: "#6B7280" },
+  { name: "Savings", color: "#10B981" },
+  { name: "Cold Storage", color: "#3B82F6" },
+  { name: "Hot Wallet", color: "#F7931A" },
+  { name: "Exchange", color: "#8B5CF6" },
+];
+
+// Groups can also come from imports and backups without a definition
+export const groupColor = (groups: GroupDef[], name: string) =>
+  groups.find((group) => group.name === name)?.color ?? "#6B7280";
+
+// Adds definitions for groups that entries use but the list is missing
+export const withEntryGroups = (
+  groups: GroupDef[],
+  entries: TrackedEntry[]
+) => {
+  const missing = [...new Set(entries.map((entry) => entry.group))].filter(
+    (name) => name && !groups.some((group) => group.name === name)
+  );
+  if (!missing.length) return groups;
+  return [
+    ...groups,
+    ...missing.map((name, i) => ({
+      name,
+      color: GROUP_COLORS[(groups.length + i) % GROUP_COLORS.length],
+    })),
+  ];
+};
+
+// Renaming carries the entries and any group-scoped alert rules along
+export const renameGroup = (
+  from: string,
+  to: string,
+  state: { groups: GroupDef[]; entries: TrackedEntry[]; rules: AlertRule[] }
+) => ({
+  groups: state.groups.map((group) =>
+    group.name === from ? { ...group, name: to } : group
+  ),
+  entries: state.entries.map((entry) =>
+    entry.group === from ? { ...entry, group: to } : entry
+  ),
+  rules: state.rules.map((rule) =>
+    rule.scope === "group" && rule.target === from
+      ? { ...rule, target: to }
+      : rule
+  ),
+});
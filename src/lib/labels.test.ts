@@ -0,0 +1,173 @@
+import { describe, expect, it } from "vitest";
+import type { TrackedEntry } from "./entries";
+import {
+  applyLabels,
+  entriesToBip329,
+  entriesToCsv,
+  parseBip329,
+  parseLabelCsv,
+} from "./labels";
+
+const SEGWIT = "bc1qcr8te4kr609gcawutmrza0j4xv80jy8z306fyu";
+const TESTNET =
+  "tb1qrp33g0q5c5txsp9arysrx4k6zdkfs4nce4xj0gdcccefvpysxf3q0sl5k7";
+const ZPUB =
+  "zpub6rFR7y4Q2AijBEqTUquhVz398htDFrtymD9xYYfG1m4wAcvPhXNfE3EfH1r1ADqtfSdVCToUG868RvUUkgDKf31mGDtKsAYz2oz2AGutZYs";
+
+const entry = (
+  id: number,
+  address: string,
+  extra: Partial<TrackedEntry> = {}
+): TrackedEntry => ({
+  id,
+  kind: "address",
+  address,
+  label: `Entry ${id}`,
+  group: "Savings",
+  balanceSats: 150000000,
+  lastTxTime: null,
+  ...extra,
+});
+
+describe("parseBip329", () => {
+  it("reads address and xpub labels and counts the rest as ignored", () => {
+    const parsed = parseBip329(
+      [
+        JSON.stringify({ type: "addr", ref: ` ${SEGWIT} `, label: "Cold" }),
+        "",
+        JSON.stringify({ type: "xpub", ref: ZPUB, label: "Wallet" }),
+        JSON.stringify({ type: "tx", ref: "ab".repeat(32), label: "Rent" }),
+        JSON.stringify({ type: "addr", ref: SEGWIT }),
+        "{broken",
+        JSON.stringify({ type: "addr", label: "No ref" }),
+      ].join("\r\n")
+    );
+    expect(parsed.labels).toEqual([
+      { line: 1, ref: SEGWIT, label: "Cold" },
+      { line: 3, ref: ZPUB, label: "Wallet" },
+      { line: 5, ref: SEGWIT, label: "" },
+    ]);
+    expect(parsed.ignored).toBe(1);
+    expect(parsed.issues).toEqual([
+      { line: 6, message: "not valid JSON" },
+      { line: 7, message: "missing type or ref" },
+    ]);
+  });
+
+  it("round-trips entries, leaving Lightning nodes out", () => {
+    const entries = [
+      entry(1, SEGWIT),
+      entry(2, `wpkh(${ZPUB})`, {
+        kind: "wallet",
+        label: "Wallet",
+        descriptor: {
+          key: ZPUB,
+          scriptType: "p2wpkh",
+          network: "mainnet",
+          fingerprint: null,
+          originPath: null,
+          chains: [0, 1],
+        },
+      }),
+      entry(3, "https://node.local", { kind: "lightning" }),
+    ];
+    expect(parseBip329(entriesToBip329(entries)).labels).toEqual([
+      { line: 1, ref: SEGWIT, label: "Entry 1" },
+      { line: 2, ref: ZPUB, label: "Wallet" },
+    ]);
+  });
+});
+
+describe("parseLabelCsv", () => {
+  it("reads address, label and group columns in any order", () => {
+    const parsed = parseLabelCsv(
+      [
+        "Label,Address,Group,Balance",
+        `"Cold, offsite",${SEGWIT},Savings,1.5`,
+        "Orphan,,,",
+        `Spending,${TESTNET},,0`,
+      ].join("\n")
+    );
+    expect(parsed.labels).toEqual([
+      { line: 2, ref: SEGWIT, label: "Cold, offsite", group: "Savings" },
+      { line: 4, ref: TESTNET, label: "Spending", group: "" },
+    ]);
+    expect(parsed.issues).toEqual([{ line: 3, message: "empty address" }]);
+  });
+
+  it("needs an address column", () => {
+    expect(parseLabelCsv("label,group\nCold,Savings").issues).toEqual([
+      { line: 1, message: 'header needs an "address" column' },
+    ]);
+  });
+
+  it("reads back what entriesToCsv writes", () => {
+    const entries = [entry(1, SEGWIT, { label: 'Say "hi"' })];
+    expect(parseLabelCsv(entriesToCsv(entries)).labels).toEqual([
+      { line: 2, ref: SEGWIT, label: 'Say "hi"', group: "Savings" },
+    ]);
+  });
+});
+
+describe("applyLabels", () => {
+  it("relabels tracked entries, keeping what the file leaves blank", () => {
+    const result = applyLabels(
+      [entry(1, SEGWIT)],
+      [
+        { line: 1, ref: SEGWIT.toUpperCase(), label: "Cold", group: "" },
+        { line: 2, ref: SEGWIT, label: "", group: "Vault" },
+      ],
+      "Imported"
+    );
+    expect(result.updated).toBe(2);
+    expect(result.added).toBe(0);
+    expect(result.addresses).toEqual([
+      entry(1, SEGWIT, { label: "Cold", group: "Vault" }),
+    ]);
+  });
+
+  it("adds new addresses and wallets on the preferred network", () => {
+    const result = applyLabels(
+      [],
+      [
+        { line: 1, ref: TESTNET, label: "Faucet" },
+        { line: 2, ref: ZPUB, label: "" },
+      ],
+      "Imported",
+      "signet"
+    );
+    expect(result.added).toBe(2);
+    expect(result.addresses).toEqual([
+      expect.objectContaining({
+        kind: "address",
+        address: TESTNET,
+        label: "Faucet",
+        group: "Imported",
+        network: "signet",
+        balanceSats: 0,
+      }),
+      expect.objectContaining({
+        kind: "wallet",
+        address: ZPUB,
+        label: "Imported",
+        network: "mainnet",
+        gapLimit: 20,
+        descriptor: expect.objectContaining({ key: ZPUB }),
+      }),
+    ]);
+  });
+
+  it("reports refs that are neither addresses nor keys", () => {
+    const result = applyLabels(
+      [],
+      [
+        { line: 4, ref: "bc1qnotreal", label: "Typo" },
+        { line: 5, ref: `${ZPUB.slice(0, -1)}t`, label: "Bad key" },
+      ],
+      "Imported"
+    );
+    expect(result.added).toBe(0);
+    expect(result.issues.map((issue) => issue.line)).toEqual([4, 5]);
+    expect(result.issues[0].message).toMatch(/^bc1qnotreal: /);
+  });
+});
@@ -0,0 +1,225 @@
+import type { TrackedEntry } from "./entries";
+import { parseCsv, toCsv } from "./csv";
+import { getAddressInfo, parseAddress } from "./address";
+import { NETWORKS, networkForAddress, type BitcoinNetwork } from "./networks";
+import {
+  DEFAULT_GAP_LIMIT,
+  isExtendedKeyInput,
+  parseWalletInput,
+} from "./xpub";
+
+// --- Label Import/Export (BIP-329 & CSV) ---
+
+// One label from a file: an address, or an xpub/descriptor for wallets
+export interface ImportedLabel {
+  line: number; // In the source file, for error messages
+  ref: string;
+  label: string;
+  group?: string;
+}
+
+export interface LabelIssue {
+  line: number;
+  message: string;
+}
+
+export interface ParsedLabels {
+  labels: ImportedLabel[];
+  issues: LabelIssue[];
+  ignored: number; // Valid records we don't track (tx, output, ...)
+}
+
+// BIP-329: one JSON object per line, {type, ref, label, ...}
+export const entriesToBip329 = (entries: TrackedEntry[]) =>
+  entries
+    .filter((entry) => entry.kind !== "lightning") // No BIP-329 type for nodes
+    .map((entry) =>
+      JSON.stringify(
+        entry.kind === "wallet"
+          ? {
+              type: "xpub",
+              ref: entry.descriptor?.key ?? entry.address,
+              label: entry.label,
+            }
+          : { type: "addr", ref: entry.address, label: entry.label }
+      )
+    )
+    .join("\n");
+
+export const parseBip329 = (text: string): ParsedLabels => {
+  const labels: ImportedLabel[] = [];
+  const issues: LabelIssue[] = [];
+  let ignored = 0;
+
+  text.split(/\r?\n/).forEach((raw, i) => {
+    const line = raw.trim();
+    if (!line) return;
+    let record;
+    try {
+      record = JSON.parse(line);
+    } catch {
+      issues.push({ line: i + 1, message: "not valid JSON" });
+      return;
+    }
+    if (typeof record?.type !== "string" || typeof record.ref !== "string") {
+      issues.push({ line: i + 1, message: "missing type or ref" });
+      return;
+    }
+    if (record.type !== "addr" && record.type !== "xpub") {
+      ignored++;
+      return;
+    }
+    labels.push({
+      line: i + 1,
+      ref: record.ref.trim(),
+      label: typeof record.label === "string" ? record.label : "",
+    });
+  });
+
+  return { labels, issues, ignored };
+};
+
+const CSV_HEADER = ["address", "label", "group", "balance", "last_activity"];
+
+export const entriesToCsv = (entries: TrackedEntry[]) =>
+  toCsv([
+    CSV_HEADER,
+    ...entries.map((entry) => [
+      entry.address,
+      entry.label,
+      entry.group,
+      (entry.balanceSats / 100000000).toFixed(8),
+      typeof entry.lastTxTime === "number"
+        ? new Date(entry.lastTxTime).toISOString()
+        : entry.lastTxTime || "",
+    ]),
+  ]);
+
+// Needs an `address` column; label and group are optional. Balance and
+// activity columns are ignored since we fetch those ourselves.
+export const parseLabelCsv = (text: string): ParsedLabels => {
+  const [header, ...rows] = parseCsv(text);
+  const columns = (header || []).map((cell) => cell.trim().toLowerCase());
+  const col = (name: string) => columns.indexOf(name);
+  if (col("address") === -1) {
+    return {
+      labels: [],
+      issues: [{ line: 1, message: 'header needs an "address" column' }],
+      ignored: 0,
+    };
+  }
+
+  const labels: ImportedLabel[] = [];
+  const issues: LabelIssue[] = [];
+  rows.forEach((row, i) => {
+    const ref = (row[col("address")] || "").trim();
+    if (!ref) {
+      issues.push({ line: i + 2, message: "empty address" });
+      return;
+    }
+    labels.push({
+      line: i + 2,
+      ref,
+      label: col("label") === -1 ? "" : (row[col("label")] || "").trim(),
+      group: col("group") === -1 ? undefined : (row[col("group")] || "").trim(),
+    });
+  });
+  return { labels, issues, ignored: 0 };
+};
+
+export interface LabelMergeResult {
+  addresses: TrackedEntry[];
+  updated: number;
+  added: number;
+  issues: LabelIssue[];
+}
+
+// Relabels entries we already track and adds the rest with a zero balance
+// for the next refresh to fill in. Label files don't record the network, so
+// test-format refs land on `preferredNetwork` when it fits.
+export const applyLabels = (
+  entries: TrackedEntry[],
+  labels: ImportedLabel[],
+  defaultGroup: string,
+  preferredNetwork: BitcoinNetwork = "mainnet"
+): LabelMergeResult => {
+  const addresses = [...entries];
+  const issues: LabelIssue[] = [];
+  let updated = 0;
+  let added = 0;
+  let nextId = Date.now();
+
+  labels.forEach((imported) => {
+    const ref = getAddressInfo(imported.ref)?.address ?? imported.ref;
+    const index = addresses.findIndex(
+      (entry) =>
+        entry.address === ref ||
+        getAddressInfo(entry.address)?.address === ref ||
+        entry.descriptor?.key === ref
+    );
+    if (index !== -1) {
+      const entry = addresses[index];
+      addresses[index] = {
+        ...entry,
+        label: imported.label || entry.label,
+        group: imported.group || entry.group,
+      };
+      updated++;
+      return;
+    }
+
+    const base = {
+      id: nextId++,
+      address: imported.ref,
+      label: imported.label || "Imported",
+      group: imported.group || defaultGroup,
+      balanceSats: 0,
+      lastTxTime: null,
+    };
+    if (isExtendedKeyInput(imported.ref)) {
+      try {
+        const parsed = parseWalletInput(imported.ref);
+        const network = networkForAddress(parsed.network, preferredNetwork);
+        addresses.push({
+          ...base,
+          kind: "wallet",
+          network,
+          descriptor: {
+            ...parsed,
+            network: NETWORKS[network].addressNetwork,
+          },
+          gapLimit: DEFAULT_GAP_LIMIT,
+          derived: [],
+          nextReceiveIndex: 0,
+        });
+      } catch (error) {
+        issues.push({
+          line: imported.line,
+          message: `${imported.ref.slice(0, 16)}...: ${
+            (error as Error).message
+          }`,
+        });
+        return;
+      }
+    } else {
+      try {
+        const info = parseAddress(imported.ref);
+        addresses.push({
+          ...base,
+          address: info.address,
+          kind: "address",
+          network: networkForAddress(info.network, preferredNetwork),
+        });
+      } catch (error) {
+        issues.push({
+          line: imported.line,
+          message: `${imported.ref}: ${(error as Error).message}`,
+        });
+        return;
+      }
+    }
+    added++;
+  });
+
+  return { addresses, updated, added, issues };
+};
@@ -0,0 +1,27 @@
+// --- Privacy Levels ---
+// "blur" softens fiat amounts for a glance over the shoulder; "strict"
+// replaces anything identifying outright: addresses, labels, notes and
+// BTC amounts as well.
+
+export type PrivacyLevel = "off" | "blur" | "strict";
+
+export const PRIVACY_LEVELS: PrivacyLevel[] = ["off", "blur", "strict"];
+
+export const PRIVACY_LEVEL_NAMES: Record<PrivacyLevel, string> = {
+  off: "Privacy Off",
+  blur: "Blur Amounts",
+  strict: "Strict Privacy",
+};
+
+// Saves from before the strict level held an on/off boolean
+export const toPrivacyLevel = (value: unknown): PrivacyLevel =>
+  value === true
+    ? "blur"
+    : PRIVACY_LEVELS.includes(value as PrivacyLevel)
+    ? (value as PrivacyLevel)
+    : "off";
+
+export const nextPrivacyLevel = (level: PrivacyLevel) =>
+  PRIVACY_LEVELS[(PRIVACY_LEVELS.indexOf(level) + 1) % PRIVACY_LEVELS.length];
+
+export const MASK = "••••••";
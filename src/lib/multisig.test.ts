@@ -0,0 +1,139 @@
+import { describe, expect, it } from "vitest";
+import { parseMultisigConfig } from "./multisig";
+import { deriveAddresses, parseWalletInput } from "./xpub";
+
+// Account 0 of the BIP 44/49/84 "abandon ... about" keys, all as xpubs
+const A =
+  "xpub6BosfCnifzxcFwrSzQiqu2DBVTshkCXacvNsWGYJVVhhawA7d4R5WSWGFNbi8Aw6ZRc1brxMyWMzG3DSSSSoekkudhUd9yLb6qx39T9nMdj";
+const B =
+  "xpub6C6nQwHaWbSrzs5tZ1q7m5R9cPK9eYpNMFesiXsYrgc1P8bvLLAet9JfHjYXKjToD8cBRswJXXbbFpXgwsswVPAZzKMa1jUp2kVkGVUaJa7";
+const C =
+  "xpub6CatWdiZiodmUeTDp8LT5or8nmbKNcuyvz7WyksVFkKB4RHwCD3XyuvPEbvqAQY3rAPshWcMLoP2fMFMKHPJ4ZeZXYVUhLv1VMrjPC7PW6V";
+
+// wsh(sortedmulti(2,A,B,C)), checked against an independent implementation
+const SORTED_RECEIVE = [
+  "bc1qkfhl4j640ujzldlt5ppylyp2f8h343xf79z5qh9kfgw2x0ejlvuqkd26cl",
+  "bc1q0ndnght75tl36md24w9u7ur8n8urzxxw2ak86u7l9rkkmfyc2q9q5qqn38",
+];
+const SORTED_CHANGE = [
+  "bc1q7s0ftueakqpu6qr2ueycnle0g5jm96u7wf3uvtvxgh8kmyrts4lsrnv2ar",
+];
+
+const receiveAddresses = (descriptor: string) =>
+  deriveAddresses(parseWalletInput(descriptor), 0, 0, 2);
+
+describe("sortedmulti derivation", () => {
+  it("matches the 2-of-3 vector whatever order the keys are listed in", () => {
+    expect(receiveAddresses(`wsh(sortedmulti(2,${A},${B},${C}))`)).toEqual(
+      SORTED_RECEIVE
+    );
+    expect(receiveAddresses(`wsh(sortedmulti(2,${C},${A},${B}))`)).toEqual(
+      SORTED_RECEIVE
+    );
+    expect(
+      deriveAddresses(
+        parseWalletInput(`wsh(sortedmulti(2,${A},${B},${C}))`),
+        1,
+        0,
+        1
+      )
+    ).toEqual(SORTED_CHANGE);
+  });
+
+  it("keeps the listed order for plain multi", () => {
+    expect(receiveAddresses(`wsh(multi(2,${C},${B},${A}))`)).toEqual([
+      SORTED_RECEIVE[0], // Happens to be sorted already
+      "bc1qs04g79exhlxf58ksykap6ch8pmtyxgg80f25p533430f35qfsmgqc4mzh6",
+    ]);
+  });
+});
+
+describe("parseMultisigConfig", () => {
+  it("reads a Caravan config", () => {
+    const config = parseMultisigConfig(
+      JSON.stringify({
+        name: "Vault",
+        addressType: "P2WSH",
+        network: "mainnet",
+        quorum: { requiredSigners: 2, totalSigners: 3 },
+        extendedPublicKeys: [A, B, C].map((xpub, i) => ({
+          name: `Key ${i + 1}`,
+          xpub,
+          bip32Path: "m/48'/0'/0'/2'",
+          xfp: ["73C5DA0A", "0f056943", "nope"][i],
+        })),
+      })
+    );
+    expect(config.name).toBe("Vault");
+    expect(config.descriptor).toBe(
+      `wsh(sortedmulti(2,[73c5da0a/48h/0h/0h/2h]${A}/<0;1>/*,` +
+        `[0f056943/48h/0h/0h/2h]${B}/<0;1>/*,${C}/<0;1>/*))`
+    );
+    expect(receiveAddresses(config.descriptor)).toEqual(SORTED_RECEIVE);
+  });
+
+  it("reads a Coldcard setup file", () => {
+    const config = parseMultisigConfig(
+      [
+        "# Coldcard Multisig setup file",
+        "Name: Vault",
+        "Policy: 2 of 3",
+        "Derivation: m/48'/0'/0'/2'",
+        "Format: P2WSH",
+        "",
+        `73C5DA0A: ${A}`,
+        `0F056943: ${B}`,
+        `DEADBEEF: ${C}`,
+      ].join("\r\n")
+    );
+    expect(config.name).toBe("Vault");
+    expect(config.descriptor).toContain("[deadbeef/48h/0h/0h/2h]");
+    expect(receiveAddresses(config.descriptor)).toEqual(SORTED_RECEIVE);
+  });
+
+  it("reads descriptor exports, plain or in Specter's JSON", () => {
+    const descriptor = `wsh(sortedmulti(2,${A}/0/*,${B}/0/*,${C}/0/*))#abcdefgh`;
+    expect(
+      parseMultisigConfig(`# Exported from Sparrow\n${descriptor}\n`)
+    ).toEqual({ descriptor, name: null });
+    expect(
+      parseMultisigConfig(JSON.stringify({ label: "Vault", descriptor }))
+    ).toEqual({ descriptor, name: "Vault" });
+    expect(receiveAddresses(descriptor)).toEqual(SORTED_RECEIVE);
+  });
+
+  it("rejects a Caravan config without a quorum", () => {
+    expect(() =>
+      parseMultisigConfig(
+        JSON.stringify({
+          addressType: "P2WSH",
+          extendedPublicKeys: [{ xpub: A }, { xpub: B }],
+        })
+      )
+    ).toThrow("Missing quorum");
+  });
+
+  it("rejects a Coldcard file for wrapped SegWit", () => {
+    expect(() =>
+      parseMultisigConfig(
+        ["Policy: 2 of 2", "Format: P2SH-P2WSH", `73C5DA0A: ${A}`].join("\n")
+      )
+    ).toThrow("only native SegWit");
+  });
+
+  it("rejects a descriptor whose quorum can't be met", () => {
+    const { descriptor } = parseMultisigConfig(`wsh(sortedmulti(3,${A},${B}))`);
+    expect(() => parseWalletInput(descriptor)).toThrow(
+      "Quorum of 3 can't be met by 2 keys"
+    );
+  });
+
+  it("rejects JSON it doesn't recognise", () => {
+    expect(() => parseMultisigConfig("{ not json")).toThrow(
+      "File isn't valid JSON"
+    );
+    expect(() => parseMultisigConfig('{"wallet": 1}')).toThrow(
+      "Unrecognized wallet config"
+    );
+  });
+});
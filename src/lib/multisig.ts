@@ -0,0 +1,149 @@
+import { multisigDescriptor, type Cosigner } from "./xpub";
+
+// --- Multisig Wallet Config Files ---
+// Coordinators each export their own format; all of them come down to a
+// quorum plus the cosigners' xpubs, which we turn into a wsh(sortedmulti)
+// descriptor for the regular wallet flow to parse and scan.
+
+export interface MultisigConfig {
+  descriptor: string;
+  name: string | null;
+}
+
+const FINGERPRINT = /^[0-9a-fA-F]{8}$/;
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === "object" && !Array.isArray(value);
+
+const optionalString = (value: unknown) =>
+  typeof value === "string" ? value : null;
+
+const toCosigner = (
+  key: string,
+  fingerprint: unknown,
+  path: unknown
+): Cosigner => ({
+  key: key.trim(),
+  fingerprint:
+    typeof fingerprint === "string" && FINGERPRINT.test(fingerprint)
+      ? fingerprint.toLowerCase()
+      : null,
+  originPath:
+    typeof path === "string" && path.trim()
+      ? path.trim().replace(/^m\/?/, "").replace(/['H]/g, "h") || null
+      : null,
+});
+
+const requireP2wsh = (format: unknown) => {
+  if (typeof format === "string" && format.toUpperCase() !== "P2WSH") {
+    throw new Error(
+      `${format} multisig isn't supported; only native SegWit (P2WSH)`
+    );
+  }
+};
+
+// Caravan: {name, addressType, quorum: {requiredSigners}, extendedPublicKeys}
+const parseCaravan = (config: Record<string, unknown>): MultisigConfig => {
+  requireP2wsh(config.addressType);
+  const keys = config.extendedPublicKeys;
+  if (!Array.isArray(keys)) throw new Error("No extendedPublicKeys listed");
+  const threshold = Number(
+    isObject(config.quorum) ? config.quorum.requiredSigners : NaN
+  );
+  if (!Number.isInteger(threshold)) throw new Error("Missing quorum");
+  return {
+    descriptor: multisigDescriptor({
+      threshold,
+      sorted: true,
+      cosigners: keys.map((key: unknown) => {
+        if (!isObject(key)) throw new Error("Malformed extendedPublicKeys");
+        return toCosigner(
+          optionalString(key.xpub) ?? "",
+          key.xfp,
+          key.bip32Path
+        );
+      }),
+    }),
+    name: optionalString(config.name),
+  };
+};
+
+// Coldcard's multisig setup file, which Sparrow and others export too:
+//   Name: Vault
+//   Policy: 2 of 3
+//   Derivation: m/48'/0'/0'/2'
+//   Format: P2WSH
+//   0F056943: xpub...
+// A Derivation line applies to the keys that follow it.
+const parseSetupFile = (text: string): MultisigConfig => {
+  let name: string | null = null;
+  let threshold = NaN;
+  let derivation: string | null = null;
+  const cosigners: Cosigner[] = [];
+
+  text.split(/\r?\n/).forEach((raw) => {
+    const line = raw.trim();
+    if (!line || line.startsWith("#")) return;
+    const separator = line.indexOf(":");
+    if (separator === -1) return;
+    const field = line.slice(0, separator).trim();
+    const value = line.slice(separator + 1).trim();
+
+    if (FINGERPRINT.test(field)) {
+      cosigners.push(toCosigner(value, field, derivation));
+      return;
+    }
+    switch (field.toLowerCase()) {
+      case "name":
+        name = value;
+        break;
+      case "policy":
+        threshold = Number(value.match(/^(\d+)\s*of\s*\d+$/i)?.[1]);
+        break;
+      case "derivation":
+        derivation = value;
+        break;
+      case "format":
+        requireP2wsh(value);
+        break;
+    }
+  });
+
+  if (cosigners.length === 0) throw new Error("No cosigner keys found");
+  if (!Number.isInteger(threshold)) throw new Error('Missing "Policy: M of N"');
+  return {
+    descriptor: multisigDescriptor({ threshold, sorted: true, cosigners }),
+    name,
+  };
+};
+
+export const parseMultisigConfig = (text: string): MultisigConfig => {
+  const trimmed = text.trim();
+  if (trimmed.startsWith("{")) {
+    let config: unknown;
+    try {
+      config = JSON.parse(trimmed);
+    } catch {
+      throw new Error("File isn't valid JSON");
+    }
+    if (!isObject(config)) throw new Error("Unrecognized wallet config");
+    // Specter (and Sparrow's Specter export) carry the descriptor itself
+    if (typeof config.descriptor === "string") {
+      return {
+        descriptor: config.descriptor,
+        name: optionalString(config.label) ?? optionalString(config.name),
+      };
+    }
+    if (config.extendedPublicKeys) return parseCaravan(config);
+    throw new Error("Unrecognized wallet config");
+  }
+
+  // A plain descriptor export, possibly with comments; the first one wins
+  const descriptor = trimmed
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .find((line) => !line.startsWith("#") && /multi\(/.test(line));
+  if (descriptor) return { descriptor, name: null };
+
+  return parseSetupFile(trimmed);
+};
@@ -0,0 +1,95 @@
+import { NETWORK, TEST_NETWORK } from "@scure/btc-signer";
+import type { AddressNetwork } from "./address";
+
+// --- Bitcoin Networks ---
+
+export type BitcoinNetwork = "mainnet" | "testnet" | "signet" | "regtest";
+
+export const BITCOIN_NETWORKS: BitcoinNetwork[] = [
+  "mainnet",
+  "testnet",
+  "signet",
+  "regtest",
+];
+
+export interface NetworkInfo {
+  name: string;
+  ticker: string; // Unit shown next to test coin amounts
+  addressNetwork: AddressNetwork; // Address format the network uses
+  esploraUrl: string;
+  explorerUrl: string | null; // No public explorer for a local regtest node
+}
+
+export const NETWORKS: Record<BitcoinNetwork, NetworkInfo> = {
+  mainnet: {
+    name: "Mainnet",
+    ticker: "BTC",
+    addressNetwork: "mainnet",
+    esploraUrl: "https://mempool.space/api",
+    explorerUrl: "https://mempool.space",
+  },
+  testnet: {
+    name: "Testnet4",
+    ticker: "tBTC",
+    addressNetwork: "testnet",
+    esploraUrl: "https://mempool.space/testnet4/api",
+    explorerUrl: "https://mempool.space/testnet4",
+  },
+  signet: {
+    name: "Signet",
+    ticker: "sBTC",
+    addressNetwork: "testnet",
+    esploraUrl: "https://mempool.space/signet/api",
+    explorerUrl: "https://mempool.space/signet",
+  },
+  regtest: {
+    name: "Regtest",
+    ticker: "rBTC",
+    addressNetwork: "regtest",
+    esploraUrl: "http://localhost:3002", // electrs' default regtest HTTP port
+    explorerUrl: null,
+  },
+};
+
+export const isBitcoinNetwork = (value: unknown): value is BitcoinNetwork =>
+  BITCOIN_NETWORKS.includes(value as BitcoinNetwork);
+
+// Entries saved before networks existed are mainnet
+export const entryNetwork = (entry: { network?: BitcoinNetwork }) =>
+  entry.network ?? "mainnet";
+
+export const isTestNetwork = (network: BitcoinNetwork) => network !== "mainnet";
+
+// Regtest reuses testnet's Base58 version bytes; only bech32 has "bcrt"
+export const addressMatchesNetwork = (
+  addressNetwork: AddressNetwork,
+  network: BitcoinNetwork
+) =>
+  addressNetwork === NETWORKS[network].addressNetwork ||
+  (network === "regtest" && addressNetwork === "testnet");
+
+// Testnet-format addresses can't say whether they're testnet or signet, so
+// `preferred` breaks the tie when it fits
+export const networkForAddress = (
+  addressNetwork: AddressNetwork,
+  preferred: BitcoinNetwork
+): BitcoinNetwork =>
+  addressMatchesNetwork(addressNetwork, preferred) ? preferred : addressNetwork;
+
+export const explorerLink = (
+  network: BitcoinNetwork,
+  path: `tx/${string}` | `address/${string}`
+) => {
+  const base = NETWORKS[network].explorerUrl;
+  return base ? `${base}/${path}` : null;
+};
+
+// @scure/btc-signer network params for encoding and decoding scripts
+const REGTEST_NETWORK = { ...TEST_NETWORK, bech32: "bcrt" };
+
+export const signerNetwork = (network: AddressNetwork) =>
+  network === "mainnet"
+    ? NETWORK
+    : network === "regtest"
+    ? REGTEST_NETWORK
+    : TEST_NETWORK;
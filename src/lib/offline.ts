@@ -0,0 +1,67 @@
+import type { FeeRates } from "./providers";
+
+// --- Offline Support ---
+// The service worker (public/sw.js) caches the app shell so it opens without
+// a connection. Market data is kept in storage with when it was fetched, so
+// an offline start shows the last known values instead of spinners.
+
+export interface MarketCache {
+  prices: Record<string, number> | null;
+  change24h: Record<string, number>;
+  pricesAt: number | null; // ms
+  fees: FeeRates | null;
+  feesAt: number | null;
+}
+
+export const EMPTY_MARKET: MarketCache = {
+  prices: null,
+  change24h: {},
+  pricesAt: null,
+  fees: null,
+  feesAt: null,
+};
+
+// Must match the tag public/sw.js listens for
+const CATCH_UP_TAG = "catch-up";
+
+// Background Sync isn't in TypeScript's DOM types yet (Chromium only)
+type SyncRegistration = ServiceWorkerRegistration & {
+  sync?: { register: (tag: string) => Promise<void> };
+};
+
+// Registers the worker and calls `onCatchUp` when it says the connection is
+// back. Only in production builds; in dev it would cache Vite's modules.
+export const registerServiceWorker = (onCatchUp: () => void) => {
+  if (!import.meta.env.PROD || !("serviceWorker" in navigator)) {
+    return () => {};
+  }
+  navigator.serviceWorker
+    .register(`/sw.js?build=${__BUILD_ID__}`)
+    .catch((error) => console.error("Service worker not registered:", error));
+  const handler = (event: MessageEvent) => {
+    if (event.data?.type === CATCH_UP_TAG) onCatchUp();
+  };
+  navigator.serviceWorker.addEventListener("message", handler);
+  return () => navigator.serviceWorker.removeEventListener("message", handler);
+};
+
+// Asks the browser to wake the worker once it's online again, even if this
+// tab is in the background by then. Chromium only; elsewhere the window's
+// "online" event does the job on its own.
+export const requestCatchUp = async () => {
+  if (!import.meta.env.PROD || !("serviceWorker" in navigator)) return;
+  try {
+    const registration = (await navigator.serviceWorker
+      .ready) as SyncRegistration;
+    await registration.sync?.register(CATCH_UP_TAG);
+  } catch (error) {
+    console.error("Background sync unavailable:", error);
+  }
+};
+
+export const formatAsOf = (timestamp: number, now = Date.now()) => {
+  const date = new Date(timestamp);
+  return now - timestamp < 24 * 60 * 60 * 1000
+    ? `as of ${date.toLocaleTimeString()}`
+    : `as of ${date.toLocaleString()}`;
+};
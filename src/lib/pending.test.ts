@@ -0,0 +1,166 @@
+import { describe, expect, it } from "vitest";
+import {
+  confirmations,
+  estimateConfirmation,
+  findUnsettled,
+  mergeUnsettled,
+  pendingTotals,
+  type UnsettledTx,
+} from "./pending";
+import type { FeeRates, ProviderTx } from "./providers";
+
+const ME = "bc1qcr8te4kr609gcawutmrza0j4xv80jy8z306fyu";
+const THEM = "bc1qxy2kgdygjrsqtzq2n0yrf2493p83kkfjhx0wlh";
+const NOW = 1700000000000;
+
+const tx = (
+  txid: string,
+  {
+    spends = "funding",
+    sequence = 0xffffffff,
+    fee = 200,
+    vsize = 200,
+    blockTime,
+  }: {
+    spends?: string;
+    sequence?: number;
+    fee?: number;
+    vsize?: number;
+    blockTime?: number; // s; unconfirmed when missing
+  } = {}
+): ProviderTx => ({
+  txid,
+  status:
+    blockTime === undefined
+      ? { confirmed: false }
+      : { confirmed: true, block_height: 850000, block_time: blockTime },
+  vin: [
+    {
+      txid: spends,
+      vout: 0,
+      sequence,
+      prevout: { scriptpubkey_address: THEM, value: 100000 + fee },
+    },
+  ],
+  vout: [{ scriptpubkey_address: ME, value: 100000 }],
+  fee,
+  weight: vsize * 4,
+});
+
+describe("findUnsettled", () => {
+  it("flags BIP 125 replaceable transactions while unconfirmed", () => {
+    const [replaceable, final] = findUnsettled(
+      [tx("a", { sequence: 0xfffffffd }), tx("b")],
+      ME,
+      NOW
+    );
+    expect(replaceable).toMatchObject({ rbf: true, cpfp: false, feeRate: 1 });
+    expect(final.rbf).toBe(false);
+  });
+
+  it("rates a child and its unconfirmed parent as one package", () => {
+    // Parent pays 0.5 sat/vB; the child bumps the pair to 5 sat/vB
+    const txs = [
+      tx("child", { spends: "parent", fee: 1900 }),
+      tx("parent", { fee: 100 }),
+    ];
+    expect(findUnsettled(txs, ME, NOW)).toEqual([
+      expect.objectContaining({ txid: "child", cpfp: true, feeRate: 5 }),
+      expect.objectContaining({ txid: "parent", cpfp: true, feeRate: 5 }),
+    ]);
+  });
+
+  it("keeps recent confirmations and drops settled history", () => {
+    const recent = NOW / 1000 - 60 * 60;
+    const old = NOW / 1000 - 24 * 60 * 60;
+    const unsettled = findUnsettled(
+      [
+        tx("recent", { blockTime: recent, sequence: 0xfffffffd }),
+        tx("old", { blockTime: old }),
+      ],
+      ME,
+      NOW
+    );
+    expect(unsettled).toEqual([
+      {
+        txid: "recent",
+        deltaSats: 100000,
+        blockHeight: 850000,
+        feeRate: 1,
+        rbf: false,
+        cpfp: false,
+      },
+    ]);
+  });
+});
+
+const unsettled = (
+  txid: string,
+  deltaSats: number,
+  extra: Partial<UnsettledTx> = {}
+): UnsettledTx => ({
+  txid,
+  deltaSats,
+  blockHeight: null,
+  feeRate: 2,
+  rbf: false,
+  cpfp: false,
+  ...extra,
+});
+
+describe("mergeUnsettled", () => {
+  it("nets one transaction across a wallet's addresses", () => {
+    expect(
+      mergeUnsettled([
+        [unsettled("a", -50000, { rbf: true })],
+        [unsettled("a", 20000, { cpfp: true }), unsettled("b", 1000)],
+      ])
+    ).toEqual([
+      unsettled("a", -30000, { rbf: true, cpfp: true }),
+      unsettled("b", 1000),
+    ]);
+  });
+});
+
+describe("confirmations", () => {
+  it("counts from the block it confirmed in", () => {
+    expect(confirmations(unsettled("a", 1), 850005)).toBe(0);
+    const mined = unsettled("a", 1, { blockHeight: 850000 });
+    expect(confirmations(mined, 850002)).toBe(3);
+    expect(confirmations(mined, null)).toBe(1);
+    // Tip not caught up yet
+    expect(confirmations(mined, 849999)).toBe(1);
+  });
+});
+
+describe("estimateConfirmation", () => {
+  const fees: FeeRates = {
+    fastestFee: 20,
+    halfHourFee: 10,
+    hourFee: 5,
+    economyFee: 2,
+    minimumFee: 1,
+  };
+
+  it("places the rate against the recommended tiers", () => {
+    expect(estimateConfirmation(25, fees)).toBe("~10 min");
+    expect(estimateConfirmation(10, fees)).toBe("~30 min");
+    expect(estimateConfirmation(6, fees)).toBe("~1 hour");
+    expect(estimateConfirmation(2, fees)).toBe("Several hours");
+    expect(estimateConfirmation(1.5, fees)).toBe("Days, if at all");
+    expect(estimateConfirmation(0.5, fees)).toBe("Below the relay minimum");
+  });
+});
+
+describe("pendingTotals", () => {
+  it("sums unconfirmed incoming and outgoing sats", () => {
+    expect(
+      pendingTotals([
+        unsettled("a", 5000),
+        unsettled("b", -2000),
+        unsettled("c", 7000, { blockHeight: 850000 }),
+      ])
+    ).toEqual({ incoming: 5000, outgoing: 2000 });
+    expect(pendingTotals()).toEqual({ incoming: 0, outgoing: 0 });
+  });
+});
@@ -0,0 +1,145 @@
+import type { FeeRates, ProviderTx } from "./providers";
+
+// --- Unsettled Transactions ---
+// Mempool transactions plus recently confirmed ones still short of
+// CONFIRMATION_TARGET, so the UI can count them up to "settled".
+
+export const CONFIRMATION_TARGET = 6;
+export const CONFIRMATION_MILESTONES = [0, 1, 3, 6];
+
+// Comfortably more than six blocks, even after a slow stretch
+const RECENT_WINDOW = 3 * 60 * 60; // seconds
+
+export interface UnsettledTx {
+  txid: string;
+  deltaSats: number; // Net effect on the entry; negative when spending
+  blockHeight: number | null; // null while in the mempool
+  feeRate: number | null; // sat/vB, the package rate when CPFP applies
+  rbf: boolean; // Signals BIP 125 replaceability
+  cpfp: boolean; // Spends, or is spent by, another unconfirmed tx
+}
+
+const vsize = (tx: ProviderTx) => (tx.weight ? tx.weight / 4 : null);
+
+const feeRate = (tx: ProviderTx) => {
+  const size = vsize(tx);
+  return size && tx.fee !== undefined ? tx.fee / size : null;
+};
+
+// Net sats that `tx` moves into (positive) or out of `address`
+export const txDelta = (tx: ProviderTx, address: string) =>
+  (tx.vout || [])
+    .filter((output) => output.scriptpubkey_address === address)
+    .reduce((acc, curr) => acc + curr.value, 0) -
+  (tx.vin || [])
+    .filter((input) => input.prevout?.scriptpubkey_address === address)
+    .reduce((acc, curr) => acc + curr.prevout!.value, 0);
+
+export const isUnsettled = (tx: ProviderTx, now = Date.now()) =>
+  !tx.status.confirmed ||
+  (tx.status.block_time ?? 0) >= now / 1000 - RECENT_WINDOW;
+
+// `txs` is an address's newest-first history page with inputs and outputs
+export const findUnsettled = (
+  txs: ProviderTx[],
+  address: string,
+  now = Date.now()
+): UnsettledTx[] => {
+  const pending = txs.filter((tx) => !tx.status.confirmed);
+  const pendingIds = new Set(pending.map((tx) => tx.txid));
+
+  // A child spending an unconfirmed parent pulls both in at their
+  // combined rate, which is what miners look at
+  const children = new Map<string, ProviderTx[]>();
+  pending.forEach((tx) =>
+    tx.vin?.forEach((input) => {
+      if (input.txid && pendingIds.has(input.txid)) {
+        children.set(input.txid, [...(children.get(input.txid) || []), tx]);
+      }
+    })
+  );
+  const packageRate = (tx: ProviderTx) => {
+    const family = [
+      tx,
+      ...(children.get(tx.txid) || []),
+      ...pending.filter((parent) => children.get(parent.txid)?.includes(tx)),
+    ];
+    const size = family.reduce((acc, curr) => acc + (vsize(curr) ?? 0), 0);
+    const fee = family.reduce((acc, curr) => acc + (curr.fee ?? 0), 0);
+    return family.length > 1 && size ? fee / size : feeRate(tx);
+  };
+
+  return txs
+    .filter((tx) => isUnsettled(tx, now))
+    .map((tx) => {
+      const isChild = !!tx.vin?.some(
+        (input) => input.txid && pendingIds.has(input.txid)
+      );
+      const cpfp = !tx.status.confirmed && (isChild || children.has(tx.txid));
+      return {
+        txid: tx.txid,
+        deltaSats: txDelta(tx, address),
+        blockHeight: tx.status.confirmed
+          ? tx.status.block_height ?? null
+          : null,
+        feeRate: cpfp ? packageRate(tx) : feeRate(tx),
+        rbf:
+          !tx.status.confirmed &&
+          !!tx.vin?.some(
+            (input) =>
+              input.sequence !== undefined && input.sequence < 0xfffffffe
+          ),
+        cpfp,
+      };
+    });
+};
+
+// Wallet transactions often touch several of its addresses (change); one
+// row per txid with the deltas netted out
+export const mergeUnsettled = (lists: UnsettledTx[][]) => {
+  const merged = new Map<string, UnsettledTx>();
+  lists.flat().forEach((tx) => {
+    const existing = merged.get(tx.txid);
+    merged.set(
+      tx.txid,
+      existing
+        ? {
+            ...existing,
+            deltaSats: existing.deltaSats + tx.deltaSats,
+            rbf: existing.rbf || tx.rbf,
+            cpfp: existing.cpfp || tx.cpfp,
+          }
+        : tx
+    );
+  });
+  return [...merged.values()];
+};
+
+export const confirmations = (tx: UnsettledTx, tipHeight: number | null) =>
+  tx.blockHeight === null
+    ? 0
+    : tipHeight
+    ? Math.max(1, tipHeight - tx.blockHeight + 1)
+    : 1;
+
+// Where the fee rate lands against the current recommended tiers
+export const estimateConfirmation = (rate: number, fees: FeeRates) => {
+  if (rate >= fees.fastestFee) return "~10 min";
+  if (rate >= fees.halfHourFee) return "~30 min";
+  if (rate >= fees.hourFee) return "~1 hour";
+  if (rate >= fees.economyFee) return "Several hours";
+  if (rate >= fees.minimumFee) return "Days, if at all";
+  return "Below the relay minimum";
+};
+
+export const pendingTotals = (txs: UnsettledTx[] = []) => {
+  const pending = txs.filter((tx) => tx.blockHeight === null);
+  return {
+    incoming: pending
+      .filter((tx) => tx.deltaSats > 0)
+      .reduce((acc, curr) => acc + curr.deltaSats, 0),
+    outgoing: pending
+      .filter((tx) => tx.deltaSats < 0)
+      .reduce((acc, curr) => acc - curr.deltaSats, 0),
+  };
+};
@@ -0,0 +1,88 @@
+import { describe, expect, it } from "vitest";
+import type { PortfolioTx } from "./costBasis";
+import {
+  calculatePerformance,
+  externalSats,
+  stackedByMonth,
+} from "./performance";
+
+const DAY = 24 * 60 * 60 * 1000;
+const NOW = Date.UTC(2026, 0, 1);
+
+const tx = (
+  txid: string,
+  daysAgo: number,
+  deltas: Record<string, number>,
+  price: number,
+  fee: number | null = null
+): PortfolioTx => ({
+  txid,
+  time: NOW - daysAgo * DAY,
+  confirmed: true,
+  deltas,
+  fee,
+  price,
+});
+
+describe("externalSats", () => {
+  it("counts a deposit in full", () => {
+    expect(externalSats(tx("a", 10, { "1": 50000 }, 10000))).toBe(50000);
+  });
+
+  it("leaves only the fee out of a transfer between tracked entries", () => {
+    expect(
+      externalSats(tx("a", 10, { "1": -100500, "2": 100000 }, 10000, 500))
+    ).toBe(0);
+  });
+
+  it("counts a spend with change to another tracked entry as the payment", () => {
+    // A pays 60k outside, 40k change lands in B, 500 sats fee
+    expect(
+      externalSats(tx("a", 10, { "1": -100500, "2": 40000 }, 10000, 500))
+    ).toBe(-60000);
+  });
+});
+
+describe("calculatePerformance", () => {
+  it("treats a spend with change to another tracked entry as a withdrawal", () => {
+    const txs = [
+      tx("deposit", 400, { "1": 100000000 }, 10000),
+      // Pays 0.5 BTC away, 0.4999 BTC change to entry 2, 10k sats fee
+      tx("spend", 200, { "1": -100000000, "2": 49990000 }, 20000, 10000),
+    ];
+    const performance = calculatePerformance(txs, 20000, NOW)!;
+
+    expect(performance.flows.map((flow) => flow.sats)).toEqual([
+      100000000, -50000000,
+    ]);
+    expect(performance.invested).toBe(10000);
+    expect(performance.withdrawn).toBe(10000);
+    expect(performance.currentSats).toBe(49990000);
+    // The price doubled; only the fee keeps the return below 100%
+    expect(performance.twr).toBeCloseTo(2 * (1 - 10000 / 100000000) - 1, 6);
+  });
+
+  it("matches a plain hold for a single deposit", () => {
+    const performance = calculatePerformance(
+      [tx("deposit", 730.5, { "1": 100000000 }, 10000)],
+      40000,
+      NOW
+    )!;
+    expect(performance.twr).toBeCloseTo(3, 6);
+    expect(performance.twrAnnualized).toBeCloseTo(1, 6);
+    expect(performance.mwr).toBeCloseTo(1, 4);
+    expect(performance.averagePrice).toBe(10000);
+  });
+});
+
+describe("stackedByMonth", () => {
+  it("counts what left the stack, fee included, as sent", () => {
+    const stacks = stackedByMonth(
+      [tx("spend", 0, { "1": -100500, "2": 40000 }, 10000, 500)],
+      NOW
+    );
+    expect(stacks).toEqual([
+      { month: "2026-01", received: 0, sent: 60500, net: -60500 },
+    ]);
+  });
+});
@@ -0,0 +1,261 @@
+import type { PriceProvider } from "./providers";
+import type { PortfolioTx } from "./costBasis";
+
+// --- Performance & Benchmarks ---
+// Everything here works off the portfolio history the Gains tab already
+// loads, so no figures leave the device. Only sats crossing the boundary of
+// the tracked set count as money in or out; a transfer between tracked
+// addresses just loses its fee.
+
+const SATS_PER_BTC = 100000000;
+const DAY = 24 * 60 * 60 * 1000;
+const WEEK = 7 * DAY;
+const YEAR = 365.25 * DAY;
+
+export interface CashFlow {
+  time: number;
+  sats: number; // Positive when sats came in from outside
+  fiat: number; // Valued at that day's price
+}
+
+export interface MonthlyStack {
+  month: string; // YYYY-MM
+  received: number; // Sats
+  sent: number;
+  net: number;
+}
+
+export interface Performance {
+  flows: CashFlow[];
+  invested: number; // Fiat that went in
+  withdrawn: number; // Fiat that came out
+  depositedSats: number;
+  currentSats: number;
+  currentValue: number;
+  averagePrice: number | null; // Fiat per BTC across deposits
+  twr: number | null; // Time-weighted, cumulative
+  twrAnnualized: number | null;
+  mwr: number | null; // Money-weighted (XIRR), annualized
+  firstDeposit: number | null;
+  missingPrices: number; // Priced from a neighbouring transaction instead
+}
+
+const netSats = (tx: PortfolioTx) =>
+  Object.values(tx.deltas).reduce((acc, curr) => acc + curr, 0);
+
+// Sats that crossed the edge of the tracked set. The fee on a spend is lost
+// along the way rather than taken out, so a transfer between tracked
+// entries comes to zero and a payment with change to another entry to
+// just the payment.
+export const externalSats = (tx: PortfolioTx) => {
+  const delta = netSats(tx);
+  return delta < 0 && tx.fee ? Math.min(0, delta + tx.fee) : delta;
+};
+
+const annualize = (growth: number, span: number) =>
+  span >= YEAR ? Math.pow(growth, YEAR / span) - 1 : null;
+
+// Solves for the annual rate that brings the flows' net present value to
+// zero. Bisection is slower than Newton but can't wander off.
+export const xirr = (flows: { time: number; amount: number }[]) => {
+  if (
+    !flows.some((flow) => flow.amount > 0) ||
+    !flows.some((flow) => flow.amount < 0)
+  ) {
+    return null;
+  }
+  const start = flows[0].time;
+  const npv = (rate: number) =>
+    flows.reduce(
+      (acc, curr) =>
+        acc + curr.amount / Math.pow(1 + rate, (curr.time - start) / YEAR),
+      0
+    );
+  let low = -0.9999;
+  let high = 10;
+  while (npv(high) > 0 && high < 1e6) high *= 10;
+  if (npv(low) * npv(high) > 0) return null;
+  for (let i = 0; i < 200; i++) {
+    const mid = (low + high) / 2;
+    if (npv(mid) > 0) low = mid;
+    else high = mid;
+  }
+  return (low + high) / 2;
+};
+
+export const calculatePerformance = (
+  txs: PortfolioTx[],
+  btcPrice: number | null,
+  now = Date.now()
+): Performance | null => {
+  if (!btcPrice) return null;
+  const sorted = [...txs].sort((a, b) => a.time - b.time);
+
+  // Unpriced days borrow the closest earlier price, or the first one known
+  let missingPrices = 0;
+  let lastPrice = sorted.find((tx) => tx.price)?.price ?? btcPrice;
+  const priced = sorted.map((tx) => {
+    if (tx.price) lastPrice = tx.price;
+    else missingPrices++;
+    return { tx, price: tx.price || lastPrice };
+  });
+
+  const flows: CashFlow[] = [];
+  let sats = 0;
+  let growth = 1;
+  let lastValue = 0;
+  priced.forEach(({ tx, price }) => {
+    const delta = netSats(tx);
+    const flowSats = externalSats(tx);
+    const flowFiat = (flowSats / SATS_PER_BTC) * price;
+    if (flowSats !== 0) {
+      flows.push({ time: tx.time, sats: flowSats, fiat: flowFiat });
+    }
+
+    // Chain sub-period returns so deposits and withdrawals don't count
+    // as gains or losses
+    sats += delta;
+    const value = (Math.max(sats, 0) / SATS_PER_BTC) * price;
+    if (lastValue > 0) growth *= (value - flowFiat) / lastValue;
+    lastValue = value;
+  });
+
+  const currentValue = (Math.max(sats, 0) / SATS_PER_BTC) * btcPrice;
+  if (lastValue > 0) growth *= currentValue / lastValue;
+
+  const deposits = flows.filter((flow) => flow.sats > 0);
+  const invested = deposits.reduce((acc, curr) => acc + curr.fiat, 0);
+  const depositedSats = deposits.reduce((acc, curr) => acc + curr.sats, 0);
+  const withdrawn = -flows
+    .filter((flow) => flow.sats < 0)
+    .reduce((acc, curr) => acc + curr.fiat, 0);
+  const firstDeposit = deposits[0]?.time ?? null;
+
+  return {
+    flows,
+    invested,
+    withdrawn,
+    depositedSats,
+    currentSats: sats,
+    currentValue,
+    averagePrice: depositedSats
+      ? invested / (depositedSats / SATS_PER_BTC)
+      : null,
+    twr: firstDeposit !== null ? growth - 1 : null,
+    twrAnnualized:
+      firstDeposit !== null ? annualize(growth, now - firstDeposit) : null,
+    // From the investor's side: deposits are money out, today's value is
+    // what they'd get back
+    mwr: xirr([
+      ...flows.map((flow) => ({ time: flow.time, amount: -flow.fiat })),
+      { time: now, amount: currentValue },
+    ]),
+    firstDeposit,
+    missingPrices,
+  };
+};
+
+const monthKey = (timestamp: number) =>
+  new Date(timestamp).toISOString().slice(0, 7);
+
+// Every month from the first transaction to now, empty ones included, so the
+// chart's gaps are real. Fees count as sent; they left the stack too.
+export const stackedByMonth = (
+  txs: PortfolioTx[],
+  now = Date.now()
+): MonthlyStack[] => {
+  if (txs.length === 0) return [];
+  const months = new Map<string, MonthlyStack>();
+  const cursor = new Date(Math.min(...txs.map((tx) => tx.time)));
+  cursor.setUTCDate(1);
+  while (cursor.getTime() <= now) {
+    const month = monthKey(cursor.getTime());
+    months.set(month, { month, received: 0, sent: 0, net: 0 });
+    cursor.setUTCMonth(cursor.getUTCMonth() + 1);
+  }
+  txs.forEach((tx) => {
+    const stack = months.get(monthKey(tx.time));
+    if (!stack) return;
+    const delta = netSats(tx);
+    if (delta > 0) stack.received += delta;
+    else stack.sent -= delta;
+    stack.net += delta;
+  });
+  return [...months.values()];
+};
+
+// --- Benchmarks ---
+
+const dayStart = (timestamp: number) => Math.floor(timestamp / DAY) * DAY;
+
+// One buy a week from the first deposit until now
+export const dcaDates = (firstDeposit: number, now = Date.now()) => {
+  const dates: number[] = [];
+  for (let time = dayStart(firstDeposit); time <= now; time += WEEK) {
+    dates.push(time);
+  }
+  return dates;
+};
+
+// Weekly prices for the DCA comparison. Days the portfolio history already
+// priced are reused; the rest go to the price backend one at a time.
+export const loadWeeklyPrices = async (
+  price: PriceProvider,
+  dates: number[],
+  currency: string,
+  known: PortfolioTx[],
+  onProgress?: (message: string) => void
+) => {
+  const prices: Record<number, number> = {};
+  known.forEach((tx) => {
+    if (tx.price) prices[dayStart(tx.time)] = tx.price;
+  });
+  const missing = dates.filter((date) => !prices[date]);
+  for (const [i, date] of missing.entries()) {
+    onProgress?.(`Loading weekly prices (${i + 1}/${missing.length})...`);
+    try {
+      prices[date] = await price.getHistoricalPrice(date, currency);
+    } catch (error) {
+      console.error(`Error loading price for ${new Date(date)}:`, error);
+    }
+  }
+  return prices;
+};
+
+export interface Benchmark {
+  sats: number;
+  value: number;
+  averagePrice: number | null;
+}
+
+// The same fiat, split evenly over the weekly buys. Weeks without a price
+// are left out, with their share spread over the others.
+export const simulateDca = (
+  invested: number,
+  dates: number[],
+  prices: Record<number, number>,
+  btcPrice: number
+): Benchmark | null => {
+  const buys = dates.filter((date) => prices[date]);
+  if (buys.length === 0 || invested <= 0) return null;
+  const perBuy = invested / buys.length;
+  const sats = buys.reduce(
+    (acc, curr) => acc + (perBuy / prices[curr]) * SATS_PER_BTC,
+    0
+  );
+  return {
+    sats,
+    value: (sats / SATS_PER_BTC) * btcPrice,
+    averagePrice: invested / (sats / SATS_PER_BTC),
+  };
+};
+
+// Every sat that came in, still held: what selling and spending cost
+export const simulateHodl = (
+  performance: Performance,
+  btcPrice: number
+): Benchmark => ({
+  sats: performance.depositedSats,
+  value: (performance.depositedSats / SATS_PER_BTC) * btcPrice,
+  averagePrice: performance.averagePrice,
+});
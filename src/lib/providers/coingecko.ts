@@ -0,0 +1,77 @@
+import {
+  ProviderError,
+  toProviderError,
+  type PriceProvider,
+  type PriceQuote,
+} from "./types";
+
+// --- CoinGecko Spot Price ---
+
+const COINGECKO_API =
+  "https://api.coingecko.com/api/v3/simple/price?ids=bitcoin&include_24hr_change=true";
+const COINGECKO_HISTORY_API =
+  "https://api.coingecko.com/api/v3/coins/bitcoin/history?localization=false";
+
+export const createCoinGeckoProvider = ({
+  id = "coingecko",
+  name = "CoinGecko",
+}: { id?: string; name?: string } = {}): PriceProvider => {
+  // Daily prices never change, so keep them for the session (keyed dd-mm-yyyy)
+  const dailyPrices = new Map<string, Promise<Record<string, number>>>();
+
+  const request = async (url: string) => {
+    let response: Response;
+    try {
+      response = await fetch(url);
+    } catch (error) {
+      throw toProviderError(id, error);
+    }
+    if (!response.ok) {
+      throw new ProviderError(id, `HTTP ${response.status}`, response.status);
+    }
+    return response.json();
+  };
+
+  return {
+    id,
+    name,
+    getPrice: async (currencies) => {
+      const data = await request(
+        `${COINGECKO_API}&vs_currencies=${currencies.join(",")}`
+      );
+      const quote: PriceQuote = { prices: {}, change24h: {} };
+      currencies.forEach((currency) => {
+        quote.prices[currency] = data.bitcoin[currency];
+        quote.change24h[currency] = data.bitcoin[`${currency}_24h_change`];
+      });
+      return quote;
+    },
+    // The history endpoint returns every currency at once, so cache the lot
+    getHistoricalPrice: async (timestamp, currency) => {
+      const date = new Date(timestamp);
+      const key = [
+        String(date.getUTCDate()).padStart(2, "0"),
+        String(date.getUTCMonth() + 1).padStart(2, "0"),
+        date.getUTCFullYear(),
+      ].join("-");
+      if (!dailyPrices.has(key)) {
+        const price = request(`${COINGECKO_HISTORY_API}&date=${key}`).then(
+          (data) => {
+            if (!data.market_data) {
+              throw new ProviderError(id, `No price data for ${key}`);
+            }
+            return data.market_data.current_price as Record<string, number>;
+          }
+        );
+        // Don't cache failures (usually rate limits)
+        price.catch(() => dailyPrices.delete(key));
+        dailyPrices.set(key, price);
+      }
+      const prices = await dailyPrices.get(key)!;
+      if (!(currency in prices)) {
+        throw new ProviderError(id, `No ${currency} price for ${key}`);
+      }
+      return prices[currency];
+    },
+  };
+};
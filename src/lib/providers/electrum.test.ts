@@ -0,0 +1,120 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { createElectrumProvider } from "./electrum";
+
+// Answers nothing on its own; tests reply to each request by hand
+class FakeWebSocket {
+  static instances: FakeWebSocket[] = [];
+  static failNext = false;
+
+  sent: { id: number; method: string; params: unknown[] }[] = [];
+  closed = false;
+  onopen: (() => void) | null = null;
+  onmessage: ((event: { data: string }) => void) | null = null;
+  onerror: (() => void) | null = null;
+  onclose: (() => void) | null = null;
+
+  constructor(public url: string) {
+    if (FakeWebSocket.failNext) throw new Error("Invalid URL");
+    FakeWebSocket.instances.push(this);
+  }
+
+  send(data: string) {
+    this.sent.push(JSON.parse(data));
+  }
+
+  close() {
+    this.closed = true;
+    this.onclose?.();
+  }
+
+  receive(data: string) {
+    this.onmessage?.({ data });
+  }
+
+  reply(result: unknown) {
+    const { id } = this.sent[this.sent.length - 1];
+    this.receive(JSON.stringify({ jsonrpc: "2.0", id, result }));
+  }
+}
+
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+const ADDRESS = "bc1qcr8te4kr609gcawutmrza0j4xv80jy8z306fyu";
+
+describe("createElectrumProvider", () => {
+  beforeEach(() => {
+    FakeWebSocket.instances = [];
+    FakeWebSocket.failNext = false;
+    vi.stubGlobal("WebSocket", FakeWebSocket);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  // Opens the socket and answers the server.version handshake
+  const connected = async () => {
+    const provider = createElectrumProvider({ url: "ws://bridge" });
+    const request = provider.getTipHeight();
+    const [ws] = FakeWebSocket.instances;
+    ws.onopen?.();
+    await flush();
+    ws.reply(["mock", "1.4"]);
+    await flush();
+    return { provider, request, ws };
+  };
+
+  it("reads every response in a batch, skipping lines that aren't objects", async () => {
+    const { request, ws } = await connected();
+    const { id } = ws.sent[ws.sent.length - 1];
+    ws.receive(
+      `null\n42\n${JSON.stringify({
+        jsonrpc: "2.0",
+        id,
+        result: { height: 850000 },
+      })}\n`
+    );
+    await expect(request).resolves.toBe(850000);
+  });
+
+  it("dials again after a failed handshake", async () => {
+    const provider = createElectrumProvider({ url: "ws://bridge" });
+    const request = provider.getTipHeight();
+    const [ws] = FakeWebSocket.instances;
+    ws.onopen?.();
+    await flush();
+    const { id } = ws.sent[0];
+    ws.receive(
+      JSON.stringify({ id, error: { message: "unsupported version" } })
+    );
+    await expect(request).rejects.toThrow("unsupported version");
+    expect(ws.closed).toBe(true);
+
+    provider.getTipHeight().catch(() => {});
+    expect(FakeWebSocket.instances).toHaveLength(2);
+  });
+
+  it("dials again after the socket can't be created", async () => {
+    FakeWebSocket.failNext = true;
+    const provider = createElectrumProvider({ url: "not a url" });
+    await expect(provider.getTipHeight()).rejects.toThrow("Invalid URL");
+
+    FakeWebSocket.failNext = false;
+    provider.getTipHeight().catch(() => {});
+    expect(FakeWebSocket.instances).toHaveLength(1);
+  });
+
+  it("returns no transactions for a cursor missing from the history", async () => {
+    const { provider, request, ws } = await connected();
+    ws.reply({ height: 850000 });
+    await request;
+
+    const page = provider.getAddressTxs(ADDRESS, "ff".repeat(32));
+    await flush();
+    expect(ws.sent[ws.sent.length - 1].method).toBe(
+      "blockchain.scripthash.get_history"
+    );
+    ws.reply([{ tx_hash: "aa".repeat(32), height: 849000 }]);
+    await expect(page).resolves.toEqual([]);
+  });
+});
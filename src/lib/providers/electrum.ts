@@ -0,0 +1,342 @@
+import { sha256 } from "@noble/hashes/sha2.js";
+import { bytesToHex, hexToBytes } from "@noble/hashes/utils.js";
+import { Address, OutScript, RawTx } from "@scure/btc-signer";
+import type { AddressNetwork } from "../address";
+import { signerNetwork } from "../networks";
+import {
+  ProviderError,
+  TXS_PAGE_SIZE,
+  toProviderError,
+  type ChainProvider,
+  type ProviderTx,
+  type TxOutput,
+} from "./types";
+
+// --- Electrum Protocol over a WebSocket Bridge ---
+
+// Electrum indexes by the reversed sha256 of the output script
+export const toScripthash = (
+  address: string,
+  network: AddressNetwork = "mainnet"
+) => {
+  const script = OutScript.encode(
+    Address(signerNetwork(network)).decode(address)
+  );
+  return bytesToHex(sha256(script).reverse());
+};
+
+const COINBASE_TXID = "0".repeat(64);
+
+const decodeOutputs = (
+  raw: ReturnType<typeof RawTx.decode>,
+  network: AddressNetwork
+): TxOutput[] =>
+  raw.outputs.map((output) => {
+    let scriptpubkey_address: string | undefined;
+    try {
+      scriptpubkey_address = Address(signerNetwork(network)).encode(
+        OutScript.decode(output.script)
+      );
+    } catch {
+      // OP_RETURN or non-standard script
+    }
+    return { scriptpubkey_address, value: Number(output.amount) };
+  });
+
+// Witness bytes count once, everything else four times
+const txWeight = (raw: ReturnType<typeof RawTx.decode>) => {
+  const total = RawTx.encode(raw).length;
+  const base = RawTx.encode({
+    ...raw,
+    segwitFlag: false,
+    witnesses: undefined,
+  }).length;
+  return base * 3 + total;
+};
+
+interface HistoryItem {
+  tx_hash: string;
+  height: number; // 0 or -1 while in the mempool
+}
+
+export const createElectrumProvider = ({
+  id = "electrum",
+  name = "Electrum",
+  url,
+  network = "mainnet",
+  timeoutMs = 15000,
+}: {
+  id?: string;
+  name?: string;
+  url: string;
+  network?: AddressNetwork; // Must match the server's chain
+  timeoutMs?: number;
+}): ChainProvider => {
+  let socket: Promise<WebSocket> | null = null;
+  let nextId = 1;
+  const pending = new Map<
+    number,
+    { resolve: (value: unknown) => void; reject: (error: Error) => void }
+  >();
+  const blockTimes = new Map<number, number>();
+  const txHeights = new Map<string, number>();
+  const rawTxs = new Map<string, ReturnType<typeof RawTx.decode>>();
+
+  const failAll = (error: Error) => {
+    pending.forEach(({ reject }) => reject(error));
+    pending.clear();
+    socket = null;
+  };
+
+  const handleMessage = (event: MessageEvent) => {
+    // Bridges differ on whether they keep Electrum's newline framing
+    String(event.data)
+      .split("\n")
+      .filter(Boolean)
+      .forEach((line) => {
+        let message;
+        try {
+          message = JSON.parse(line);
+        } catch (error) {
+          console.error("Ignoring unreadable Electrum message:", error);
+          return;
+        }
+        if (!message || typeof message !== "object") return;
+        const request = pending.get(message.id);
+        if (!request) return;
+        pending.delete(message.id);
+        if (message.error) {
+          request.reject(
+            new ProviderError(
+              id,
+              message.error.message || String(message.error)
+            )
+          );
+        } else {
+          request.resolve(message.result);
+        }
+      });
+  };
+
+  const connect = () => {
+    if (socket) return socket;
+    let ws: WebSocket | undefined;
+    const connecting: Promise<WebSocket> = new Promise<WebSocket>(
+      (resolve, reject) => {
+        ws = new WebSocket(url);
+        ws.onopen = () => resolve(ws!);
+        ws.onmessage = handleMessage;
+        ws.onerror = () => {
+          const error = new ProviderError(id, `Could not connect to ${url}`);
+          reject(error);
+          failAll(error);
+        };
+        ws.onclose = () => failAll(new ProviderError(id, "Connection closed"));
+      }
+    )
+      .then(async (open) => {
+        await send(open, "server.version", ["SatsTracker", "1.4"]);
+        return open;
+      })
+      .catch((error) => {
+        // Let the next call dial again instead of reusing the failure
+        if (socket === connecting) socket = null;
+        if (ws) {
+          ws.onclose = null;
+          ws.close();
+        }
+        throw error;
+      });
+    socket = connecting;
+    return socket;
+  };
+
+  const send = (ws: WebSocket, method: string, params: unknown[]) =>
+    new Promise<unknown>((resolve, reject) => {
+      const requestId = nextId++;
+      const timer = setTimeout(() => {
+        pending.delete(requestId);
+        reject(new ProviderError(id, `${method} timed out`));
+      }, timeoutMs);
+      pending.set(requestId, {
+        resolve: (value) => {
+          clearTimeout(timer);
+          resolve(value);
+        },
+        reject: (error) => {
+          clearTimeout(timer);
+          reject(error);
+        },
+      });
+      ws.send(
+        JSON.stringify({ jsonrpc: "2.0", id: requestId, method, params }) + "\n"
+      );
+    });
+
+  const call = async <T>(method: string, params: unknown[] = []) => {
+    try {
+      return (await send(await connect(), method, params)) as T;
+    } catch (error) {
+      throw toProviderError(id, error);
+    }
+  };
+
+  // The timestamp sits at byte 68 of the 80-byte block header
+  const getBlockTime = async (height: number) => {
+    if (!blockTimes.has(height)) {
+      const header = hexToBytes(
+        await call<string>("blockchain.block.header", [height])
+      );
+      const time = new DataView(header.buffer).getUint32(68, true);
+      blockTimes.set(height, time);
+    }
+    return blockTimes.get(height)!;
+  };
+
+  const getHistory = async (address: string) => {
+    const history = await call<HistoryItem[]>(
+      "blockchain.scripthash.get_history",
+      [toScripthash(address, network)]
+    );
+    history.forEach((item) => txHeights.set(item.tx_hash, item.height));
+    // Match Esplora's ordering: mempool first, then newest block first
+    const rank = (item: HistoryItem) =>
+      item.height > 0 ? item.height : Number.MAX_SAFE_INTEGER;
+    return [...history].sort((a, b) => rank(b) - rank(a));
+  };
+
+  const getRawTx = async (txid: string) => {
+    if (!rawTxs.has(txid)) {
+      const hex = await call<string>("blockchain.transaction.get", [txid]);
+      rawTxs.set(txid, RawTx.decode(hexToBytes(hex)));
+    }
+    return rawTxs.get(txid)!;
+  };
+
+  const getStatus = async (txid: string): Promise<ProviderTx["status"]> => {
+    const height = txHeights.get(txid) || 0;
+    return height > 0
+      ? {
+          confirmed: true,
+          block_height: height,
+          block_time: await getBlockTime(height),
+        }
+      : { confirmed: false };
+  };
+
+  // Electrum only serves raw transactions, so prevouts are resolved by
+  // fetching each funding transaction
+  const getTransaction = async (txid: string): Promise<ProviderTx> => {
+    const raw = await getRawTx(txid);
+    const vout = decodeOutputs(raw, network);
+    const vin = await Promise.all(
+      raw.inputs.map(async (input) => {
+        const prevTxid = bytesToHex(input.txid);
+        if (prevTxid === COINBASE_TXID) return { prevout: null };
+        const prevRaw = await getRawTx(prevTxid);
+        return {
+          txid: prevTxid,
+          vout: input.index,
+          sequence: input.sequence,
+          prevout: decodeOutputs(prevRaw, network)[input.index],
+        };
+      })
+    );
+    const coinbase = vin.some((input) => !input.prevout);
+    const sum = (outputs: TxOutput[]) =>
+      outputs.reduce((acc, curr) => acc + curr.value, 0);
+    return {
+      txid,
+      status: await getStatus(txid),
+      vin,
+      vout,
+      fee: coinbase ? 0 : sum(vin.map((input) => input.prevout!)) - sum(vout),
+      weight: txWeight(raw),
+    };
+  };
+
+  const estimate = async (blocks: number) => {
+    const btcPerKvB = await call<number>("blockchain.estimatefee", [blocks]);
+    return btcPerKvB > 0 ? Math.max(1, Math.ceil(btcPerKvB * 100000)) : 1;
+  };
+
+  return {
+    id,
+    name,
+    getAddressSummary: async (address) => {
+      const scripthash = toScripthash(address, network);
+      const [balance, history] = await Promise.all([
+        call<{ confirmed: number; unconfirmed: number }>(
+          "blockchain.scripthash.get_balance",
+          [scripthash]
+        ),
+        call<HistoryItem[]>("blockchain.scripthash.get_history", [scripthash]),
+      ]);
+      return {
+        confirmedSats: balance.confirmed,
+        mempoolSats: balance.unconfirmed,
+        txCount: history.length,
+      };
+    },
+    getAddressTxs: async (address, lastSeenTxid) => {
+      const history = await getHistory(address);
+      const mempool = history.filter((item) => item.height <= 0);
+      const confirmed = history.filter((item) => item.height > 0);
+      const start = lastSeenTxid
+        ? confirmed.findIndex((item) => item.tx_hash === lastSeenTxid) + 1
+        : 0;
+      // An unknown cursor would otherwise restart from the newest page
+      if (lastSeenTxid && !start) return [];
+      const page = [
+        ...(lastSeenTxid ? [] : mempool),
+        ...confirmed.slice(start, start + TXS_PAGE_SIZE),
+      ];
+      return Promise.all(
+        page.map(
+          async (item): Promise<ProviderTx> => ({
+            txid: item.tx_hash,
+            status: await getStatus(item.tx_hash),
+          })
+        )
+      );
+    },
+    getTransaction,
+    getAddressUtxos: async (address) => {
+      const utxos = await call<
+        { tx_hash: string; tx_pos: number; height: number; value: number }[]
+      >("blockchain.scripthash.listunspent", [toScripthash(address, network)]);
+      utxos.forEach((utxo) => txHeights.set(utxo.tx_hash, utxo.height));
+      return Promise.all(
+        utxos.map(async (utxo) => ({
+          txid: utxo.tx_hash,
+          vout: utxo.tx_pos,
+          value: utxo.value,
+          status: await getStatus(utxo.tx_hash),
+        }))
+      );
+    },
+    getTipHeight: async () => {
+      const tip = await call<{ height: number }>(
+        "blockchain.headers.subscribe"
+      );
+      return tip.height;
+    },
+    getFees: async () => {
+      const [fastestFee, halfHourFee, hourFee, economyFee] = await Promise.all(
+        [1, 3, 6, 144].map(estimate)
+      );
+      const relayFee = await call<number>("blockchain.relayfee");
+      return {
+        fastestFee,
+        halfHourFee,
+        hourFee,
+        economyFee,
+        minimumFee: Math.max(1, Math.ceil(relayFee * 100000)),
+      };
+    },
+    close: () => {
+      socket?.then((ws) => ws.close()).catch(() => {});
+      socket = null;
+    },
+  };
+};
@@ -0,0 +1,86 @@
+import {
+  ProviderError,
+  toProviderError,
+  type ChainProvider,
+  type FeeRates,
+  type ProviderTx,
+  type ProviderUtxo,
+} from "./types";
+
+// --- Esplora / mempool.space REST Backend ---
+
+export const createEsploraProvider = ({
+  id = "esplora",
+  name = "Esplora",
+  baseUrl,
+}: {
+  id?: string;
+  name?: string;
+  baseUrl: string;
+}): ChainProvider => {
+  const base = baseUrl.replace(/\/+$/, "");
+
+  const request = async (path: string) => {
+    let response: Response;
+    try {
+      response = await fetch(`${base}${path}`);
+    } catch (error) {
+      throw toProviderError(id, error);
+    }
+    if (!response.ok) {
+      throw new ProviderError(
+        id,
+        `HTTP ${response.status} from ${base}${path}`,
+        response.status
+      );
+    }
+    return response.json();
+  };
+
+  // mempool.space exposes recommended fees; plain Esplora only has
+  // per-target estimates
+  const getFees = async (): Promise<FeeRates> => {
+    try {
+      return await request("/v1/fees/recommended");
+    } catch (error) {
+      if (!(error instanceof ProviderError) || error.status !== 404)
+        throw error;
+    }
+    const estimates: Record<string, number> = await request("/fee-estimates");
+    const rate = (target: string) =>
+      Math.max(1, Math.ceil(estimates[target] || 1));
+    return {
+      fastestFee: rate("1"),
+      halfHourFee: rate("3"),
+      hourFee: rate("6"),
+      economyFee: rate("144"),
+      minimumFee: 1,
+    };
+  };
+
+  return {
+    id,
+    name,
+    getAddressSummary: async (address) => {
+      const data = await request(`/address/${address}`);
+      return {
+        confirmedSats:
+          data.chain_stats.funded_txo_sum - data.chain_stats.spent_txo_sum,
+        mempoolSats:
+          data.mempool_stats.funded_txo_sum - data.mempool_stats.spent_txo_sum,
+        txCount: data.chain_stats.tx_count + data.mempool_stats.tx_count,
+      };
+    },
+    getAddressTxs: (address, lastSeenTxid) =>
+      request(
+        lastSeenTxid
+          ? `/address/${address}/txs/chain/${lastSeenTxid}`
+          : `/address/${address}/txs`
+      ) as Promise<ProviderTx[]>,
+    getTransaction: (txid) => request(`/tx/${txid}`) as Promise<ProviderTx>,
+    getAddressUtxos: (address) =>
+      request(`/address/${address}/utxo`) as Promise<ProviderUtxo[]>,
+    getTipHeight: () => request("/blocks/tip/height") as Promise<number>,
+    getFees,
+  };
+};
@@ -0,0 +1,223 @@
+import { createCoinGeckoProvider } from "./coingecko";
+import { createElectrumProvider } from "./electrum";
+import { createEsploraProvider } from "./esplora";
+import { createMockPriceProvider, createMockProvider } from "./mock";
+import {
+  createPrivateProvider,
+  withExposureLog,
+  type ExposureListener,
+} from "./privacy";
+import { withRequestQueue } from "./queue";
+import type { ChainProvider, PriceProvider } from "./types";
+import { NETWORKS, type BitcoinNetwork } from "../networks";
+
+export * from "./types";
+export { createCoinGeckoProvider } from "./coingecko";
+export { createElectrumProvider } from "./electrum";
+export { createEsploraProvider } from "./esplora";
+export { createMockPriceProvider, createMockProvider } from "./mock";
+export { createRequestQueue, isRetryable, withRequestQueue } from "./queue";
+export { createMempoolSocket } from "./mempoolSocket";
+export {
+  LIGHTNING_IMPLEMENTATIONS,
+  createLightningClient,
+  lightningBalanceSats,
+} from "./lightning";
+export type {
+  LightningBalance,
+  LightningClient,
+  LightningImplementation,
+  LightningNodeConfig,
+} from "./lightning";
+export {
+  PRIVATE_JITTER_MS,
+  createPrivateProvider,
+  withExposureLog,
+} from "./privacy";
+export type { Exposure, ExposureListener, PrivateEndpoint } from "./privacy";
+export type { AddressActivity, LiveStatus } from "./mempoolSocket";
+
+// --- Provider Settings ---
+
+export type ChainBackend = "esplora" | "electrum" | "mock";
+export type PriceBackend = "coingecko" | "mock";
+
+export interface ProviderSettings {
+  chainBackend: ChainBackend;
+  esploraUrl: string;
+  electrumUrl: string;
+  priceBackend: PriceBackend;
+  network: BitcoinNetwork; // The chain the configured backend serves
+  liveUpdates: boolean;
+  websocketUrl: string; // Empty to derive it from the Esplora URL
+  // Network privacy: spread addresses over `privateEndpoints` (Esplora or
+  // Electrum URLs matching the backend; empty to use its configured URL)
+  // with randomized timing, optionally a fresh connection per lookup
+  privateMode: boolean;
+  privateEndpoints: string[];
+  isolateAddresses: boolean;
+}
+
+export const DEFAULT_PROVIDER_SETTINGS: ProviderSettings = {
+  chainBackend: "esplora",
+  esploraUrl: "https://mempool.space/api",
+  electrumUrl: "ws://localhost:50003",
+  priceBackend: "coingecko",
+  network: "mainnet",
+  liveUpdates: true,
+  websocketUrl: "",
+  privateMode: false,
+  privateEndpoints: [],
+  isolateAddresses: false,
+};
+
+// mempool.space's hidden service, reachable from Tor Browser or through a
+// local Tor proxy
+export const MEMPOOL_ONION_URL =
+  "http://mempoolhqx4isw62xs7abwphsq7ldayuidyx2v2oethdhhj6mlo2r6ad.onion/api";
+
+export const isOnionUrl = (url: string) => {
+  try {
+    return new URL(url).hostname.endsWith(".onion");
+  } catch {
+    return false;
+  }
+};
+
+// mempool.space serves its WebSocket API next to the REST one. Plain Esplora
+// and Electrum have no equivalent, so those need an explicit URL.
+export const liveSocketUrl = (settings: ProviderSettings) => {
+  if (!settings.liveUpdates) return null;
+  if (settings.websocketUrl.trim()) return settings.websocketUrl.trim();
+  if (
+    settings.chainBackend !== "esplora" ||
+    !settings.esploraUrl.includes("mempool")
+  ) {
+    return null;
+  }
+  return `${settings.esploraUrl
+    .replace(/\/+$/, "")
+    .replace(/^http/, "ws")}/v1/ws`;
+};
+
+// Public Esplora servers rate limit per IP; stay well under it
+const ESPLORA_CONCURRENCY = 4;
+
+export interface Providers {
+  chain: ChainProvider;
+  price: PriceProvider;
+  // Backend for entries on another network than the workspace's: the
+  // network's public Esplora, or the configured chain for its own network
+  chainFor: (network: BitcoinNetwork) => ChainProvider;
+}
+
+const esploraName = (url: string) =>
+  url.includes("mempool.space") || url === MEMPOOL_ONION_URL
+    ? "mempool.space"
+    : "Esplora";
+
+// `onExposure` hears about every address lookup and where it went
+export const createProviders = (
+  settings: ProviderSettings,
+  onExposure: ExposureListener = () => {}
+): Providers => {
+  const logged = (provider: ChainProvider, endpoint: string) =>
+    withExposureLog(provider, endpoint, onExposure);
+
+  let chain: ChainProvider;
+  if (settings.privateMode && settings.chainBackend !== "mock") {
+    const electrum = settings.chainBackend === "electrum";
+    const urls = settings.privateEndpoints
+      .map((url) => url.trim())
+      .filter(Boolean);
+    chain = createPrivateProvider({
+      endpoints: (urls.length
+        ? urls
+        : [electrum ? settings.electrumUrl : settings.esploraUrl]
+      ).map((url, i) => ({
+        url,
+        create: () =>
+          logged(
+            electrum
+              ? createElectrumProvider({
+                  id: `electrum-${i}`,
+                  url,
+                  network: NETWORKS[settings.network].addressNetwork,
+                })
+              : createEsploraProvider({
+                  id: `esplora-${i}`,
+                  name: esploraName(url),
+                  baseUrl: url,
+                }),
+            url
+          ),
+      })),
+      isolate: settings.isolateAddresses,
+    });
+  } else {
+    switch (settings.chainBackend) {
+      case "electrum":
+        chain = logged(
+          createElectrumProvider({
+            url: settings.electrumUrl,
+            network: NETWORKS[settings.network].addressNetwork,
+          }),
+          settings.electrumUrl
+        );
+        break;
+      case "mock":
+        chain = logged(createMockProvider(), "Mock");
+        break;
+      default:
+        chain = logged(
+          withRequestQueue(
+            createEsploraProvider({
+              name: esploraName(settings.esploraUrl),
+              baseUrl: settings.esploraUrl,
+            }),
+            { concurrency: ESPLORA_CONCURRENCY }
+          ),
+          settings.esploraUrl
+        );
+    }
+  }
+
+  const price =
+    settings.priceBackend === "mock"
+      ? createMockPriceProvider()
+      : createCoinGeckoProvider();
+
+  const others = new Map<BitcoinNetwork, ChainProvider>();
+  const chainFor = (network: BitcoinNetwork) => {
+    // The mock backend answers for any address
+    if (network === settings.network || settings.chainBackend === "mock") {
+      return chain;
+    }
+    if (!others.has(network)) {
+      const url = NETWORKS[network].esploraUrl;
+      const create = () =>
+        logged(
+          createEsploraProvider({
+            id: `esplora-${network}`,
+            name: `${NETWORKS[network].name} Esplora`,
+            baseUrl: url,
+          }),
+          url
+        );
+      // Private mode still gets the jittered, one-at-a-time pacing here
+      others.set(
+        network,
+        settings.privateMode
+          ? createPrivateProvider({
+              id: `private-${network}`,
+              endpoints: [{ url, create }],
+              isolate: settings.isolateAddresses,
+            })
+          : withRequestQueue(create(), { concurrency: ESPLORA_CONCURRENCY })
+      );
+    }
+    return others.get(network)!;
+  };
+
+  return { chain, price, chainFor };
+};
@@ -0,0 +1,167 @@
+import { ProviderError, toProviderError } from "./types";
+
+// --- Lightning Node REST Backends ---
+// Read-only balance lookups against a node's REST API: LND with a macaroon
+// (readonly.macaroon is enough) or Core Lightning's clnrest with a rune.
+// Browsers only reach nodes that send CORS headers for this origin.
+
+export type LightningImplementation = "lnd" | "cln";
+
+export interface LightningNodeConfig {
+  implementation: LightningImplementation;
+  url: string; // REST endpoint, e.g. https://localhost:8080
+  credential: string; // Hex macaroon for LND, rune for CLN
+}
+
+export interface LightningBalance {
+  alias: string;
+  pubkey: string;
+  channelSats: number; // Our side of open channels
+  pendingHtlcSats: number; // Ours, locked in outgoing HTLCs
+  onchainSats: number; // The node's own on-chain wallet
+  activeChannels: number;
+}
+
+export interface LightningClient {
+  id: string;
+  name: string;
+  getBalance: () => Promise<LightningBalance>;
+}
+
+export const LIGHTNING_IMPLEMENTATIONS: {
+  id: LightningImplementation;
+  name: string;
+  credential: string;
+}[] = [
+  { id: "lnd", name: "LND", credential: "Macaroon (hex)" },
+  { id: "cln", name: "Core Lightning", credential: "Rune" },
+];
+
+export const lightningBalanceSats = (balance: LightningBalance) =>
+  balance.channelSats + balance.pendingHtlcSats + balance.onchainSats;
+
+// CLN reports msat as a number, or as "1234msat" on older releases
+const msatToSats = (value: unknown) =>
+  Math.floor(Number(String(value ?? 0).replace(/msat$/, "")) / 1000);
+
+export const createLightningClient = (
+  config: LightningNodeConfig
+): LightningClient => {
+  const base = config.url.trim().replace(/\/+$/, "");
+  const id = `lightning:${base}`;
+  const name = `${
+    LIGHTNING_IMPLEMENTATIONS.find((impl) => impl.id === config.implementation)
+      ?.name
+  } node`;
+
+  const request = async (path: string, init: RequestInit) => {
+    // Unencrypted backups leave credentials out
+    if (!config.credential.trim()) {
+      throw new ProviderError(
+        id,
+        `No ${
+          config.implementation === "lnd" ? "macaroon" : "rune"
+        } for ${base}; add the node again to re-link it`
+      );
+    }
+    let response: Response;
+    try {
+      response = await fetch(`${base}${path}`, init);
+    } catch (error) {
+      throw toProviderError(id, error);
+    }
+    if (!response.ok) {
+      throw new ProviderError(
+        id,
+        response.status === 401 || response.status === 403
+          ? `${base} rejected the ${
+              config.implementation === "lnd" ? "macaroon" : "rune"
+            }`
+          : `HTTP ${response.status} from ${base}${path}`,
+        response.status
+      );
+    }
+    return response.json();
+  };
+
+  // LND encodes int64 fields as strings
+  const lnd = (path: string) =>
+    request(path, {
+      headers: { "Grpc-Metadata-macaroon": config.credential.trim() },
+    });
+
+  const cln = (method: string) =>
+    request(`/v1/${method}`, {
+      method: "POST",
+      headers: {
+        Rune: config.credential.trim(),
+        "Content-Type": "application/json",
+      },
+      body: "{}",
+    });
+
+  const getLndBalance = async (): Promise<LightningBalance> => {
+    const [info, channels, chain] = await Promise.all([
+      lnd("/v1/getinfo"),
+      lnd("/v1/balance/channels"),
+      lnd("/v1/balance/blockchain"),
+    ]);
+    return {
+      alias: info.alias || "",
+      pubkey: info.identity_pubkey || "",
+      channelSats:
+        Number(channels.local_balance?.sat ?? channels.balance ?? 0) +
+        Number(channels.pending_open_local_balance?.sat ?? 0),
+      pendingHtlcSats: Number(channels.unsettled_local_balance?.sat ?? 0),
+      onchainSats: Number(chain.total_balance ?? 0),
+      activeChannels: Number(info.num_active_channels ?? 0),
+    };
+  };
+
+  const getClnBalance = async (): Promise<LightningBalance> => {
+    const [info, funds, peerChannels] = await Promise.all([
+      cln("getinfo"),
+      cln("listfunds"),
+      cln("listpeerchannels"),
+    ]);
+    const htlcs = (peerChannels.channels || []).flatMap(
+      (channel: { htlcs?: { direction: string; amount_msat: unknown }[] }) =>
+        channel.htlcs || []
+    );
+    return {
+      alias: info.alias || "",
+      pubkey: info.id || "",
+      // Channels still settling on-chain show up in outputs once they're back
+      channelSats: (funds.channels || [])
+        .filter((channel: { state: string }) => channel.state !== "ONCHAIN")
+        .reduce(
+          (acc: number, curr: { our_amount_msat: unknown }) =>
+            acc + msatToSats(curr.our_amount_msat),
+          0
+        ),
+      pendingHtlcSats: htlcs
+        .filter((htlc: { direction: string }) =>
+          ["out", "outgoing"].includes(htlc.direction)
+        )
+        .reduce(
+          (acc: number, curr: { amount_msat: unknown }) =>
+            acc + msatToSats(curr.amount_msat),
+          0
+        ),
+      onchainSats: (funds.outputs || [])
+        .filter((output: { status: string }) => output.status !== "spent")
+        .reduce(
+          (acc: number, curr: { amount_msat: unknown }) =>
+            acc + msatToSats(curr.amount_msat),
+          0
+        ),
+      activeChannels: Number(info.num_active_channels ?? 0),
+    };
+  };
+
+  return {
+    id,
+    name,
+    getBalance: config.implementation === "lnd" ? getLndBalance : getClnBalance,
+  };
+};
@@ -0,0 +1,243 @@
+import {
+  afterEach,
+  beforeEach,
+  describe,
+  expect,
+  inject,
+  it,
+  vi,
+} from "vitest";
+import {
+  createMempoolSocket,
+  type MempoolSocketHandlers,
+} from "./mempoolSocket";
+
+const FEES = {
+  fastestFee: 20,
+  halfHourFee: 10,
+  hourFee: 5,
+  economyFee: 2,
+  minimumFee: 1,
+};
+
+const createHandlers = () => ({
+  onStatus: vi.fn<MempoolSocketHandlers["onStatus"]>(),
+  onFees: vi.fn<MempoolSocketHandlers["onFees"]>(),
+  onBlock: vi.fn<MempoolSocketHandlers["onBlock"]>(),
+  onAddressTxs: vi.fn<MempoolSocketHandlers["onAddressTxs"]>(),
+});
+
+// Just enough of the browser WebSocket for the client; tests drive it by hand
+class FakeWebSocket {
+  static OPEN = 1;
+  static instances: FakeWebSocket[] = [];
+  static failNext = false;
+
+  readyState = 0;
+  sent: unknown[] = [];
+  onopen: (() => void) | null = null;
+  onmessage: ((event: { data: string }) => void) | null = null;
+  onclose: (() => void) | null = null;
+
+  constructor(public url: string) {
+    if (FakeWebSocket.failNext) throw new Error("Invalid URL");
+    FakeWebSocket.instances.push(this);
+  }
+
+  send(data: string) {
+    this.sent.push(JSON.parse(data));
+  }
+
+  close() {
+    this.readyState = 3;
+    this.onclose?.();
+  }
+
+  open() {
+    this.readyState = FakeWebSocket.OPEN;
+    this.onopen?.();
+  }
+
+  receive(message: unknown) {
+    this.onmessage?.({ data: JSON.stringify(message) });
+  }
+}
+
+describe("createMempoolSocket", () => {
+  beforeEach(() => {
+    FakeWebSocket.instances = [];
+    FakeWebSocket.failNext = false;
+    vi.stubGlobal("WebSocket", FakeWebSocket);
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  const connect = () => {
+    const handlers = createHandlers();
+    const socket = createMempoolSocket("ws://mock", handlers);
+    const [ws] = FakeWebSocket.instances;
+    ws.open();
+    return { handlers, socket, ws };
+  };
+
+  it("passes on well-formed fees, blocks and address transactions", () => {
+    const { handlers, socket, ws } = connect();
+    const tx = { txid: "ab".repeat(32), status: { confirmed: false } };
+    ws.receive({ fees: FEES });
+    ws.receive({ block: { height: 850001 } });
+    ws.receive({
+      "multi-address-transactions": {
+        bc1qtracked: { mempool: [tx], confirmed: [], removed: [] },
+      },
+    });
+
+    expect(handlers.onStatus).toHaveBeenCalledWith("live");
+    expect(handlers.onFees).toHaveBeenCalledWith(FEES);
+    expect(handlers.onBlock).toHaveBeenCalledWith(850001);
+    expect(handlers.onAddressTxs).toHaveBeenCalledExactlyOnceWith(
+      "bc1qtracked",
+      "mempool",
+      [tx]
+    );
+    socket.close();
+  });
+
+  it("drops messages with the wrong shape", () => {
+    const { handlers, socket, ws } = connect();
+    ws.receive(null);
+    ws.receive([1, 2]);
+    ws.receive({ fees: { ...FEES, hourFee: "5" } });
+    ws.receive({ block: { height: "850001" } });
+    ws.receive({ block: null });
+    ws.receive({
+      "multi-address-transactions": {
+        bc1qtracked: { mempool: [{ txid: 1 }, null], confirmed: "nope" },
+        bc1qother: null,
+      },
+    });
+    ws.onmessage?.({ data: "not json" });
+
+    expect(handlers.onFees).not.toHaveBeenCalled();
+    expect(handlers.onBlock).not.toHaveBeenCalled();
+    expect(handlers.onAddressTxs).not.toHaveBeenCalled();
+    socket.close();
+  });
+
+  it("subscribes to blocks, stats and the tracked addresses on open", () => {
+    const handlers = createHandlers();
+    const socket = createMempoolSocket("ws://mock", handlers);
+    socket.setAddresses(["bc1qb", "bc1qa", "bc1qb"]);
+    const [ws] = FakeWebSocket.instances;
+    ws.open();
+
+    expect(ws.sent).toEqual([
+      { action: "want", data: ["blocks", "stats"] },
+      { "track-addresses": ["bc1qa", "bc1qb"] },
+    ]);
+    socket.close();
+  });
+
+  it("reconnects with doubling backoff and reports offline meanwhile", () => {
+    const { handlers, socket, ws } = connect();
+    ws.close();
+    expect(handlers.onStatus).toHaveBeenLastCalledWith(
+      "offline",
+      "Connection to ws://mock closed"
+    );
+
+    // 1s, then 2s after the second drop
+    vi.advanceTimersByTime(999);
+    expect(FakeWebSocket.instances).toHaveLength(1);
+    vi.advanceTimersByTime(1);
+    expect(FakeWebSocket.instances).toHaveLength(2);
+    FakeWebSocket.instances[1].close();
+    vi.advanceTimersByTime(1999);
+    expect(FakeWebSocket.instances).toHaveLength(2);
+    vi.advanceTimersByTime(1);
+    expect(FakeWebSocket.instances).toHaveLength(3);
+
+    // A successful open resets the delay
+    FakeWebSocket.instances[2].open();
+    expect(handlers.onStatus).toHaveBeenLastCalledWith("live");
+    FakeWebSocket.instances[2].close();
+    vi.advanceTimersByTime(1000);
+    expect(FakeWebSocket.instances).toHaveLength(4);
+    socket.close();
+  });
+
+  it("falls back to offline when the socket can't even be created", () => {
+    FakeWebSocket.failNext = true;
+    const handlers = createHandlers();
+    const socket = createMempoolSocket("not a url", handlers);
+    expect(handlers.onStatus).toHaveBeenLastCalledWith(
+      "offline",
+      "Invalid URL"
+    );
+
+    FakeWebSocket.failNext = false;
+    vi.advanceTimersByTime(1000);
+    FakeWebSocket.instances[0].open();
+    expect(handlers.onStatus).toHaveBeenLastCalledWith("live");
+    socket.close();
+  });
+
+  it("stops reconnecting once closed", () => {
+    const { socket } = connect();
+    socket.close();
+    vi.advanceTimersByTime(120000);
+    expect(FakeWebSocket.instances).toHaveLength(1);
+  });
+
+  it("drops only the address subscription when the server refuses it", () => {
+    const { handlers, socket, ws } = connect();
+    socket.setAddresses(["bc1qa"]);
+    ws.receive({ "track-addresses-error": "too many addresses" });
+    expect(handlers.onStatus).toHaveBeenLastCalledWith(
+      "offline",
+      "too many addresses"
+    );
+
+    // Fees and blocks still arrive, and the socket still reconnects
+    ws.receive({ fees: FEES });
+    expect(handlers.onFees).toHaveBeenCalledWith(FEES);
+    ws.close();
+    vi.advanceTimersByTime(1000);
+    const next = FakeWebSocket.instances[1];
+    next.open();
+    expect(handlers.onStatus).toHaveBeenLastCalledWith(
+      "offline",
+      "too many addresses"
+    );
+    expect(next.sent).toEqual([{ action: "want", data: ["blocks", "stats"] }]);
+
+    // A new set is tried again
+    socket.setAddresses(["bc1qa"]);
+    expect(next.sent).toContainEqual({ "track-addresses": ["bc1qa"] });
+    expect(handlers.onStatus).toHaveBeenLastCalledWith("live");
+    socket.close();
+  });
+});
+
+// Set by scripts/mock-mempool-ws.setup.mjs when Node has a WebSocket client
+declare module "vitest" {
+  export interface ProvidedContext {
+    mockMempoolUrl?: string;
+  }
+}
+
+describe.skipIf(!inject("mockMempoolUrl"))(
+  "against scripts/mock-mempool-ws.mjs",
+  () => {
+    it("goes live and gets fees from the mock server", async () => {
+      const handlers = createHandlers();
+      const socket = createMempoolSocket(inject("mockMempoolUrl")!, handlers);
+      await vi.waitFor(() => expect(handlers.onFees).toHaveBeenCalled());
+      expect(handlers.onStatus).toHaveBeenCalledWith("live");
+      socket.close();
+    });
+  }
+);
@@ -0,0 +1,169 @@
+import type { FeeRates, ProviderTx } from "./types";
+
+// --- mempool.space WebSocket Subscriptions ---
+// Pushes fee updates, new blocks and transactions touching tracked addresses
+// as they happen. Reconnects with backoff on its own; callers follow onStatus
+// and keep polling whenever it isn't "live".
+
+export type LiveStatus = "connecting" | "live" | "offline";
+
+export type AddressActivity = "mempool" | "confirmed" | "removed";
+
+export interface MempoolSocketHandlers {
+  onStatus: (status: LiveStatus, error?: string) => void;
+  onFees: (fees: FeeRates) => void;
+  onBlock: (height: number) => void;
+  onAddressTxs: (
+    address: string,
+    activity: AddressActivity,
+    txs: ProviderTx[]
+  ) => void;
+}
+
+const ACTIVITIES: AddressActivity[] = ["mempool", "confirmed", "removed"];
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === "object" && !Array.isArray(value);
+
+const isFeeRates = (value: unknown): value is FeeRates =>
+  isObject(value) &&
+  (
+    [
+      "fastestFee",
+      "halfHourFee",
+      "hourFee",
+      "economyFee",
+      "minimumFee",
+    ] as const
+  ).every((field) => typeof value[field] === "number");
+
+// Enough of a transaction to be worth passing on; handlers refetch the rest
+const isProviderTx = (value: unknown): value is ProviderTx =>
+  isObject(value) && typeof value.txid === "string" && isObject(value.status);
+
+const PING_INTERVAL = 30000;
+const MIN_RECONNECT_DELAY = 1000;
+const MAX_RECONNECT_DELAY = 60000;
+
+export const createMempoolSocket = (
+  url: string,
+  handlers: MempoolSocketHandlers
+) => {
+  let socket: WebSocket | null = null;
+  let addresses: string[] = [];
+  let reconnectDelay = MIN_RECONNECT_DELAY;
+  let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+  let pingTimer: ReturnType<typeof setInterval> | undefined;
+  let closed = false;
+  // Set when the server refused the tracked addresses
+  let addressError: string | null = null;
+
+  const send = (message: unknown) => {
+    if (socket?.readyState === WebSocket.OPEN) {
+      socket.send(JSON.stringify(message));
+    }
+  };
+
+  const subscribe = () => {
+    send({ action: "want", data: ["blocks", "stats"] });
+    if (addresses.length) send({ "track-addresses": addresses });
+  };
+
+  const handleMessage = (data: unknown) => {
+    if (!isObject(data)) return;
+    if (isFeeRates(data.fees)) handlers.onFees(data.fees);
+    if (isObject(data.block) && typeof data.block.height === "number") {
+      handlers.onBlock(data.block.height);
+    }
+    const multi = data["multi-address-transactions"];
+    if (isObject(multi)) {
+      Object.entries(multi)
+        .flatMap(([address, changes]) =>
+          ACTIVITIES.map((activity) => {
+            const txs = isObject(changes) ? changes[activity] : undefined;
+            return [
+              address,
+              activity,
+              Array.isArray(txs) ? txs.filter(isProviderTx) : [],
+            ] as const;
+          })
+        )
+        .filter(([, , txs]) => txs.length)
+        .forEach(([address, activity, txs]) =>
+          handlers.onAddressTxs(address, activity, txs)
+        );
+    }
+    // Too many addresses for this server; polling covers them instead,
+    // while fees and blocks keep coming over the socket
+    if (data["track-addresses-error"]) {
+      addresses = [];
+      addressError = String(data["track-addresses-error"]);
+      handlers.onStatus("offline", addressError);
+    }
+  };
+
+  const connect = () => {
+    handlers.onStatus("connecting");
+    let ws: WebSocket;
+    try {
+      ws = new WebSocket(url);
+    } catch (error) {
+      handlers.onStatus("offline", (error as Error).message);
+      scheduleReconnect();
+      return;
+    }
+    socket = ws;
+
+    ws.onopen = () => {
+      reconnectDelay = MIN_RECONNECT_DELAY;
+      if (addressError) handlers.onStatus("offline", addressError);
+      else handlers.onStatus("live");
+      subscribe();
+      pingTimer = setInterval(() => send({ action: "ping" }), PING_INTERVAL);
+    };
+    ws.onmessage = (event) => {
+      try {
+        handleMessage(JSON.parse(event.data));
+      } catch (error) {
+        console.error("Ignoring unreadable WebSocket message:", error);
+      }
+    };
+    ws.onclose = () => {
+      clearInterval(pingTimer);
+      if (socket !== ws || closed) return;
+      socket = null;
+      handlers.onStatus("offline", `Connection to ${url} closed`);
+      scheduleReconnect();
+    };
+  };
+
+  const scheduleReconnect = () => {
+    if (closed) return;
+    reconnectTimer = setTimeout(connect, reconnectDelay);
+    reconnectDelay = Math.min(MAX_RECONNECT_DELAY, reconnectDelay * 2);
+  };
+
+  // Replaces the tracked set; only re-subscribes when it actually changed
+  const setAddresses = (next: string[]) => {
+    const sorted = [...new Set(next)].sort();
+    if (sorted.join() === addresses.join()) return;
+    addresses = sorted;
+    send({ "track-addresses": addresses });
+    // A new set gets another try; the server says again if it's too many
+    if (addressError && socket?.readyState === WebSocket.OPEN) {
+      addressError = null;
+      handlers.onStatus("live");
+    }
+  };
+
+  const close = () => {
+    closed = true;
+    clearTimeout(reconnectTimer);
+    clearInterval(pingTimer);
+    socket?.close();
+    socket = null;
+  };
+
+  connect();
+  return { setAddresses, close };
+};
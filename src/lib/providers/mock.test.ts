@@ -0,0 +1,38 @@
+import { describe, expect, it } from "vitest";
+import { createMockProvider } from "./mock";
+
+describe("createMockProvider", () => {
+  // Any string works as a mock address; find one with some confirmed history
+  const findAddress = async () => {
+    const provider = createMockProvider();
+    for (let i = 0; ; i++) {
+      const address = `bc1qmock${i}`;
+      const summary = await provider.getAddressSummary(address);
+      if (summary.txCount >= 4) return address;
+    }
+  };
+
+  it("pages confirmed transactions after the cursor", async () => {
+    const provider = createMockProvider();
+    const address = await findAddress();
+    const firstPage = await provider.getAddressTxs(address);
+    const confirmed = firstPage.filter((tx) => tx.status.confirmed);
+
+    const nextPage = await provider.getAddressTxs(address, confirmed[0].txid);
+    expect(nextPage.map((tx) => tx.txid)).toEqual(
+      confirmed.slice(1).map((tx) => tx.txid)
+    );
+    expect(
+      await provider.getAddressTxs(
+        address,
+        confirmed[confirmed.length - 1].txid
+      )
+    ).toEqual([]);
+  });
+
+  it("returns nothing for a cursor it doesn't know", async () => {
+    const provider = createMockProvider();
+    const address = await findAddress();
+    expect(await provider.getAddressTxs(address, "ff".repeat(32))).toEqual([]);
+  });
+});
@@ -0,0 +1,241 @@
+import {
+  ProviderError,
+  TXS_PAGE_SIZE,
+  type AddressSummary,
+  type ChainProvider,
+  type PriceProvider,
+  type PriceQuote,
+  type ProviderTx,
+  type ProviderUtxo,
+} from "./types";
+
+// --- Deterministic In-Memory Backend ---
+// Every value is derived from the address string, so the same address always
+// produces the same balance and history. Handy offline and in tests.
+
+const MOCK_TIP_HEIGHT = 850000;
+const MOCK_TIP_TIME = 1718000000; // seconds
+
+// FNV-1a, good enough to spread addresses across mock outcomes
+const hashString = (value: string, seed = 0x811c9dc5) => {
+  let hash = seed;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+const mockTxid = (address: string, index: number) =>
+  Array.from({ length: 8 }, (_, i) =>
+    hashString(`${address}:${index}:${i}`).toString(16).padStart(8, "0")
+  ).join("");
+
+const mockSummary = (address: string): AddressSummary => {
+  const hash = hashString(address);
+  // Roughly two in three addresses are unused so xpub gap scans terminate
+  if (hash % 3 !== 0) return { confirmedSats: 0, mempoolSats: 0, txCount: 0 };
+  // Every fifth used address has a deposit in flight
+  const mempoolSats = hash % 5 === 0 ? 10_000 + (hash % 90_000) : 0;
+  return {
+    confirmedSats: hash % 250_000_000,
+    mempoolSats,
+    txCount: 1 + (hash % 7) + (mempoolSats ? 1 : 0),
+  };
+};
+
+const MOCK_COUNTERPARTY = "bc1qxy2kgdygjrsqtzq2n0yrf2493p83kkfjhx0wlh";
+const MOCK_CHANGE = 5_000;
+
+// Builds inputs/outputs so the tracked address nets exactly `delta` sats
+const mockTransfer = (address: string, delta: number, fee: number) => {
+  if (delta >= 0) {
+    return {
+      vin: [
+        {
+          prevout: {
+            scriptpubkey_address: MOCK_COUNTERPARTY,
+            value: delta + fee,
+          },
+        },
+      ],
+      vout: [{ scriptpubkey_address: address, value: delta }],
+    };
+  }
+  return {
+    vin: [
+      {
+        prevout: {
+          scriptpubkey_address: address,
+          value: -delta + MOCK_CHANGE,
+        },
+      },
+    ],
+    vout: [
+      { scriptpubkey_address: MOCK_COUNTERPARTY, value: -delta - fee },
+      { scriptpubkey_address: address, value: MOCK_CHANGE },
+    ],
+  };
+};
+
+// Deposits that add up to the confirmed balance, an occasional spend as the
+// newest confirmed tx, and the mempool amount as a pending deposit
+const mockHistory = (address: string): ProviderTx[] => {
+  const summary = mockSummary(address);
+  const hash = hashString(address);
+  const pendingCount = summary.mempoolSats !== 0 ? 1 : 0;
+  const confirmedCount = summary.txCount - pendingCount;
+  const spend = confirmedCount >= 3 ? 10_000 + (hash % 1_000_000) : 0;
+  const deposits = confirmedCount - (spend ? 1 : 0);
+  const depositTotal = summary.confirmedSats + spend;
+  const depositSize = Math.floor(depositTotal / Math.max(1, deposits));
+
+  return Array.from({ length: summary.txCount }, (_, i) => {
+    const pendingTx = i < pendingCount;
+    const depth = 1 + i * 1440 + (hashString(address, i) % 1000);
+    const fee = 150 + (hashString(address, i) % 2000);
+
+    let delta = depositSize;
+    if (pendingTx) delta = summary.mempoolSats;
+    else if (spend && i === pendingCount) delta = -spend;
+    else if (i === summary.txCount - 1) {
+      // Oldest deposit absorbs the rounding remainder
+      delta += depositTotal - depositSize * deposits;
+    }
+
+    const transfer = mockTransfer(address, delta, fee);
+    // Half the pending deposits signal RBF
+    const sequence = pendingTx && hash % 2 ? 0xfffffffd : 0xffffffff;
+    return {
+      txid: mockTxid(address, i),
+      status: pendingTx
+        ? { confirmed: false }
+        : {
+            confirmed: true,
+            block_height: MOCK_TIP_HEIGHT - depth,
+            block_time: MOCK_TIP_TIME - depth * 600,
+          },
+      vin: transfer.vin.map((input, j) => ({
+        txid: mockTxid(`${address}:spent`, i * 8 + j),
+        vout: 0,
+        sequence,
+        ...input,
+      })),
+      vout: transfer.vout,
+      fee,
+      weight: (68 * transfer.vin.length + 31 * transfer.vout.length + 11) * 4,
+    };
+  });
+};
+
+// Unspent outputs adding up to the balance: the pending deposit, then the
+// newest confirmed outputs (the last one trimmed to what the spend left)
+const mockUtxos = (address: string): ProviderUtxo[] => {
+  let remaining = mockSummary(address).confirmedSats;
+  const utxos: ProviderUtxo[] = [];
+  mockHistory(address).forEach((tx) => {
+    const vout = tx.vout!.findIndex(
+      (output) => output.scriptpubkey_address === address
+    );
+    if (vout === -1) return;
+    const output = tx.vout![vout];
+    if (!tx.status.confirmed) {
+      utxos.push({
+        txid: tx.txid,
+        vout,
+        value: output.value,
+        status: tx.status,
+      });
+      return;
+    }
+    const value = Math.min(output.value, remaining);
+    if (value <= 0) return;
+    utxos.push({ txid: tx.txid, vout, value, status: tx.status });
+    remaining -= value;
+  });
+  return utxos;
+};
+
+export const createMockProvider = ({
+  id = "mock",
+  name = "Mock",
+  latencyMs = 0,
+}: { id?: string; name?: string; latencyMs?: number } = {}): ChainProvider => {
+  const delay = <T>(value: T) =>
+    new Promise<T>((resolve) => setTimeout(() => resolve(value), latencyMs));
+
+  // Transactions handed out so far, for getTransaction lookups
+  const seen = new Map<string, ProviderTx>();
+
+  return {
+    id,
+    name,
+    getAddressSummary: (address) => delay(mockSummary(address)),
+    getAddressTxs: (address, lastSeenTxid) => {
+      const history = mockHistory(address);
+      history.forEach((tx) => seen.set(tx.txid, tx));
+      const mempool = history.filter((tx) => !tx.status.confirmed);
+      const confirmed = history.filter((tx) => tx.status.confirmed);
+      const start = lastSeenTxid
+        ? confirmed.findIndex((tx) => tx.txid === lastSeenTxid) + 1
+        : 0;
+      if (lastSeenTxid && !start) return delay([]);
+      return delay([
+        ...(lastSeenTxid ? [] : mempool),
+        ...confirmed.slice(start, start + TXS_PAGE_SIZE),
+      ]);
+    },
+    getTransaction: async (txid) => {
+      const tx = seen.get(txid);
+      if (!tx) throw new ProviderError(id, `Unknown mock transaction ${txid}`);
+      return delay(tx);
+    },
+    getAddressUtxos: (address) => delay(mockUtxos(address)),
+    getTipHeight: () => delay(MOCK_TIP_HEIGHT),
+    getFees: () =>
+      delay({
+        fastestFee: 24,
+        halfHourFee: 12,
+        hourFee: 6,
+        economyFee: 3,
+        minimumFee: 1,
+      }),
+  };
+};
+
+const MOCK_FX_RATES: Record<string, number> = {
+  usd: 1,
+  eur: 0.92,
+  gbp: 0.79,
+  chf: 0.88,
+  cad: 1.37,
+  aud: 1.52,
+  jpy: 157,
+};
+
+const mockFxRate = (currency: string) => MOCK_FX_RATES[currency] ?? 1;
+
+export const createMockPriceProvider = ({
+  id = "mock-price",
+  name = "Mock Price",
+}: { id?: string; name?: string } = {}): PriceProvider => ({
+  id,
+  name,
+  getPrice: async (currencies) => {
+    const quote: PriceQuote = { prices: {}, change24h: {} };
+    currencies.forEach((currency) => {
+      quote.prices[currency] = Math.round(65000 * mockFxRate(currency));
+      quote.change24h[currency] = 1.25;
+    });
+    return quote;
+  },
+  // A smooth, repeatable curve so charts and cost basis have something to show
+  getHistoricalPrice: async (timestamp, currency) => {
+    const days = (timestamp - MOCK_TIP_TIME * 1000) / 86_400_000;
+    const usd = Math.max(
+      1000,
+      65000 * Math.exp(days / 900) + 4000 * Math.sin(days / 20)
+    );
+    return Math.round(usd * mockFxRate(currency));
+  },
+});
@@ -0,0 +1,105 @@
+import { describe, expect, it, vi } from "vitest";
+import { createMockProvider } from "./mock";
+import {
+  createPrivateProvider,
+  withExposureLog,
+  type Exposure,
+} from "./privacy";
+
+const URLS = ["http://a.onion", "http://b.onion", "http://c.onion"];
+const ADDRESSES = Array.from({ length: 30 }, (_, i) => `bc1qprivate${i}`);
+
+// Three mock endpoints that log what each one learns
+const setup = (isolate = false) => {
+  const exposures: Exposure[] = [];
+  const create = vi.fn((url: string) => {
+    const provider = withExposureLog(createMockProvider(), url, (exposure) =>
+      exposures.push(exposure)
+    );
+    provider.close = vi.fn();
+    return provider;
+  });
+  const provider = createPrivateProvider({
+    endpoints: URLS.map((url) => ({ url, create: () => create(url) })),
+    isolate,
+    jitterMs: 0,
+  });
+  const learned = (url: string) =>
+    new Set(
+      exposures
+        .filter((exposure) => exposure.endpoint === url)
+        .map((exposure) => exposure.address)
+    );
+  return { provider, exposures, create, learned };
+};
+
+describe("createPrivateProvider", () => {
+  it("always sends an address to the same endpoint", async () => {
+    const { provider, learned } = setup();
+    for (const address of ADDRESSES) {
+      await provider.getAddressSummary(address);
+      await provider.getAddressUtxos(address);
+    }
+
+    const shares = URLS.map(learned);
+    // Every endpoint gets some, none sees another's
+    shares.forEach((share) => expect(share.size).toBeGreaterThan(0));
+    expect(shares.reduce((acc, share) => acc + share.size, 0)).toBe(
+      ADDRESSES.length
+    );
+  });
+
+  it("looks transactions up where their address was listed", async () => {
+    const { provider, create, learned } = setup();
+    let address = ADDRESSES[0];
+    for (const candidate of ADDRESSES) {
+      if ((await provider.getAddressSummary(candidate)).txCount) {
+        address = candidate;
+        break;
+      }
+    }
+    const [tx] = await provider.getAddressTxs(address);
+
+    const owner = URLS.findIndex((url) => learned(url).has(address));
+    const getTransaction = create.mock.results.map((result) =>
+      vi.spyOn(result.value, "getTransaction")
+    );
+    await provider.getTransaction(tx.txid);
+    getTransaction.forEach((spy, i) =>
+      expect(spy).toHaveBeenCalledTimes(i === owner ? 1 : 0)
+    );
+  });
+
+  it("opens and closes a provider per lookup when isolating", async () => {
+    const { provider, create } = setup(true);
+    expect(create).toHaveBeenCalledTimes(3);
+    await provider.getAddressSummary(ADDRESSES[0]);
+    await provider.getFees();
+    expect(create).toHaveBeenCalledTimes(5);
+    create.mock.results
+      .slice(3)
+      .forEach((result) => expect(result.value.close).toHaveBeenCalled());
+  });
+
+  it("needs at least one endpoint", () => {
+    expect(() =>
+      createPrivateProvider({ endpoints: [], isolate: false })
+    ).toThrow("No private endpoints");
+  });
+});
+
+describe("withExposureLog", () => {
+  it("logs address lookups with the endpoint that saw them", async () => {
+    const onExposure = vi.fn();
+    const provider = withExposureLog(createMockProvider(), URLS[0], onExposure);
+    await provider.getAddressSummary(ADDRESSES[0]);
+    await provider.getAddressTxs(ADDRESSES[1]);
+    await provider.getFees();
+    await provider.getTipHeight();
+
+    expect(onExposure.mock.calls).toEqual([
+      [{ endpoint: URLS[0], address: ADDRESSES[0], at: expect.any(Number) }],
+      [{ endpoint: URLS[0], address: ADDRESSES[1], at: expect.any(Number) }],
+    ]);
+  });
+});
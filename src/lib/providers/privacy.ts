@@ -0,0 +1,131 @@
+import { createRequestQueue } from "./queue";
+import type { ChainProvider } from "./types";
+
+// --- Network Privacy ---
+// Every address lookup tells the server that address belongs to whoever is
+// asking, and lookups that arrive together get linked to each other. Private
+// mode spreads addresses over several endpoints (onion services or the
+// user's own proxies), always sending the same address to the same one so
+// each only ever learns its share, and spaces requests out at random. There
+// are no decoy queries; they'd cost as much as the real ones and an
+// observer can often tell them apart anyway.
+
+export interface Exposure {
+  endpoint: string;
+  address: string;
+  at: number;
+}
+
+export type ExposureListener = (exposure: Exposure) => void;
+
+// Upper bound of the random wait before each request
+export const PRIVATE_JITTER_MS = 4000;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Reports every address `provider` is asked about as learned by `endpoint`
+export const withExposureLog = (
+  provider: ChainProvider,
+  endpoint: string,
+  onExposure: ExposureListener
+): ChainProvider => {
+  const logged =
+    <A extends [string, ...unknown[]], R>(call: (...args: A) => Promise<R>) =>
+    (...args: A) => {
+      onExposure({ endpoint, address: args[0], at: Date.now() });
+      return call(...args);
+    };
+  return {
+    ...provider,
+    getAddressSummary: logged(provider.getAddressSummary),
+    getAddressTxs: logged(provider.getAddressTxs),
+    getAddressUtxos: logged(provider.getAddressUtxos),
+  };
+};
+
+// FNV-1a; only needs to be stable and spread addresses evenly
+const endpointIndex = (key: string, count: number) => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < key.length; i++) {
+    hash ^= key.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return hash % count;
+};
+
+export interface PrivateEndpoint {
+  url: string;
+  create: () => ChainProvider;
+}
+
+// Routes each address (and txid) to one endpoint. With `isolate`, every
+// lookup gets a provider of its own, which for Electrum means its own
+// connection; over HTTP the browser may still reuse one per host, so
+// isolation there comes from having several endpoints.
+export const createPrivateProvider = ({
+  id = "private",
+  endpoints,
+  isolate,
+  jitterMs = PRIVATE_JITTER_MS,
+}: {
+  id?: string;
+  endpoints: PrivateEndpoint[];
+  isolate: boolean;
+  jitterMs?: number;
+}): ChainProvider => {
+  if (endpoints.length === 0) throw new Error("No private endpoints");
+  const shared = endpoints.map((endpoint) => endpoint.create());
+  // One request at a time per endpoint, so bursts can't line up
+  const queues = endpoints.map(() => createRequestQueue({ concurrency: 1 }));
+
+  // Which endpoint listed each txid; it already knows the address, so
+  // looking the tx up there tells nobody anything new
+  const txEndpoints = new Map<string, number>();
+
+  const run = async <R>(
+    index: number,
+    call: (provider: ChainProvider) => Promise<R>
+  ) => {
+    await sleep(Math.random() * jitterMs);
+    return queues[index].run(async () => {
+      if (!isolate) return call(shared[index]);
+      const provider = endpoints[index].create();
+      try {
+        return await call(provider);
+      } finally {
+        provider.close?.();
+      }
+    });
+  };
+
+  const byKey = (key: string) => endpointIndex(key, endpoints.length);
+  const anyEndpoint = () => Math.floor(Math.random() * endpoints.length);
+
+  return {
+    id,
+    name:
+      endpoints.length > 1
+        ? `${endpoints.length} private endpoints`
+        : shared[0].name,
+    getAddressSummary: (address) =>
+      run(byKey(address), (provider) => provider.getAddressSummary(address)),
+    getAddressTxs: async (address, lastSeenTxid) => {
+      const index = byKey(address);
+      const txs = await run(index, (provider) =>
+        provider.getAddressTxs(address, lastSeenTxid)
+      );
+      txs.forEach((tx) => txEndpoints.set(tx.txid, index));
+      return txs;
+    },
+    getAddressUtxos: (address) =>
+      run(byKey(address), (provider) => provider.getAddressUtxos(address)),
+    getTransaction: (txid) =>
+      run(txEndpoints.get(txid) ?? byKey(txid), (provider) =>
+        provider.getTransaction(txid)
+      ),
+    getTipHeight: () =>
+      run(anyEndpoint(), (provider) => provider.getTipHeight()),
+    getFees: () => run(anyEndpoint(), (provider) => provider.getFees()),
+    close: () => shared.forEach((provider) => provider.close?.()),
+  };
+};
@@ -0,0 +1,137 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { createRequestQueue, isRetryable } from "./queue";
+import { ProviderError } from "./types";
+
+const busy = () => new ProviderError("test", "Too many requests", 429);
+
+describe("isRetryable", () => {
+  it("retries rate limits and server errors only", () => {
+    expect(isRetryable(busy())).toBe(true);
+    expect(isRetryable(new ProviderError("test", "Bad gateway", 502))).toBe(
+      true
+    );
+    expect(isRetryable(new ProviderError("test", "Not found", 404))).toBe(
+      false
+    );
+    expect(isRetryable(new ProviderError("test", "Offline"))).toBe(false);
+    expect(isRetryable(new Error("boom"))).toBe(false);
+  });
+});
+
+describe("createRequestQueue", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it("keeps no more than `concurrency` requests in flight", async () => {
+    const queue = createRequestQueue({ concurrency: 2 });
+    let inFlight = 0;
+    let peak = 0;
+    const results = Array.from({ length: 5 }, (_, i) =>
+      queue.run(async () => {
+        inFlight++;
+        peak = Math.max(peak, inFlight);
+        await new Promise((resolve) => setTimeout(resolve, 100));
+        inFlight--;
+        return i;
+      })
+    );
+
+    await vi.advanceTimersByTimeAsync(100);
+    expect(peak).toBe(2);
+    await vi.advanceTimersByTimeAsync(200);
+    await expect(Promise.all(results)).resolves.toEqual([0, 1, 2, 3, 4]);
+    expect(peak).toBe(2);
+  });
+
+  it("backs off exponentially on 429s and 5xx", async () => {
+    vi.spyOn(Math, "random").mockReturnValue(0.5); // No jitter
+    const queue = createRequestQueue({ concurrency: 1, baseDelay: 1000 });
+    const request = vi
+      .fn<() => Promise<string>>()
+      .mockRejectedValueOnce(busy())
+      .mockRejectedValueOnce(new ProviderError("test", "Unavailable", 503))
+      .mockResolvedValue("ok");
+    const result = queue.run(request);
+
+    await vi.advanceTimersByTimeAsync(0);
+    expect(request).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(999);
+    expect(request).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(request).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(1999);
+    expect(request).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(1);
+    await expect(result).resolves.toBe("ok");
+  });
+
+  it("jitters the delay by up to a quarter either way", async () => {
+    const queue = createRequestQueue({ concurrency: 1, baseDelay: 1000 });
+    const request = vi
+      .fn<() => Promise<string>>()
+      .mockRejectedValueOnce(busy())
+      .mockResolvedValue("ok");
+
+    vi.spyOn(Math, "random").mockReturnValue(0);
+    const early = queue.run(request);
+    await vi.advanceTimersByTimeAsync(749);
+    expect(request).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    await expect(early).resolves.toBe("ok");
+
+    request.mockRejectedValueOnce(busy());
+    vi.spyOn(Math, "random").mockReturnValue(0.999);
+    const late = queue.run(request);
+    await vi.advanceTimersByTimeAsync(1248);
+    expect(request).toHaveBeenCalledTimes(3);
+    await vi.advanceTimersByTimeAsync(1);
+    await expect(late).resolves.toBe("ok");
+  });
+
+  it("pauses the other requests while backing off", async () => {
+    vi.spyOn(Math, "random").mockReturnValue(0.5);
+    const queue = createRequestQueue({ concurrency: 2, baseDelay: 1000 });
+    const failing = vi
+      .fn<() => Promise<string>>()
+      .mockRejectedValueOnce(busy())
+      .mockResolvedValue("retried");
+    const first = queue.run(failing);
+    await vi.advanceTimersByTimeAsync(0);
+
+    const other = vi.fn(async () => "other");
+    const second = queue.run(other);
+    await vi.advanceTimersByTimeAsync(500);
+    expect(other).not.toHaveBeenCalled();
+    await vi.advanceTimersByTimeAsync(500);
+    await expect(Promise.all([first, second])).resolves.toEqual([
+      "retried",
+      "other",
+    ]);
+  });
+
+  it("gives up on other errors and after maxRetries", async () => {
+    vi.spyOn(Math, "random").mockReturnValue(0.5);
+    const queue = createRequestQueue({
+      concurrency: 1,
+      maxRetries: 2,
+      baseDelay: 10,
+    });
+    const notFound = new ProviderError("test", "Not found", 404);
+    const missing = vi.fn().mockRejectedValue(notFound);
+    await expect(queue.run(missing)).rejects.toBe(notFound);
+    expect(missing).toHaveBeenCalledTimes(1);
+
+    const overloaded = vi.fn().mockRejectedValue(busy());
+    const result = queue.run(overloaded);
+    const settled = expect(result).rejects.toThrow("Too many requests");
+    await vi.advanceTimersByTimeAsync(100);
+    await settled;
+    expect(overloaded).toHaveBeenCalledTimes(3);
+  });
+});
@@ -0,0 +1,90 @@
+import { ProviderError, type ChainProvider } from "./types";
+
+// --- Request Queue ---
+// Caps how many requests a backend has in flight and backs off when it pushes
+// back. A 429 or 5xx pauses the whole queue, not just the request that got
+// it, so the other workers don't keep hammering a server that's shedding load.
+
+export interface RequestQueueOptions {
+  concurrency: number;
+  maxRetries?: number;
+  baseDelay?: number; // ms before the first retry; doubles each attempt
+  maxDelay?: number;
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+export const isRetryable = (error: unknown) =>
+  error instanceof ProviderError &&
+  error.status !== undefined &&
+  (error.status === 429 || error.status >= 500);
+
+export const createRequestQueue = ({
+  concurrency,
+  maxRetries = 4,
+  baseDelay = 1000,
+  maxDelay = 60000,
+}: RequestQueueOptions) => {
+  let active = 0;
+  const waiting: (() => void)[] = [];
+  let pausedUntil = 0;
+
+  const acquire = async () => {
+    if (active < concurrency) {
+      active++;
+      return;
+    }
+    // release() hands its slot straight over, so `active` stays put
+    await new Promise<void>((resolve) => waiting.push(resolve));
+  };
+
+  const release = () => {
+    const next = waiting.shift();
+    if (next) next();
+    else active--;
+  };
+
+  const run = async <T>(request: () => Promise<T>): Promise<T> => {
+    for (let attempt = 0; ; attempt++) {
+      await acquire();
+      try {
+        const wait = pausedUntil - Date.now();
+        if (wait > 0) await sleep(wait);
+        return await request();
+      } catch (error) {
+        if (!isRetryable(error) || attempt >= maxRetries) throw error;
+        // Jittered so queues sharing a server don't retry in lockstep
+        const delay =
+          Math.min(maxDelay, baseDelay * 2 ** attempt) *
+          (0.75 + Math.random() * 0.5);
+        pausedUntil = Math.max(pausedUntil, Date.now() + delay);
+      } finally {
+        release();
+      }
+    }
+  };
+
+  return { run };
+};
+
+// Routes every call on `provider` through its own queue
+export const withRequestQueue = (
+  provider: ChainProvider,
+  options: RequestQueueOptions
+): ChainProvider => {
+  const queue = createRequestQueue(options);
+  const queued =
+    <A extends unknown[], R>(call: (...args: A) => Promise<R>) =>
+    (...args: A) =>
+      queue.run(() => call(...args));
+
+  return {
+    ...provider,
+    getAddressSummary: queued(provider.getAddressSummary),
+    getAddressTxs: queued(provider.getAddressTxs),
+    getTransaction: queued(provider.getTransaction),
+    getAddressUtxos: queued(provider.getAddressUtxos),
+    getTipHeight: queued(provider.getTipHeight),
+    getFees: queued(provider.getFees),
+  };
+};
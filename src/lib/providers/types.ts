@@ -0,0 +1,109 @@
+// --- Chain & Price Provider Interfaces ---
+
+export interface AddressSummary {
+  confirmedSats: number;
+  mempoolSats: number;
+  txCount: number;
+}
+
+export interface TxOutput {
+  scriptpubkey_address?: string; // Missing for OP_RETURN and bare scripts
+  value: number;
+}
+
+// Esplora's transaction shape, which the other backends map into. Backends
+// that can't cheaply include inputs/outputs in address listings leave them
+// out; use getTransaction() to fill them in.
+export interface ProviderTx {
+  txid: string;
+  status: {
+    confirmed: boolean;
+    block_height?: number;
+    block_time?: number;
+  };
+  vin?: {
+    txid?: string; // The spent output; both unset for coinbase inputs
+    vout?: number;
+    sequence?: number; // Below 0xfffffffe signals replaceability (BIP 125)
+    prevout: TxOutput | null; // null for coinbase inputs
+  }[];
+  vout?: TxOutput[];
+  fee?: number;
+  weight?: number;
+}
+
+// Esplora's `/address/:address/utxo` shape
+export interface ProviderUtxo {
+  txid: string;
+  vout: number;
+  value: number;
+  status: ProviderTx["status"];
+}
+
+export interface FeeRates {
+  fastestFee: number;
+  halfHourFee: number;
+  hourFee: number;
+  economyFee: number;
+  minimumFee: number;
+}
+
+// Keyed by lowercase currency code ("usd", "eur", ...)
+export interface PriceQuote {
+  prices: Record<string, number>;
+  change24h: Record<string, number>;
+}
+
+export interface ChainProvider {
+  id: string;
+  name: string;
+  getAddressSummary: (address: string) => Promise<AddressSummary>;
+  // Newest first: the first page holds every mempool tx plus up to 25
+  // confirmed ones; pass the last confirmed txid to get the next 25
+  getAddressTxs: (
+    address: string,
+    lastSeenTxid?: string
+  ) => Promise<ProviderTx[]>;
+  getTransaction: (txid: string) => Promise<ProviderTx>;
+  getAddressUtxos: (address: string) => Promise<ProviderUtxo[]>;
+  getTipHeight: () => Promise<number>;
+  getFees: () => Promise<FeeRates>;
+  close?: () => void;
+}
+
+export interface PriceProvider {
+  id: string;
+  name: string;
+  getPrice: (currencies: readonly string[]) => Promise<PriceQuote>;
+  // Price for the UTC day containing `timestamp` (ms)
+  getHistoricalPrice: (timestamp: number, currency: string) => Promise<number>;
+}
+
+export const TXS_PAGE_SIZE = 25;
+
+export interface ProviderStatus {
+  lastSuccess?: number;
+  lastError?: { message: string; at: number };
+}
+
+export class ProviderError extends Error {
+  providerId: string;
+  status?: number;
+
+  constructor(providerId: string, message: string, status?: number) {
+    super(message);
+    this.name = "ProviderError";
+    this.providerId = providerId;
+    this.status = status;
+  }
+}
+
+// Normalizes anything thrown inside a provider so callers can tell which
+// backend failed
+export const toProviderError = (providerId: string, error: unknown) =>
+  error instanceof ProviderError
+    ? error
+    : new ProviderError(
+        providerId,
+        error instanceof Error ? error.message : String(error)
+      );
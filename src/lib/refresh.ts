@@ -0,0 +1,69 @@
+import type { ProviderStatus } from "./providers";
+import type { TrackedEntry } from "./entries";
+
+// --- Refresh Scheduling ---
+// Entries refresh on their own staggered timers instead of all at once, so a
+// few hundred addresses turn into a steady trickle of requests.
+
+export const REFRESH_INTERVALS = [30, 60, 120, 300, 600]; // Seconds
+export const DEFAULT_REFRESH_INTERVAL = 60;
+
+// How often the scheduler looks for entries that are due
+export const REFRESH_TICK = 5000;
+
+// While the mempool socket is live it reports activity as it happens, so
+// polling is only a slow safety net (new wallet addresses, missed messages)
+export const LIVE_POLL_FACTOR = 10;
+
+// Socket messages tend to arrive in bursts; refresh once they settle
+export const LIVE_REFRESH_DELAY = 1000;
+
+// Spreads the entries' next refresh evenly over one interval, the first
+// one due at `start`
+export const staggerSchedule = (
+  ids: number[],
+  intervalMs: number,
+  start = Date.now()
+) =>
+  new Map(
+    ids.map((id, i) => [id, start + Math.round((intervalMs * i) / ids.length)])
+  );
+
+// Private mode: each entry due at its own random point in the interval, so
+// the order and spacing of lookups change every round
+export const randomSchedule = (
+  ids: number[],
+  intervalMs: number,
+  start = Date.now()
+) => new Map(ids.map((id) => [id, start + Math.random() * intervalMs]));
+
+// --- Per-Entry Status ---
+
+export interface EntryStatus extends ProviderStatus {
+  refreshing?: boolean;
+}
+
+export type Freshness = "fresh" | "stale" | "error" | "refreshing";
+
+export const FRESHNESS_NAMES: Record<Freshness, string> = {
+  fresh: "Fresh",
+  stale: "Stale",
+  error: "Error",
+  refreshing: "Refreshing",
+};
+
+// Stale once an entry has missed two refreshes; entries without a status
+// this session fall back to when they were last saved
+export const entryFreshness = (
+  entry: TrackedEntry,
+  status: EntryStatus | undefined,
+  intervalMs: number,
+  now = Date.now()
+): Freshness => {
+  if (status?.refreshing) return "refreshing";
+  const lastSuccess =
+    status?.lastSuccess ??
+    (entry.lastUpdated ? new Date(entry.lastUpdated).getTime() : 0);
+  if (status?.lastError && status.lastError.at > lastSuccess) return "error";
+  return now - lastSuccess > intervalMs * 2 ? "stale" : "fresh";
+};
@@ -0,0 +1,97 @@
+import {
+  SNAPSHOT_STORE,
+  openDb,
+  openValue,
+  promisify,
+  sealValue,
+} from "./storage";
+
+// --- Balance Snapshots (IndexedDB) ---
+
+export interface Snapshot {
+  timestamp: number; // ms
+  totalSats: number;
+  btcPrice: number | null; // USD price when the snapshot was taken
+  prices?: Record<string, number>; // Every fetched currency (newer snapshots)
+  balances: Record<string, number>; // Tracked entry id -> sats
+}
+
+export type HistoryRange = "24h" | "7d" | "30d" | "1y" | "all";
+
+export const HISTORY_RANGES: Record<HistoryRange, number | null> = {
+  "24h": 24 * 60 * 60 * 1000,
+  "7d": 7 * 24 * 60 * 60 * 1000,
+  "30d": 30 * 24 * 60 * 60 * 1000,
+  "1y": 365 * 24 * 60 * 60 * 1000,
+  all: null,
+};
+
+// Refreshes run every minute; keeping one point per 15 minutes (plus any
+// balance change) is plenty for the chart and keeps the store small
+export const SNAPSHOT_INTERVAL = 15 * 60 * 1000;
+
+export const getLatestSnapshot = async (): Promise<Snapshot | null> => {
+  const db = await openDb();
+  const store = db.transaction(SNAPSHOT_STORE).objectStore(SNAPSHOT_STORE);
+  const cursor = await promisify(store.openCursor(null, "prev"));
+  return cursor ? openValue<Snapshot>(cursor.value) : null;
+};
+
+// Price in `currency` at snapshot time; snapshots from before multi-currency
+// support only carry USD
+export const getSnapshotPrice = (snapshot: Snapshot, currency: string) =>
+  snapshot.prices?.[currency] ??
+  (currency === "usd" ? snapshot.btcPrice : null);
+
+export const getSnapshots = async (
+  range: HistoryRange
+): Promise<Snapshot[]> => {
+  const db = await openDb();
+  const store = db.transaction(SNAPSHOT_STORE).objectStore(SNAPSHOT_STORE);
+  const span = HISTORY_RANGES[range];
+  const query = span ? IDBKeyRange.lowerBound(Date.now() - span) : null;
+  const stored = await promisify(store.getAll(query));
+  return Promise.all(stored.map((value) => openValue<Snapshot>(value)));
+};
+
+// Stores a snapshot unless one was taken recently with identical balances.
+// Resolves to the stored snapshot, or null if it was skipped.
+export const recordSnapshot = async (
+  entries: { id: number | string; balanceSats: number }[],
+  prices: Record<string, number> | null
+) => {
+  const balances: Record<string, number> = {};
+  entries.forEach((entry) => {
+    balances[entry.id] = entry.balanceSats;
+  });
+  const snapshot: Snapshot = {
+    timestamp: Date.now(),
+    totalSats: entries.reduce((acc, curr) => acc + curr.balanceSats, 0),
+    btcPrice: prices?.usd ?? null,
+    prices: prices || undefined,
+    balances,
+  };
+
+  const latest = await getLatestSnapshot();
+  if (
+    latest &&
+    snapshot.timestamp - latest.timestamp < SNAPSHOT_INTERVAL &&
+    JSON.stringify(latest.balances) === JSON.stringify(balances)
+  ) {
+    return null;
+  }
+
+  // Sealed snapshots keep their timestamp outside, as the store's key
+  const stored = {
+    timestamp: snapshot.timestamp,
+    ...(await sealValue(snapshot)),
+  };
+  const db = await openDb();
+  const tx = db.transaction(SNAPSHOT_STORE, "readwrite");
+  tx.objectStore(SNAPSHOT_STORE).put(stored);
+  await new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+  return snapshot;
+};
@@ -0,0 +1,500 @@
+import type { TrackedEntry } from "./entries";
+import type { Currency } from "./currency";
+import type { ProviderSettings } from "./providers";
+import type { LotMethod, ManualCost } from "./costBasis";
+import type { AlertEvent, AlertRule } from "./alerts";
+import type { FeeSample } from "./fees";
+import type { GroupDef } from "./groups";
+import type { MarketCache } from "./offline";
+import type { ExposureRecord } from "./exposure";
+import type { PrivacyLevel } from "./masking";
+import {
+  DecryptionError,
+  PBKDF2_ITERATIONS,
+  deriveSessionKey,
+  newSalt,
+  seal,
+  unseal,
+  type SealedValue,
+} from "./crypto";
+
+// --- Persistent Storage (IndexedDB) ---
+// One database with a store per kind of data. Bump DB_VERSION and append to
+// SCHEMA_MIGRATIONS to change the schema; every step runs in order on open.
+
+const DB_NAME = "sats-tracker";
+export const DB_VERSION = 3;
+
+export const SNAPSHOT_STORE = "snapshots";
+const ADDRESS_STORE = "addresses";
+const SETTINGS_STORE = "settings";
+const VAULT_STORE = "vault";
+
+// Index i upgrades a database from version i to i + 1
+const SCHEMA_MIGRATIONS: ((db: IDBDatabase, tx: IDBTransaction) => void)[] = [
+  (db) => {
+    db.createObjectStore(SNAPSHOT_STORE, { keyPath: "timestamp" });
+  },
+  (db) => {
+    db.createObjectStore(ADDRESS_STORE, { keyPath: "id" });
+    db.createObjectStore(SETTINGS_STORE);
+  },
+  (db) => {
+    db.createObjectStore(VAULT_STORE);
+  },
+];
+
+export interface StoredSettings {
+  privacy: PrivacyLevel; // A boolean in older saves
+  currency: Currency;
+  secondaryCurrency: Currency | null;
+  providers: ProviderSettings;
+  manualCosts: Record<string, ManualCost>;
+  lotMethod: LotMethod;
+  alertRules: AlertRule[];
+  alertLog: AlertEvent[];
+  feeHistory: FeeSample[];
+  groups: GroupDef[];
+  refreshInterval: number; // Seconds
+  market: MarketCache; // Last good price and fees, for offline starts
+  exposure: ExposureRecord[]; // Which endpoint has seen which address
+}
+
+export type SettingKey = keyof StoredSettings;
+
+// Where each setting lived before IndexedDB
+const LEGACY_KEYS: Partial<Record<SettingKey, string>> = {
+  privacy: "sats-tracker-privacy",
+  currency: "sats-tracker-currency",
+  secondaryCurrency: "sats-tracker-secondary-currency",
+  providers: "sats-tracker-providers",
+  manualCosts: "sats-tracker-cost-basis",
+  lotMethod: "sats-tracker-lot-method",
+  alertRules: "sats-tracker-alert-rules",
+  alertLog: "sats-tracker-alert-log",
+  feeHistory: "sats-tracker-fee-history",
+};
+const LEGACY_ADDRESSES_KEY = "sats-tracker-addresses";
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export const openDb = () => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = (event) => {
+        for (let v = event.oldVersion; v < DB_VERSION; v++) {
+          SCHEMA_MIGRATIONS[v](request.result, request.transaction!);
+        }
+      };
+      request.onsuccess = () => {
+        const db = request.result;
+        // A newer build opened in another tab; step aside so it can upgrade
+        db.onversionchange = () => {
+          db.close();
+          dbPromise = null;
+        };
+        resolve(db);
+      };
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+export const promisify = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const complete = (tx: IDBTransaction) =>
+  new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+// --- Cross-Tab Sync ---
+
+export type StorageChange =
+  | { kind: "addresses"; value: TrackedEntry[] }
+  | { kind: "setting"; key: SettingKey; value: unknown }
+  | { kind: "vault" }; // The app lock was turned on or off, or rekeyed
+
+const channel =
+  typeof BroadcastChannel !== "undefined"
+    ? new BroadcastChannel("sats-tracker")
+    : null;
+
+// Last value written or received per key, serialized. Saving a value that
+// matches is a no-op, so applying another tab's change doesn't echo back.
+const lastKnown = new Map<string, string>();
+
+const changed = (key: string, value: unknown) => {
+  const serialized = JSON.stringify(value);
+  if (lastKnown.get(key) === serialized) return false;
+  lastKnown.set(key, serialized);
+  return true;
+};
+
+// Calls `listener` with changes saved in other tabs. Returns an unsubscribe.
+export const subscribeToChanges = (
+  listener: (change: StorageChange) => void
+) => {
+  if (!channel) return () => {};
+  const handler = (event: MessageEvent<StorageChange>) => {
+    const change = event.data;
+    // Our key (if any) is stale now; the listener locks or reloads
+    if (change.kind === "vault") {
+      lockConfig = undefined;
+      sessionKey = null;
+      lastKnown.clear();
+      listener(change);
+      return;
+    }
+    // A locked tab shows nothing, so it has nothing to update
+    if (isLocked()) return;
+    lastKnown.set(
+      change.kind === "addresses" ? ADDRESS_STORE : change.key,
+      JSON.stringify(change.value)
+    );
+    listener(change);
+  };
+  channel.addEventListener("message", handler);
+  return () => channel.removeEventListener("message", handler);
+};
+
+// --- App Lock ---
+// With a lock set, every address, setting and snapshot is sealed with a key
+// derived from the passphrase before it's written, and nothing can be read
+// or saved until the passphrase is entered again. The key lives only in this
+// module's memory; locking forgets it.
+
+export interface LockConfig {
+  salt: string; // base64
+  iterations: number;
+  check: SealedValue; // LOCK_CHECK, to tell a wrong passphrase from a right one
+  autoLockMinutes: number; // 0 to stay unlocked until locked by hand
+}
+
+export const AUTO_LOCK_OPTIONS = [0, 1, 5, 15, 30, 60]; // Minutes
+export const DEFAULT_AUTO_LOCK = 15;
+export const MIN_PASSPHRASE_LENGTH = 4; // A PIN, at the least
+
+const LOCK_KEY = "lock";
+const LOCK_CHECK = "sats-tracker";
+
+export class StorageLockedError extends Error {
+  constructor() {
+    super("Storage is locked");
+    this.name = "StorageLockedError";
+  }
+}
+
+// undefined until read from the database; null when there's no lock
+let lockConfig: LockConfig | null | undefined;
+let sessionKey: CryptoKey | null = null;
+
+export const getLockConfig = async () => {
+  if (lockConfig === undefined) {
+    const db = await openDb();
+    const stored = await promisify(
+      db.transaction(VAULT_STORE).objectStore(VAULT_STORE).get(LOCK_KEY)
+    );
+    lockConfig = (stored as LockConfig | undefined) ?? null;
+  }
+  return lockConfig;
+};
+
+const isLocked = () => !!lockConfig && !sessionKey;
+
+interface SealedRecord {
+  sealed: SealedValue;
+}
+
+const isSealed = (value: unknown): value is SealedRecord =>
+  typeof value === "object" && value !== null && "sealed" in value;
+
+// Values go to disk as-is, or sealed while a lock is set
+export const sealValue = async <T>(value: T): Promise<T | SealedRecord> => {
+  await getLockConfig();
+  if (isLocked()) throw new StorageLockedError();
+  return sessionKey
+    ? { sealed: await seal(JSON.stringify(value), sessionKey) }
+    : value;
+};
+
+export const openValue = async <T>(stored: T | SealedRecord): Promise<T> => {
+  if (!isSealed(stored)) return stored;
+  if (!sessionKey) throw new StorageLockedError();
+  return JSON.parse(await unseal(stored.sealed, sessionKey));
+};
+
+// Throws DecryptionError for the wrong passphrase
+const keyFor = async (config: LockConfig, passphrase: string) => {
+  const key = await deriveSessionKey(
+    passphrase,
+    config.salt,
+    config.iterations
+  );
+  if ((await unseal(config.check, key)) !== LOCK_CHECK) {
+    throw new DecryptionError();
+  }
+  return key;
+};
+
+export const unlockStorage = async (passphrase: string) => {
+  const config = await getLockConfig();
+  if (!config) return;
+  sessionKey = await keyFor(config, passphrase);
+};
+
+export const lockStorage = () => {
+  sessionKey = null;
+  lastKnown.clear();
+};
+
+// For confirming changes to the lock itself while unlocked
+export const checkPassphrase = async (passphrase: string) => {
+  const config = await getLockConfig();
+  if (config) await keyFor(config, passphrase);
+};
+
+// Sets a new passphrase (or none, to go back to plaintext) and rewrites
+// everything stored under it, all in one transaction
+export const changeLockPassphrase = async (
+  passphrase: string | null,
+  autoLockMinutes = DEFAULT_AUTO_LOCK
+) => {
+  await getLockConfig();
+  if (isLocked()) throw new StorageLockedError();
+  const db = await openDb();
+
+  const read = db.transaction([ADDRESS_STORE, SETTINGS_STORE, SNAPSHOT_STORE]);
+  const settingsStore = read.objectStore(SETTINGS_STORE);
+  const [records, keys, values, snapshots] = await Promise.all([
+    promisify(read.objectStore(ADDRESS_STORE).getAll()),
+    promisify(settingsStore.getAllKeys()),
+    promisify(settingsStore.getAll()),
+    promisify(read.objectStore(SNAPSHOT_STORE).getAll()),
+  ]);
+
+  const salt = newSalt();
+  const key = passphrase
+    ? await deriveSessionKey(passphrase, salt, PBKDF2_ITERATIONS)
+    : null;
+  const config: LockConfig | null = key
+    ? {
+        salt,
+        iterations: PBKDF2_ITERATIONS,
+        check: await seal(LOCK_CHECK, key),
+        autoLockMinutes,
+      }
+    : null;
+
+  const reseal = async <T>(stored: T | SealedRecord) =>
+    key
+      ? { sealed: await seal(JSON.stringify(await openValue(stored)), key) }
+      : openValue(stored);
+  const nextRecords = await Promise.all(
+    (records as AddressRecord[]).map(async (record) => ({
+      ...record,
+      entry: await reseal(record.entry),
+    }))
+  );
+  const nextValues = await Promise.all(values.map(reseal));
+  const nextSnapshots = await Promise.all(
+    snapshots.map(async (snapshot: { timestamp: number }) => ({
+      timestamp: snapshot.timestamp,
+      ...(await reseal(snapshot)),
+    }))
+  );
+
+  const tx = db.transaction(
+    [ADDRESS_STORE, SETTINGS_STORE, SNAPSHOT_STORE, VAULT_STORE],
+    "readwrite"
+  );
+  nextRecords.forEach((record) => tx.objectStore(ADDRESS_STORE).put(record));
+  keys.forEach((settingKey, i) =>
+    tx.objectStore(SETTINGS_STORE).put(nextValues[i], settingKey)
+  );
+  tx.objectStore(SNAPSHOT_STORE).clear();
+  nextSnapshots.forEach((snapshot) =>
+    tx.objectStore(SNAPSHOT_STORE).put(snapshot)
+  );
+  if (config) tx.objectStore(VAULT_STORE).put(config, LOCK_KEY);
+  else tx.objectStore(VAULT_STORE).delete(LOCK_KEY);
+  await complete(tx);
+
+  lockConfig = config;
+  sessionKey = key;
+  channel?.postMessage({ kind: "vault" });
+};
+
+export const saveAutoLock = async (autoLockMinutes: number) => {
+  const config = await getLockConfig();
+  if (!config) return;
+  const next = { ...config, autoLockMinutes };
+  const db = await openDb();
+  const tx = db.transaction(VAULT_STORE, "readwrite");
+  tx.objectStore(VAULT_STORE).put(next, LOCK_KEY);
+  await complete(tx);
+  lockConfig = next;
+};
+
+// --- Addresses ---
+
+// Stored one record per entry; `position` keeps the user's ordering
+interface AddressRecord {
+  id: number;
+  position: number;
+  entry: TrackedEntry | SealedRecord;
+}
+
+// JSON-era entries carry lastUpdated as an ISO string
+const reviveEntry = (entry: TrackedEntry): TrackedEntry =>
+  typeof entry.lastUpdated === "string"
+    ? { ...entry, lastUpdated: new Date(entry.lastUpdated) }
+    : entry;
+
+// `stored` lines up with `entries`, sealed or not
+const writeAddresses = (
+  tx: IDBTransaction,
+  entries: TrackedEntry[],
+  stored: (TrackedEntry | SealedRecord)[] = entries
+) => {
+  const store = tx.objectStore(ADDRESS_STORE);
+  store.clear();
+  entries.forEach((entry, position) => {
+    const record: AddressRecord = {
+      id: entry.id,
+      position,
+      entry: stored[position],
+    };
+    store.put(record);
+  });
+};
+
+// Forget the value if the write failed so the next save retries it
+const write = async (key: string, run: (db: IDBDatabase) => Promise<void>) => {
+  try {
+    await run(await openDb());
+  } catch (error) {
+    lastKnown.delete(key);
+    throw error;
+  }
+};
+
+export const saveAddresses = async (entries: TrackedEntry[]) => {
+  if (!changed(ADDRESS_STORE, entries)) return;
+  await write(ADDRESS_STORE, async (db) => {
+    const stored = await Promise.all(entries.map((entry) => sealValue(entry)));
+    const tx = db.transaction(ADDRESS_STORE, "readwrite");
+    writeAddresses(tx, entries, stored);
+    return complete(tx);
+  });
+  channel?.postMessage({ kind: "addresses", value: entries });
+};
+
+// --- Settings ---
+
+export const saveSetting = async <K extends SettingKey>(
+  key: K,
+  value: StoredSettings[K]
+) => {
+  if (!changed(key, value)) return;
+  await write(key, async (db) => {
+    const stored = await sealValue(value);
+    const tx = db.transaction(SETTINGS_STORE, "readwrite");
+    tx.objectStore(SETTINGS_STORE).put(stored, key);
+    return complete(tx);
+  });
+  channel?.postMessage({ kind: "setting", key, value });
+};
+
+// --- Loading & localStorage Migration ---
+
+export interface StoredState {
+  addresses: TrackedEntry[];
+  settings: Partial<StoredSettings>;
+}
+
+const readLegacy = (key: string) => {
+  const saved = localStorage.getItem(key);
+  if (saved === null) return undefined;
+  try {
+    return JSON.parse(saved);
+  } catch (error) {
+    console.error(`Ignoring unreadable ${key}:`, error);
+    return undefined;
+  }
+};
+
+// Copies localStorage data into the database in one transaction, then
+// clears it. Returns false when there was nothing to migrate.
+const migrateLocalStorage = async (db: IDBDatabase) => {
+  if (typeof localStorage === "undefined") return false;
+  const legacyKeys = [
+    LEGACY_ADDRESSES_KEY,
+    ...(Object.values(LEGACY_KEYS) as string[]),
+  ];
+  if (!legacyKeys.some((key) => localStorage.getItem(key) !== null)) {
+    return false;
+  }
+
+  const tx = db.transaction([ADDRESS_STORE, SETTINGS_STORE], "readwrite");
+  const addresses = readLegacy(LEGACY_ADDRESSES_KEY);
+  if (Array.isArray(addresses)) {
+    writeAddresses(tx, addresses.map(reviveEntry));
+  }
+  (Object.keys(LEGACY_KEYS) as SettingKey[]).forEach((key) => {
+    const value = readLegacy(LEGACY_KEYS[key]!);
+    if (value !== undefined) {
+      tx.objectStore(SETTINGS_STORE).put(value, key);
+    }
+  });
+  await complete(tx);
+
+  legacyKeys.forEach((key) => localStorage.removeItem(key));
+  return true;
+};
+
+// Throws StorageLockedError until the lock's passphrase has been entered
+export const loadState = async (): Promise<StoredState> => {
+  const db = await openDb();
+  await getLockConfig();
+  if (isLocked()) throw new StorageLockedError();
+  await migrateLocalStorage(db);
+
+  const tx = db.transaction([ADDRESS_STORE, SETTINGS_STORE]);
+  const settingsStore = tx.objectStore(SETTINGS_STORE);
+  const [records, keys, values] = await Promise.all([
+    promisify(tx.objectStore(ADDRESS_STORE).getAll()),
+    promisify(settingsStore.getAllKeys()),
+    promisify(settingsStore.getAll()),
+  ]);
+
+  const addresses = await Promise.all(
+    (records as AddressRecord[])
+      .sort((a, b) => a.position - b.position)
+      .map(async (record) =>
+        reviveEntry(await openValue<TrackedEntry>(record.entry))
+      )
+  );
+  const opened = await Promise.all(values.map((value) => openValue(value)));
+  const settings: Partial<StoredSettings> = {};
+  keys.forEach((key, i) => {
+    (settings as Record<string, unknown>)[String(key)] = opened[i];
+  });
+
+  // What's on disk is the baseline for skipping no-op saves
+  lastKnown.set(ADDRESS_STORE, JSON.stringify(addresses));
+  Object.entries(settings).forEach(([key, value]) =>
+    lastKnown.set(key, JSON.stringify(value))
+  );
+  return { addresses, settings };
+};
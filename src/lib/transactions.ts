@@ -0,0 +1,132 @@
+import {
+  TXS_PAGE_SIZE,
+  type ChainProvider,
+  type ProviderTx,
+} from "./providers";
+
+// --- Transaction History ---
+
+export type TxDirection = "incoming" | "outgoing" | "self";
+
+export interface TxRecord {
+  txid: string;
+  confirmed: boolean;
+  blockHeight: number | null;
+  blockTime: number | null; // ms
+  deltaSats: number; // Net change across the entry's own addresses
+  feeSats: number | null; // Only known when we funded the transaction
+  direction: TxDirection;
+  internal: boolean; // Other side includes another tracked address
+  counterparties: string[]; // Those other tracked addresses
+}
+
+export interface HistoryPage {
+  txs: ProviderTx[];
+  nextCursor: string | null; // Last confirmed txid, if more pages exist
+}
+
+// Newest first, with mempool transactions on top
+export const compareTxs = (a: ProviderTx, b: ProviderTx) => {
+  const rank = (tx: ProviderTx) =>
+    tx.status.confirmed ? tx.status.block_height! : Number.MAX_SAFE_INTEGER;
+  return rank(b) - rank(a);
+};
+
+const withDetails = (provider: ChainProvider, txs: ProviderTx[]) =>
+  Promise.all(
+    txs.map((tx) =>
+      tx.vin && tx.vout
+        ? tx
+        : provider
+            .getTransaction(tx.txid)
+            .then((details) => ({ ...details, status: tx.status }))
+    )
+  );
+
+// One page of `/address/:address/txs` style pagination
+export const fetchHistoryPage = async (
+  provider: ChainProvider,
+  address: string,
+  cursor?: string
+): Promise<HistoryPage> => {
+  const page = await provider.getAddressTxs(address, cursor);
+  const confirmed = page.filter((tx) => tx.status.confirmed);
+  return {
+    txs: await withDetails(provider, page),
+    nextCursor:
+      confirmed.length === TXS_PAGE_SIZE
+        ? confirmed[confirmed.length - 1].txid
+        : null,
+  };
+};
+
+// Full history across several addresses (e.g. every used address of an
+// xpub), deduplicated since change often lands in the same transaction
+export const fetchFullHistory = async (
+  provider: ChainProvider,
+  addresses: string[]
+) => {
+  const byTxid = new Map<string, ProviderTx>();
+  for (const address of addresses) {
+    let cursor: string | undefined;
+    do {
+      const page = await fetchHistoryPage(provider, address, cursor);
+      page.txs.forEach((tx) => byTxid.set(tx.txid, tx));
+      cursor = page.nextCursor || undefined;
+    } while (cursor);
+  }
+  return [...byTxid.values()].sort(compareTxs);
+};
+
+export const classifyTx = (
+  tx: ProviderTx,
+  own: Set<string>,
+  tracked: Set<string>
+): TxRecord => {
+  const inputs = (tx.vin || [])
+    .map((input) => input.prevout)
+    .filter((prevout) => prevout !== null);
+  const outputs = tx.vout || [];
+  const isOwn = (address?: string) => !!address && own.has(address);
+
+  const received = outputs
+    .filter((output) => isOwn(output.scriptpubkey_address))
+    .reduce((acc, curr) => acc + curr.value, 0);
+  const spent = inputs
+    .filter((prevout) => isOwn(prevout.scriptpubkey_address))
+    .reduce((acc, curr) => acc + curr.value, 0);
+  const deltaSats = received - spent;
+
+  // The other side: who paid us, or who we paid
+  const otherSide = (deltaSats >= 0 && spent === 0 ? inputs : outputs)
+    .map((item) => item.scriptpubkey_address)
+    .filter((address): address is string => !!address && !own.has(address));
+  const counterparties = [
+    ...new Set(otherSide.filter((address) => tracked.has(address))),
+  ];
+
+  const everythingOwn =
+    spent > 0 &&
+    [...inputs, ...outputs].every((item) => isOwn(item.scriptpubkey_address));
+
+  return {
+    txid: tx.txid,
+    confirmed: tx.status.confirmed,
+    blockHeight: tx.status.block_height ?? null,
+    blockTime: tx.status.block_time ? tx.status.block_time * 1000 : null,
+    deltaSats,
+    feeSats: spent > 0 && tx.fee !== undefined ? tx.fee : null,
+    direction: everythingOwn
+      ? "self"
+      : deltaSats >= 0
+      ? "incoming"
+      : "outgoing",
+    internal: counterparties.length > 0,
+    counterparties,
+  };
+};
+
+export const getConfirmations = (record: TxRecord, tipHeight: number | null) =>
+  record.confirmed && record.blockHeight && tipHeight
+    ? tipHeight - record.blockHeight + 1
+    : 0;
@@ -0,0 +1,122 @@
+import type { ChainProvider } from "./providers";
+import type { TrackedEntry } from "./entries";
+import { getAddressInfo, type AddressType } from "./address";
+import { entryNetwork, type BitcoinNetwork } from "./networks";
+
+// --- UTXO Analytics ---
+
+export type UtxoFlag = "dust" | "uneconomical" | "reused" | "unconfirmed";
+
+export interface UtxoRecord {
+  txid: string;
+  vout: number;
+  value: number;
+  address: string;
+  entryId: number;
+  network: BitcoinNetwork;
+  confirmed: boolean;
+  blockHeight: number | null;
+  blockTime: number | null; // ms
+  scriptType: AddressType | null;
+}
+
+// Approximate vbytes to spend one input of each type. P2SH is assumed to be
+// nested P2WPKH and P2WSH a 2-of-3 multisig, the common cases.
+export const INPUT_VBYTES: Record<AddressType, number> = {
+  p2pkh: 148,
+  p2sh: 91,
+  p2wpkh: 68,
+  p2wsh: 105,
+  p2tr: 58,
+};
+
+// Bitcoin Core's default relay dust limits at 3 sat/vB
+export const DUST_LIMITS: Record<AddressType, number> = {
+  p2pkh: 546,
+  p2sh: 540,
+  p2wpkh: 294,
+  p2wsh: 330,
+  p2tr: 330,
+};
+
+export const spendCost = (utxo: UtxoRecord, feeRate: number) =>
+  Math.ceil(INPUT_VBYTES[utxo.scriptType ?? "p2pkh"] * feeRate);
+
+// Addresses that funded more than once hurt privacy: each deposit links the
+// payers to everything else on the address
+const reusedAddresses = (utxos: UtxoRecord[], entries: TrackedEntry[]) => {
+  const counts = new Map<string, number>();
+  utxos.forEach((utxo) =>
+    counts.set(utxo.address, (counts.get(utxo.address) || 0) + 1)
+  );
+  const reused = new Set(
+    [...counts].filter(([, count]) => count > 1).map(([address]) => address)
+  );
+  // A used xpub address with more than a receive and a spend was reused too
+  entries.forEach((entry) =>
+    entry.derived?.forEach((derived) => {
+      if (derived.txCount > 2) reused.add(derived.address);
+    })
+  );
+  return reused;
+};
+
+export const flagUtxos = (
+  utxos: UtxoRecord[],
+  entries: TrackedEntry[],
+  feeRate: number | null
+) => {
+  const reused = reusedAddresses(utxos, entries);
+  return utxos.map((utxo) => {
+    const flags: UtxoFlag[] = [];
+    if (utxo.value < DUST_LIMITS[utxo.scriptType ?? "p2pkh"]) {
+      flags.push("dust");
+    } else if (feeRate && spendCost(utxo, feeRate) >= utxo.value) {
+      flags.push("uneconomical");
+    }
+    if (reused.has(utxo.address)) flags.push("reused");
+    if (!utxo.confirmed) flags.push("unconfirmed");
+    return { ...utxo, flags };
+  });
+};
+
+// Every unspent output across the tracked entries. Empty addresses are
+// skipped, so the last refresh's balances need to be current.
+export const fetchUtxos = async (
+  chainFor: (network: BitcoinNetwork) => ChainProvider,
+  entries: TrackedEntry[]
+) => {
+  const targets = entries.flatMap((entry) =>
+    entry.kind === "wallet"
+      ? (entry.derived || [])
+          .filter((derived) => derived.balanceSats > 0)
+          .map((derived) => ({ entry, address: derived.address }))
+      : entry.kind !== "lightning" && entry.balanceSats > 0
+      ? [{ entry, address: entry.address }]
+      : []
+  );
+
+  const utxos: UtxoRecord[] = [];
+  for (const { entry, address } of targets) {
+    const scriptType = getAddressInfo(address)?.type ?? null;
+    const network = entryNetwork(entry);
+    const found = await chainFor(network).getAddressUtxos(address);
+    found.forEach((utxo) =>
+      utxos.push({
+        txid: utxo.txid,
+        vout: utxo.vout,
+        value: utxo.value,
+        address,
+        entryId: entry.id,
+        network,
+        confirmed: utxo.status.confirmed,
+        blockHeight: utxo.status.block_height ?? null,
+        blockTime: utxo.status.block_time
+          ? utxo.status.block_time * 1000
+          : null,
+        scriptType,
+      })
+    );
+  }
+  return utxos;
+};
@@ -0,0 +1,119 @@
+import { describe, expect, it } from "vitest";
+import {
+  clampGapLimit,
+  deriveAddresses,
+  isExtendedKeyInput,
+  parseWalletInput,
+  scanWallet,
+} from "./xpub";
+
+// Account 0 of the "abandon ... about" mnemonic, from BIP 44/49/84
+const XPUB =
+  "xpub6BosfCnifzxcFwrSzQiqu2DBVTshkCXacvNsWGYJVVhhawA7d4R5WSWGFNbi8Aw6ZRc1brxMyWMzG3DSSSSoekkudhUd9yLb6qx39T9nMdj";
+const YPUB =
+  "ypub6Ww3ibxVfGzLrAH1PNcjyAWenMTbbAosGNB6VvmSEgytSER9azLDWCxoJwW7Ke7icmizBMXrzBx9979FfaHxHcrArf3zbeJJJUZPf663zsP";
+const ZPUB =
+  "zpub6rFR7y4Q2AijBEqTUquhVz398htDFrtymD9xYYfG1m4wAcvPhXNfE3EfH1r1ADqtfSdVCToUG868RvUUkgDKf31mGDtKsAYz2oz2AGutZYs";
+
+describe("parseWalletInput", () => {
+  it("maps SLIP-132 prefixes to script types", () => {
+    expect(parseWalletInput(XPUB)).toMatchObject({
+      scriptType: "p2pkh",
+      network: "mainnet",
+      chains: [0, 1],
+    });
+    expect(parseWalletInput(YPUB).scriptType).toBe("p2sh-p2wpkh");
+    expect(parseWalletInput(ZPUB).scriptType).toBe("p2wpkh");
+  });
+
+  it("reads the script type, origin and chain from a descriptor", () => {
+    const descriptor = parseWalletInput(
+      `wpkh([73C5DA0A/84'/0'/0']${XPUB}/0/*)#abcdefgh`
+    );
+    expect(descriptor).toMatchObject({
+      key: XPUB,
+      scriptType: "p2wpkh",
+      fingerprint: "73c5da0a",
+      originPath: "84h/0h/0h",
+      chains: [0],
+    });
+  });
+
+  it("rejects keys with a bad checksum or an unknown prefix", () => {
+    expect(() => parseWalletInput(`${ZPUB.slice(0, -1)}t`)).toThrow();
+    expect(() => parseWalletInput("qpub" + ZPUB.slice(4))).toThrow();
+  });
+
+  it("recognises keys and descriptors as wallet input", () => {
+    expect(isExtendedKeyInput(ZPUB)).toBe(true);
+    expect(isExtendedKeyInput(`sh(wpkh(${YPUB}))`)).toBe(true);
+    expect(
+      isExtendedKeyInput("bc1qcr8te4kr609gcawutmrza0j4xv80jy8z306fyu")
+    ).toBe(false);
+  });
+});
+
+describe("deriveAddresses", () => {
+  it("matches the BIP 84 test vectors", () => {
+    const descriptor = parseWalletInput(ZPUB);
+    expect(deriveAddresses(descriptor, 0, 0, 2)).toEqual([
+      "bc1qcr8te4kr609gcawutmrza0j4xv80jy8z306fyu",
+      "bc1qnjg0jd8228aq7egyzacy8cys3knf9xvrerkf9g",
+    ]);
+    expect(deriveAddresses(descriptor, 1, 0, 1)).toEqual([
+      "bc1q8c6fshw2dlwun7ekn9qwf37cu2rn755upcp6el",
+    ]);
+  });
+
+  it("matches the BIP 44 and BIP 49 test vectors", () => {
+    expect(deriveAddresses(parseWalletInput(XPUB), 0, 0, 1)).toEqual([
+      "1LqBGSKuX5yYUonjxT5qGfpUsXKYYWeabA",
+    ]);
+    expect(deriveAddresses(parseWalletInput(YPUB), 0, 0, 1)).toEqual([
+      "37VucYSaXLCAsxYyAPfbSi9eh4iEcbShgf",
+    ]);
+  });
+});
+
+describe("clampGapLimit", () => {
+  it("keeps gap limits between 1 and 200", () => {
+    expect(clampGapLimit(50)).toBe(50);
+    expect(clampGapLimit(5000)).toBe(200);
+    expect(clampGapLimit(-3)).toBe(1);
+    expect(clampGapLimit(7.9)).toBe(7);
+    expect(clampGapLimit(NaN)).toBe(20);
+  });
+});
+
+describe("scanWallet", () => {
+  it("stops each chain after gap limit unused addresses", async () => {
+    const descriptor = parseWalletInput(ZPUB);
+    const [, , , used] = deriveAddresses(descriptor, 0, 0, 4);
+    const seen: string[] = [];
+    const scan = await scanWallet(descriptor, 5, async (address) => {
+      seen.push(address);
+      return address === used
+        ? { balanceSats: 1000, lastTxTime: 1700000000000, txCount: 2 }
+        : { balanceSats: 0, lastTxTime: null, txCount: 0 };
+    });
+
+    // Receive: 0-3 plus five unused after the last used one; change: 0-4
+    expect(seen).toHaveLength(9 + 5);
+    expect(scan).toMatchObject({
+      balanceSats: 1000,
+      lastTxTime: 1700000000000,
+      nextReceiveIndex: 4,
+    });
+    expect(scan?.derived).toEqual([
+      expect.objectContaining({ address: used, chain: 0, index: 3 }),
+    ]);
+  });
+
+  it("rejects the whole scan when a lookup fails", async () => {
+    await expect(
+      scanWallet(parseWalletInput(ZPUB), 3, async () => {
+        throw new Error("offline");
+      })
+    ).rejects.toThrow("offline");
+  });
+});
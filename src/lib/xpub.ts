@@ -0,0 +1,363 @@
+import { HDKey } from "@scure/bip32";
+import { p2ms, p2pkh, p2sh, p2tr, p2wpkh, p2wsh } from "@scure/btc-signer";
+import { signerNetwork } from "./networks";
+
+// --- Extended Public Keys & Descriptors ---
+
+export type ScriptType = "p2pkh" | "p2sh-p2wpkh" | "p2wpkh" | "p2tr" | "p2wsh";
+// tpub/upub/vpub keys serve every test network; regtest is set after parsing
+// since its bech32 prefix differs
+export type KeyNetwork = "mainnet" | "testnet" | "regtest";
+
+export interface WalletDescriptor {
+  key: string; // Extended public key as pasted (xpub/ypub/zpub/...)
+  scriptType: ScriptType;
+  network: KeyNetwork;
+  fingerprint: string | null; // Master fingerprint from a descriptor origin
+  originPath: string | null; // e.g. "84h/0h/0h"
+  chains: number[]; // Usually [0, 1] (receive, change)
+  // Only on p2wsh wallets, whose `key` is then the whole descriptor
+  multisig?: MultisigPolicy;
+}
+
+export interface Cosigner {
+  key: string;
+  fingerprint: string | null;
+  originPath: string | null;
+}
+
+export interface MultisigPolicy {
+  threshold: number;
+  sorted: boolean; // sortedmulti: BIP 67 key order instead of as listed
+  cosigners: Cosigner[];
+}
+
+export interface DerivedAddress {
+  address: string;
+  chain: number;
+  index: number;
+  balanceSats: number;
+  txCount: number;
+  lastTxTime: number | "pending" | null;
+}
+
+export interface WalletScan {
+  balanceSats: number;
+  lastTxTime: number | "pending" | null;
+  derived: DerivedAddress[]; // Only addresses that have seen a transaction
+  nextReceiveIndex: number;
+}
+
+export type AddressFetcher = (address: string) => Promise<{
+  balanceSats: number;
+  lastTxTime: number | "pending" | null;
+  txCount: number;
+}>;
+
+export const DEFAULT_GAP_LIMIT = 20;
+// Each step of the gap limit is another lookup per chain, so keep it sane
+export const MAX_GAP_LIMIT = 200;
+
+export const clampGapLimit = (gapLimit: number) =>
+  Math.min(
+    MAX_GAP_LIMIT,
+    Math.max(1, Math.floor(gapLimit) || DEFAULT_GAP_LIMIT)
+  );
+
+// SLIP-132 version bytes. xpub/tpub alone don't say which script is used, so
+// they default to legacy unless wrapped in a descriptor.
+const KEY_VERSIONS: Record<
+  string,
+  { version: number; scriptType: ScriptType; network: KeyNetwork }
+> = {
+  xpub: { version: 0x0488b21e, scriptType: "p2pkh", network: "mainnet" },
+  ypub: { version: 0x049d7cb2, scriptType: "p2sh-p2wpkh", network: "mainnet" },
+  zpub: { version: 0x04b24746, scriptType: "p2wpkh", network: "mainnet" },
+  tpub: { version: 0x043587cf, scriptType: "p2pkh", network: "testnet" },
+  upub: { version: 0x044a5262, scriptType: "p2sh-p2wpkh", network: "testnet" },
+  vpub: { version: 0x045f1cf6, scriptType: "p2wpkh", network: "testnet" },
+  // Multisig cosigner keys; only usable inside a wsh(multi(...)) policy
+  Zpub: { version: 0x02aa7ed3, scriptType: "p2wsh", network: "mainnet" },
+  Vpub: { version: 0x02575483, scriptType: "p2wsh", network: "testnet" },
+};
+
+const DESCRIPTOR_WRAPPERS: { pattern: RegExp; scriptType: ScriptType }[] = [
+  { pattern: /^pkh\((.+)\)$/, scriptType: "p2pkh" },
+  { pattern: /^sh\(wpkh\((.+)\)\)$/, scriptType: "p2sh-p2wpkh" },
+  { pattern: /^wpkh\((.+)\)$/, scriptType: "p2wpkh" },
+  { pattern: /^tr\((.+)\)$/, scriptType: "p2tr" },
+];
+
+const MULTISIG_DESCRIPTOR = /^wsh\((sorted)?multi\((\d+),(.+)\)\)$/;
+
+// Bitcoin Core and Sparrow accept both; only P2WSH is supported here
+const UNSUPPORTED_MULTISIG = /^(sh\(wsh|sh)\((sorted)?multi\(/;
+
+const KEY_EXPRESSION =
+  /^(?:\[([0-9a-fA-F]{8})((?:\/\d+['hH]?)*)\])?([a-zA-Z0-9]+)((?:\/(?:\d+|<\d+;\d+>|\*))*)$/;
+
+export const isExtendedKeyInput = (input: string) => {
+  const value = input.trim();
+  return (
+    Object.keys(KEY_VERSIONS).some((prefix) => value.startsWith(prefix)) ||
+    [
+      ...DESCRIPTOR_WRAPPERS.map(({ pattern }) => pattern),
+      MULTISIG_DESCRIPTOR,
+      UNSUPPORTED_MULTISIG,
+    ].some((pattern) => pattern.test(value.replace(/#[a-z0-9]{8}$/, "")))
+  );
+};
+
+const parseKeyExpression = (expression: string, scriptType?: ScriptType) => {
+  const match = expression.match(KEY_EXPRESSION);
+  if (!match) throw new Error("Unrecognized key expression");
+  const [, fingerprint, origin, key, suffix] = match;
+
+  const info = KEY_VERSIONS[key.slice(0, 4)];
+  if (!info) throw new Error("Unsupported extended key prefix");
+
+  // "/0/*" pins a single chain, "/<0;1>/*" or no suffix means receive + change
+  let chains = [0, 1];
+  const single = suffix.match(/^\/(\d+)\/\*$/);
+  if (single) chains = [Number(single[1])];
+  else if (suffix && !/^\/<0;1>\/\*$/.test(suffix)) {
+    throw new Error("Unsupported derivation suffix in descriptor");
+  }
+
+  const descriptor: WalletDescriptor = {
+    key,
+    scriptType: scriptType || info.scriptType,
+    network: info.network,
+    fingerprint: fingerprint ? fingerprint.toLowerCase() : null,
+    originPath: origin ? origin.slice(1).replace(/'/g, "h") : null,
+    chains,
+  };
+  // Validates checksum and version bytes up front
+  toHDKey(descriptor);
+  return descriptor;
+};
+
+const parseMultisig = (
+  sorted: boolean,
+  threshold: number,
+  keyList: string
+): WalletDescriptor => {
+  const keys = keyList
+    .split(",")
+    .map((expression) => parseKeyExpression(expression.trim(), "p2wsh"));
+  if (keys.length < 2 || keys.length > 15) {
+    throw new Error("Multisig needs between 2 and 15 cosigner keys");
+  }
+  if (threshold < 1 || threshold > keys.length) {
+    throw new Error(
+      `Quorum of ${threshold} can't be met by ${keys.length} keys`
+    );
+  }
+  if (new Set(keys.map((key) => key.key)).size !== keys.length) {
+    throw new Error("The same cosigner key is listed twice");
+  }
+  const [first] = keys;
+  if (keys.some((key) => key.network !== first.network)) {
+    throw new Error("Cosigner keys are for different networks");
+  }
+  if (keys.some((key) => key.chains.join() !== first.chains.join())) {
+    throw new Error("Cosigner keys use different derivation suffixes");
+  }
+
+  const multisig: MultisigPolicy = {
+    threshold,
+    sorted,
+    cosigners: keys.map(({ key, fingerprint, originPath }) => ({
+      key,
+      fingerprint,
+      originPath,
+    })),
+  };
+  return {
+    key: multisigDescriptor(multisig, first.chains),
+    scriptType: "p2wsh",
+    network: first.network,
+    fingerprint: null,
+    originPath: null,
+    chains: first.chains,
+    multisig,
+  };
+};
+
+// Canonical form without a checksum, so the same wallet pasted with or
+// without one (or with different spacing) is recognised as a duplicate
+export const multisigDescriptor = (
+  policy: MultisigPolicy,
+  chains: number[] = [0, 1]
+) => {
+  const suffix = chains.length === 1 ? `/${chains[0]}/*` : "/<0;1>/*";
+  const keys = policy.cosigners.map(
+    ({ key, fingerprint, originPath }) =>
+      `${
+        fingerprint
+          ? `[${fingerprint}${originPath ? `/${originPath}` : ""}]`
+          : ""
+      }${key}${suffix}`
+  );
+  return `wsh(${policy.sorted ? "sorted" : ""}multi(${
+    policy.threshold
+  },${keys.join(",")}))`;
+};
+
+export const parseWalletInput = (input: string): WalletDescriptor => {
+  const value = input
+    .trim()
+    .replace(/#[a-z0-9]{8}$/, "")
+    .replace(/\s+/g, "");
+  const multi = value.match(MULTISIG_DESCRIPTOR);
+  if (multi) return parseMultisig(!!multi[1], Number(multi[2]), multi[3]);
+  if (UNSUPPORTED_MULTISIG.test(value)) {
+    throw new Error("Only native SegWit (P2WSH) multisig is supported");
+  }
+  for (const { pattern, scriptType } of DESCRIPTOR_WRAPPERS) {
+    const match = value.match(pattern);
+    if (match) return parseKeyExpression(match[1], scriptType);
+  }
+  const descriptor = parseKeyExpression(value);
+  if (descriptor.scriptType === "p2wsh") {
+    throw new Error(
+      "Multisig cosigner key; import the wallet's descriptor or config file"
+    );
+  }
+  return descriptor;
+};
+
+const toHDKey = (descriptor: WalletDescriptor) => {
+  const { version } = KEY_VERSIONS[descriptor.key.slice(0, 4)];
+  return HDKey.fromExtendedKey(descriptor.key, { public: version, private: 0 });
+};
+
+const encodeAddress = (
+  publicKey: Uint8Array,
+  scriptType: ScriptType,
+  network: KeyNetwork
+) => {
+  const net = signerNetwork(network);
+  switch (scriptType) {
+    case "p2pkh":
+      return p2pkh(publicKey, net).address!;
+    case "p2sh-p2wpkh":
+      return p2sh(p2wpkh(publicKey, net), net).address!;
+    case "p2wpkh":
+      return p2wpkh(publicKey, net).address!;
+    case "p2tr":
+      return p2tr(publicKey.slice(1), undefined, net).address!;
+    case "p2wsh":
+      throw new Error("Multisig addresses need every cosigner's key");
+  }
+};
+
+// Byte-wise, as BIP 67 orders sortedmulti keys
+const compareKeys = (a: Uint8Array, b: Uint8Array) => {
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    if (a[i] !== b[i]) return a[i] - b[i];
+  }
+  return a.length - b.length;
+};
+
+const deriveMultisigAddresses = (
+  descriptor: WalletDescriptor,
+  chain: number,
+  from: number,
+  count: number
+) => {
+  const { threshold, sorted, cosigners } = descriptor.multisig!;
+  const chainKeys = cosigners.map((cosigner) =>
+    toHDKey({ ...descriptor, key: cosigner.key }).deriveChild(chain)
+  );
+  const net = signerNetwork(descriptor.network);
+  return Array.from({ length: count }, (_, i) => {
+    const publicKeys = chainKeys.map(
+      (chainKey) => chainKey.deriveChild(from + i).publicKey!
+    );
+    if (sorted) publicKeys.sort(compareKeys);
+    return p2wsh(p2ms(threshold, publicKeys), net).address!;
+  });
+};
+
+export const deriveAddresses = (
+  descriptor: WalletDescriptor,
+  chain: number,
+  from: number,
+  count: number
+) => {
+  if (descriptor.multisig) {
+    return deriveMultisigAddresses(descriptor, chain, from, count);
+  }
+  const chainKey = toHDKey(descriptor).deriveChild(chain);
+  return Array.from({ length: count }, (_, i) => {
+    const child = chainKey.deriveChild(from + i);
+    return encodeAddress(
+      child.publicKey!,
+      descriptor.scriptType,
+      descriptor.network
+    );
+  });
+};
+
+export const describeWallet = (descriptor: WalletDescriptor) => {
+  const labels: Record<ScriptType, string> = {
+    p2pkh: "Legacy",
+    "p2sh-p2wpkh": "Nested SegWit",
+    p2wpkh: "Native SegWit",
+    p2tr: "Taproot",
+    p2wsh: "Multisig",
+  };
+  if (descriptor.multisig) {
+    const { threshold, cosigners } = descriptor.multisig;
+    return `${threshold}-of-${cosigners.length} Multisig`;
+  }
+  return labels[descriptor.scriptType];
+};
+
+const latestTxTime = (items: { lastTxTime: number | "pending" | null }[]) => {
+  if (items.some((item) => item.lastTxTime === "pending")) return "pending";
+  const times = items
+    .map((item) => item.lastTxTime)
+    .filter((time): time is number => typeof time === "number");
+  return times.length > 0 ? Math.max(...times) : null;
+};
+
+// Walks each chain in batches until `gapLimit` consecutive addresses come back
+// unused (BIP-44 account discovery). Any failed lookup rejects the whole scan
+// so a partial balance is never reported.
+export const scanWallet = async (
+  descriptor: WalletDescriptor,
+  gapLimit: number,
+  fetchAddress: AddressFetcher
+): Promise<WalletScan> => {
+  const derived: DerivedAddress[] = [];
+  let nextReceiveIndex = 0;
+
+  for (const chain of descriptor.chains) {
+    let index = 0;
+    let lastUsed = -1;
+
+    while (index <= lastUsed + gapLimit) {
+      const count = lastUsed + gapLimit + 1 - index;
+      const batch = deriveAddresses(descriptor, chain, index, count);
+      const results = await Promise.all(batch.map(fetchAddress));
+
+      results.forEach((result, i) => {
+        if (result.txCount === 0) return;
+        lastUsed = index + i;
+        derived.push({ address: batch[i], chain, index: index + i, ...result });
+      });
+      index += count;
+    }
+
+    if (chain === 0) nextReceiveIndex = lastUsed + 1;
+  }
+
+  return {
+    balanceSats: derived.reduce((acc, curr) => acc + curr.balanceSats, 0),
+    lastTxTime: latestTxTime(derived),
+    derived,
+    nextReceiveIndex,
+  };
+};
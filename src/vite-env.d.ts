@@ -1 +1,4 @@
 /// <reference types="vite/client" />
+
+// Set per build in vite.config.ts; names the service worker's cache
+declare const __BUILD_ID__: string;
@@ -1,7 +1,14 @@
+/// <reference types="vitest/config" />
 import { defineConfig } from "vite";
 import react from "@vitejs/plugin-react";
 
 // https://vitejs.dev/config/
 export default defineConfig({
   plugins: [react()],
+  define: {
+    __BUILD_ID__: JSON.stringify(Date.now().toString(36)),
+  },
+  test: {
+    globalSetup: ["scripts/mock-mempool-ws.setup.mjs"],
+  },
 });